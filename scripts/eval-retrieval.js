@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+/**
+ * Retrieval evaluation runner
+ * 
+ * Runs a project's golden set through the eval endpoint, prints recall@k,
+ * MRR and nDCG per strategy with the change since the previous run, and
+ * exits non-zero when a metric regressed.
+ * 
+ * Usage: node scripts/eval-retrieval.js <projectId> <goldenSetId> [k]
+ * 
+ * Requires EVAL_AUTH_TOKEN, a Clerk session token for the project's owner.
+ */
+
+import { config } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+// Load environment variables
+const __dirname = dirname(fileURLToPath(import.meta.url));
+config({ path: join(__dirname, '../.env.local') });
+
+const API_BASE = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+/**
+ * Format a metric with its change since the previous run
+ */
+function formatMetric(value, delta) {
+  const formatted = value.toFixed(3);
+  if (delta === undefined) return formatted;
+  const sign = delta >= 0 ? '+' : '';
+  return `${formatted} (${sign}${delta.toFixed(3)})`;
+}
+
+async function main() {
+  const [projectId, goldenSetId, k] = process.argv.slice(2);
+
+  if (!projectId || !goldenSetId) {
+    console.error('Usage: node scripts/eval-retrieval.js <projectId> <goldenSetId> [k]');
+    process.exit(2);
+  }
+
+  if (!process.env.EVAL_AUTH_TOKEN) {
+    console.error('❌ EVAL_AUTH_TOKEN is not set');
+    process.exit(2);
+  }
+
+  console.log(`🔍 Evaluating golden set ${goldenSetId} on project ${projectId}...\n`);
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/eval/runs`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${process.env.EVAL_AUTH_TOKEN}`
+    },
+    body: JSON.stringify({ goldenSetId, ...(k ? { k: parseInt(k, 10) } : {}) })
+  });
+
+  const result = await response.json();
+
+  if (!result.ok) {
+    console.error(`❌ Evaluation failed: ${result.error}`);
+    process.exit(2);
+  }
+
+  const run = result.data;
+
+  console.table(Object.fromEntries(run.results.map(strategyResult => [
+    strategyResult.strategy.name,
+    {
+      [`recall@${run.k}`]: formatMetric(strategyResult.metrics.recall_at_k, strategyResult.delta?.recall_at_k),
+      mrr: formatMetric(strategyResult.metrics.mrr, strategyResult.delta?.mrr),
+      ndcg: formatMetric(strategyResult.metrics.ndcg, strategyResult.delta?.ndcg),
+    }
+  ])));
+
+  const failed = run.results.flatMap(strategyResult => strategyResult.queries.filter(query => query.error));
+  if (failed.length > 0) {
+    console.warn(`⚠️  ${failed.length} queries failed to retrieve and scored 0`);
+  }
+
+  if (run.regressions.length > 0) {
+    console.error('\n❌ Regressions since the previous run:');
+    run.regressions.forEach(regression => console.error(`  ${regression}`));
+    process.exit(1);
+  }
+
+  console.log(`\n🎉 No regressions (run ${run._id})`);
+}
+
+main().catch(error => {
+  console.error('❌ Evaluation error:', error.message);
+  process.exit(2);
+});
@@ -82,6 +82,12 @@ async function setupIndexes(db) {
       index: { projectId: 1 },
       options: { name: 'drafts_projectId_1', background: true }
     },
+    // Draft revisions collection indexes
+    {
+      collection: 'draft_revisions',
+      index: { draftId: 1, revision: 1 },
+      options: { name: 'draft_revisions_draftId_1_revision_1', unique: true, background: true }
+    },
     // Projects collection indexes
     {
       collection: 'projects',
@@ -68,7 +68,7 @@ async function testTextIngestion() {
   console.log('\n🧪 Testing Text Content Ingestion...');
   
   try {
-    const response = await fetch(`${API_BASE}/api/ingest`, {
+    const response = await fetch(`${API_BASE}/api/ingest?wait=true`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -112,7 +112,7 @@ async function testUrlIngestion() {
   console.log('\n🧪 Testing URL Content Ingestion...');
   
   try {
-    const response = await fetch(`${API_BASE}/api/ingest`, {
+    const response = await fetch(`${API_BASE}/api/ingest?wait=true`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
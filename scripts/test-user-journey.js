@@ -175,7 +175,7 @@ Contact us today to learn more!`
     title: 'Sample Product Content'
   };
 
-  const result = await testEndpoint('POST', '/api/ingest', assetData);
+  const result = await testEndpoint('POST', '/api/ingest?wait=true', assetData);
   
   if (result.success) {
     success('Asset upload endpoint is working');
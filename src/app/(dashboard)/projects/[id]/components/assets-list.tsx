@@ -5,10 +5,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
-import { FileText, Loader2, Edit2, Trash2, Check, X, Layers } from "lucide-react"
+import { FileText, Loader2, Edit2, Trash2, Check, X, Layers, RefreshCw } from "lucide-react"
 import { toast } from "sonner"
 import { type Asset } from "../types"
 import { type Chunk } from "@/lib/schemas/chunk"
+import { formatTimestamp } from "@/lib/ingest/transcript"
 
 interface AssetsListProps {
   projectId: string;
@@ -27,6 +28,9 @@ export function AssetsList({ projectId, assets, isLoading, onAssetsChange }: Ass
   const [deletingAssetId, setDeletingAssetId] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
 
+  // State for re-syncing URL assets
+  const [resyncingAssetId, setResyncingAssetId] = useState<string | null>(null)
+
   // State for chunks modal
   const [chunksModalOpen, setChunksModalOpen] = useState(false)
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null)
@@ -110,6 +114,70 @@ export function AssetsList({ projectId, assets, isLoading, onAssetsChange }: Ass
     }
   }
 
+  // Refetch a URL asset and update its changed chunks
+  const handleResyncAsset = async (asset: Asset) => {
+    try {
+      setResyncingAssetId(asset._id)
+
+      const response = await fetch(`/api/projects/${projectId}/assets/${asset._id}/resync`, {
+        method: 'POST',
+      })
+
+      const result = await response.json()
+
+      if (result.ok) {
+        const sync = result.data
+        if (sync.status === 'unchanged') {
+          toast.success('The page has not changed since the last sync.')
+        } else {
+          toast.success(`Re-synced: ${sync.added} chunks added, ${sync.removed} removed, ${sync.unchanged} unchanged.`)
+          if (sync.flaggedDrafts > 0) {
+            toast.warning(`${sync.flaggedDrafts} drafts used content that changed and have been flagged.`)
+          }
+          if (sync.warning) {
+            toast.warning(sync.warning)
+          }
+        }
+        onAssetsChange() // Refresh the assets list
+      } else {
+        throw new Error(result.error || 'Failed to re-sync asset')
+      }
+    } catch (error) {
+      console.error('Error re-syncing asset:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to re-sync asset')
+      onAssetsChange() // The failed attempt is recorded on the asset
+    } finally {
+      setResyncingAssetId(null)
+    }
+  }
+
+  // Turn scheduled re-sync on or off
+  const handleResyncIntervalChange = async (asset: Asset, value: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/assets/${asset._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          resyncInterval: value === 'off' ? null : value,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.ok) {
+        toast.success(value === 'off' ? 'Scheduled re-sync turned off.' : `The page will be re-synced ${value}.`)
+        onAssetsChange() // Refresh the assets list
+      } else {
+        throw new Error(result.error || 'Failed to update re-sync schedule')
+      }
+    } catch (error) {
+      console.error('Error updating re-sync schedule:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update re-sync schedule')
+    }
+  }
+
   // Load chunks for a specific asset
   const loadChunks = async (asset: Asset) => {
     try {
@@ -239,6 +307,14 @@ export function AssetsList({ projectId, assets, isLoading, onAssetsChange }: Ass
                           {asset.chunkCount} chunks
                         </span>
                       )}
+                      {asset.lastSync && (
+                        <span
+                          className={`text-xs font-body ${asset.lastSync.status === 'failed' ? 'text-terracotta' : 'text-charcoal/60'}`}
+                          title={asset.lastSync.error}
+                        >
+                          {asset.lastSync.status === 'failed' ? 'Sync failed' : 'Synced'} {new Date(asset.lastSync.at).toLocaleDateString()}
+                        </span>
+                      )}
                     </div>
                   </div>
                   
@@ -260,6 +336,31 @@ export function AssetsList({ projectId, assets, isLoading, onAssetsChange }: Ass
                       )}
                     </Button>
                     
+                    {asset.sourceUrl && editingAssetId !== asset._id && (
+                      <>
+                        <select
+                          value={asset.resyncInterval ?? 'off'}
+                          onChange={(e) => handleResyncIntervalChange(asset, e.target.value)}
+                          className="tactile-input h-8 py-0 text-xs"
+                          title="Scheduled re-sync"
+                        >
+                          <option value="off">Manual sync</option>
+                          <option value="daily">Sync daily</option>
+                          <option value="weekly">Sync weekly</option>
+                        </select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="tactile-button-secondary px-2"
+                          onClick={() => handleResyncAsset(asset)}
+                          disabled={resyncingAssetId !== null}
+                          title="Re-sync from the source URL"
+                        >
+                          <RefreshCw className={`h-4 w-4 ${resyncingAssetId === asset._id ? 'animate-spin' : ''}`} />
+                        </Button>
+                      </>
+                    )}
+
                     {editingAssetId !== asset._id && (
                       <>
                         <Button
@@ -439,6 +540,15 @@ export function AssetsList({ projectId, assets, isLoading, onAssetsChange }: Ass
                           </span>
                         </div>
                       )}
+
+                      {chunk.meta?.start !== undefined && (
+                        <div className="mt-3 pt-3 border-t border-charcoal/10">
+                          <span className="text-xs text-charcoal/60 font-body">
+                            Recording: {formatTimestamp(chunk.meta.start)}–{formatTimestamp(chunk.meta.end ?? chunk.meta.start)}
+                            {chunk.meta.speakers && chunk.meta.speakers.length > 0 && ` · ${chunk.meta.speakers.join(', ')}`}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
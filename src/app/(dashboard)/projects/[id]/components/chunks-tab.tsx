@@ -24,9 +24,13 @@ import {
   Search,
   Filter,
   Calendar,
-  SlidersHorizontal
+  SlidersHorizontal,
+  Microscope,
+  FileSpreadsheet,
+  Mic
 } from "lucide-react"
 import { toast } from "sonner"
+import { RetrievalExplainPanel } from "./retrieval-explain-panel"
 import { type ChunkWithAsset, type CreateChunkRequest, type UpdateChunkRequest } from "../types"
 
 interface ChunksTabProps {
@@ -71,6 +75,7 @@ export function ChunksTab({
   const [selectedDateRange, setSelectedDateRange] = useState<string>('all')
   const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [showFilters, setShowFilters] = useState(false)
+  const [showExplain, setShowExplain] = useState(false)
   
   // Form state for creating new chunk
   const [newChunk, setNewChunk] = useState<CreateChunkRequest>({
@@ -529,6 +534,11 @@ export function ChunksTab({
         return <Globe className="h-4 w-4 text-green-500" />
       case 'md':
         return <FileText className="h-4 w-4 text-gray-500" />
+      case 'csv':
+      case 'xlsx':
+        return <FileSpreadsheet className="h-4 w-4 text-emerald-600" />
+      case 'transcript':
+        return <Mic className="h-4 w-4 text-purple-500" />
       default:
         return <Layers className="h-4 w-4 text-terracotta" />
     }
@@ -725,20 +735,32 @@ export function ChunksTab({
 
           {/* Filter Toggle and Controls */}
           <div className="flex items-center justify-between">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowFilters(!showFilters)}
-              className="tactile-button-secondary"
-            >
-              <SlidersHorizontal className="h-4 w-4 mr-2" />
-              Filters
-              {hasActiveFilters && (
-                <Badge variant="default" className="ml-2 h-5 w-5 p-0 text-xs">
-                  {[searchQuery.trim() ? 1 : 0, selectedAsset !== 'all' ? 1 : 0, selectedType !== 'all' ? 1 : 0, selectedDateRange !== 'all' ? 1 : 0, selectedTags.length > 0 ? 1 : 0].reduce((a, b) => a + b, 0)}
-                </Badge>
-              )}
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowFilters(!showFilters)}
+                className="tactile-button-secondary"
+              >
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Filters
+                {hasActiveFilters && (
+                  <Badge variant="default" className="ml-2 h-5 w-5 p-0 text-xs">
+                    {[searchQuery.trim() ? 1 : 0, selectedAsset !== 'all' ? 1 : 0, selectedType !== 'all' ? 1 : 0, selectedDateRange !== 'all' ? 1 : 0, selectedTags.length > 0 ? 1 : 0].reduce((a, b) => a + b, 0)}
+                  </Badge>
+                )}
+              </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowExplain(!showExplain)}
+                className="tactile-button-secondary"
+              >
+                <Microscope className="h-4 w-4 mr-2" />
+                Explain Retrieval
+              </Button>
+            </div>
 
             {hasActiveFilters && (
               <Button
@@ -847,6 +869,9 @@ export function ChunksTab({
               </div>
             </div>
           )}
+
+          {/* Retrieval explain mode */}
+          {showExplain && <RetrievalExplainPanel projectId={projectId} />}
         </div>
       </div>
 
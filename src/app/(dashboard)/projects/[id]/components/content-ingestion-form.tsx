@@ -1,25 +1,233 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
-import { Upload, Loader2 } from "lucide-react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Upload, Loader2, CheckCircle2, XCircle, Circle, RotateCcw, Globe } from "lucide-react"
 import { toast } from "sonner"
-import { type ContentType, type IngestResponse } from "../types"
+import { type ContentType, type CrawlResponse, type IngestJobResponse } from "../types"
+import { type IngestJob, type IngestStage } from "@/lib/schemas/ingestJob"
+import { type Crawl, MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from "@/lib/schemas/crawl"
+import { type SpreadsheetMapping as ColumnMapping } from "@/lib/schemas/ingestJob"
+import { SpreadsheetMapping } from "./spreadsheet-mapping"
 
 interface ContentIngestionFormProps {
   projectId: string;
   onAssetCreated: () => void;
 }
 
+const STAGE_LABELS: Record<IngestStage['name'], string> = {
+  extract: 'Extracting content',
+  chunk: 'Splitting into chunks',
+  label: 'Titling and tagging chunks',
+  embed: 'Embedding and saving',
+}
+
+const JOB_POLL_INTERVAL_MS = 2000
+
+function isFinished(job: IngestJob | Crawl): boolean {
+  return job.status === 'completed' || job.status === 'failed'
+}
+
+/**
+ * Pages of a crawl by outcome, e.g. "3 ingested, 1 unchanged"
+ */
+function crawlSummary(crawl: Crawl): string {
+  const counts = new Map<string, number>()
+  crawl.pages.forEach(page => counts.set(page.status, (counts.get(page.status) ?? 0) + 1))
+  return Array.from(counts, ([status, count]) => `${count} ${status}`).join(', ') || 'Starting...'
+}
+
+/**
+ * One stage of an ingestion job with its progress bar
+ */
+function IngestStageRow({ stage }: { stage: IngestStage }) {
+  const percent = stage.total ? Math.round((stage.done / stage.total) * 100) : stage.status === 'completed' ? 100 : 0
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm font-body">
+        <span className="flex items-center gap-2 text-charcoal">
+          {stage.status === 'running' && <Loader2 className="h-3 w-3 animate-spin text-terracotta" />}
+          {stage.status === 'completed' && <CheckCircle2 className="h-3 w-3 text-sage" />}
+          {stage.status === 'failed' && <XCircle className="h-3 w-3 text-terracotta" />}
+          {(stage.status === 'pending' || stage.status === 'skipped') && <Circle className="h-3 w-3 text-charcoal/30" />}
+          <span className={stage.status === 'skipped' ? 'text-charcoal/40 line-through' : ''}>
+            {STAGE_LABELS[stage.name]}
+          </span>
+        </span>
+        {stage.total !== undefined && stage.total > 1 && (
+          <span className="text-xs text-charcoal/60">{stage.done} / {stage.total}</span>
+        )}
+      </div>
+      {stage.status !== 'skipped' && (
+        <div className="h-1.5 bg-charcoal/10 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${stage.status === 'failed' ? 'bg-terracotta' : 'bg-sage'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+      {stage.error && <p className="text-xs text-terracotta font-body">{stage.error}</p>}
+      {stage.warning && <p className="text-xs text-charcoal/60 font-body">{stage.warning}</p>}
+    </div>
+  )
+}
+
 export function ContentIngestionForm({ projectId, onAssetCreated }: ContentIngestionFormProps) {
   const [textContent, setTextContent] = useState('')
   const [urlContent, setUrlContent] = useState('')
   const [title, setTitle] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null)
+  const [isTranscript, setIsTranscript] = useState(false)
   const [activeTab, setActiveTab] = useState<ContentType>('text')
+  const [job, setJob] = useState<IngestJob | null>(null)
+  const [trackingKey, setTrackingKey] = useState(0) // Bumped to (re)start following the job
+  const [isRetrying, setIsRetrying] = useState(false)
+  const [crawlSite, setCrawlSite] = useState(false)
+  const [crawlDepth, setCrawlDepth] = useState(2)
+  const [crawlPages, setCrawlPages] = useState(25)
+  const [crawl, setCrawl] = useState<Crawl | null>(null)
+
+  const jobId = job?._id
+  const crawlId = crawl?._id
+  const isSpreadsheet = /\.(csv|xlsx)$/i.test(selectedFile?.name ?? '') // Needs a column mapping
+  const isPlainText = /\.txt$/i.test(selectedFile?.name ?? '') // May be a transcript
+
+  // The parent's callback may change every render; the subscription shouldn't
+  const onAssetCreatedRef = useRef(onAssetCreated)
+  useEffect(() => {
+    onAssetCreatedRef.current = onAssetCreated
+  }, [onAssetCreated])
+
+  // Follow the job over server-sent events, falling back to polling
+  useEffect(() => {
+    if (!jobId || trackingKey === 0) return
+
+    let closed = false
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+    let events: EventSource | null = null
+
+    const handleFinished = (finished: IngestJob) => {
+      if (finished.status === 'completed' && finished.result) {
+        toast.success(finished.result.duplicate
+          ? `This content was already ingested (${finished.result.chunkCount} chunks).`
+          : `Content ingested successfully! Created ${finished.result.chunkCount} chunks.`)
+        onAssetCreatedRef.current()
+      } else {
+        toast.error(finished.error || 'Failed to ingest content')
+      }
+    }
+
+    const update = (next: IngestJob) => {
+      if (closed) return
+      setJob(next)
+      if (isFinished(next)) {
+        closed = true
+        events?.close()
+        handleFinished(next)
+      }
+    }
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/ingest/jobs/${jobId}`)
+        const result = await response.json()
+        if (result.ok) update(result.data)
+      } catch (error) {
+        console.error('Error checking ingestion job:', error)
+      }
+      if (!closed) pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS)
+    }
+
+    if (typeof EventSource !== 'undefined') {
+      events = new EventSource(`/api/ingest/jobs/${jobId}/events`)
+      events.addEventListener('progress', (event) => update(JSON.parse((event as MessageEvent).data)))
+      events.addEventListener('done', (event) => update(JSON.parse((event as MessageEvent).data)))
+      events.onerror = () => {
+        // Stream unavailable or cut off: poll instead
+        events?.close()
+        if (!closed && !pollTimer) poll()
+      }
+    } else {
+      poll()
+    }
+
+    return () => {
+      closed = true
+      events?.close()
+      if (pollTimer) clearTimeout(pollTimer)
+    }
+  }, [jobId, trackingKey])
+
+  // Poll the crawl until it finishes; its pages are ingested one at a time, and
+  // polling runs its next step whenever one ends
+  useEffect(() => {
+    if (!crawlId) return
+
+    let closed = false
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/ingest/crawls/${crawlId}`)
+        const result = await response.json()
+
+        if (result.ok && !closed) {
+          const next: Crawl = result.data
+          setCrawl(next)
+
+          if (isFinished(next)) {
+            closed = true
+            if (next.status === 'completed') {
+              toast.success(`Crawl finished: ${crawlSummary(next)}.`)
+            } else {
+              toast.error(next.error || 'Crawl failed')
+            }
+            onAssetCreatedRef.current()
+            return
+          }
+        }
+      } catch (error) {
+        console.error('Error checking crawl:', error)
+      }
+      if (!closed) pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS)
+    }
+
+    poll()
+
+    return () => {
+      closed = true
+      if (pollTimer) clearTimeout(pollTimer)
+    }
+  }, [crawlId])
+
+  const handleRetry = async () => {
+    if (!job) return
+
+    try {
+      setIsRetrying(true)
+
+      const response = await fetch(`/api/ingest/jobs/${job._id}/retry`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to retry ingestion')
+      }
+
+      setJob(result.data)
+      setTrackingKey(key => key + 1)
+    } catch (error) {
+      console.error('Error retrying ingestion:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to retry ingestion')
+    } finally {
+      setIsRetrying(false)
+    }
+  }
 
   const handleContentSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -45,8 +253,8 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
               type: 'text',
               value: textContent,
             },
-            assetType: 'md',
-            title: title.trim() || 'Untitled Document',
+            assetType: isTranscript ? 'transcript' : 'md',
+            title: title.trim() || (isTranscript ? 'Transcript' : 'Untitled Document'),
           }),
         })
       } else if (activeTab === 'url') {
@@ -63,21 +271,36 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
           return
         }
         
-        response = await fetch('/api/ingest', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            projectId,
-            source: {
-              type: 'url',
-              value: urlContent,
+        if (crawlSite) {
+          response = await fetch('/api/ingest/crawls', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
             },
-            assetType: 'html',
-            title: title.trim() || 'Web Content',
-          }),
-        })
+            body: JSON.stringify({
+              projectId,
+              startUrl: urlContent,
+              maxDepth: crawlDepth,
+              maxPages: crawlPages,
+            }),
+          })
+        } else {
+          response = await fetch('/api/ingest', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              projectId,
+              source: {
+                type: 'url',
+                value: urlContent,
+              },
+              assetType: 'html',
+              title: title.trim() || 'Web Content',
+            }),
+          })
+        }
       } else {
         // File upload
         if (!selectedFile) {
@@ -89,6 +312,12 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
         const formData = new FormData()
         formData.append('projectId', projectId)
         formData.append('file', selectedFile)
+        if (isSpreadsheet && columnMapping) {
+          formData.append('mapping', JSON.stringify(columnMapping))
+        }
+        if (isPlainText && isTranscript) {
+          formData.append('assetType', 'transcript')
+        }
         if (title.trim()) {
           formData.append('title', title.trim())
         }
@@ -120,17 +349,20 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
       const result = await response.json()
       
       if (result.ok) {
-        const { chunkCount } = result.data as IngestResponse
-        toast.success(`Content ingested successfully! Created ${chunkCount} chunks.`)
-        
         // Clear form
         setTextContent('')
         setUrlContent('')
         setTitle('')
         setSelectedFile(null)
+        setColumnMapping(null)
         
-        // Notify parent to reload assets
-        onAssetCreated()
+        // Follow the job or crawl; the parent reloads assets once it completes
+        if (activeTab === 'url' && crawlSite) {
+          setCrawl((result.data as CrawlResponse).crawl)
+        } else {
+          setJob((result.data as IngestJobResponse).job)
+          setTrackingKey(key => key + 1)
+        }
       } else {
         throw new Error(result.error || 'Failed to ingest content')
       }
@@ -221,15 +453,31 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
               <Textarea
                 id="content"
                 className="min-h-32"
-                placeholder="Paste your text content here. Markdown formatting is supported..."
+                placeholder={isTranscript
+                  ? "Paste SRT or VTT captions, or a transcript with a timestamp per turn, e.g. [00:01:23] Jane: ..."
+                  : "Paste your text content here. Markdown formatting is supported..."}
                 value={textContent}
                 onChange={(e) => setTextContent(e.target.value)}
                 disabled={isSubmitting}
                 required
               />
               <p className="text-xs text-charcoal/60 font-body">
-                Content will be processed and chunked automatically for better organization.
+                {isTranscript
+                  ? 'Caption noise is removed, speaker turns are merged and the transcript is chunked by topic and time, keeping timestamps and speakers.'
+                  : 'Content will be processed and chunked automatically for better organization.'}
               </p>
+              <div className="flex items-center gap-2 pt-1">
+                <Checkbox
+                  id="isTranscript"
+                  checked={isTranscript}
+                  onCheckedChange={(checked) => setIsTranscript(checked === true)}
+                  disabled={isSubmitting}
+                  className="data-[state=checked]:bg-terracotta data-[state=checked]:border-terracotta"
+                />
+                <label htmlFor="isTranscript" className="text-sm font-body font-medium text-charcoal">
+                  Timestamped transcript
+                </label>
+              </div>
             </div>
           )}
 
@@ -249,8 +497,56 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
                 required
               />
               <p className="text-xs text-charcoal/60 font-body">
-                Web content will be extracted and converted to markdown automatically.
+                {crawlSite
+                  ? 'Pages linked from this URL (or listed in it, for a sitemap.xml) on the same site are each ingested as an asset. robots.txt is respected.'
+                  : 'Web content will be extracted and converted to markdown automatically.'}
               </p>
+              <div className="flex items-center gap-2 pt-1">
+                <Checkbox
+                  id="crawlSite"
+                  checked={crawlSite}
+                  onCheckedChange={(checked) => setCrawlSite(checked === true)}
+                  disabled={isSubmitting}
+                  className="data-[state=checked]:bg-terracotta data-[state=checked]:border-terracotta"
+                />
+                <label htmlFor="crawlSite" className="text-sm font-body font-medium text-charcoal">
+                  Crawl the site
+                </label>
+              </div>
+              {crawlSite && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <label htmlFor="crawlDepth" className="text-xs font-body text-charcoal/80">
+                      Link depth
+                    </label>
+                    <input
+                      id="crawlDepth"
+                      type="number"
+                      className="tactile-input w-full"
+                      min={0}
+                      max={MAX_CRAWL_DEPTH}
+                      value={crawlDepth}
+                      onChange={(e) => setCrawlDepth(Math.min(Math.max(parseInt(e.target.value, 10) || 0, 0), MAX_CRAWL_DEPTH))}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="crawlPages" className="text-xs font-body text-charcoal/80">
+                      Max pages
+                    </label>
+                    <input
+                      id="crawlPages"
+                      type="number"
+                      className="tactile-input w-full"
+                      min={1}
+                      max={MAX_CRAWL_PAGES}
+                      value={crawlPages}
+                      onChange={(e) => setCrawlPages(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_CRAWL_PAGES))}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -264,7 +560,7 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
                   id="file"
                   type="file"
                   className="hidden"
-                  accept=".pdf,.docx,.doc,.txt,.md"
+                  accept=".pdf,.docx,.doc,.txt,.md,.csv,.xlsx,.srt,.vtt"
                   onChange={(e) => {
                     const file = e.target.files?.[0] || null
                     if (file && file.size > 10 * 1024 * 1024) { // 10MB limit
@@ -285,13 +581,33 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
                     {selectedFile ? selectedFile.name : 'Click to select a file'}
                   </span>
                   <span className="text-xs text-charcoal/60 font-body">
-                    PDF, DOCX, TXT, or MD files (max 10MB)
+                    PDF, DOCX, TXT, MD, CSV, XLSX, SRT or VTT files (max 10MB)
                   </span>
                 </label>
               </div>
-              <p className="text-xs text-charcoal/60 font-body">
-                Files will be converted to markdown and chunked automatically.
-              </p>
+              {selectedFile && isSpreadsheet ? (
+                <SpreadsheetMapping file={selectedFile} disabled={isSubmitting} onChange={setColumnMapping} />
+              ) : (
+                <p className="text-xs text-charcoal/60 font-body">
+                  {isPlainText && isTranscript
+                    ? 'Speaker turns are merged and the transcript is chunked by topic and time, keeping timestamps and speakers.'
+                    : 'Files will be converted to markdown and chunked automatically.'}
+                </p>
+              )}
+              {isPlainText && (
+                <div className="flex items-center gap-2 pt-1">
+                  <Checkbox
+                    id="isFileTranscript"
+                    checked={isTranscript}
+                    onCheckedChange={(checked) => setIsTranscript(checked === true)}
+                    disabled={isSubmitting}
+                    className="data-[state=checked]:bg-terracotta data-[state=checked]:border-terracotta"
+                  />
+                  <label htmlFor="isFileTranscript" className="text-sm font-body font-medium text-charcoal">
+                    Timestamped transcript
+                  </label>
+                </div>
+              )}
             </div>
           )}
           
@@ -302,7 +618,7 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
               isSubmitting || 
               (activeTab === 'text' && !textContent.trim()) ||
               (activeTab === 'url' && !urlContent.trim()) ||
-              (activeTab === 'file' && !selectedFile)
+              (activeTab === 'file' && (!selectedFile || (isSpreadsheet && !columnMapping)))
             }
           >
             {isSubmitting ? (
@@ -313,11 +629,70 @@ export function ContentIngestionForm({ projectId, onAssetCreated }: ContentInges
             ) : (
               <>
                 <Upload className="h-4 w-4 mr-2" />
-                Ingest {activeTab === 'text' ? 'Text' : activeTab === 'url' ? 'URL' : 'File'}
+                {activeTab === 'url' && crawlSite
+                  ? 'Crawl Site'
+                  : `Ingest ${activeTab === 'text' ? 'Text' : activeTab === 'url' ? 'URL' : 'File'}`}
               </>
             )}
           </Button>
         </form>
+
+        {/* Progress of the latest ingestion job */}
+        {job && (
+          <div className="mt-6 space-y-3 p-4 bg-parchment/50 border border-charcoal/10 rounded-squircle-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-body font-medium text-charcoal truncate">
+                {job.title || (job.source.type === 'file' ? job.source.name : job.source.type === 'url' ? job.source.value : 'Text content')}
+              </span>
+              {job.status === 'failed' && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-xs"
+                  onClick={handleRetry}
+                  disabled={isRetrying}
+                >
+                  {isRetrying ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                  )}
+                  Retry
+                </Button>
+              )}
+            </div>
+            {job.stages.map(stage => (
+              <IngestStageRow key={stage.name} stage={stage} />
+            ))}
+          </div>
+        )}
+
+        {/* Progress of the latest crawl */}
+        {crawl && (
+          <div className="mt-6 space-y-2 p-4 bg-parchment/50 border border-charcoal/10 rounded-squircle-sm">
+            <div className="flex items-center gap-2 text-sm font-body font-medium text-charcoal">
+              {isFinished(crawl) ? (
+                crawl.status === 'completed'
+                  ? <CheckCircle2 className="h-3 w-3 text-sage shrink-0" />
+                  : <XCircle className="h-3 w-3 text-terracotta shrink-0" />
+              ) : (
+                <Loader2 className="h-3 w-3 animate-spin text-terracotta shrink-0" />
+              )}
+              <Globe className="h-3 w-3 text-charcoal/60 shrink-0" />
+              <span className="truncate">{crawl.startUrl}</span>
+            </div>
+            <div className="h-1.5 bg-charcoal/10 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all ${crawl.status === 'failed' ? 'bg-terracotta' : 'bg-sage'}`}
+                style={{ width: `${crawl.status === 'completed' ? 100 : Math.round((crawl.pageCount / crawl.maxPages) * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-charcoal/60 font-body">
+              {crawl.pageCount} / {crawl.maxPages} pages: {crawlSummary(crawl)}
+            </p>
+            {crawl.error && <p className="text-xs text-terracotta font-body">{crawl.error}</p>}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,179 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Save, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { type Draft } from "@/lib/schemas/draft"
+
+interface DraftEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+  draft: Draft | null;
+  projectId: string;
+}
+
+type FormatKey = 'html' | 'md' | 'txt';
+
+const FORMAT_LABELS: Record<FormatKey, string> = {
+  html: 'HTML',
+  md: 'Markdown',
+  txt: 'Plain Text',
+};
+
+export function DraftEditModal({ isOpen, onClose, onSaved, draft, projectId }: DraftEditModalProps) {
+  const [subject, setSubject] = useState('')
+  const [preheader, setPreheader] = useState('')
+  const [formats, setFormats] = useState<Record<FormatKey, string>>({ html: '', md: '', txt: '' })
+  const [activeFormat, setActiveFormat] = useState<FormatKey>('html')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Load the draft into the form whenever a different draft is opened
+  useEffect(() => {
+    if (draft && isOpen) {
+      setSubject(draft.subject)
+      setPreheader(draft.preheader || '')
+      setFormats({ ...draft.formats })
+      setActiveFormat('html')
+    }
+  }, [draft, isOpen])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!draft) {
+      return
+    }
+
+    if (!subject.trim() || !formats.html.trim() || !formats.md.trim() || !formats.txt.trim()) {
+      toast.error('Subject and all formats are required')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+
+      const response = await fetch(`/api/projects/${projectId}/drafts/${draft._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          subject: subject.trim(),
+          preheader: preheader.trim(),
+          formats,
+          baseRevision: draft.revision ?? 0,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to save draft')
+      }
+
+      if (result.data.revision) {
+        toast.success(`Saved as revision ${result.data.revision.revision}`)
+      } else {
+        toast.info('No changes to save')
+      }
+
+      onSaved?.()
+      onClose()
+    } catch (error) {
+      console.error('Error saving draft:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save draft')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      if (!open) onClose()
+    }}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-charcoal">
+            Edit Draft
+          </DialogTitle>
+          <DialogDescription className="font-body text-charcoal/80">
+            Every save is kept as a revision you can compare or restore later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="draftSubject" className="text-sm font-body font-medium text-charcoal">
+              Subject
+            </label>
+            <Input
+              id="draftSubject"
+              className="tactile-input"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              disabled={isSaving}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="draftPreheader" className="text-sm font-body font-medium text-charcoal">
+              Preheader
+            </label>
+            <Input
+              id="draftPreheader"
+              className="tactile-input"
+              value={preheader}
+              onChange={(e) => setPreheader(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              {(Object.keys(FORMAT_LABELS) as FormatKey[]).map((format) => (
+                <Button
+                  key={format}
+                  type="button"
+                  size="sm"
+                  className={activeFormat === format ? 'tactile-button' : 'tactile-button-secondary'}
+                  onClick={() => setActiveFormat(format)}
+                >
+                  {FORMAT_LABELS[format]}
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              className="tactile-input font-mono text-xs min-h-[320px]"
+              value={formats[activeFormat]}
+              onChange={(e) => setFormats(prev => ({ ...prev, [activeFormat]: e.target.value }))}
+              disabled={isSaving}
+            />
+            <p className="text-xs text-charcoal/60 font-body">
+              Formats are saved as-is; update each one you want to change.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" className="tactile-button-secondary" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" className="tactile-button" disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-1" />
+              )}
+              {isSaving ? 'Saving...' : 'Save Revision'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
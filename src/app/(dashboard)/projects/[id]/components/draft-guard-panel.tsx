@@ -0,0 +1,221 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ShieldCheck, Loader2, ChevronDown, ChevronUp, Wand2 } from "lucide-react"
+import { toast } from "sonner"
+import { type Draft } from "@/lib/schemas/draft"
+import { type DraftGuardScores } from "@/lib/guards/draftGuards"
+
+interface DraftGuardPanelProps {
+  draft: Draft;
+  projectId: string;
+  onGuardsRun?: () => void;
+}
+
+/**
+ * Badge colour for a 0-100 score
+ */
+function scoreClass(score: number): string {
+  if (score >= 80) return 'bg-sage/20 text-charcoal border border-sage/60'
+  if (score >= 60) return 'bg-amber-100 text-amber-900 border border-amber-300'
+  return 'bg-terracotta/20 text-terracotta border border-terracotta/40'
+}
+
+/**
+ * Context and style guard results for a draft, with a button to (re)run them
+ */
+export function DraftGuardPanel({ draft, projectId, onGuardsRun }: DraftGuardPanelProps) {
+  const [isRunning, setIsRunning] = useState(false)
+  const [isRepairing, setIsRepairing] = useState(false)
+  const [showFindings, setShowFindings] = useState(false)
+
+  const guards = draft.scores?.guards as DraftGuardScores | undefined
+  const isStale = guards !== undefined && (guards.revision ?? 0) !== (draft.revision ?? 0)
+  const lastRepair = draft.claim_repairs?.[draft.claim_repairs.length - 1]
+
+  const handleRunGuards = async () => {
+    try {
+      setIsRunning(true)
+
+      const response = await fetch(`/api/projects/${projectId}/drafts/${draft._id}/guards`, {
+        method: 'POST',
+      })
+
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to run checks')
+      }
+
+      toast.success('Fact and voice checks complete')
+      onGuardsRun?.()
+    } catch (error) {
+      console.error('Error running guards:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to run checks')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleRepairClaims = async () => {
+    try {
+      setIsRepairing(true)
+
+      const response = await fetch(`/api/projects/${projectId}/drafts/${draft._id}/repair`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ baseRevision: draft.revision ?? 0 }),
+      })
+
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to fix claims')
+      }
+
+      const { run } = result.data
+      const message = `Support ${Math.round(run.initial_support)}% → ${Math.round(run.final_support)}% in ${run.iterations.length} pass${run.iterations.length === 1 ? '' : 'es'}`
+      if (run.reached_threshold) {
+        toast.success(message)
+      } else {
+        toast.warning(`${message} (target ${run.threshold}% not reached)`)
+      }
+      onGuardsRun?.()
+    } catch (error) {
+      console.error('Error repairing claims:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to fix claims')
+    } finally {
+      setIsRepairing(false)
+    }
+  }
+
+  const unsupportedClaims = guards?.context.status === 'ok'
+    ? guards.context.claims.filter(claim => claim.status === 'unsupported')
+    : []
+  const mismatches = guards?.style.status === 'ok' ? guards.style.mismatches : []
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {guards?.context.status === 'ok' && (
+          <Badge className={`text-xs ${scoreClass(guards.context.summary.support_percentage)}`}>
+            {Math.round(guards.context.summary.support_percentage)}% claims supported
+          </Badge>
+        )}
+        {guards?.context.status === 'error' && (
+          <Badge variant="outline" className="text-xs" title={guards.context.error}>
+            Fact check failed
+          </Badge>
+        )}
+        {guards?.style.status === 'ok' && (
+          <Badge className={`text-xs ${scoreClass(guards.style.overall_score)}`}>
+            Voice {guards.style.overall_score}/100
+          </Badge>
+        )}
+        {guards?.style.status === 'error' && (
+          <Badge variant="outline" className="text-xs" title={guards.style.error}>
+            Voice check failed
+          </Badge>
+        )}
+        {guards?.style.status === 'skipped' && (
+          <Badge variant="outline" className="text-xs" title={guards.style.reason}>
+            No voice check
+          </Badge>
+        )}
+        {isStale && (
+          <Badge variant="outline" className="text-xs">
+            Checked an earlier revision
+          </Badge>
+        )}
+
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs"
+          onClick={handleRunGuards}
+          disabled={isRunning}
+        >
+          {isRunning ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <ShieldCheck className="h-3 w-3 mr-1" />
+          )}
+          {isRunning ? 'Checking...' : guards ? 'Re-run checks' : 'Check facts & voice'}
+        </Button>
+
+        {unsupportedClaims.length > 0 && !isStale && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={handleRepairClaims}
+            disabled={isRepairing || isRunning}
+          >
+            {isRepairing ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Wand2 className="h-3 w-3 mr-1" />
+            )}
+            {isRepairing ? 'Fixing...' : 'Fix unsupported claims'}
+          </Button>
+        )}
+
+        {(unsupportedClaims.length > 0 || mismatches.length > 0) && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => setShowFindings(!showFindings)}
+          >
+            {showFindings ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+            {unsupportedClaims.length} unsupported, {mismatches.length} style issues
+          </Button>
+        )}
+      </div>
+
+      {lastRepair && (
+        <p className="text-xs text-charcoal/60 font-body">
+          Last claim fix: {Math.round(lastRepair.initial_support)}% → {Math.round(lastRepair.final_support)}% supported
+          over {lastRepair.iterations.length} pass{lastRepair.iterations.length === 1 ? '' : 'es'}
+          {' '}({lastRepair.iterations.reduce((sum, iteration) => sum + iteration.edits.length, 0)} sentences changed)
+          {!lastRepair.reached_threshold && `, below the ${lastRepair.threshold}% target`}
+        </p>
+      )}
+
+      {showFindings && (
+        <div className="bg-white rounded-squircle-sm p-3 border border-charcoal/10 space-y-3 text-sm font-body">
+          {unsupportedClaims.length > 0 && (
+            <div>
+              <h5 className="font-medium text-charcoal mb-1">Unsupported claims</h5>
+              <ul className="space-y-1">
+                {unsupportedClaims.map((claim, index) => (
+                  <li key={index} className="border-l-2 border-terracotta pl-2">
+                    <span className="text-charcoal">{claim.claim}</span>
+                    <span className="block text-xs text-charcoal/60">{claim.evidence}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {mismatches.length > 0 && (
+            <div>
+              <h5 className="font-medium text-charcoal mb-1">Style mismatches</h5>
+              <ul className="space-y-1">
+                {mismatches.map((mismatch, index) => (
+                  <li key={index} className="border-l-2 border-amber-400 pl-2">
+                    <span className="text-charcoal"><strong>{mismatch.area}:</strong> {mismatch.issue}</span>
+                    <span className="block text-xs text-charcoal/60">Fix: {mismatch.fix}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,257 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { History, RotateCcw, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { type Draft } from "@/lib/schemas/draft"
+import { type DraftRevision, type FieldDiff } from "@/lib/schemas/draftRevision"
+
+interface DraftHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored?: () => void;
+  draft: Draft | null;
+  projectId: string;
+}
+
+export function DraftHistoryModal({ isOpen, onClose, onRestored, draft, projectId }: DraftHistoryModalProps) {
+  const [revisions, setRevisions] = useState<DraftRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [compareFrom, setCompareFrom] = useState<number | null>(null)
+  const [compareTo, setCompareTo] = useState<number | null>(null)
+  const [diff, setDiff] = useState<FieldDiff[] | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null)
+
+  const baseUrl = draft ? `/api/projects/${projectId}/drafts/${draft._id}/revisions` : null
+
+  const fetchRevisions = useCallback(async () => {
+    if (!baseUrl) return
+
+    try {
+      setIsLoading(true)
+      const response = await fetch(baseUrl)
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to load revisions')
+      }
+
+      const loaded: DraftRevision[] = result.data
+      setRevisions(loaded)
+
+      // Default to comparing the two most recent revisions
+      if (loaded.length >= 2) {
+        setCompareFrom(loaded[loaded.length - 2].revision)
+        setCompareTo(loaded[loaded.length - 1].revision)
+      } else {
+        setCompareFrom(null)
+        setCompareTo(null)
+      }
+      setDiff(null)
+    } catch (error) {
+      console.error('Error loading revisions:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load revisions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchRevisions()
+    }
+  }, [isOpen, fetchRevisions])
+
+  const handleCompare = async () => {
+    if (!baseUrl || compareFrom === null || compareTo === null) return
+
+    try {
+      setIsComparing(true)
+      const response = await fetch(`${baseUrl}/compare?from=${compareFrom}&to=${compareTo}`)
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to compare revisions')
+      }
+
+      setDiff(result.data.diff)
+    } catch (error) {
+      console.error('Error comparing revisions:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to compare revisions')
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const handleRestore = async (revision: number) => {
+    if (!baseUrl) return
+
+    if (!confirm(`Restore revision ${revision}? The current content will stay in the history.`)) {
+      return
+    }
+
+    try {
+      setRestoringRevision(revision)
+      const response = await fetch(`${baseUrl}/${revision}/restore`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to restore revision')
+      }
+
+      toast.success(result.data.revision
+        ? `Restored revision ${revision}`
+        : 'Draft already matches that revision')
+
+      onRestored?.()
+      await fetchRevisions()
+    } catch (error) {
+      console.error('Error restoring revision:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision')
+    } finally {
+      setRestoringRevision(null)
+    }
+  }
+
+  const latestRevision = revisions.length > 0 ? revisions[revisions.length - 1].revision : 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      if (!open) onClose()
+    }}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-charcoal flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision History
+          </DialogTitle>
+          <DialogDescription className="font-body text-charcoal/80">
+            Pick two revisions to compare, or restore an earlier version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-charcoal/60" />
+            <span className="ml-2 text-charcoal/60 font-body">Loading revisions...</span>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {[...revisions].reverse().map((revision) => {
+                const added = revision.diff.reduce((sum, field) => sum + field.added, 0)
+                const removed = revision.diff.reduce((sum, field) => sum + field.removed, 0)
+
+                return (
+                  <div
+                    key={revision.revision}
+                    className="flex items-center justify-between gap-4 p-3 border border-charcoal/10 rounded-squircle-sm bg-parchment/50"
+                  >
+                    <div className="flex items-center gap-3 text-sm font-body">
+                      <input
+                        type="radio"
+                        name="compareFrom"
+                        aria-label={`Compare from revision ${revision.revision}`}
+                        checked={compareFrom === revision.revision}
+                        onChange={() => setCompareFrom(revision.revision)}
+                      />
+                      <input
+                        type="radio"
+                        name="compareTo"
+                        aria-label={`Compare to revision ${revision.revision}`}
+                        checked={compareTo === revision.revision}
+                        onChange={() => setCompareTo(revision.revision)}
+                      />
+                      <span className="font-medium text-charcoal">#{revision.revision}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {revision.kind === 'restore' && revision.restoredFrom !== undefined
+                          ? `RESTORED #${revision.restoredFrom}`
+                          : revision.kind === 'regenerate' && revision.regeneratedSection
+                            ? `REGENERATED ${revision.regeneratedSection.toUpperCase()}`
+                            : revision.kind.toUpperCase()}
+                      </Badge>
+                      <span className="text-xs text-charcoal/60">
+                        {new Date(revision.createdAt).toLocaleString()}
+                      </span>
+                      {revision.diff.length > 0 && (
+                        <span className="text-xs">
+                          <span className="text-green-700">+{added}</span>{' '}
+                          <span className="text-terracotta">−{removed}</span>
+                        </span>
+                      )}
+                    </div>
+                    {revision.revision !== latestRevision && (
+                      <Button
+                        size="sm"
+                        className="tactile-button-secondary"
+                        onClick={() => handleRestore(revision.revision)}
+                        disabled={restoringRevision !== null}
+                      >
+                        {restoringRevision === revision.revision ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            {revisions.length >= 2 && (
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  className="tactile-button"
+                  onClick={handleCompare}
+                  disabled={isComparing || compareFrom === null || compareTo === null || compareFrom === compareTo}
+                >
+                  {isComparing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Compare #{compareFrom ?? '?'} → #{compareTo ?? '?'}
+                </Button>
+              </div>
+            )}
+
+            {diff && (
+              diff.length === 0 ? (
+                <p className="text-sm text-charcoal/60 font-body">These revisions are identical.</p>
+              ) : (
+                <div className="space-y-3">
+                  {diff.map((field) => (
+                    <div key={field.field} className="border border-charcoal/10 rounded-squircle-sm overflow-hidden">
+                      <div className="px-3 py-2 bg-charcoal/5 text-xs font-body font-medium text-charcoal flex justify-between">
+                        <span>{field.field.toUpperCase()}</span>
+                        <span>
+                          <span className="text-green-700">+{field.added}</span>{' '}
+                          <span className="text-terracotta">−{field.removed}</span>
+                        </span>
+                      </div>
+                      <pre className="text-xs font-mono max-h-64 overflow-auto">
+                        {field.lines.map((line, index) => (
+                          <div
+                            key={index}
+                            className={line.type === 'add'
+                              ? 'bg-green-50 text-green-800 px-3'
+                              : 'bg-red-50 text-red-800 px-3'}
+                          >
+                            {line.type === 'add' ? '+' : '-'} {line.text}
+                          </div>
+                        ))}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
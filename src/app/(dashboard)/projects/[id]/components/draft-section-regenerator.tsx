@@ -0,0 +1,107 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { RefreshCw, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { type Draft } from "@/lib/schemas/draft"
+import { getEditableSections } from "@/lib/email/sections"
+
+interface DraftSectionRegeneratorProps {
+  draft: Draft;
+  projectId: string;
+  onRegenerated?: () => void;
+}
+
+/**
+ * Regenerate one section (or the subject/preheader) of a draft in place
+ */
+export function DraftSectionRegenerator({ draft, projectId, onRegenerated }: DraftSectionRegeneratorProps) {
+  const targets = [
+    { key: 'subject', name: 'Subject' },
+    { key: 'preheader', name: 'Preheader' },
+    ...getEditableSections(draft.angle).map(section => ({ key: section.key, name: section.name })),
+  ]
+
+  const [target, setTarget] = useState(targets[0].key)
+  const [instructions, setInstructions] = useState('')
+  const [isRegenerating, setIsRegenerating] = useState(false)
+
+  const handleRegenerate = async () => {
+    try {
+      setIsRegenerating(true)
+
+      const response = await fetch(`/api/projects/${projectId}/drafts/${draft._id}/regenerate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          section: target,
+          instructions: instructions.trim() || undefined,
+          baseRevision: draft.revision ?? 0,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Failed to regenerate section')
+      }
+
+      const name = targets.find(t => t.key === target)?.name || target
+      if (result.data.revision) {
+        toast.success(`${name} regenerated (revision ${result.data.revision.revision})`)
+      } else {
+        toast.info(`${name} came back unchanged`)
+      }
+
+      setInstructions('')
+      onRegenerated?.()
+    } catch (error) {
+      console.error('Error regenerating section:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate section')
+    } finally {
+      setIsRegenerating(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <select
+        value={target}
+        onChange={(e) => setTarget(e.target.value)}
+        className="tactile-input text-sm"
+        disabled={isRegenerating}
+        aria-label="Section to regenerate"
+      >
+        {targets.map(option => (
+          <option key={option.key} value={option.key}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+      <Input
+        className="tactile-input flex-1 min-w-[200px] text-sm"
+        placeholder="Optional: what should change? (e.g. less salesy)"
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        disabled={isRegenerating}
+      />
+      <Button
+        size="sm"
+        className="tactile-button-secondary"
+        onClick={handleRegenerate}
+        disabled={isRegenerating}
+      >
+        {isRegenerating ? (
+          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+        ) : (
+          <RefreshCw className="h-4 w-4 mr-1" />
+        )}
+        {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+      </Button>
+    </div>
+  )
+}
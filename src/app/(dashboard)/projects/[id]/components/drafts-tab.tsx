@@ -3,11 +3,17 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { Mail, FileText, Send, Loader2, Copy, Trash2 } from "lucide-react"
+import { Mail, FileText, Send, Loader2, Copy, Trash2, History, AlertTriangle } from "lucide-react"
 import { toast } from "sonner"
 import { type Draft } from "@/lib/schemas/draft"
 import { type GeneratedDraft } from "../types"
 import { useState } from "react"
+import { DraftEditModal } from "./draft-edit-modal"
+import { DraftHistoryModal } from "./draft-history-modal"
+import { DraftSectionRegenerator } from "./draft-section-regenerator"
+import { DraftGuardPanel } from "./draft-guard-panel"
+import { guardHighlights, highlightExcerpts } from "@/lib/guards/highlight"
+import { type DraftGuardScores } from "@/lib/guards/draftGuards"
 
 interface DraftsTabProps {
   drafts: Draft[];
@@ -18,6 +24,17 @@ interface DraftsTabProps {
   projectId: string;
 }
 
+/**
+ * Draft HTML with guard findings highlighted, when guards have run on this revision
+ */
+function previewHtml(draft: Draft): string {
+  const guards = draft.scores?.guards as DraftGuardScores | undefined
+  if (!guards || (guards.revision ?? 0) !== (draft.revision ?? 0)) {
+    return draft.formats.html
+  }
+  return highlightExcerpts(draft.formats.html, guardHighlights(guards))
+}
+
 export function DraftsTab({ 
   drafts, 
   isLoading, 
@@ -27,6 +44,8 @@ export function DraftsTab({
   projectId
 }: DraftsTabProps) {
   const [deletingDraftId, setDeletingDraftId] = useState<string | null>(null);
+  const [editingDraft, setEditingDraft] = useState<Draft | null>(null);
+  const [historyDraft, setHistoryDraft] = useState<Draft | null>(null);
 
   const handleDeleteDraft = async (draftId: string) => {
     if (!confirm('Are you sure you want to delete this draft? This action cannot be undone.')) {
@@ -104,11 +123,25 @@ export function DraftsTab({
                       <span className="text-xs text-charcoal/60 font-body">
                         {new Date(draft.createdAt).toLocaleDateString()} at {new Date(draft.createdAt).toLocaleTimeString()}
                       </span>
+                      {draft.revision !== undefined && draft.revision > 0 && (
+                        <span className="text-xs text-charcoal/60 font-body">
+                          Revision {draft.revision}
+                        </span>
+                      )}
                       {draft.context_chunk_ids && draft.context_chunk_ids.length > 0 && (
                         <span className="text-xs text-charcoal/60 font-body">
                           {draft.context_chunk_ids.length} context chunks
                         </span>
                       )}
+                      {draft.stale_context && (
+                        <span
+                          className="flex items-center gap-1 text-xs text-terracotta font-body"
+                          title="Source content this draft was generated from has changed since. Review it before sending."
+                        >
+                          <AlertTriangle className="h-3 w-3" />
+                          Source changed ({draft.stale_context.chunk_ids.length} chunks)
+                        </span>
+                      )}
                     </div>
                     {draft.preheader && (
                       <p className="text-sm text-charcoal/80 font-body mb-3">
@@ -118,30 +151,50 @@ export function DraftsTab({
                   </div>
                 </div>
                 
-                {/* Email Content Preview */}
+                {/* Fact and voice checks */}
+                <DraftGuardPanel
+                  draft={draft}
+                  projectId={projectId}
+                  onGuardsRun={onRefresh}
+                />
+
+                {/* Email Content Preview (guard findings highlighted inline) */}
                 <div className="mb-4">
                   <label className="text-sm font-body font-medium text-charcoal mb-2 block">
                     Email Preview
                   </label>
                   <div 
                     className="bg-white rounded-squircle-sm p-4 border border-charcoal/10 max-h-48 overflow-y-auto"
-                    dangerouslySetInnerHTML={{ __html: draft.formats.html }}
+                    dangerouslySetInnerHTML={{ __html: previewHtml(draft) }}
                   />
                 </div>
 
+                {/* Section Regeneration */}
+                <DraftSectionRegenerator
+                  draft={draft}
+                  projectId={projectId}
+                  onRegenerated={onRefresh}
+                />
+
                 {/* Action Buttons */}
                 <div className="flex gap-2 pt-2">
                   <Button 
                     size="sm"
                     className="tactile-button-secondary"
-                    onClick={() => {
-                      // TODO: Edit draft functionality
-                      toast.info('Edit functionality coming soon!')
-                    }}
+                    onClick={() => setEditingDraft(draft)}
                   >
                     <FileText className="h-4 w-4 mr-1" />
                     Edit
                   </Button>
+
+                  <Button 
+                    size="sm"
+                    className="tactile-button-secondary"
+                    onClick={() => setHistoryDraft(draft)}
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    History
+                  </Button>
                   
                   <Button 
                     size="sm"
@@ -206,6 +259,22 @@ export function DraftsTab({
           </div>
         )}
       </CardContent>
+
+      <DraftEditModal
+        isOpen={editingDraft !== null}
+        onClose={() => setEditingDraft(null)}
+        onSaved={onRefresh}
+        draft={editingDraft}
+        projectId={projectId}
+      />
+
+      <DraftHistoryModal
+        isOpen={historyDraft !== null}
+        onClose={() => setHistoryDraft(null)}
+        onRestored={onRefresh}
+        draft={historyDraft}
+        projectId={projectId}
+      />
     </Card>
   )
 }
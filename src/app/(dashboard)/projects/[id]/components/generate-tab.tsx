@@ -3,10 +3,13 @@
 import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Wand2, Loader2, Mail, Send } from "lucide-react"
 import { toast } from "sonner"
 import { type GeneratedDraft } from "../types"
 import { getAvailableTones, getAvailableStyles } from '@/lib/llm/prompts/generate';
+import { getAngle, getAvailableAngles, DEFAULT_ANGLE } from '@/lib/angles';
+import { SequenceGenerator } from "./sequence-generator"
 
 interface GenerateTabProps {
   projectId: string;
@@ -17,6 +20,7 @@ interface GenerateTabProps {
   onDraftsChange: () => void;
   focusTopic?: string;
   onFocusTopicChange?: (topic: string) => void;
+  projectStyleProfileId?: string;
 }
 
 export function GenerateTab({ 
@@ -27,16 +31,28 @@ export function GenerateTab({
   onOpenGetResponseModal,
   onDraftsChange,
   focusTopic = '',
-  onFocusTopicChange
+  onFocusTopicChange,
+  projectStyleProfileId
 }: GenerateTabProps) {
   const [isGenerating, setIsGenerating] = useState(false)
   const [generatedDraft, setGeneratedDraft] = useState<GeneratedDraft | null>(null)
+  const [mode, setMode] = useState<'single' | 'sequence'>('single')
 
-  // Add state for tone and style
+  // Add state for angle, tone and style
+  const [selectedAngle, setSelectedAngle] = useState<string>(DEFAULT_ANGLE);
   const [selectedTone, setSelectedTone] = useState<string>('conversational');
   const [selectedStyle, setSelectedStyle] = useState<string>('direct');
 
-  // Generate PAS draft
+  // Style profile: on by default, optionally overridden for this request
+  const [useStyleProfile, setUseStyleProfile] = useState(true);
+  const [styleProfileOverride, setStyleProfileOverride] = useState('');
+
+  // Run context and style guards on the generated draft
+  const [runGuards, setRunGuards] = useState(false);
+
+  const angle = getAngle(selectedAngle);
+
+  // Generate draft for the selected angle
   const handleGenerateDraft = async () => {
     try {
       setIsGenerating(true)
@@ -56,12 +72,14 @@ export function GenerateTab({
         },
         body: JSON.stringify({
           projectId,
-          angle: 'PAS',
-          length: 'medium',
+          angle: selectedAngle,
           tone: selectedTone,
           style: selectedStyle,
           selectedChunkIds: selectedChunkIds.length > 0 ? selectedChunkIds : undefined,
           query: focusTopic.trim() || undefined, // Use focus topic as search query
+          useStyleProfile,
+          styleProfileId: useStyleProfile ? styleProfileOverride.trim() || undefined : undefined,
+          runGuards,
         }),
       })
 
@@ -82,7 +100,7 @@ export function GenerateTab({
         
         setGeneratedDraft(generatedDraftData)
         onDraftGenerated(generatedDraftData)
-        toast.success('PAS draft generated successfully!')
+        toast.success(`${angle.key} draft generated successfully!`)
         
         // Refresh drafts list to include the newly generated draft
         onDraftsChange()
@@ -97,7 +115,7 @@ export function GenerateTab({
         // Provide more specific error messages for common issues
         if (message.includes('No relevant content found')) {
           message = 'No content available for generation. Please add some assets first.'
-        } else if (message.includes('OpenAI API error')) {
+        } else if (message.includes(' API error: ')) {
           message = 'AI service temporarily unavailable. Please try again.'
         }
       }
@@ -112,11 +130,13 @@ export function GenerateTab({
       <CardHeader>
         <CardTitle className="font-headline text-charcoal flex items-center gap-2">
           <Wand2 className="h-5 w-5" />
-          AI Generate PAS Email
+          {mode === 'single' ? `AI Generate ${angle.key} Email` : 'AI Generate Email Sequence'}
         </CardTitle>
         <CardDescription className="font-body text-charcoal/80">
-          Generate a Problem-Agitate-Solution email using your project content and AI.
-          {selectedChunkIds.length > 0 && (
+          {mode === 'single'
+            ? `Generate a ${angle.name} email using your project content and AI.`
+            : 'Generate a multi-email launch or onboarding sequence. Each email uses different content and subject hooks.'}
+          {mode === 'single' && selectedChunkIds.length > 0 && (
             <span className="block mt-2 text-terracotta font-medium">
               Using {selectedChunkIds.length} selected chunk{selectedChunkIds.length > 1 ? 's' : ''} as focal points
             </span>
@@ -124,6 +144,26 @@ export function GenerateTab({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Mode Toggle */}
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={mode === 'single' ? 'default' : 'outline'}
+            className={mode === 'single' ? 'tactile-button' : 'tactile-button-secondary'}
+            onClick={() => setMode('single')}
+          >
+            Single Email
+          </Button>
+          <Button
+            size="sm"
+            variant={mode === 'sequence' ? 'default' : 'outline'}
+            className={mode === 'sequence' ? 'tactile-button' : 'tactile-button-secondary'}
+            onClick={() => setMode('sequence')}
+          >
+            Sequence
+          </Button>
+        </div>
+
         {/* Focus Topic Input */}
         <div className="space-y-2">
           <label className="block text-sm font-body font-medium text-charcoal">
@@ -141,6 +181,29 @@ export function GenerateTab({
           </p>
         </div>
         
+        {/* Angle Picker */}
+        {mode === 'single' && (
+          <div className="space-y-2">
+            <label className="block text-sm font-body font-medium text-charcoal">
+              Copywriting Angle
+            </label>
+            <select 
+              value={selectedAngle}
+              onChange={(e) => setSelectedAngle(e.target.value)}
+              className="tactile-input w-full"
+            >
+              {getAvailableAngles().map(option => (
+                <option key={option.key} value={option.key}>
+                  {option.key} — {option.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-charcoal/60 font-body">
+              {angle.description}. Sections: {angle.structure.map(section => section.name).join(' → ')} ({angle.length} length by default).
+            </p>
+          </div>
+        )}
+
         {/* New Tone and Style Controls */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
@@ -184,6 +247,55 @@ export function GenerateTab({
           </div>
         </div>
 
+        {/* Style Profile */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="useStyleProfile"
+              checked={useStyleProfile}
+              onCheckedChange={(checked) => setUseStyleProfile(checked === true)}
+              className="data-[state=checked]:bg-terracotta data-[state=checked]:border-terracotta"
+            />
+            <label htmlFor="useStyleProfile" className="text-sm font-body font-medium text-charcoal">
+              Apply style profile
+            </label>
+          </div>
+          {useStyleProfile && (
+            <input
+              type="text"
+              value={styleProfileOverride}
+              onChange={(e) => setStyleProfileOverride(e.target.value)}
+              placeholder={projectStyleProfileId ? `Project profile: ${projectStyleProfileId}` : 'Style profile ID'}
+              className="tactile-input w-full"
+            />
+          )}
+          <p className="text-xs text-charcoal/60 font-body">
+            {!useStyleProfile
+              ? 'Generating without a saved voice profile.'
+              : projectStyleProfileId
+                ? 'Uses the project\'s style profile unless you enter a different ID.'
+                : 'No style profile set for this project. Enter an ID to use one for this email, or set a default in Settings.'}
+          </p>
+        </div>
+
+        {/* Guards */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="runGuards"
+              checked={runGuards}
+              onCheckedChange={(checked) => setRunGuards(checked === true)}
+              className="data-[state=checked]:bg-terracotta data-[state=checked]:border-terracotta"
+            />
+            <label htmlFor="runGuards" className="text-sm font-body font-medium text-charcoal">
+              Check facts and voice after generating
+            </label>
+          </div>
+          <p className="text-xs text-charcoal/60 font-body">
+            Verifies claims against the context chunks used and compares the voice to the style profile. Results appear in the Drafts tab. Adds a few seconds per email.
+          </p>
+        </div>
+
         {/* Show combination preview */}
         <div className="bg-parchment/50 rounded-squircle-sm p-4">
           <h4 className="font-headline text-sm font-semibold text-charcoal mb-2">
@@ -194,47 +306,63 @@ export function GenerateTab({
           </p>
         </div>
 
+        {mode === 'sequence' && (
+          <SequenceGenerator
+            projectId={projectId}
+            assetsCount={assetsCount}
+            tone={selectedTone}
+            style={selectedStyle}
+            focusTopic={focusTopic}
+            useStyleProfile={useStyleProfile}
+            styleProfileId={styleProfileOverride.trim() || undefined}
+            runGuards={runGuards}
+            onDraftsChange={onDraftsChange}
+          />
+        )}
+
         {/* Rest of existing UI */}
-        <div className="flex flex-col items-center text-center py-4">
-          <Wand2 className="h-12 w-12 text-charcoal/40 mb-4" />
-          <h3 className="text-lg font-headline font-semibold mb-2 text-charcoal">
-            Ready to Generate
-          </h3>
-          <p className="text-charcoal/60 font-body mb-6 max-w-md">
-            {selectedChunkIds.length > 0 ? (
-              <>Click the button below to generate a PAS-format email draft focused on your {selectedChunkIds.length} selected chunk{selectedChunkIds.length > 1 ? 's' : ''}.</>
-            ) : (
-              <>Click the button below to generate a PAS-format email draft using your project's content and AI. Select specific chunks in the Chunks tab to focus the email on particular content.</>
-            )}
-          </p>
+        {mode === 'single' && (
+          <div className="flex flex-col items-center text-center py-4">
+            <Wand2 className="h-12 w-12 text-charcoal/40 mb-4" />
+            <h3 className="text-lg font-headline font-semibold mb-2 text-charcoal">
+              Ready to Generate
+            </h3>
+            <p className="text-charcoal/60 font-body mb-6 max-w-md">
+              {selectedChunkIds.length > 0 ? (
+                <>Click the button below to generate a {angle.key}-format email draft focused on your {selectedChunkIds.length} selected chunk{selectedChunkIds.length > 1 ? 's' : ''}.</>
+              ) : (
+                <>Click the button below to generate a {angle.key}-format email draft using your project's content and AI. Select specific chunks in the Chunks tab to focus the email on particular content.</>
+              )}
+            </p>
           
-          <Button 
-            onClick={handleGenerateDraft}
-            className="tactile-button"
-            disabled={isGenerating || assetsCount === 0}
-          >
-            {isGenerating ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Generating Draft...
-              </>
-            ) : (
-              <>
-                <Wand2 className="h-4 w-4 mr-2" />
-                Generate PAS Draft
-              </>
-            )}
-          </Button>
+            <Button 
+              onClick={handleGenerateDraft}
+              className="tactile-button"
+              disabled={isGenerating || assetsCount === 0}
+            >
+              {isGenerating ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Generating Draft...
+                </>
+              ) : (
+                <>
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Generate {angle.key} Draft
+                </>
+              )}
+            </Button>
           
-          {assetsCount === 0 && (
-            <p className="text-xs text-charcoal/60 font-body mt-2">
-              Add some content in the Assets tab first to generate emails.
-            </p>
-          )}
-        </div>
+            {assetsCount === 0 && (
+              <p className="text-xs text-charcoal/60 font-body mt-2">
+                Add some content in the Assets tab first to generate emails.
+              </p>
+            )}
+          </div>
+        )}
 
         {/* Preview Section */}
-        {generatedDraft && (
+        {mode === 'single' && generatedDraft && (
           <div className="border-t border-charcoal/10 pt-6">
             <h4 className="text-lg font-headline font-semibold mb-4 text-charcoal">
               Generated Draft Preview
@@ -0,0 +1,207 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2, Microscope } from "lucide-react"
+import { toast } from "sonner"
+import { type ChunkExplanation, type RetrievalExplanation } from "@/lib/retrieval/explain"
+
+interface RetrievalExplainPanelProps {
+  projectId: string;
+}
+
+const EXPLAIN_K = 8
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? '–' : score.toFixed(3)
+}
+
+/**
+ * A raw score with a bar for its normalised value; `scale` maps the
+ * normalised value onto 0-1
+ */
+function ScoreCell({ raw, normalized, rank, scale }: { raw?: number; normalized?: number; rank?: number; scale: number }) {
+  if (raw === undefined) {
+    return <span className="text-charcoal/40">not found</span>
+  }
+
+  return (
+    <div className="space-y-1 min-w-[7rem]">
+      <div className="flex justify-between gap-2">
+        <span>{formatScore(raw)}</span>
+        {rank !== undefined && <span className="text-charcoal/50">#{rank}</span>}
+      </div>
+      <div className="h-1.5 bg-charcoal/10 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-terracotta/70"
+          style={{ width: `${Math.round(Math.min(1, (normalized ?? 0) * scale) * 100)}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+function candidateLabel(candidate: ChunkExplanation): string {
+  return candidate.title || candidate.chunkId
+}
+
+/**
+ * Runs a test query against the project with explain mode on and shows how
+ * every candidate chunk was scored at each retrieval stage
+ */
+export function RetrievalExplainPanel({ projectId }: RetrievalExplainPanelProps) {
+  const [query, setQuery] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const [explanation, setExplanation] = useState<RetrievalExplanation | null>(null)
+
+  const handleExplain = async () => {
+    if (!query.trim()) {
+      toast.error('Enter a test query')
+      return
+    }
+
+    try {
+      setIsRunning(true)
+
+      const response = await fetch('/api/retriever', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId, query: query.trim(), k: EXPLAIN_K, explain: true }),
+      })
+
+      const result = await response.json()
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Retrieval failed')
+      }
+
+      setExplanation(result.data.explain ?? null)
+    } catch (error) {
+      console.error('Error explaining retrieval:', error)
+      toast.error(error instanceof Error ? error.message : 'Retrieval failed')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const fusion = explanation?.fusion
+  // RRF scores top out at 1 / (rrf_k + 1)
+  const barScale = fusion?.strategy === 'rrf' ? fusion.rrf_k + 1 : 1
+
+  return (
+    <div className="space-y-4 p-4 bg-parchment/50 border border-charcoal/10 rounded-squircle-sm">
+      <div className="flex items-center gap-3">
+        <Input
+          className="tactile-input flex-1"
+          placeholder="Test query, e.g. pricing for small teams"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleExplain()
+          }}
+        />
+        <Button onClick={handleExplain} disabled={isRunning} className="tactile-button">
+          {isRunning ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <Microscope className="h-4 w-4 mr-2" />
+          )}
+          Explain
+        </Button>
+      </div>
+
+      {explanation && fusion && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="text-xs">
+              Fusion: {fusion.strategy}
+              {fusion.strategy === 'rrf' ? ` (k=${fusion.rrf_k})` : ''}
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              Weights: vector {fusion.vector_weight} / text {fusion.lexical_weight}
+            </Badge>
+            <Badge variant="outline" className="text-xs">Reranker: {explanation.reranker}</Badge>
+            <Badge variant="outline" className="text-xs">
+              MMR diversity {explanation.mmr.diversity}, up to {explanation.mmr.max_per_asset} per asset before filling
+            </Badge>
+          </div>
+
+          {explanation.candidates.length === 0 ? (
+            <p className="text-sm font-body text-charcoal/60">No chunks matched this query.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-body text-charcoal">
+                <thead>
+                  <tr className="text-left text-charcoal/60 border-b border-charcoal/10">
+                    <th className="py-2 pr-3 font-medium">Rank</th>
+                    <th className="py-2 pr-3 font-medium">Chunk</th>
+                    <th className="py-2 pr-3 font-medium">Vector similarity</th>
+                    <th className="py-2 pr-3 font-medium">Text score</th>
+                    <th className="py-2 pr-3 font-medium">Fused</th>
+                    <th className="py-2 pr-3 font-medium" title="Replaces the old topic boost: the reranker scores each candidate against the query">
+                      Rerank (topic boost)
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {explanation.candidates.map(candidate => (
+                    <tr
+                      key={candidate.chunkId}
+                      className={`border-b border-charcoal/5 align-top ${candidate.rank === null ? 'opacity-50' : ''}`}
+                    >
+                      <td className="py-2 pr-3 font-medium">
+                        {candidate.rank ?? (
+                          <span title="Left out by the diversity pass or the per-asset cap">dropped</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 max-w-[16rem]">
+                        <div className="truncate" title={candidate.chunkId}>{candidateLabel(candidate)}</div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          <Badge variant="outline" className="text-[10px] px-1 py-0">{candidate.source}</Badge>
+                          {candidate.matched_queries.length > 1 && (
+                            <Badge
+                              variant="outline"
+                              className="text-[10px] px-1 py-0"
+                              title={candidate.matched_queries.join('\n')}
+                            >
+                              {candidate.matched_queries.length} queries
+                            </Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-3">
+                        <ScoreCell
+                          raw={candidate.vector_similarity}
+                          normalized={candidate.vector_normalized}
+                          rank={candidate.vector_rank}
+                          scale={barScale}
+                        />
+                      </td>
+                      <td className="py-2 pr-3">
+                        <ScoreCell
+                          raw={candidate.text_score}
+                          normalized={candidate.text_normalized}
+                          rank={candidate.text_rank}
+                          scale={barScale}
+                        />
+                      </td>
+                      <td className="py-2 pr-3">{formatScore(candidate.fused_score)}</td>
+                      <td className="py-2 pr-3">
+                        {formatScore(candidate.rerank_score)}
+                        <span className="block text-charcoal/50">#{candidate.rerank_position}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ListOrdered, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { type GeneratedSequence } from "../types"
+import { getAvailableSequenceTemplates } from '@/lib/sequences/templates';
+import { getAngle } from '@/lib/angles';
+
+interface SequenceGeneratorProps {
+  projectId: string;
+  assetsCount: number;
+  tone: string;
+  style: string;
+  focusTopic?: string;
+  useStyleProfile: boolean;
+  styleProfileId?: string;
+  runGuards?: boolean;
+  onDraftsChange: () => void;
+}
+
+export function SequenceGenerator({
+  projectId,
+  assetsCount,
+  tone,
+  style,
+  focusTopic = '',
+  useStyleProfile,
+  styleProfileId,
+  runGuards = false,
+  onDraftsChange
+}: SequenceGeneratorProps) {
+  const templates = getAvailableSequenceTemplates()
+  const [selectedTemplate, setSelectedTemplate] = useState<string>(templates[0].key)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [generatedSequence, setGeneratedSequence] = useState<GeneratedSequence | null>(null)
+
+  const template = templates.find(t => t.key === selectedTemplate) || templates[0]
+
+  const handleGenerateSequence = async () => {
+    try {
+      setIsGenerating(true)
+      setGeneratedSequence(null)
+
+      const response = await fetch('/api/generate/sequence', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectId,
+          template: selectedTemplate,
+          tone,
+          style,
+          query: focusTopic.trim() || undefined,
+          useStyleProfile,
+          styleProfileId: useStyleProfile ? styleProfileId : undefined,
+          runGuards,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.ok) {
+        throw new Error(result.error || `Failed to generate sequence (${response.status})`)
+      }
+
+      setGeneratedSequence(result.data.sequence)
+      toast.success(`${result.data.drafts.length}-email sequence generated!`)
+      onDraftsChange()
+    } catch (error) {
+      console.error('Error generating sequence:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to generate sequence')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <label className="block text-sm font-body font-medium text-charcoal">
+          Sequence Template
+        </label>
+        <select
+          value={selectedTemplate}
+          onChange={(e) => setSelectedTemplate(e.target.value)}
+          className="tactile-input w-full"
+        >
+          {templates.map(option => (
+            <option key={option.key} value={option.key}>
+              {option.name} ({option.steps.length} emails)
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-charcoal/60 font-body">{template.description}</p>
+      </div>
+
+      <div className="bg-parchment/50 rounded-squircle-sm p-4 space-y-2">
+        {template.steps.map((step, index) => (
+          <div key={index} className="flex items-center gap-3 text-sm font-body text-charcoal/80">
+            <Badge variant="secondary" className="text-xs">Day {step.day}</Badge>
+            <span className="font-medium text-charcoal">{getAngle(step.angle).key}</span>
+            <span>{step.goal}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col items-center text-center">
+        <Button
+          onClick={handleGenerateSequence}
+          className="tactile-button"
+          disabled={isGenerating || assetsCount === 0}
+        >
+          {isGenerating ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Generating {template.steps.length} emails...
+            </>
+          ) : (
+            <>
+              <ListOrdered className="h-4 w-4 mr-2" />
+              Generate Sequence
+            </>
+          )}
+        </Button>
+        {assetsCount === 0 && (
+          <p className="text-xs text-charcoal/60 font-body mt-2">
+            Add some content in the Assets tab first to generate emails.
+          </p>
+        )}
+      </div>
+
+      {generatedSequence && (
+        <div className="border-t border-charcoal/10 pt-6">
+          <h4 className="text-lg font-headline font-semibold mb-4 text-charcoal">
+            {generatedSequence.name}
+          </h4>
+          <ol className="space-y-3">
+            {generatedSequence.steps.map((step, index) => (
+              <li key={step.draftId} className="tactile-card bg-parchment/50 p-4">
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge variant="secondary" className="text-xs">#{index + 1} · Day {step.day}</Badge>
+                  <Badge variant="outline" className="text-xs">{step.angle}</Badge>
+                </div>
+                <p className="font-body text-charcoal font-medium">{step.subject}</p>
+                <p className="text-xs text-charcoal/60 font-body">{step.goal}</p>
+              </li>
+            ))}
+          </ol>
+          <p className="text-xs text-charcoal/60 font-body mt-3">
+            Each email is saved as a draft. Open the Drafts tab to review, copy or send them.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
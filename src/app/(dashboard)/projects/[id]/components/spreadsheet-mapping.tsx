@@ -0,0 +1,223 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Loader2 } from "lucide-react"
+import { type SpreadsheetMapping as ColumnMapping } from "@/lib/schemas/ingestJob"
+import { type SpreadsheetPreview } from "../types"
+
+interface SpreadsheetMappingProps {
+  file: File
+  disabled?: boolean
+  onChange: (mapping: ColumnMapping | null) => void // null until at least one text column is chosen
+}
+
+type Sheet = SpreadsheetPreview['sheets'][number]
+
+/**
+ * Columns to use when a sheet is first shown: the longest text column, by
+ * sample length
+ */
+function defaultTextColumns(sheet: Sheet): string[] {
+  const lengths = sheet.headers.map((_, index) =>
+    sheet.sample.reduce((total, row) => total + (row[index]?.length ?? 0), 0)
+  )
+  const longest = lengths.indexOf(Math.max(...lengths))
+  return longest >= 0 && lengths[longest] > 0 ? [sheet.headers[longest]] : []
+}
+
+/**
+ * Lets the user choose which spreadsheet columns become chunk text, title and
+ * tags, and whether rows are grouped, from a preview of the uploaded file
+ */
+export function SpreadsheetMapping({ file, disabled, onChange }: SpreadsheetMappingProps) {
+  const [preview, setPreview] = useState<SpreadsheetPreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [sheetName, setSheetName] = useState('')
+  const [textColumns, setTextColumns] = useState<string[]>([])
+  const [titleColumn, setTitleColumn] = useState('')
+  const [tagColumns, setTagColumns] = useState<string[]>([])
+  const [groupBy, setGroupBy] = useState('')
+
+  const sheet = preview?.sheets.find(candidate => candidate.name === sheetName) ?? preview?.sheets[0]
+
+  const selectSheet = useCallback((next?: Sheet) => {
+    setSheetName(next?.name ?? '')
+    setTextColumns(next ? defaultTextColumns(next) : [])
+    setTitleColumn('')
+    setTagColumns([])
+    setGroupBy('')
+  }, [])
+
+  // Preview each newly selected file
+  useEffect(() => {
+    let cancelled = false
+    setPreview(null)
+    setError(null)
+
+    const loadPreview = async () => {
+      try {
+        const formData = new FormData()
+        formData.append('file', file)
+        const response = await fetch('/api/ingest/spreadsheet', { method: 'POST', body: formData })
+        const result = await response.json()
+
+        if (cancelled) return
+        if (!response.ok || !result.ok) {
+          throw new Error(result.error || 'Failed to read spreadsheet')
+        }
+
+        const data = result.data as SpreadsheetPreview
+        setPreview(data)
+        selectSheet(data.sheets[0])
+      } catch (error) {
+        if (!cancelled) {
+          console.error('Error previewing spreadsheet:', error)
+          setError(error instanceof Error ? error.message : 'Failed to read spreadsheet')
+        }
+      }
+    }
+
+    loadPreview()
+    return () => {
+      cancelled = true
+    }
+  }, [file, selectSheet])
+
+  useEffect(() => {
+    onChange(sheet && textColumns.length > 0
+      ? {
+        sheet: preview && preview.sheets.length > 1 ? sheet.name : undefined,
+        text: textColumns,
+        title: titleColumn || undefined,
+        tags: tagColumns,
+        groupBy: groupBy || undefined,
+      }
+      : null)
+  }, [sheet, preview, textColumns, titleColumn, tagColumns, groupBy, onChange])
+
+  const toggle = (columns: string[], column: string, checked: boolean) =>
+    checked ? [...columns, column] : columns.filter(candidate => candidate !== column)
+
+  if (error) {
+    return <p className="text-sm text-red-600 font-body">{error}</p>
+  }
+
+  if (!preview || !sheet) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-charcoal/60 font-body">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Reading columns...
+      </div>
+    )
+  }
+
+  if (sheet.headers.length === 0) {
+    return <p className="text-sm text-charcoal/60 font-body">This sheet is empty.</p>
+  }
+
+  return (
+    <div className="space-y-3 rounded-squircle-sm border border-charcoal/10 p-3">
+      {preview.sheets.length > 1 && (
+        <div className="space-y-1">
+          <label htmlFor="mappingSheet" className="text-xs font-body text-charcoal/80">
+            Sheet
+          </label>
+          <select
+            id="mappingSheet"
+            className="tactile-input w-full"
+            value={sheet.name}
+            onChange={(e) => selectSheet(preview.sheets.find(candidate => candidate.name === e.target.value))}
+            disabled={disabled}
+          >
+            {preview.sheets.map(candidate => (
+              <option key={candidate.name} value={candidate.name}>{candidate.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <p className="text-xs text-charcoal/60 font-body">
+        {sheet.rowCount} rows. Each row becomes a chunk, or each group of rows when grouping.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-body">
+          <thead>
+            <tr className="text-left text-charcoal/80">
+              <th className="p-1 font-medium">Column</th>
+              <th className="p-1 font-medium">Text</th>
+              <th className="p-1 font-medium">Tags</th>
+              <th className="p-1 font-medium">Sample</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.headers.map((header, index) => (
+              <tr key={header} className="border-t border-charcoal/10">
+                <td className="p-1 text-charcoal font-medium">{header}</td>
+                <td className="p-1">
+                  <Checkbox
+                    checked={textColumns.includes(header)}
+                    onCheckedChange={(checked) => setTextColumns(columns => toggle(columns, header, checked === true))}
+                    disabled={disabled}
+                    aria-label={`Use ${header} as chunk text`}
+                    className="data-[state=checked]:bg-terracotta data-[state=checked]:border-terracotta"
+                  />
+                </td>
+                <td className="p-1">
+                  <Checkbox
+                    checked={tagColumns.includes(header)}
+                    onCheckedChange={(checked) => setTagColumns(columns => toggle(columns, header, checked === true))}
+                    disabled={disabled}
+                    aria-label={`Use ${header} as tags`}
+                    className="data-[state=checked]:bg-terracotta data-[state=checked]:border-terracotta"
+                  />
+                </td>
+                <td className="p-1 text-charcoal/60 max-w-[16rem] truncate">
+                  {sheet.sample.map(row => row[index]).find(Boolean) ?? ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label htmlFor="mappingTitle" className="text-xs font-body text-charcoal/80">
+            Title column
+          </label>
+          <select
+            id="mappingTitle"
+            className="tactile-input w-full"
+            value={titleColumn}
+            onChange={(e) => setTitleColumn(e.target.value)}
+            disabled={disabled}
+          >
+            <option value="">Generate titles</option>
+            {sheet.headers.map(header => <option key={header} value={header}>{header}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="mappingGroupBy" className="text-xs font-body text-charcoal/80">
+            Group rows by
+          </label>
+          <select
+            id="mappingGroupBy"
+            className="tactile-input w-full"
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value)}
+            disabled={disabled}
+          >
+            <option value="">One chunk per row</option>
+            {sheet.headers.map(header => <option key={header} value={header}>{header}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {textColumns.length === 0 && (
+        <p className="text-xs text-red-600 font-body">Choose at least one text column.</p>
+      )}
+    </div>
+  )
+}
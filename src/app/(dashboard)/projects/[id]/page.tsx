@@ -361,6 +361,7 @@ export default function ProjectDetailPage() {
             onDraftsChange={loadDrafts}
             focusTopic={focusTopic}
             onFocusTopicChange={setFocusTopic}
+            projectStyleProfileId={project.style_profile_id}
           />
         </TabsContent>
 
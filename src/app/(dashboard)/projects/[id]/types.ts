@@ -1,26 +1,71 @@
 // Shared types for project detail page components
 
+import { type IngestJob } from '@/lib/schemas/ingestJob';
+import { type Crawl } from '@/lib/schemas/crawl';
+import { type AssetSync } from '@/lib/schemas/asset';
+
 export interface Asset {
   _id: string;
   projectId: string;
-  type: 'pdf' | 'html' | 'docx' | 'md';
+  type: 'pdf' | 'html' | 'docx' | 'md' | 'csv' | 'xlsx' | 'transcript';
   title: string;
+  sourceUrl?: string;
   hash: string;
+  resyncInterval?: 'daily' | 'weekly';
+  syncedAt?: string;
+  lastSync?: Omit<AssetSync, 'at'> & { at: string };
   createdAt: string;
   chunkCount?: number;
 }
 
+// Response of POST /api/ingest?wait=true
 export interface IngestResponse {
+  jobId: string;
   assetId: string;
   chunkCount: number;
 }
 
+// 202 response of POST /api/ingest; the job's dates arrive as strings
+export interface IngestJobResponse {
+  jobId: string;
+  job: IngestJob;
+}
+
+// 202 response of POST /api/ingest/crawls
+export interface CrawlResponse {
+  crawlId: string;
+  crawl: Crawl;
+}
+
+// Response of POST /api/ingest/spreadsheet
+export interface SpreadsheetPreview {
+  sheets: Array<{
+    name: string;
+    headers: string[];
+    rowCount: number;
+    sample: string[][]; // First rows, by column
+  }>;
+}
+
 export interface GeneratedDraft {
   subject: string;
   html: string;
   preheader: string;
 }
 
+export interface GeneratedSequence {
+  _id: string;
+  name: string;
+  template?: string;
+  steps: Array<{
+    day: number;
+    angle: string;
+    goal: string;
+    draftId: string;
+    subject: string;
+  }>;
+}
+
 export interface GetResponseResult {
   newsletterId: string;
   openUrl: string;
@@ -40,6 +85,11 @@ export interface ChunkWithAsset {
   section?: string;
   meta?: {
     hpath: string[];
+    rows?: number[];
+    records?: Array<Record<string, string>>;
+    start?: number;
+    end?: number;
+    speakers?: string[];
   };
   vector?: boolean;
   embedding?: number[];
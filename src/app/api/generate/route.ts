@@ -4,10 +4,17 @@ import { requireUser } from '@/lib/auth/requireUser';
 import { successResponse, errorResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { hybridRetrieve } from '@/lib/retrieval/hybrid';
+import { type RetrievalExplanation } from '@/lib/retrieval/explain';
+import { buildContextPack, getContextBudget, type ContextChunk } from '@/lib/retrieval/contextPack';
 import { generateEmailPrompt, getEmailConfig, getAvailableTones, getAvailableStyles } from '@/lib/llm/prompts/generate';
+import { getAvailableAngles, DEFAULT_ANGLE } from '@/lib/angles';
 import { chooseBestSubject } from '@/lib/email/postProcess';
+import { generateEmailContent, addUtmParams, applyLinkOverrides } from '@/lib/email/generateEmail';
+import { resolveStyleProfile, type ResolvedStyleProfile } from '@/lib/style/profile';
+import { runDraftGuards } from '@/lib/guards/draftGuards';
+import { getLLMProvider } from '@/lib/llm/providers';
 import { zCreateDraft, type CreateDraft } from '@/lib/schemas/draft';
-import { type Chunk } from '@/lib/schemas/chunk';
+import { zChunkFilters, type Chunk } from '@/lib/schemas/chunk';
 import { ObjectId } from 'mongodb';
 
 /**
@@ -15,9 +22,9 @@ import { ObjectId } from 'mongodb';
  */
 const zGenerateRequest = z.object({
   projectId: z.string().min(1, 'Project ID is required'),
-  angle: z.literal('PAS'), // Currently only supporting PAS
+  angle: z.enum(getAvailableAngles().map(a => a.key) as [string, ...string[]]).default(DEFAULT_ANGLE),
   audience: z.string().optional(),
-  length: z.enum(['short', 'medium', 'long']).default('medium'),
+  length: z.enum(['short', 'medium', 'long']).optional(), // Defaults to the angle's length
   tone: z.enum(getAvailableTones().map(t => t.key) as [string, ...string[]]).optional(),
   style: z.enum(getAvailableStyles().map(s => s.key) as [string, ...string[]]).optional(),
   selectedChunkIds: z.array(z.string()).optional(),
@@ -25,165 +32,30 @@ const zGenerateRequest = z.object({
   mustInclude: z.string().optional(),
   linkOverrides: z.record(z.string()).optional(),
   query: z.string().optional(), // Optional custom query, defaults to project name
+  filters: zChunkFilters.optional(), // Only retrieve chunks matching this metadata
+  diversity: z.number().min(0).max(1).optional(), // Overrides the project's MMR diversity for this draft
   hypeLevel: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]).optional(),
+  styleProfileId: z.string().optional(), // Override the project's style profile
+  useStyleProfile: z.boolean().default(true), // Set false to generate without any style profile
+  runGuards: z.boolean().default(false), // Check claims against context and voice against the style profile
+  explain: z.boolean().default(false), // Return how retrieval scored each candidate chunk
 });
 
 // type GenerateRequest = z.infer<typeof zGenerateRequest>;
 
-/**
- * Generated email response schema
- */
-const zGeneratedEmail = z.object({
-  subject: z.string(),
-  preheader: z.string(),
-  html: z.string(),
-  md: z.string(),
-  txt: z.string(),
-  __subject_candidates: z.array(z.string()).optional(),
-});
-
-type GeneratedEmail = z.infer<typeof zGeneratedEmail>;
-
 /**
  * Response type for the generate endpoint
  */
 type GenerateResponse = {
   draft: CreateDraft & { _id: string };
   contextChunks: string[];
+  explain?: RetrievalExplanation; // Only for hybrid retrieval with `explain` set
 };
 
-/**
- * Add UTM parameters to a URL
- */
-function addUtmParams(url: string, projectId: string): string {
-  try {
-    const urlObj = new URL(url);
-    urlObj.searchParams.set('utm_source', 'newsletter');
-    urlObj.searchParams.set('utm_campaign', projectId);
-    urlObj.searchParams.set('utm_content', 'PAS');
-    return urlObj.toString();
-  } catch (error) {
-    console.warn('Failed to add UTM params to URL:', url, error);
-    return url; // Return original URL if parsing fails
-  }
-}
-
-/**
- * Prioritize chunks based on title and tag matching with the focus topic
- */
-function prioritizeChunksByTopic(
-  chunks: Array<{ chunkId: string; score: number; md_text: string; hpath: string[]; source: string; title?: string; tags?: string[] }>,
-  focusTopic: string
-): Array<{ chunkId: string; score: number; md_text: string; hpath: string[]; source: string; title?: string; tags?: string[] }> {
-  // Score chunks based on title and tag matching
-  const topicLower = focusTopic.toLowerCase();
-  const scoredChunks = chunks.map(chunk => {
-    let priorityScore = chunk.score; // Start with original score
-
-    // Boost score for title matches
-    if (chunk.title?.toLowerCase().includes(topicLower)) {
-      priorityScore += 0.5; // Strong boost for title matches
-    }
-
-    // Boost score for tag matches
-    if (chunk.tags && chunk.tags.length > 0) {
-      const matchingTags = chunk.tags.filter(tag => 
-        tag.toLowerCase().includes(topicLower)
-      );
-      priorityScore += matchingTags.length * 0.3; // Moderate boost per matching tag
-    }
-
-    // Boost score for content matches (already handled by hybrid search, but reinforce)
-    if (chunk.md_text.toLowerCase().includes(topicLower)) {
-      priorityScore += 0.2; // Small boost for content matches
-    }
-
-    return {
-      ...chunk,
-      score: priorityScore
-    };
-  });
-
-  // Sort by priority score (highest first)
-  return scoredChunks.sort((a, b) => b.score - a.score);
-}
-
-/**
- * Build context pack string with chunk headers (reused from hybrid.ts)
- */
-function buildContextPack(chunks: Array<{ chunkId: string; md_text: string; hpath: string[]; title?: string; tags?: string[] }>): string {
-  if (chunks.length === 0) {
-    return '';
-  }
-  
-  return chunks
-    .map(chunk => {
-      // Use title if available, otherwise fall back to chunkId
-      const title = chunk.title || `Chunk ${chunk.chunkId}`;
-      
-      // Create hierarchical path display if hpath exists
-      const pathDisplay = chunk.hpath.length > 0 
-        ? ` (${chunk.hpath.join(' > ')})` 
-        : '';
-      
-      // Add tags if available
-      const tagDisplay = chunk.tags && chunk.tags.length > 0 
-        ? `\n**Tags:** ${chunk.tags.join(', ')}` 
-        : '';
-      
-      return `## ${title}${pathDisplay}${tagDisplay}\n\n${chunk.md_text.trim()}\n`;
-    })
-    .join('\n');
-}
-
-/**
- * Call OpenAI API to generate email content
- */
-async function generateEmailContent(prompt: string, config = getEmailConfig()): Promise<GeneratedEmail> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: config.model,
-      messages: [
-        {
-          role: 'system',
-          content: prompt
-        }
-      ],
-      max_tokens: config.maxTokens,
-      temperature: config.temperature,
-      response_format: { type: 'json_object' }
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-
-  if (!content) {
-    throw new Error('No content received from OpenAI API');
-  }
-
-  try {
-    const parsed = JSON.parse(content);
-    return zGeneratedEmail.parse(parsed);
-  } catch (error) {
-    throw new Error(`Failed to parse generated email content: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
 /**
  * POST /api/generate
  * 
- * Generates a PAS format email using project context and saves it as a draft
+ * Generates an email for the requested angle using project context and saves it as a draft
  */
 export async function POST(request: NextRequest): Promise<Response> {
   // Authenticate user
@@ -210,7 +82,13 @@ export async function POST(request: NextRequest): Promise<Response> {
       mustInclude,
       linkOverrides,
       query,
+      filters,
+      diversity,
       hypeLevel,
+      styleProfileId,
+      useStyleProfile,
+      runGuards,
+      explain,
     } = validatedRequest;
 
     // Get database collections
@@ -232,10 +110,27 @@ export async function POST(request: NextRequest): Promise<Response> {
       return errorResponse('Project not found or access denied', 404);
     }
 
+    const llmProvider = getLLMProvider(project.llm);
+
+    // Resolve the style profile: request override, project default, or none
+    let styleProfile: ResolvedStyleProfile | null;
+    try {
+      styleProfile = await resolveStyleProfile({
+        userId,
+        projectStyleProfileId: project.style_profile_id,
+        styleProfileId,
+        useStyleProfile
+      });
+    } catch (error) {
+      return errorResponse(error instanceof Error ? error.message : 'Style profile not found', 404);
+    }
+
     // Use custom query or default to project name
     const searchQuery = query || project.name;
 
-    let retrievalResult: { chunks: Array<{ chunkId: string; score: number; md_text: string; hpath: string[]; source: string }>, contextPack: string };
+    let retrievedChunks: Array<ContextChunk & { score: number; source: string; fused_score?: number; rerank_score?: number }>;
+    let reranker: string | undefined;
+    let explanation: RetrievalExplanation | undefined;
 
     if (selectedChunkIds && selectedChunkIds.length > 0) {
       // Use selected chunks instead of hybrid search
@@ -306,69 +201,58 @@ export async function POST(request: NextRequest): Promise<Response> {
       console.log(`[DEBUG] Current user ID:`, userId);
 
       // Convert to the expected format
-      const formattedChunks = selectedChunks.map(chunk => ({
-        chunkId: chunk.chunkId || chunk._id,
-        score: 1.0, // Give selected chunks maximum relevance
-        md_text: chunk.md_text,
-        hpath: chunk.meta?.hpath || ['Selected Content'],
-        source: 'selected' as const
-      }));
-
-      // Build context pack from selected chunks with titles and tags
-      const contextPack = formattedChunks
-        .map(chunk => {
-          const fullChunk = selectedChunks.find(c => c.chunkId === chunk.chunkId || c._id === chunk.chunkId);
-          const title = fullChunk?.title || chunk.hpath[0] || 'Selected Content';
-          const tags = fullChunk?.tags || [];
-          const pathDisplay = chunk.hpath.length > 0 
-            ? ` (${chunk.hpath.join(' > ')})` 
-            : '';
-          const tagDisplay = tags.length > 0 
-            ? `\n**Tags:** ${tags.join(', ')}` 
-            : '';
-          
-          return `## ${title}${pathDisplay}${tagDisplay}\n\n${chunk.md_text.trim()}\n`;
-        })
-        .join('\n');
-
-      retrievalResult = {
-        chunks: formattedChunks,
-        contextPack
-      };
+      retrievedChunks = selectedChunks.map(chunk => {
+        const hpath = chunk.meta?.hpath || ['Selected Content'];
+        return {
+          chunkId: chunk.chunkId || chunk._id,
+          score: 1.0, // Give selected chunks maximum relevance
+          md_text: chunk.md_text,
+          hpath,
+          title: chunk.title || hpath[0] || 'Selected Content',
+          tags: chunk.tags,
+          source: 'selected' as const
+        };
+      });
     } else {
-      // Use hybrid search with title/tag prioritization
-      retrievalResult = await hybridRetrieve({
+      // Use hybrid search, reranked against the query
+      const retrievalResult = await hybridRetrieve({
         projectId,
         query: searchQuery,
-        k: 12, // Get more chunks to allow for prioritization
-        userId // Pass userId for additional security
+        k: 8,
+        userId, // Pass userId for additional security
+        filters,
+        fusion: project.retrieval?.fusion,
+        rerank: project.retrieval?.reranker,
+        mmr: diversity !== undefined ? { ...project.retrieval?.mmr, diversity } : project.retrieval?.mmr,
+        expansion: project.retrieval?.expansion,
+        provider: llmProvider,
+        explain
       });
 
-      if (!retrievalResult.contextPack || retrievalResult.chunks.length === 0) {
-        return errorResponse('No relevant content found for email generation', 400);
+      if (retrievalResult.chunks.length === 0) {
+        return errorResponse(
+          filters
+            ? 'No relevant content matching the filters found for email generation'
+            : 'No relevant content found for email generation',
+          400
+        );
       }
 
-      // Prioritize chunks with matching titles or tags
-      if (searchQuery && searchQuery !== project.name) {
-        const prioritizedChunks = prioritizeChunksByTopic(retrievalResult.chunks, searchQuery);
-        retrievalResult = {
-          chunks: prioritizedChunks.slice(0, 8), // Take top 8 after prioritization
-          contextPack: buildContextPack(prioritizedChunks.slice(0, 8))
-        };
-      }
+      retrievedChunks = retrievalResult.chunks;
+      reranker = retrievalResult.reranker;
+      explanation = retrievalResult.explain;
     }
 
     // Prepare default link with UTM parameters
     let defaultLink: string | undefined;
     if (project.default_link) {
-      defaultLink = addUtmParams(project.default_link, projectId);
+      defaultLink = addUtmParams(project.default_link, projectId, angle);
     }
 
     // Get email configuration with hype level adjustments
     const emailConfig = getEmailConfig(tone, style, hypeLevel);
 
-    // Generate email prompt
-    const prompt = generateEmailPrompt({
+    const buildPrompt = (contextPack: string) => generateEmailPrompt({
       angle: angle,
       projectName: project.name,
       audience: audience,
@@ -377,30 +261,40 @@ export async function POST(request: NextRequest): Promise<Response> {
       style: style,
       constraints: constraints,
       mustInclude: mustInclude,
-      contextPack: retrievalResult.contextPack,
+      contextPack,
       defaultLink: defaultLink,
-      hypeLevel: hypeLevel
+      hypeLevel: hypeLevel,
+      styleCard: styleProfile?.styleCard
     });
 
+    // Fit the context into what the model's window leaves after the prompt and response
+    const { text: contextPack, ...contextReport } = buildContextPack(retrievedChunks, {
+      budgetTokens: getContextBudget({
+        provider: llmProvider,
+        tier: emailConfig.tier,
+        maxTokens: emailConfig.maxTokens,
+        prompt: buildPrompt('')
+      })
+    });
+
+    if (!contextPack) {
+      return errorResponse('No relevant content fits in the model context window', 400);
+    }
+
+    const packedIds = new Set([...contextReport.included, ...contextReport.trimmed]);
+    const contextChunks = retrievedChunks.filter(chunk => packedIds.has(chunk.chunkId));
+
+    // Generate email prompt
+    const prompt = buildPrompt(contextPack);
+
     // Generate email content using LLM with enhanced configuration
-    const generatedEmail = await generateEmailContent(prompt, emailConfig);
+    const generatedEmail = await generateEmailContent(prompt, emailConfig, llmProvider);
 
     // Re-rank subjects using the effective hype level
-    const finalEmail = chooseBestSubject(generatedEmail, retrievalResult.contextPack, emailConfig.effectiveHypeLevel);
+    const finalEmail = chooseBestSubject(generatedEmail, contextPack, emailConfig.effectiveHypeLevel);
 
     // Apply link overrides if provided
-    let finalHtml = finalEmail.html;
-    let finalMd = finalEmail.md;
-    let finalTxt = finalEmail.txt;
-
-    if (linkOverrides && Object.keys(linkOverrides).length > 0) {
-      Object.entries(linkOverrides).forEach(([placeholder, url]) => {
-        const regex = new RegExp(placeholder, 'g');
-        finalHtml = finalHtml.replace(regex, url);
-        finalMd = finalMd.replace(regex, url);
-        finalTxt = finalTxt.replace(regex, url);
-      });
-    }
+    const { html: finalHtml, md: finalMd, txt: finalTxt } = applyLinkOverrides(finalEmail, linkOverrides);
 
     // Create draft object
     const draftId = new ObjectId();
@@ -416,19 +310,50 @@ export async function POST(request: NextRequest): Promise<Response> {
         md: finalMd,
         txt: finalTxt,
       },
-      context_chunk_ids: retrievalResult.chunks.map(chunk => chunk.chunkId),
+      context_chunk_ids: contextChunks.map(chunk => chunk.chunkId),
+      generation: {
+        audience,
+        length,
+        tone,
+        style,
+        constraints,
+        mustInclude,
+        linkOverrides,
+        hypeLevel,
+        styleProfileId: styleProfile?.styleProfileId,
+      },
       scores: {
         generation_timestamp: now.toISOString(),
-        context_chunks_used: retrievalResult.chunks.length,
+        context_chunks_used: contextChunks.length,
         search_query: searchQuery,
-        retrieval_scores: retrievalResult.chunks.map(chunk => ({
+        style_profile_id: styleProfile?.styleProfileId,
+        reranker,
+        context_pack: contextReport,
+        retrieval_scores: retrievedChunks.map(chunk => ({
           chunkId: chunk.chunkId,
           score: chunk.score,
-          source: chunk.source
+          source: chunk.source,
+          fused_score: chunk.fused_score,
+          rerank_score: chunk.rerank_score
         }))
       }
     };
 
+    // Run the context and style guards against the finished draft
+    if (runGuards) {
+      draft.scores.guards = await runDraftGuards({
+        content: {
+          subject: draft.subject,
+          preheader: draft.preheader,
+          formats: draft.formats,
+        },
+        contextChunks,
+        styleProfile,
+        audience,
+        provider: llmProvider,
+      });
+    }
+
     // Validate draft before saving
     const validatedDraft = zCreateDraft.parse(draft);
 
@@ -449,7 +374,8 @@ export async function POST(request: NextRequest): Promise<Response> {
         _id: draftId.toString(),
         ...validatedDraft
       },
-      contextChunks: retrievalResult.chunks.map(chunk => chunk.chunkId)
+      contextChunks: contextChunks.map(chunk => chunk.chunkId),
+      ...(explanation ? { explain: explanation } : {})
     };
 
     return successResponse(response);
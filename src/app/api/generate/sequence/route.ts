@@ -0,0 +1,340 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { hybridRetrieve } from '@/lib/retrieval/hybrid';
+import { buildContextPack, getContextBudget } from '@/lib/retrieval/contextPack';
+import { generateEmailPrompt, getEmailConfig, getAvailableTones, getAvailableStyles } from '@/lib/llm/prompts/generate';
+import { ANGLES } from '@/lib/angles';
+import { chooseBestSubject } from '@/lib/email/postProcess';
+import { generateEmailContent, addUtmParams, applyLinkOverrides } from '@/lib/email/generateEmail';
+import { resolveStyleProfile, type ResolvedStyleProfile } from '@/lib/style/profile';
+import { runDraftGuards } from '@/lib/guards/draftGuards';
+import { getLLMProvider } from '@/lib/llm/providers';
+import { SEQUENCE_TEMPLATES } from '@/lib/sequences/templates';
+import { allocateChunksToSteps } from '@/lib/sequences/allocateChunks';
+import { zCreateDraft, type CreateDraft } from '@/lib/schemas/draft';
+import { zSequenceStep, zCreateSequence, type CreateSequence, type SequenceStep } from '@/lib/schemas/sequence';
+import { ObjectId } from 'mongodb';
+
+/**
+ * Request schema for sequence generation
+ * Either a built-in template key or a custom list of steps is required.
+ */
+const zGenerateSequenceRequest = z.object({
+  projectId: z.string().min(1, 'Project ID is required'),
+  name: z.string().optional(),
+  template: z.enum(Object.keys(SEQUENCE_TEMPLATES) as [string, ...string[]]).optional(),
+  steps: z.array(
+    zSequenceStep.refine(step => Boolean(ANGLES[step.angle]), { message: 'Unknown angle in sequence step' })
+  ).min(1).max(10, 'Maximum 10 steps per sequence').optional(),
+  audience: z.string().optional(),
+  tone: z.enum(getAvailableTones().map(t => t.key) as [string, ...string[]]).optional(),
+  style: z.enum(getAvailableStyles().map(s => s.key) as [string, ...string[]]).optional(),
+  constraints: z.string().optional(),
+  linkOverrides: z.record(z.string()).optional(),
+  query: z.string().optional(), // Optional custom query, defaults to project name
+  hypeLevel: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]).optional(),
+  styleProfileId: z.string().optional(),
+  useStyleProfile: z.boolean().default(true),
+  chunksPerStep: z.number().int().min(2).max(8).default(4),
+  runGuards: z.boolean().default(false), // Run context and style guards on every email
+}).refine(
+  (data) => data.template || data.steps,
+  { message: 'Either a template or custom steps are required' }
+);
+
+/**
+ * Response type for the sequence endpoint
+ */
+type GenerateSequenceResponse = {
+  sequence: CreateSequence & { _id: string };
+  drafts: Array<CreateDraft & { _id: string }>;
+};
+
+/**
+ * POST /api/generate/sequence
+ *
+ * Generates a multi-email sequence. Context is retrieved once and split across
+ * steps so each email uses different chunks, and each step is told which subjects
+ * earlier steps used so hooks aren't repeated. Drafts are saved individually and
+ * linked from an ordered Sequence document.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  // Track drafts created so far so a failed run doesn't leave half a sequence behind
+  const createdDraftIds: ObjectId[] = [];
+
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedRequest = zGenerateSequenceRequest.parse(body);
+
+    const {
+      projectId,
+      template,
+      audience,
+      tone,
+      style,
+      constraints,
+      linkOverrides,
+      query,
+      hypeLevel,
+      styleProfileId,
+      useStyleProfile,
+      chunksPerStep,
+      runGuards,
+    } = validatedRequest;
+
+    // Custom steps win over the template
+    const steps: SequenceStep[] = validatedRequest.steps || SEQUENCE_TEMPLATES[template as string].steps;
+    const orderedSteps = [...steps].sort((a, b) => a.day - b.day);
+    const name = validatedRequest.name || (template ? SEQUENCE_TEMPLATES[template].name : 'Custom Sequence');
+
+    // Validate ObjectId format for projectId
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Get database collections
+    const projectsCollection = await getColl('projects');
+    const draftsCollection = await getColl('drafts');
+    const sequencesCollection = await getColl('sequences');
+
+    // Fetch project and verify ownership
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId // Ensure user owns the project
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const llmProvider = getLLMProvider(project.llm);
+
+    let styleProfile: ResolvedStyleProfile | null;
+    try {
+      styleProfile = await resolveStyleProfile({
+        userId,
+        projectStyleProfileId: project.style_profile_id,
+        styleProfileId,
+        useStyleProfile
+      });
+    } catch (error) {
+      return errorResponse(error instanceof Error ? error.message : 'Style profile not found', 404);
+    }
+
+    // Retrieve context once for the whole sequence
+    const searchQuery = query || project.name;
+    const retrievalResult = await hybridRetrieve({
+      projectId,
+      query: searchQuery,
+      k: Math.min(40, orderedSteps.length * chunksPerStep),
+      userId,
+      fusion: project.retrieval?.fusion,
+      rerank: project.retrieval?.reranker,
+      mmr: project.retrieval?.mmr,
+      expansion: project.retrieval?.expansion,
+      provider: llmProvider
+    });
+
+    if (retrievalResult.chunks.length === 0) {
+      return errorResponse('No relevant content found for sequence generation', 400);
+    }
+
+    const allocations = allocateChunksToSteps(retrievalResult.chunks, orderedSteps.length, chunksPerStep);
+
+    const sequenceId = new ObjectId();
+    const drafts: Array<CreateDraft & { _id: string }> = [];
+    const usedSubjects: string[] = [];
+    const sequenceSteps: CreateSequence['steps'] = [];
+
+    // Generate steps in order so each one knows the subjects before it
+    for (let index = 0; index < orderedSteps.length; index++) {
+      const step = orderedSteps[index];
+      const defaultLink = project.default_link
+        ? addUtmParams(project.default_link, projectId, step.angle)
+        : undefined;
+
+      const emailConfig = getEmailConfig(tone, style, hypeLevel);
+
+      const buildPrompt = (contextPack: string) => generateEmailPrompt({
+        angle: step.angle,
+        projectName: project.name,
+        audience,
+        tone,
+        style,
+        constraints,
+        contextPack,
+        defaultLink,
+        hypeLevel,
+        styleCard: styleProfile?.styleCard,
+        sequence: {
+          position: index + 1,
+          total: orderedSteps.length,
+          day: step.day,
+          goal: step.goal,
+          previousSubjects: [...usedSubjects]
+        }
+      });
+
+      // Fit this step's chunks into what the window leaves after the prompt and response
+      const { text: contextPack, ...contextReport } = buildContextPack(allocations[index], {
+        budgetTokens: getContextBudget({
+          provider: llmProvider,
+          tier: emailConfig.tier,
+          maxTokens: emailConfig.maxTokens,
+          prompt: buildPrompt('')
+        })
+      });
+      const packedIds = new Set([...contextReport.included, ...contextReport.trimmed]);
+      const stepChunks = allocations[index].filter(chunk => packedIds.has(chunk.chunkId));
+
+      const prompt = buildPrompt(contextPack);
+      const generatedEmail = await generateEmailContent(prompt, emailConfig, llmProvider);
+      const finalEmail = applyLinkOverrides(
+        chooseBestSubject(generatedEmail, contextPack, emailConfig.effectiveHypeLevel, usedSubjects),
+        linkOverrides
+      );
+
+      const draftId = new ObjectId();
+      const now = new Date();
+
+      const draft: CreateDraft = {
+        projectId,
+        angle: step.angle,
+        subject: finalEmail.subject,
+        preheader: finalEmail.preheader,
+        formats: {
+          html: finalEmail.html,
+          md: finalEmail.md,
+          txt: finalEmail.txt,
+        },
+        context_chunk_ids: stepChunks.map(chunk => chunk.chunkId),
+        sequenceId: sequenceId.toString(),
+        sequenceStep: index,
+        generation: {
+          audience,
+          tone,
+          style,
+          constraints,
+          linkOverrides,
+          hypeLevel,
+          styleProfileId: styleProfile?.styleProfileId,
+        },
+        scores: {
+          generation_timestamp: now.toISOString(),
+          context_chunks_used: stepChunks.length,
+          search_query: searchQuery,
+          style_profile_id: styleProfile?.styleProfileId,
+          sequence_day: step.day,
+          sequence_goal: step.goal,
+          reranker: retrievalResult.reranker,
+          context_pack: contextReport,
+          retrieval_scores: allocations[index].map(chunk => ({
+            chunkId: chunk.chunkId,
+            score: chunk.score,
+            source: chunk.source,
+            fused_score: chunk.fused_score,
+            rerank_score: chunk.rerank_score
+          }))
+        }
+      };
+
+      if (runGuards) {
+        draft.scores.guards = await runDraftGuards({
+          content: {
+            subject: draft.subject,
+            preheader: draft.preheader,
+            formats: draft.formats,
+          },
+          contextChunks: stepChunks,
+          styleProfile,
+          audience,
+          provider: llmProvider,
+        });
+      }
+
+      const validatedDraft = zCreateDraft.parse(draft);
+
+      const insertResult = await draftsCollection.insertOne({
+        _id: draftId,
+        ...validatedDraft,
+        createdAt: now
+      });
+
+      if (!insertResult.acknowledged) {
+        throw new Error(`Failed to save draft for sequence step ${index + 1}`);
+      }
+
+      createdDraftIds.push(draftId);
+      usedSubjects.push(validatedDraft.subject);
+      drafts.push({ _id: draftId.toString(), ...validatedDraft });
+      sequenceSteps.push({
+        ...step,
+        draftId: draftId.toString(),
+        subject: validatedDraft.subject,
+        context_chunk_ids: validatedDraft.context_chunk_ids
+      });
+    }
+
+    const sequence = zCreateSequence.parse({
+      projectId,
+      userId,
+      name,
+      template: validatedRequest.steps ? undefined : template,
+      steps: sequenceSteps,
+      search_query: searchQuery,
+    });
+
+    const sequenceInsert = await sequencesCollection.insertOne({
+      _id: sequenceId,
+      ...sequence,
+      createdAt: new Date()
+    });
+
+    if (!sequenceInsert.acknowledged) {
+      throw new Error('Failed to save sequence to database');
+    }
+
+    const response: GenerateSequenceResponse = {
+      sequence: { _id: sequenceId.toString(), ...sequence },
+      drafts
+    };
+
+    return successResponse(response);
+
+  } catch (error) {
+    console.error('Sequence generation error:', error);
+
+    // Roll back drafts from the partial run
+    if (createdDraftIds.length > 0) {
+      try {
+        const draftsCollection = await getColl('drafts');
+        await draftsCollection.deleteMany({ _id: { $in: createdDraftIds } });
+      } catch (cleanupError) {
+        console.error('Failed to clean up partial sequence drafts:', cleanupError);
+      }
+    }
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(
+        `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+        400
+      );
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Sequence generation failed',
+      500
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { auth } from '@clerk/nextjs/server';
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { guardContextPrompt } from '@/lib/llm/prompts/guardContext';
+import {
+  validateClaimsAgainstContext,
+  type FactualClaim,
+  type ValidationSummary,
+} from '@/lib/guards/context';
 
 // Request schema
 const GuardContextRequestSchema = z.object({
@@ -19,20 +23,7 @@ const GuardContextRequestSchema = z.object({
 });
 
 // Response types
-export interface FactualClaim {
-  claim: string;
-  status: 'supported' | 'unsupported';
-  supporting_chunks: string[];
-  evidence: string;
-  confidence: number;
-}
-
-export interface ValidationSummary {
-  total_claims: number;
-  supported_claims: number;
-  unsupported_claims: number;
-  support_percentage: number;
-}
+export type { FactualClaim, ValidationSummary };
 
 export interface GuardContextResponse {
   ok: true;
@@ -98,87 +89,3 @@ export async function POST(request: NextRequest): Promise<Response> {
     });
   }
 }
-
-async function validateClaimsAgainstContext(
-  contextChunks: Array<{ chunkId: string; md_text: string }>,
-  draft: { html?: string; md?: string }
-): Promise<{
-  claims: FactualClaim[];
-  summary: ValidationSummary;
-  recommendations: string[];
-}> {
-  try {
-    // Get the context validation prompt
-    const prompt = guardContextPrompt(contextChunks, draft);
-
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a fact-checking expert. Analyze the provided draft against the context chunks and return detailed validation results in the exact JSON format requested.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        response_format: { type: 'json_object' }
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const result = await response.json();
-    const validationText = result.choices[0]?.message?.content;
-
-    if (!validationText) {
-      throw new Error('No response from OpenAI API');
-    }
-
-    // Parse the JSON response
-    const validation = JSON.parse(validationText);
-
-    // Validate the response structure
-    if (!validation.claims || !Array.isArray(validation.claims)) {
-      throw new Error('Invalid response format from LLM: missing claims array');
-    }
-
-    if (!validation.summary || typeof validation.summary !== 'object') {
-      throw new Error('Invalid response format from LLM: missing summary object');
-    }
-
-    return {
-      claims: validation.claims.map((claim: Record<string, unknown>) => ({
-        claim: claim.claim || 'Unknown claim',
-        status: claim.status === 'supported' ? 'supported' : 'unsupported',
-        supporting_chunks: Array.isArray(claim.supporting_chunks) ? claim.supporting_chunks : [],
-        evidence: claim.evidence || 'No evidence provided',
-        confidence: typeof claim.confidence === 'number' ? 
-          Math.max(0, Math.min(1, claim.confidence)) : 0.5
-      })),
-      summary: {
-        total_claims: validation.summary.total_claims || 0,
-        supported_claims: validation.summary.supported_claims || 0,
-        unsupported_claims: validation.summary.unsupported_claims || 0,
-        support_percentage: validation.summary.support_percentage || 0
-      },
-      recommendations: Array.isArray(validation.recommendations) ? 
-        validation.recommendations : []
-    };
-
-  } catch (error) {
-    console.error('LLM validation error:', error);
-    throw new Error(`Failed to validate context: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
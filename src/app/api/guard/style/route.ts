@@ -1,34 +1,46 @@
 import { auth } from '@clerk/nextjs/server';
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { guardStylePrompt } from '@/lib/llm/prompts/guardStyle';
+import { styleRequirementsFromCard, type StyleRequirements } from '@/lib/llm/prompts/guardStyle';
+import { validateStyleCard } from '@/lib/llm/prompts/styleCard';
+import { loadStyleProfile } from '@/lib/style/profile';
+import { analyzeStyleMismatches, type StyleMismatch } from '@/lib/guards/style';
+
+// Plain-language style requirements
+const StyleRequirementsSchema = z.object({
+  tone: z.string(),
+  voice: z.string(),
+  style: z.string(),
+  audience: z.string(),
+  guidelines: z.array(z.string()).optional(),
+  examples: z.array(z.string()).optional(),
+});
+
+// A StyleCard as stored on style profiles (tone sliders are numbers)
+const StoredStyleCardSchema = z.object({
+  tone: z.object({ formal_casual: z.number() }).passthrough(),
+}).passthrough();
 
 // Request schema
 const GuardStyleRequestSchema = z.object({
-  style_card: z.object({
-    tone: z.string(),
-    voice: z.string(),
-    style: z.string(),
-    audience: z.string(),
-    guidelines: z.array(z.string()).optional(),
-    examples: z.array(z.string()).optional(),
-  }),
+  style_card: z.union([StyleRequirementsSchema, StoredStyleCardSchema]).optional(),
+  styleProfileId: z.string().optional(), // Use a saved style profile instead of an inline card
+  audience: z.string().optional(), // Audience for stored style cards, which don't include one
   draft: z.object({
     subject: z.string(),
     html: z.string(),
     md: z.string(),
     txt: z.string(),
   }),
-});
+}).refine(
+  (data) => data.style_card || data.styleProfileId,
+  { message: 'Either style_card or styleProfileId is required' }
+);
 
 type GuardStyleRequest = z.infer<typeof GuardStyleRequestSchema>;
 
 // Response types
-export interface StyleMismatch {
-  area: string;
-  issue: string;
-  fix: string;
-}
+export type { StyleMismatch };
 
 export interface GuardStyleResponse {
   ok: true;
@@ -61,9 +73,28 @@ export async function POST(request: NextRequest): Promise<Response> {
     const body = await request.json();
     const validatedData: GuardStyleRequest = GuardStyleRequestSchema.parse(body);
 
+    let styleRequirements: StyleRequirements;
+    if (validatedData.styleProfileId) {
+      const profile = await loadStyleProfile(validatedData.styleProfileId, userId);
+      if (!profile) {
+        return new Response(JSON.stringify(
+          { ok: false, error: 'Style profile not found' } as GuardStyleErrorResponse
+        ), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      styleRequirements = styleRequirementsFromCard(validateStyleCard(profile.style_card), validatedData.audience);
+    } else {
+      const styleCard = validatedData.style_card!;
+      styleRequirements = typeof styleCard.tone === 'string'
+        ? styleCard as StyleRequirements
+        : styleRequirementsFromCard(validateStyleCard(styleCard), validatedData.audience);
+    }
+
     // Call LLM to analyze style mismatches
     const analysisResult = await analyzeStyleMismatches(
-      validatedData.style_card,
+      styleRequirements,
       validatedData.draft
     );
 
@@ -94,74 +125,3 @@ export async function POST(request: NextRequest): Promise<Response> {
     });
   }
 }
-
-async function analyzeStyleMismatches(
-  styleCard: GuardStyleRequest['style_card'],
-  draft: GuardStyleRequest['draft']
-): Promise<{
-  mismatches: StyleMismatch[];
-  overall_score: number;
-  recommendations: string[];
-}> {
-  try {
-    // Get the style analysis prompt
-    const prompt = guardStylePrompt(styleCard, draft);
-
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a style analysis expert. Analyze the provided draft against the style card and return detailed feedback in the exact JSON format requested.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        response_format: { type: 'json_object' }
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const result = await response.json();
-    const analysisText = result.choices[0]?.message?.content;
-
-    if (!analysisText) {
-      throw new Error('No response from OpenAI API');
-    }
-
-    // Parse the JSON response
-    const analysis = JSON.parse(analysisText);
-
-    // Validate the response structure
-    if (!analysis.mismatches || !Array.isArray(analysis.mismatches)) {
-      throw new Error('Invalid response format from LLM');
-    }
-
-    return {
-      mismatches: analysis.mismatches.map((mismatch: Record<string, unknown>) => ({
-        area: mismatch.area || 'Unknown',
-        issue: mismatch.issue || 'No issue specified',
-        fix: mismatch.fix || 'No fix suggested'
-      })),
-      overall_score: analysis.overall_score || 0,
-      recommendations: analysis.recommendations || []
-    };
-
-  } catch (error) {
-    console.error('LLM analysis error:', error);
-    throw new Error(`Failed to analyze style: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
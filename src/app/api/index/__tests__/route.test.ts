@@ -0,0 +1,49 @@
+import { getEmbeddingCacheStats } from '@/lib/vector/embeddingCache';
+import { GET } from '../route';
+
+jest.mock('@clerk/nextjs/server', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+jest.mock('@/lib/vector/embeddingCache', () => ({ getEmbeddingCacheStats: jest.fn() }));
+
+const mockAuth = jest.requireMock('@clerk/nextjs/server').auth;
+const mockStats = getEmbeddingCacheStats as jest.MockedFunction<typeof getEmbeddingCacheStats>;
+
+describe('GET /api/index', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_USER_IDS = 'user_operator, user_other';
+    mockStats.mockResolvedValue([
+      { provider: 'openai', model: 'text-embedding-3-small', hits: 3, misses: 1, hit_rate: 0.75, entries: 4 },
+    ]);
+  });
+
+  afterAll(() => {
+    delete process.env.OPERATOR_USER_IDS;
+  });
+
+  it('should return cache stats to operators', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_operator' });
+
+    const response = await GET();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.cache).toHaveLength(1);
+  });
+
+  it('should refuse other users', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_customer' });
+
+    const response = await GET();
+
+    expect(response.status).toBe(403);
+    expect(mockStats).not.toHaveBeenCalled();
+  });
+
+  it('should refuse everyone when no operators are configured', async () => {
+    delete process.env.OPERATOR_USER_IDS;
+    mockAuth.mockResolvedValue({ userId: 'user_operator' });
+
+    expect((await GET()).status).toBe(403);
+  });
+});
@@ -3,30 +3,102 @@ import { z } from 'zod';
 import { requireUser } from '@/lib/auth/requireUser';
 import { jsonResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
-import { embedMany } from '@/lib/vector/embeddings';
-import { Chunk } from '@/lib/schemas/chunk';
+import { resolveEmbeddingModel } from '@/lib/vector/embeddings';
+import { indexProjectChunks } from '@/lib/vector/reindex';
+import { getEmbeddingCacheStats } from '@/lib/vector/embeddingCache';
+import { zEmbeddingModel } from '@/lib/schemas/embeddingModel';
+import { ObjectId } from 'mongodb';
 
 // Request schema validation
 const IndexRequestSchema = z.object({
   projectId: z.string().min(1, 'Project ID is required'),
+  model: zEmbeddingModel.omit({ dimensions: true }).optional(), // Migrate the project to this model
 });
 
+/**
+ * Whether a user may see deployment-wide stats, from the comma-separated
+ * Clerk user IDs in OPERATOR_USER_IDS. Nobody may when it's unset.
+ */
+function isOperator(userId: string): boolean {
+  return (process.env.OPERATOR_USER_IDS ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .includes(userId);
+}
+
+/**
+ * GET /api/index
+ * 
+ * Embedding cache hit rates per model. Ingestion, indexing and queries all
+ * embed through the cache, so these cover every embedding call. The cache is
+ * shared by all users, so only operators (OPERATOR_USER_IDS) may read this;
+ * everyone else gets 403.
+ * 
+ * Response:
+ * {
+ *   "ok": true,
+ *   "data": {
+ *     "cache": [{ "provider": "string", "model": "string", "endpoint"?: "string", "hits": number, "misses": number, "hit_rate": number, "entries": number }]
+ *   }
+ * }
+ */
+export async function GET() {
+  const authResult = await requireUser();
+
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  if (!isOperator(authResult.userId)) {
+    return jsonResponse(
+      { ok: false, error: 'Embedding cache stats are only available to operators' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const cache = await getEmbeddingCacheStats();
+
+    return jsonResponse({
+      ok: true,
+      data: { cache },
+    });
+
+  } catch (error) {
+    console.error('Index API error:', error);
+
+    return jsonResponse(
+      { 
+        ok: false, 
+        error: error instanceof Error ? error.message : 'Failed to load embedding cache stats' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * POST /api/index
  * 
- * Index non-vector chunks for a project by generating embeddings
- * and updating the chunks with their vectors.
+ * Index chunks for a project by generating embeddings with the project's
+ * embedding model. Chunks with no vector, or a vector from another model,
+ * are (re-)embedded. Passing `model` migrates the whole project to that
+ * model; the switch happens only after every chunk has a new vector.
  * 
  * Request body:
  * {
- *   "projectId": "string"
+ *   "projectId": "string",
+ *   "model": { "provider": "openai" | "openai-compatible" | "local" | "fixture", "model": "string" } // optional
  * }
  * 
  * Response:
  * {
  *   "ok": true,
  *   "data": {
- *     "indexed": number
+ *     "indexed": number,
+ *     "model": { "provider": "string", "model": "string", "dimensions": number },
+ *     "migrated": boolean,
+ *     "previousModel": { ... } // when migrated
  *   }
  * }
  */
@@ -42,70 +114,32 @@ export async function POST(request: Request) {
   try {
     // Parse and validate request body
     const body = await request.json();
-    const { projectId } = IndexRequestSchema.parse(body);
+    const { projectId, model } = IndexRequestSchema.parse(body);
 
-    // Get chunks collection
-    const chunksCollection = await getColl<Chunk>('chunks');
-
-    // Verify project ownership and find non-vector chunks
-    const nonVectorChunks = await chunksCollection.find({
-      projectId,
-      userId, // Ensure user can only index their own project's chunks
-      $or: [
-        { vector: false },
-        { vector: { $exists: false } }
-      ]
-    }).toArray();
-
-    if (nonVectorChunks.length === 0) {
-      return jsonResponse({
-        ok: true,
-        data: {
-          indexed: 0,
-        },
-      });
+    if (!ObjectId.isValid(projectId)) {
+      return jsonResponse({ ok: false, error: 'Invalid project ID format' }, { status: 400 });
     }
 
-    // Extract text content for embedding
-    const textsToEmbed = nonVectorChunks.map(chunk => chunk.md_text);
-    const chunkIds = nonVectorChunks.map(chunk => chunk._id);
-
-    // Generate embeddings for all non-vector chunks
-    const embeddings = await embedMany(textsToEmbed);
+    // Verify project ownership
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
 
-    if (embeddings.length !== nonVectorChunks.length) {
-      throw new Error('Mismatch between number of chunks and embeddings generated');
+    if (!project) {
+      return jsonResponse({ ok: false, error: 'Project not found or access denied' }, { status: 404 });
     }
 
-    // Update chunks with their embeddings and set vector: true
-    const bulkOps = chunkIds.map((chunkId, index) => ({
-      updateOne: {
-        filter: { _id: chunkId, projectId, userId },
-        update: {
-          $set: {
-            embedding: embeddings[index],
-            vector: true,
-            updatedAt: new Date(),
-          },
-        },
-      },
-    }));
-
-    // Execute bulk update
-    const bulkResult = await chunksCollection.bulkWrite(bulkOps);
-
-    // Verify all updates were successful
-    if (bulkResult.modifiedCount !== nonVectorChunks.length) {
-      console.warn(
-        `Expected to update ${nonVectorChunks.length} chunks, but only updated ${bulkResult.modifiedCount}`
-      );
-    }
+    const result = await indexProjectChunks({
+      projectId,
+      current: resolveEmbeddingModel(project.embedding),
+      target: model,
+    });
 
     return jsonResponse({
       ok: true,
-      data: {
-        indexed: bulkResult.modifiedCount,
-      },
+      data: result,
     });
 
   } catch (error) {
@@ -0,0 +1,59 @@
+import { NextRequest, after } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getCrawl, rerunCrawl, runCrawl } from '@/lib/ingest/crawl';
+import { ObjectId } from 'mongodb';
+
+/**
+ * POST /api/ingest/crawls/[crawlId]/rerun
+ * 
+ * Crawls the site again with the same settings. Unchanged pages keep their
+ * assets, changed pages are re-ingested and pages no longer reached are removed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ crawlId: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const { crawlId } = await params;
+
+  try {
+    if (!ObjectId.isValid(crawlId)) {
+      return errorResponse('Invalid crawl ID format', 400);
+    }
+
+    const crawl = await rerunCrawl(crawlId, userId);
+
+    if (!crawl) {
+      const existing = await getCrawl(crawlId, userId);
+      return existing
+        ? errorResponse(`The crawl is already ${existing.status}`, 409)
+        : errorResponse('Crawl not found', 404);
+    }
+
+    // Run the crawl's first step once the response has been sent
+    after(async () => {
+      try {
+        await runCrawl(crawlId);
+      } catch (error) {
+        console.error(`[CRAWL] Crawl ${crawlId} stopped:`, error);
+      }
+    });
+
+    return successResponse(crawl, 202);
+
+  } catch (error) {
+    console.error('Error re-running crawl:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to re-run crawl',
+      500
+    );
+  }
+}
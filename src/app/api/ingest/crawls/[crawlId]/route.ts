@@ -0,0 +1,102 @@
+import { NextRequest, after } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { deleteCrawl, getCrawl, isCrawlStale, runCrawl } from '@/lib/ingest/crawl';
+import { ObjectId } from 'mongodb';
+
+/**
+ * GET /api/ingest/crawls/[crawlId]
+ * 
+ * Returns a crawl with the outcome of each page of its latest run. A crawl
+ * waiting between steps (or interrupted) runs its next step after the response,
+ * so following a crawl keeps it going.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ crawlId: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const { crawlId } = await params;
+
+  try {
+    if (!ObjectId.isValid(crawlId)) {
+      return errorResponse('Invalid crawl ID format', 400);
+    }
+
+    const crawl = await getCrawl(crawlId, userId);
+
+    if (!crawl) {
+      return errorResponse('Crawl not found', 404);
+    }
+
+    if (crawl.status === 'queued' || isCrawlStale(crawl)) {
+      after(async () => {
+        try {
+          await runCrawl(crawlId);
+        } catch (error) {
+          console.error(`[CRAWL] Crawl ${crawlId} stopped:`, error);
+        }
+      });
+    }
+
+    return successResponse(crawl);
+
+  } catch (error) {
+    console.error('Error retrieving crawl:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve crawl',
+      500
+    );
+  }
+}
+
+/**
+ * DELETE /api/ingest/crawls/[crawlId]
+ * 
+ * Deletes a crawl together with every asset and chunk it ingested
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ crawlId: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const { crawlId } = await params;
+
+  try {
+    if (!ObjectId.isValid(crawlId)) {
+      return errorResponse('Invalid crawl ID format', 400);
+    }
+
+    const deleted = await deleteCrawl(crawlId, userId);
+
+    if (!deleted) {
+      const existing = await getCrawl(crawlId, userId);
+      return existing
+        ? errorResponse(`The crawl is ${existing.status}; delete it once it has finished`, 409)
+        : errorResponse('Crawl not found', 404);
+    }
+
+    return successResponse({ crawlId, ...deleted });
+
+  } catch (error) {
+    console.error('Error deleting crawl:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to delete crawl',
+      500
+    );
+  }
+}
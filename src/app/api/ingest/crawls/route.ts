@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { NextRequest, after } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { createCrawl, listCrawls, runCrawl } from '@/lib/ingest/crawl';
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '@/lib/schemas/crawl';
+import { ObjectId } from 'mongodb';
+
+/**
+ * Request schema for starting a crawl
+ */
+const CrawlRequestSchema = z.object({
+  projectId: z.string().min(1, 'Project ID is required'),
+  startUrl: z.string().url('Valid URL is required').refine(
+    url => url.startsWith('http://') || url.startsWith('https://'),
+    'URL must use http or https'
+  ),
+  maxDepth: z.number().int().min(0).max(MAX_CRAWL_DEPTH).default(2),
+  maxPages: z.number().int().min(1).max(MAX_CRAWL_PAGES).default(25),
+});
+
+/**
+ * POST /api/ingest/crawls
+ * 
+ * Starts crawling a site from a start URL, or from the pages listed when the
+ * URL is a sitemap.xml. Returns 202 with the crawl; each page is ingested as
+ * its own asset after the response, in steps that carry on as the crawl is
+ * followed (see lib/ingest/crawl).
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+
+  try {
+    const body = await request.json();
+    const { projectId, startUrl, maxDepth, maxPages } = CrawlRequestSchema.parse(body);
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Verify project ownership
+    const projectsColl = await getColl('projects');
+    const project = await projectsColl.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const crawl = await createCrawl({ projectId, userId, startUrl, maxDepth, maxPages });
+
+    // Run the crawl's first step once the response has been sent
+    after(async () => {
+      try {
+        await runCrawl(crawl._id);
+      } catch (error) {
+        console.error(`[CRAWL] Crawl ${crawl._id} stopped:`, error);
+      }
+    });
+
+    return successResponse({ crawlId: crawl._id, crawl }, 202);
+
+  } catch (error) {
+    console.error('Error starting crawl:', error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return errorResponse(
+        `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+        400
+      );
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to start crawl',
+      500
+    );
+  }
+}
+
+/**
+ * GET /api/ingest/crawls?projectId=...
+ * 
+ * Lists a project's crawls, newest first
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+
+  try {
+    const projectId = new URL(request.url).searchParams.get('projectId') || '';
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Crawls are scoped to the user, so another user's project lists nothing
+    const crawls = await listCrawls(projectId, userId);
+
+    return successResponse(crawls);
+
+  } catch (error) {
+    console.error('Error retrieving crawls:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve crawls',
+      500
+    );
+  }
+}
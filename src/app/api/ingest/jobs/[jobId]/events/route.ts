@@ -0,0 +1,104 @@
+import { NextRequest, after } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { errorResponse } from '@/lib/api/response';
+import { getIngestJob, isIngestJobWaiting, runIngestJob } from '@/lib/ingest/jobs';
+import { ObjectId } from 'mongodb';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_STREAM_MS = 4 * 60 * 1000; // Clients reconnect, or fall back to polling, after this
+
+/**
+ * GET /api/ingest/jobs/[jobId]/events
+ * 
+ * Server-sent events for an ingestion job: a `progress` event with the job
+ * whenever it changes, then a final `done` event once it has completed or
+ * failed. The stream closes after four minutes; EventSource reconnects on
+ * its own.
+ *
+ * A job waiting between steps (or interrupted) can't run while the stream is
+ * open, so the stream ends after its `progress` event and the job's next step
+ * runs after the response. Clients then reconnect or poll.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const { jobId } = await params;
+
+  if (!ObjectId.isValid(jobId)) {
+    return errorResponse('Invalid job ID format', 400);
+  }
+
+  const initial = await getIngestJob(jobId, userId);
+  if (!initial) {
+    return errorResponse('Ingestion job not found', 404);
+  }
+
+  if (isIngestJobWaiting(initial)) {
+    after(async () => {
+      try {
+        await runIngestJob(jobId);
+      } catch (error) {
+        console.error(`[INGEST] Job ${jobId} stopped:`, error);
+      }
+    });
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const startedAt = Date.now();
+      let job = initial;
+      let lastUpdate = '';
+
+      try {
+        while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+          const update = new Date(job.updatedAt).toISOString();
+          if (update !== lastUpdate) {
+            lastUpdate = update;
+            send('progress', job);
+          }
+
+          if (job.status === 'completed' || job.status === 'failed') {
+            send('done', job);
+            break;
+          }
+
+          if (isIngestJobWaiting(job)) {
+            break;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+          const next = await getIngestJob(jobId, userId);
+          if (!next) break;
+          job = next;
+        }
+      } catch (error) {
+        console.error('Ingestion job stream error:', error);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, after } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getIngestJob, retryIngestJob, runIngestJob } from '@/lib/ingest/jobs';
+import { ObjectId } from 'mongodb';
+
+/**
+ * POST /api/ingest/jobs/[jobId]/retry
+ * 
+ * Requeues a failed or interrupted ingestion job. Stages that completed keep
+ * their output; the job resumes at the stage that failed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const { jobId } = await params;
+
+  try {
+    if (!ObjectId.isValid(jobId)) {
+      return errorResponse('Invalid job ID format', 400);
+    }
+
+    const job = await retryIngestJob(jobId, userId);
+
+    if (!job) {
+      const existing = await getIngestJob(jobId, userId);
+      return existing
+        ? errorResponse(`Only failed or interrupted jobs can be retried; this job is ${existing.status}`, 409)
+        : errorResponse('Ingestion job not found', 404);
+    }
+
+    // Run the job's first step once the response has been sent
+    after(async () => {
+      try {
+        await runIngestJob(jobId);
+      } catch (error) {
+        console.error(`[INGEST] Job ${jobId} stopped:`, error);
+      }
+    });
+
+    return successResponse(job, 202);
+
+  } catch (error) {
+    console.error('Error retrying ingestion job:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retry ingestion job',
+      500
+    );
+  }
+}
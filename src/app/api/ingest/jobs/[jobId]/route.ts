@@ -0,0 +1,59 @@
+import { NextRequest, after } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getIngestJob, isIngestJobWaiting, runIngestJob } from '@/lib/ingest/jobs';
+import { ObjectId } from 'mongodb';
+
+/**
+ * GET /api/ingest/jobs/[jobId]
+ * 
+ * Returns an ingestion job with the status and progress of each stage. Poll
+ * this, or subscribe to `/events`, until `status` is `completed` or `failed`.
+ * A job waiting between steps (or interrupted) runs its next step after the
+ * response, so following a job keeps it going.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const { jobId } = await params;
+
+  try {
+    if (!ObjectId.isValid(jobId)) {
+      return errorResponse('Invalid job ID format', 400);
+    }
+
+    const job = await getIngestJob(jobId, userId);
+
+    if (!job) {
+      return errorResponse('Ingestion job not found', 404);
+    }
+
+    if (isIngestJobWaiting(job)) {
+      after(async () => {
+        try {
+          await runIngestJob(jobId);
+        } catch (error) {
+          console.error(`[INGEST] Job ${jobId} stopped:`, error);
+        }
+      });
+    }
+
+    return successResponse(job);
+
+  } catch (error) {
+    console.error('Error retrieving ingestion job:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve ingestion job',
+      500
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { listIngestJobs } from '@/lib/ingest/jobs';
+import { ObjectId } from 'mongodb';
+
+/**
+ * GET /api/ingest/jobs?projectId=...
+ * 
+ * Lists a project's ingestion jobs, newest first, capped with `?limit=`
+ * (default 20)
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId') || '';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Jobs are scoped to the user, so another user's project lists nothing
+    const jobs = await listIngestJobs(projectId, userId, limit);
+
+    return successResponse(jobs);
+
+  } catch (error) {
+    console.error('Error retrieving ingestion jobs:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve ingestion jobs',
+      500
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, type NextFetchEvent } from 'next/server';
+import { resumeCrawls } from '@/lib/ingest/crawl';
+import { resumeIngestJobs } from '@/lib/ingest/jobs';
+import middleware from '@/middleware';
+import { GET } from '../route';
+
+// Run the middleware callback with no Clerk session, keeping the real route matcher
+jest.mock('@clerk/nextjs/server', () => ({
+  ...jest.requireActual('@clerk/nextjs/server'),
+  clerkMiddleware: (handler: (auth: () => Promise<{ userId: null }>, req: NextRequest) => Promise<Response>) =>
+    (req: NextRequest) => handler(async () => ({ userId: null }), req),
+}));
+jest.mock('@/lib/ingest/crawl', () => ({ resumeCrawls: jest.fn() }));
+jest.mock('@/lib/ingest/jobs', () => ({ resumeIngestJobs: jest.fn() }));
+
+const mockResumeCrawls = resumeCrawls as jest.MockedFunction<typeof resumeCrawls>;
+const mockResumeJobs = resumeIngestJobs as jest.MockedFunction<typeof resumeIngestJobs>;
+
+describe('/api/ingest/resume', () => {
+  const secret = 'cron-secret';
+
+  const createRequest = (path: string, authorization?: string) =>
+    new NextRequest(`http://localhost:3000${path}`, {
+      headers: authorization ? { authorization } : {},
+    });
+
+  const runMiddleware = (request: NextRequest) =>
+    middleware(request, {} as NextFetchEvent) as Promise<Response>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CRON_SECRET = secret;
+    mockResumeCrawls.mockResolvedValue(['crawl-1']);
+    mockResumeJobs.mockResolvedValue(['job-1']);
+  });
+
+  afterAll(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it('should let the cron request through the middleware and resume crawls and jobs', async () => {
+    const request = createRequest('/api/ingest/resume', `Bearer ${secret}`);
+
+    const passed = await runMiddleware(request);
+    expect(passed.headers.get('location')).toBeNull();
+    expect(passed.headers.get('x-middleware-next')).toBe('1');
+
+    const before = Date.now();
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({ resumedCrawls: ['crawl-1'], resumedJobs: ['job-1'] });
+
+    // Both share one deadline inside the function's budget
+    const deadline = mockResumeCrawls.mock.calls[0][0];
+    expect(deadline).toBeGreaterThan(before);
+    expect(deadline).toBeLessThan(before + 5 * 60 * 1000);
+    expect(mockResumeJobs).toHaveBeenCalledWith(deadline);
+  });
+
+  it('should still resume jobs when resuming crawls fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockResumeCrawls.mockRejectedValue(new Error('Crawl failed'));
+
+    const response = await GET(createRequest('/api/ingest/resume', `Bearer ${secret}`));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({ resumedCrawls: [], resumedJobs: ['job-1'] });
+  });
+
+  it('should reject a request without the cron secret', async () => {
+    const response = await GET(createRequest('/api/ingest/resume', 'Bearer wrong'));
+
+    expect(response.status).toBe(401);
+    expect(mockResumeCrawls).not.toHaveBeenCalled();
+    expect(mockResumeJobs).not.toHaveBeenCalled();
+  });
+});
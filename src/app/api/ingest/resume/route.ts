@@ -0,0 +1,53 @@
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { resumeCrawls } from '@/lib/ingest/crawl';
+import { resumeIngestJobs } from '@/lib/ingest/jobs';
+
+const RUN_MS = 4 * 60 * 1000; // Leaves a minute of the function budget for the last page or batch
+
+/**
+ * GET /api/ingest/resume
+ * 
+ * Scheduled resume, called every five minutes by the cron in vercel.json.
+ * Runs the next step of a crawl nobody is following, then of ingestion jobs
+ * nobody is following, until four minutes have passed. Requires
+ * `Authorization: Bearer <CRON_SECRET>`, which Vercel sends when the variable
+ * is set.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return errorResponse('CRON_SECRET is not configured', 503);
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const deadline = Date.now() + RUN_MS;
+
+  // A failing crawl shouldn't hold up the ingestion jobs
+  let resumedCrawls: string[] = [];
+  try {
+    resumedCrawls = await resumeCrawls(deadline);
+  } catch (error) {
+    console.error('Scheduled crawl resume error:', error);
+  }
+
+  try {
+    const resumedJobs = await resumeIngestJobs(deadline);
+
+    return successResponse({
+      resumedCrawls,
+      resumedJobs,
+    });
+
+  } catch (error) {
+    console.error('Scheduled resume error:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Scheduled resume failed',
+      500
+    );
+  }
+}
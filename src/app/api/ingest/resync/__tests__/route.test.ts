@@ -0,0 +1,61 @@
+import { NextRequest, type NextFetchEvent } from 'next/server';
+import { resyncDueAssets } from '@/lib/ingest/resync';
+import middleware from '@/middleware';
+import { GET } from '../route';
+
+// Run the middleware callback with no Clerk session, keeping the real route matcher
+jest.mock('@clerk/nextjs/server', () => ({
+  ...jest.requireActual('@clerk/nextjs/server'),
+  clerkMiddleware: (handler: (auth: () => Promise<{ userId: null }>, req: NextRequest) => Promise<Response>) =>
+    (req: NextRequest) => handler(async () => ({ userId: null }), req),
+}));
+jest.mock('@/lib/ingest/resync', () => ({ resyncDueAssets: jest.fn() }));
+
+const mockResync = resyncDueAssets as jest.MockedFunction<typeof resyncDueAssets>;
+
+describe('/api/ingest/resync', () => {
+  const secret = 'cron-secret';
+
+  const createRequest = (path: string, authorization?: string) =>
+    new NextRequest(`http://localhost:3000${path}`, {
+      headers: authorization ? { authorization } : {},
+    });
+
+  const runMiddleware = (request: NextRequest) =>
+    middleware(request, {} as NextFetchEvent) as Promise<Response>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CRON_SECRET = secret;
+    mockResync.mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it('should let the cron request through the middleware without a session', async () => {
+    const request = createRequest('/api/ingest/resync', `Bearer ${secret}`);
+
+    const passed = await runMiddleware(request);
+    expect(passed.headers.get('location')).toBeNull();
+    expect(passed.headers.get('x-middleware-next')).toBe('1');
+
+    const response = await GET(request);
+    expect(response.status).toBe(200);
+    expect(mockResync).toHaveBeenCalled();
+  });
+
+  it('should still redirect other API routes without a session', async () => {
+    const response = await runMiddleware(createRequest('/api/ingest/resync/other'));
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/sign-in');
+  });
+
+  it('should reject a request without the cron secret', async () => {
+    const response = await GET(createRequest('/api/ingest/resync', 'Bearer wrong'));
+
+    expect(response.status).toBe(401);
+    expect(mockResync).not.toHaveBeenCalled();
+  });
+});
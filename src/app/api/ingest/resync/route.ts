@@ -0,0 +1,38 @@
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { resyncDueAssets } from '@/lib/ingest/resync';
+
+/**
+ * GET /api/ingest/resync
+ * 
+ * Scheduled re-sync, called by the cron in vercel.json. Re-syncs URL assets
+ * whose `resyncInterval` has elapsed. Requires `Authorization: Bearer
+ * <CRON_SECRET>`, which Vercel sends when the variable is set.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return errorResponse('CRON_SECRET is not configured', 503);
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  try {
+    const results = await resyncDueAssets();
+
+    return successResponse({
+      synced: results.length,
+      results,
+    });
+
+  } catch (error) {
+    console.error('Scheduled re-sync error:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Scheduled re-sync failed',
+      500
+    );
+  }
+}
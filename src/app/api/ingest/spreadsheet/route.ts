@@ -0,0 +1,66 @@
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { assetTypeForFile, MAX_FILE_SIZE } from '@/lib/ingest/extract';
+import { readSpreadsheet, SpreadsheetTooLargeError } from '@/lib/ingest/spreadsheet';
+
+const SAMPLE_ROWS = 5;
+
+/**
+ * POST /api/ingest/spreadsheet
+ * 
+ * Previews an uploaded CSV or XLSX file (multipart `file` field) so the user
+ * can map its columns before ingesting it. Returns each sheet's headers, row
+ * count and first rows; nothing is stored.
+ */
+export async function POST(request: Request): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const formData = await request.formData();
+    const upload = formData.get('file') as File | null;
+
+    if (!upload) {
+      return errorResponse('File is required', 400);
+    }
+
+    if (upload.size > MAX_FILE_SIZE) {
+      return errorResponse(`File size too large. Maximum allowed size is ${MAX_FILE_SIZE / (1024 * 1024)}MB.`, 413);
+    }
+
+    const assetType = assetTypeForFile(upload.name);
+    if (assetType !== 'csv' && assetType !== 'xlsx') {
+      return errorResponse('Only CSV and XLSX files can be previewed', 400);
+    }
+
+    let tables;
+    try {
+      tables = readSpreadsheet(Buffer.from(await upload.arrayBuffer()), assetType);
+    } catch (error) {
+      console.error('Spreadsheet preview error:', error);
+      if (error instanceof SpreadsheetTooLargeError) {
+        return errorResponse(error.message, 413);
+      }
+      return errorResponse(`The uploaded file is not a valid ${assetType.toUpperCase()} file`, 400);
+    }
+
+    return successResponse({
+      sheets: tables.map(table => ({
+        name: table.name,
+        headers: table.headers,
+        rowCount: table.rows.length,
+        sample: table.rows.slice(0, SAMPLE_ROWS).map(row => row.values),
+      })),
+    });
+
+  } catch (error) {
+    console.error('Spreadsheet preview error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { IngestError } from '@/lib/ingest/extract';
+import { resyncAsset } from '@/lib/ingest/resync';
+import { ObjectId } from 'mongodb';
+
+/**
+ * POST /api/projects/[id]/assets/[assetId]/resync
+ * 
+ * Refetches a URL asset. When the page changed, chunks whose text is
+ * unchanged are kept, the rest are replaced and drafts that used a removed
+ * chunk are flagged (see lib/ingest/resync).
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; assetId: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  
+  const { userId } = authResult;
+  const { id: projectId, assetId } = await params;
+
+  try {
+    // Validate ObjectId format for projectId only (assetId is stored as string)
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Verify project ownership
+    const projectsColl = await getColl('projects');
+    const project = await projectsColl.findOne({ 
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query 
+      userId 
+    });
+    
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const sync = await resyncAsset(projectId, assetId);
+
+    if (!sync) {
+      return errorResponse('Asset not found', 404);
+    }
+
+    return successResponse(sync);
+
+  } catch (error) {
+    console.error('Error re-syncing asset:', error);
+
+    // The page couldn't be fetched or the asset has no URL
+    if (error instanceof IngestError) {
+      return errorResponse(error.message, 400);
+    }
+    
+    return errorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
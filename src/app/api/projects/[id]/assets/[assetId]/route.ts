@@ -1,8 +1,9 @@
 import { requireUser } from '@/lib/auth/requireUser';
 import { successResponse, errorResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
-import { type Asset } from '@/lib/schemas/asset';
+import { RESYNC_INTERVALS, type Asset } from '@/lib/schemas/asset';
 import { type Chunk } from '@/lib/schemas/chunk';
+import { removeFromLexicalIndex } from '@/lib/retrieval/lexicalIndex';
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
 
@@ -10,8 +11,12 @@ import { z } from 'zod';
  * Request schema for updating an asset
  */
 const UpdateAssetSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(200, 'Title must be less than 200 characters'),
-});
+  title: z.string().min(1, 'Title is required').max(200, 'Title must be less than 200 characters').optional(),
+  resyncInterval: z.enum(RESYNC_INTERVALS).nullable().optional(), // null turns scheduled re-sync off
+}).refine(
+  data => data.title !== undefined || data.resyncInterval !== undefined,
+  'Nothing to update'
+);
 
 /**
  * GET /api/projects/[id]/assets/[assetId]
@@ -135,6 +140,7 @@ export async function DELETE(
       projectId,
       assetId: assetId, // assetId is stored as string in chunks
     });
+    removeFromLexicalIndex(projectId, { assetId });
 
     // Delete the asset itself (assetId is stored as string)
     const assetDeleteResult = await assetsColl.deleteOne({
@@ -164,7 +170,7 @@ export async function DELETE(
 /**
  * PUT /api/projects/[id]/assets/[assetId]
  * 
- * Updates a specific asset (currently supports title updates)
+ * Updates a specific asset's title and/or scheduled re-sync interval
  */
 export async function PUT(
   request: Request,
@@ -201,8 +207,17 @@ export async function PUT(
       return errorResponse('Project not found or access denied', 404);
     }
 
-    // Update the asset (assetId is stored as string, not ObjectId)
     const assetsColl = await getColl<Asset>('assets');
+
+    // Only pages can be re-synced
+    if (validatedData.resyncInterval) {
+      const asset = await assetsColl.findOne({ _id: assetId, projectId });
+      if (asset && !asset.sourceUrl) {
+        return errorResponse('Only assets ingested from a URL can be re-synced', 400);
+      }
+    }
+
+    // Update the asset (assetId is stored as string, not ObjectId)
     const updateResult = await assetsColl.findOneAndUpdate(
       {
         _id: assetId, // Use assetId as string, not ObjectId
@@ -210,9 +225,11 @@ export async function PUT(
       },
       {
         $set: {
-          title: validatedData.title,
+          ...(validatedData.title !== undefined ? { title: validatedData.title } : {}),
+          ...(validatedData.resyncInterval ? { resyncInterval: validatedData.resyncInterval } : {}),
           updatedAt: new Date().toISOString(),
         },
+        ...(validatedData.resyncInterval === null ? { $unset: { resyncInterval: '' } } : {}),
       },
       {
         returnDocument: 'after',
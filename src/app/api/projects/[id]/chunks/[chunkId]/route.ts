@@ -2,6 +2,7 @@ import { requireUser } from '@/lib/auth/requireUser';
 import { successResponse, errorResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { type Chunk } from '@/lib/schemas/chunk';
+import { removeFromLexicalIndex, syncLexicalIndex } from '@/lib/retrieval/lexicalIndex';
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
 
@@ -109,6 +110,10 @@ export async function PUT(
       userId,
     });
 
+    if (updatedChunk) {
+      syncLexicalIndex(projectId, [updatedChunk]);
+    }
+
     return successResponse({
       ...updatedChunk,
       isCustom: true,
@@ -196,6 +201,8 @@ export async function DELETE(
       return errorResponse('Chunk not found or access denied', 404);
     }
 
+    removeFromLexicalIndex(projectId, { chunkIds: [chunk.chunkId] });
+
     return successResponse({ message: 'Chunk deleted successfully' });
 
   } catch (error) {
@@ -3,8 +3,10 @@ import { successResponse, errorResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { type Chunk } from '@/lib/schemas/chunk';
 import { hybridRetrieve } from '@/lib/retrieval/hybrid';
+import { syncLexicalIndex } from '@/lib/retrieval/lexicalIndex';
 import { titleAndTagChunk } from '@/services/chunkLabeler';
-import { callOpenAIJSON } from '@/services/providers/openaiCaller';
+import { getLLMProvider, LLMProviderError, type LLMProvider } from '@/lib/llm/providers';
+import { createJSONCaller } from '@/services/providers/llmCaller';
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
 
@@ -23,17 +25,18 @@ const GenerateChunksRequestSchema = z.object({
 const CHUNK_GENERATION_CONFIG = {
   maxTokens: 1000,
   temperature: 0.8,
-  model: 'gpt-4o-mini'
+  tier: 'fast'
 } as const;
 
 /**
- * Generate chunks using OpenAI
+ * Generate chunks using the project's LLM provider
  */
 async function generateChunks(
   prompt: string, 
   count: number, 
   chunkType: string,
-  contextPack?: string
+  contextPack: string | undefined,
+  provider: LLMProvider
 ): Promise<Array<{ title: string; content: string; section: string }>> {
   const systemPrompt = `You are an expert content creator specializing in email marketing chunks. Generate ${count} distinct, reusable content blocks based on the user's prompt.
 
@@ -64,38 +67,18 @@ Respond with a valid JSON array containing objects with these fields:
 
 USER PROMPT: ${prompt}`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: CHUNK_GENERATION_CONFIG.model,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt
-        }
-      ],
-      max_tokens: CHUNK_GENERATION_CONFIG.maxTokens,
-      temperature: CHUNK_GENERATION_CONFIG.temperature,
-      response_format: { type: 'json_object' }
-    }),
+  const content = await provider.chatJSON({
+    messages: [
+      {
+        role: 'system',
+        content: systemPrompt
+      }
+    ],
+    tier: CHUNK_GENERATION_CONFIG.tier,
+    maxTokens: CHUNK_GENERATION_CONFIG.maxTokens,
+    temperature: CHUNK_GENERATION_CONFIG.temperature,
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-
-  if (!content) {
-    throw new Error('No content received from OpenAI API');
-  }
-
   try {
     const parsed = JSON.parse(content);
     // Handle both array and object with array property
@@ -169,6 +152,8 @@ export async function POST(
       return errorResponse('Project not found or access denied', 404);
     }
 
+    const llmProvider = getLLMProvider(project.llm);
+
     // Parse and validate request body
     const body = await request.json();
     const validatedData = GenerateChunksRequestSchema.parse(body);
@@ -179,7 +164,12 @@ export async function POST(
       const retrievalResult = await hybridRetrieve({
         projectId,
         query: validatedData.prompt,
-        k: 5 // Get top 5 relevant chunks for context
+        k: 5, // Get top 5 relevant chunks for context
+        fusion: project.retrieval?.fusion,
+        rerank: project.retrieval?.reranker,
+        mmr: project.retrieval?.mmr,
+        expansion: project.retrieval?.expansion,
+        provider: llmProvider
       });
       
       if (retrievalResult.contextPack) {
@@ -195,7 +185,8 @@ export async function POST(
       validatedData.prompt,
       validatedData.count,
       validatedData.chunkType,
-      contextPack
+      contextPack,
+      llmProvider
     );
 
     // Get existing chunk titles for uniqueness enforcement
@@ -214,7 +205,7 @@ export async function POST(
 
       try {
         const labelResult = await titleAndTagChunk(generatedChunk.content, {
-          callModel: callOpenAIJSON,
+          callModel: createJSONCaller(llmProvider),
           existingTitles: Array.from(existingTitles),
           contextHint: project.title, // Use project title as context
           maxChars: 2000,
@@ -253,6 +244,7 @@ export async function POST(
       };
 
       await chunksColl.insertOne(chunk);
+      syncLexicalIndex(projectId, [chunk]);
       createdChunks.push({
         ...chunk,
         isCustom: true,
@@ -275,8 +267,8 @@ export async function POST(
       );
     }
 
-    // Handle OpenAI API errors
-    if (error instanceof Error && error.message.includes('OpenAI API error')) {
+    // Handle LLM provider API errors
+    if (error instanceof LLMProviderError) {
       return errorResponse(
         'AI service temporarily unavailable. Please try again later.',
         503
@@ -3,6 +3,7 @@ import { successResponse, errorResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { type Chunk } from '@/lib/schemas/chunk';
 import { type Asset } from '@/lib/schemas/asset';
+import { syncLexicalIndex } from '@/lib/retrieval/lexicalIndex';
 import { ObjectId } from 'mongodb';
 
 /**
@@ -88,6 +89,7 @@ export async function POST(
 
         if (updateResult.modifiedCount > 0) {
           convertedChunks++;
+          syncLexicalIndex(projectId, [{ ...chunk, assetId: '' }]);
           console.log(`Converted orphaned chunk ${chunk._id} to custom chunk`);
         }
       }
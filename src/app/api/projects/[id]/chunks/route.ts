@@ -3,8 +3,10 @@ import { successResponse, errorResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { type Chunk } from '@/lib/schemas/chunk';
 import { type Asset } from '@/lib/schemas/asset';
+import { syncLexicalIndex } from '@/lib/retrieval/lexicalIndex';
 import { titleAndTagChunk } from '@/services/chunkLabeler';
-import { callOpenAIJSON } from '@/services/providers/openaiCaller';
+import { getLLMProvider } from '@/lib/llm/providers';
+import { createJSONCaller } from '@/services/providers/llmCaller';
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
 
@@ -214,7 +216,7 @@ export async function POST(
 
     try {
       const labelResult = await titleAndTagChunk(validatedData.content, {
-        callModel: callOpenAIJSON,
+        callModel: createJSONCaller(getLLMProvider(project.llm)),
         existingTitles: Array.from(existingTitles),
         contextHint: project.title, // Use project title as context
         maxChars: 2000,
@@ -252,6 +254,7 @@ export async function POST(
 
     // Insert the chunk
     await chunksColl.insertOne(chunk);
+    syncLexicalIndex(projectId, [chunk]);
 
     return successResponse({
       ...chunk,
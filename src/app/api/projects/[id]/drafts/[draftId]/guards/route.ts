@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { ObjectId } from 'mongodb';
+import { validateStyleCard } from '@/lib/llm/prompts/styleCard';
+import { loadStyleProfile } from '@/lib/style/profile';
+import { runDraftGuards } from '@/lib/guards/draftGuards';
+import { getLLMProvider } from '@/lib/llm/providers';
+import { findProjectDraft, getDraftContent } from '@/lib/drafts/revisions';
+import { loadDraftChunks } from '@/lib/drafts/context';
+import { type GenerationSettings } from '@/lib/schemas/draft';
+
+/**
+ * POST /api/projects/[id]/drafts/[draftId]/guards
+ * 
+ * Runs the context and style guards against a draft's current content, using
+ * the chunks it was generated from and the style profile it was written in
+ * (falling back to the project's profile), and stores the results in
+ * `scores.guards`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    const generation = draft.generation as GenerationSettings | undefined;
+
+    const { chunks, missingChunkIds } = await loadDraftChunks(projectId, userId, draft.context_chunk_ids || []);
+    if (missingChunkIds.length > 0) {
+      console.warn(`[GUARDS] ${missingChunkIds.length} context chunks no longer exist for draft ${draftId}`);
+    }
+
+    // Prefer the profile the draft was generated with, then the project's
+    const styleProfileId = generation?.styleProfileId || draft.scores?.style_profile_id || project.style_profile_id;
+    const profile = styleProfileId ? await loadStyleProfile(styleProfileId, userId) : null;
+
+    const guards = await runDraftGuards({
+      content: getDraftContent(draft),
+      contextChunks: chunks.map(chunk => ({ chunkId: chunk.chunkId, md_text: chunk.md_text })),
+      styleProfile: profile
+        ? { styleProfileId: profile._id, styleCard: validateStyleCard(profile.style_card) }
+        : null,
+      audience: generation?.audience,
+      revision: draft.revision,
+      provider: getLLMProvider(project.llm),
+    });
+
+    const draftsCollection = await getColl('drafts');
+    await draftsCollection.updateOne(
+      { _id: new ObjectId(draftId), projectId },
+      { $set: { 'scores.guards': guards } }
+    );
+
+    return successResponse({
+      guards,
+      missingChunkIds,
+    });
+
+  } catch (error) {
+    console.error('Error running draft guards:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to run draft guards',
+      500
+    );
+  }
+}
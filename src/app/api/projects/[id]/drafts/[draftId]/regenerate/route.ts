@@ -0,0 +1,214 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { ObjectId } from 'mongodb';
+import { getEditableSections, findUnmarkedFormats } from '@/lib/email/sections';
+import {
+  assertDraftRevision,
+  DraftRevisionConflictError,
+  findProjectDraft,
+  getDraftContent,
+  recordDraftRevision,
+} from '@/lib/drafts/revisions';
+import { getRegenerationTargets, regenerateDraftPart } from '@/lib/drafts/regenerate';
+
+/**
+ * Request schema for section regeneration
+ */
+const zRegenerateRequest = z.object({
+  section: z.string().min(1, 'Section is required'), // 'subject', 'preheader' or a section key such as 'agitate' or 'cta'
+  instructions: z.string().max(1000).optional(), // What to change about the current version
+  baseRevision: z.number().int().nonnegative().optional(), // Revision the request was made from
+});
+
+/**
+ * GET /api/projects/[id]/drafts/[draftId]/regenerate
+ * 
+ * Lists the parts of a draft that can be regenerated individually.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    const { formats } = getDraftContent(draft);
+    const sections = getEditableSections(draft.angle);
+
+    return successResponse({
+      targets: [
+        { key: 'subject', name: 'Subject', available: true },
+        { key: 'preheader', name: 'Preheader', available: true },
+        ...sections.map(section => ({
+          key: section.key,
+          name: section.name,
+          available: findUnmarkedFormats(formats, section, sections).length === 0,
+        })),
+      ],
+    });
+
+  } catch (error) {
+    console.error('Error listing regeneration targets:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to list regeneration targets',
+      500
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/drafts/[draftId]/regenerate
+ * 
+ * Regenerates a single section (or the subject/preheader) of a draft using its
+ * stored context chunks and generation settings. The rest of the email is kept
+ * as-is and the result is saved as a new draft revision. Returns 409 if the
+ * draft is no longer at `baseRevision`, or is saved again while regenerating.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    const body = await request.json();
+    const { section: target, instructions, baseRevision: requestedRevision } = zRegenerateRequest.parse(body);
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    // Check before spending an LLM call on a draft that has moved on
+    const baseRevision = requestedRevision ?? draft.revision ?? 0;
+    assertDraftRevision(draft, baseRevision);
+
+    const targets = getRegenerationTargets(draft.angle);
+    if (!targets.includes(target)) {
+      return errorResponse(`Unknown section "${target}". Available: ${targets.join(', ')}`, 400);
+    }
+
+    // Check the section can be spliced before spending an LLM call on it
+    const sections = getEditableSections(draft.angle);
+    const section = sections.find(s => s.key === target);
+    if (section) {
+      const unmarked = findUnmarkedFormats(getDraftContent(draft).formats, section, sections);
+      if (unmarked.length > 0) {
+        return errorResponse(
+          `Section "${section.name}" can't be located in the ${unmarked.join(', ')} format of this draft. Drafts generated before section markers were added must be regenerated in full.`,
+          422
+        );
+      }
+    }
+
+    const content = await regenerateDraftPart({
+      project: { name: project.name, default_link: project.default_link, llm: project.llm },
+      draft,
+      userId,
+      target,
+      instructions,
+    });
+
+    const revision = await recordDraftRevision({
+      projectId,
+      draftId,
+      authorId: userId,
+      content,
+      baseRevision,
+      kind: 'regenerate',
+      regeneratedSection: target,
+    });
+
+    const updatedDraft = await findProjectDraft(projectId, draftId);
+
+    return successResponse({
+      draft: updatedDraft,
+      revision, // null if the model returned the section unchanged
+      section: target,
+    });
+
+  } catch (error) {
+    console.error('Error regenerating draft section:', error);
+
+    if (error instanceof DraftRevisionConflictError) {
+      return errorResponse(error.message, 409);
+    }
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(
+        `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+        400
+      );
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Section regeneration failed',
+      500
+    );
+  }
+}
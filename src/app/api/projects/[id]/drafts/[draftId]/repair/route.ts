@@ -0,0 +1,175 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { ObjectId } from 'mongodb';
+import { repairUnsupportedClaims, DEFAULT_REPAIR_THRESHOLD, DEFAULT_REPAIR_ITERATIONS } from '@/lib/guards/repair';
+import { type DraftGuardScores } from '@/lib/guards/draftGuards';
+import { getLLMProvider } from '@/lib/llm/providers';
+import {
+  assertDraftRevision,
+  DraftRevisionConflictError,
+  findProjectDraft,
+  getDraftContent,
+  recordDraftRevision,
+} from '@/lib/drafts/revisions';
+import { loadDraftChunks } from '@/lib/drafts/context';
+import { zClaimRepairRun, type ClaimRepairRun } from '@/lib/schemas/claimRepair';
+
+/**
+ * Request schema for claim repair
+ */
+const zRepairRequest = z.object({
+  threshold: z.number().min(0).max(100).default(DEFAULT_REPAIR_THRESHOLD), // Target support percentage
+  maxIterations: z.number().int().min(1).max(5).default(DEFAULT_REPAIR_ITERATIONS),
+  baseRevision: z.number().int().nonnegative().optional(), // Revision the request was made from
+});
+
+/**
+ * POST /api/projects/[id]/drafts/[draftId]/repair
+ * 
+ * Fixes unsupported claims in a draft: rewrites or removes the flagged sentences
+ * using the draft's context chunks, re-runs the context guard, and repeats until
+ * the support threshold or the iteration cap is reached. The result is saved as
+ * a new revision and the run (with every iteration) is appended to `claim_repairs`.
+ * Returns 409 if the draft is no longer at `baseRevision`, or is saved again
+ * while repairing.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    // Body is optional; all fields have defaults
+    const body = await request.json().catch(() => ({}));
+    const { threshold, maxIterations, baseRevision: requestedRevision } = zRepairRequest.parse(body);
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    // Check before spending LLM calls on a draft that has moved on
+    const baseRevision = requestedRevision ?? draft.revision ?? 0;
+    assertDraftRevision(draft, baseRevision);
+
+    const { chunks } = await loadDraftChunks(projectId, userId, draft.context_chunk_ids || []);
+    if (chunks.length === 0) {
+      return errorResponse('None of the context chunks this draft was generated from still exist', 422);
+    }
+
+    // Reuse the stored context guard result if it was run on the current revision
+    const guards = draft.scores?.guards as DraftGuardScores | undefined;
+    const storedValidation = guards?.context.status === 'ok' && (guards.revision ?? 0) === (draft.revision ?? 0)
+      ? guards.context
+      : undefined;
+
+    const result = await repairUnsupportedClaims({
+      content: getDraftContent(draft),
+      contextChunks: chunks.map(chunk => ({ chunkId: chunk.chunkId, md_text: chunk.md_text })),
+      threshold,
+      maxIterations,
+      initialValidation: storedValidation
+        ? { claims: storedValidation.claims, summary: storedValidation.summary, recommendations: storedValidation.recommendations }
+        : undefined,
+      provider: getLLMProvider(project.llm),
+    });
+
+    const revision = await recordDraftRevision({
+      projectId,
+      draftId,
+      authorId: userId,
+      content: result.content,
+      baseRevision,
+      kind: 'repair',
+    });
+
+    const run: ClaimRepairRun = zClaimRepairRun.parse({
+      ran_at: new Date().toISOString(),
+      authorId: userId,
+      threshold,
+      max_iterations: maxIterations,
+      initial_support: result.initialValidation.summary.support_percentage,
+      final_support: result.finalValidation.summary.support_percentage,
+      reached_threshold: result.reachedThreshold,
+      iterations: result.iterations,
+      revision: revision?.revision,
+    });
+
+    // Store the final context check against the new revision. The style result is
+    // kept from the last guard run since only a few sentences changed.
+    const updatedGuards: DraftGuardScores = {
+      ran_at: run.ran_at,
+      revision: revision?.revision ?? draft.revision,
+      context: { status: 'ok', ...result.finalValidation },
+      style: guards?.style ?? { status: 'skipped', reason: 'Style guard has not been run' },
+    };
+
+    const draftsCollection = await getColl<{ projectId: string; claim_repairs?: ClaimRepairRun[] }>('drafts');
+    await draftsCollection.updateOne(
+      { _id: new ObjectId(draftId), projectId },
+      {
+        $set: { 'scores.guards': updatedGuards },
+        $push: { claim_repairs: run },
+      }
+    );
+
+    const updatedDraft = await findProjectDraft(projectId, draftId);
+
+    return successResponse({
+      draft: updatedDraft,
+      run,
+      revision, // null when no edits could be applied
+    });
+
+  } catch (error) {
+    console.error('Error repairing draft claims:', error);
+
+    if (error instanceof DraftRevisionConflictError) {
+      return errorResponse(error.message, 409);
+    }
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(
+        `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+        400
+      );
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Claim repair failed',
+      500
+    );
+  }
+}
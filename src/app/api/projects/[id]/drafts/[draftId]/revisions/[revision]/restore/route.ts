@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { ObjectId } from 'mongodb';
+import {
+  DraftRevisionConflictError,
+  findProjectDraft,
+  listDraftRevisions,
+  recordDraftRevision,
+} from '@/lib/drafts/revisions';
+
+/**
+ * POST /api/projects/[id]/drafts/[draftId]/revisions/[revision]/restore
+ * 
+ * Restores a draft to an earlier revision. The restore is itself recorded
+ * as a new revision, so history is never rewritten. Returns 409 if the draft
+ * is saved again while restoring.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string; revision: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+    const revisionNumber = Number(resolvedParams.revision);
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 0) {
+      return errorResponse('Invalid revision number', 400);
+    }
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    const revisions = await listDraftRevisions(projectId, draftId);
+    const target = revisions.find(r => r.revision === revisionNumber);
+
+    if (!target) {
+      return errorResponse('Revision not found', 404);
+    }
+
+    const revision = await recordDraftRevision({
+      projectId,
+      draftId,
+      authorId: userId,
+      content: target.snapshot,
+      baseRevision: draft.revision ?? 0,
+      kind: 'restore',
+      restoredFrom: revisionNumber,
+    });
+
+    const updatedDraft = await findProjectDraft(projectId, draftId);
+
+    return successResponse({
+      draft: updatedDraft,
+      revision, // null when the draft already matched that revision
+    });
+
+  } catch (error) {
+    console.error('Error restoring draft revision:', error);
+
+    if (error instanceof DraftRevisionConflictError) {
+      return errorResponse(error.message, 409);
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to restore draft revision',
+      500
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { ObjectId } from 'mongodb';
+import { diffDraftContent } from '@/lib/drafts/diff';
+import { findProjectDraft, getDraftContent, listDraftRevisions } from '@/lib/drafts/revisions';
+
+/**
+ * GET /api/projects/[id]/drafts/[draftId]/revisions/compare?from=1&to=3
+ * 
+ * Diffs two revisions of a draft. `to` defaults to the latest revision.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const from = Number(searchParams.get('from'));
+    const toParam = searchParams.get('to');
+
+    if (!Number.isInteger(from) || from < 0) {
+      return errorResponse('A valid "from" revision number is required', 400);
+    }
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    const revisions = await listDraftRevisions(projectId, draftId);
+    const latest = revisions.length > 0 ? revisions[revisions.length - 1].revision : 0;
+    const to = toParam !== null ? Number(toParam) : latest;
+
+    // Unedited drafts only have the implicit revision 0
+    const snapshotOf = (revision: number) => {
+      if (revisions.length === 0 && revision === 0) {
+        return getDraftContent(draft);
+      }
+      return revisions.find(r => r.revision === revision)?.snapshot;
+    };
+
+    const fromSnapshot = snapshotOf(from);
+    const toSnapshot = snapshotOf(to);
+
+    if (!fromSnapshot || !toSnapshot) {
+      return errorResponse('Revision not found', 404);
+    }
+
+    return successResponse({
+      from,
+      to,
+      diff: diffDraftContent(fromSnapshot, toSnapshot),
+    });
+
+  } catch (error) {
+    console.error('Error comparing draft revisions:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to compare draft revisions',
+      500
+    );
+  }
+}
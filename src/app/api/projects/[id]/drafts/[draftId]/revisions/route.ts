@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { ObjectId } from 'mongodb';
+import { findProjectDraft, getDraftContent, listDraftRevisions } from '@/lib/drafts/revisions';
+
+/**
+ * GET /api/projects/[id]/drafts/[draftId]/revisions
+ * 
+ * Lists a draft's revisions, oldest first. Drafts that were never edited
+ * return a single synthetic revision 0 with the current content.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    const revisions = await listDraftRevisions(projectId, draftId);
+
+    if (revisions.length === 0) {
+      return successResponse([{
+        draftId,
+        projectId,
+        revision: 0,
+        authorId: userId,
+        kind: 'original',
+        snapshot: getDraftContent(draft),
+        diff: [],
+        createdAt: draft.createdAt,
+      }]);
+    }
+
+    return successResponse(revisions);
+
+  } catch (error) {
+    console.error('Error retrieving draft revisions:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve draft revisions',
+      500
+    );
+  }
+}
@@ -1,9 +1,165 @@
 import { NextRequest } from 'next/server';
+import { z } from 'zod';
 import { requireUser } from '@/lib/auth/requireUser';
 import { successResponse, errorResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { ObjectId } from 'mongodb';
 import { type Draft } from '@/lib/schemas/draft';
+import { zDraftContent, type DraftContent } from '@/lib/schemas/draftRevision';
+import {
+  DraftRevisionConflictError,
+  findProjectDraft,
+  getDraftContent,
+  recordDraftRevision,
+} from '@/lib/drafts/revisions';
+
+/**
+ * Revision the saved content was made from, defaulting to the current one
+ */
+const zBaseRevision = z.object({
+  baseRevision: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * PATCH body: any subset of the editable fields
+ */
+const zPatchDraftRequest = z.object({
+  subject: z.string().min(1, 'Subject cannot be empty').optional(),
+  preheader: z.string().optional(),
+  formats: z.object({
+    html: z.string().min(1, 'HTML format cannot be empty').optional(),
+    md: z.string().min(1, 'Markdown format cannot be empty').optional(),
+    txt: z.string().min(1, 'Text format cannot be empty').optional(),
+  }).optional(),
+});
+
+/**
+ * Shared handler for PUT (full replace) and PATCH (partial update)
+ * 
+ * Every save that changes content is recorded as a draft revision. A save
+ * whose `baseRevision` is no longer the draft's latest is rejected with 409.
+ */
+async function updateDraft(
+  request: NextRequest,
+  params: Promise<{ id: string; draftId: string }>,
+  mode: 'replace' | 'merge'
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+    const draftId = resolvedParams.draftId;
+
+    // Validate ObjectId format for projectId and draftId
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    if (!ObjectId.isValid(draftId)) {
+      return errorResponse('Invalid draft ID format', 400);
+    }
+
+    // Verify project exists and user owns it
+    const projectsCollection = await getColl('projects');
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const draft = await findProjectDraft(projectId, draftId);
+    if (!draft) {
+      return errorResponse('Draft not found or access denied', 404);
+    }
+
+    const body = await request.json();
+    const { baseRevision = draft.revision ?? 0 } = zBaseRevision.parse(body);
+    let content: DraftContent;
+
+    if (mode === 'replace') {
+      content = zDraftContent.parse(body);
+    } else {
+      const patch = zPatchDraftRequest.parse(body);
+      const current = getDraftContent(draft);
+      content = {
+        subject: patch.subject ?? current.subject,
+        preheader: patch.preheader ?? current.preheader,
+        formats: {
+          html: patch.formats?.html ?? current.formats.html,
+          md: patch.formats?.md ?? current.formats.md,
+          txt: patch.formats?.txt ?? current.formats.txt,
+        },
+      };
+    }
+
+    const revision = await recordDraftRevision({
+      projectId,
+      draftId,
+      authorId: userId,
+      content,
+      baseRevision,
+    });
+
+    const updatedDraft = await findProjectDraft(projectId, draftId);
+
+    return successResponse({
+      draft: updatedDraft,
+      revision, // null when nothing changed
+    });
+
+  } catch (error) {
+    console.error('Error updating draft:', error);
+
+    if (error instanceof DraftRevisionConflictError) {
+      return errorResponse(error.message, 409);
+    }
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(
+        `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+        400
+      );
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to update draft',
+      500
+    );
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/drafts/[draftId]
+ * 
+ * Replaces a draft's subject, preheader and all three formats
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  return updateDraft(request, params, 'replace');
+}
+
+/**
+ * PATCH /api/projects/[id]/drafts/[draftId]
+ * 
+ * Updates any subset of a draft's subject, preheader and formats
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftId: string }> }
+): Promise<Response> {
+  return updateDraft(request, params, 'merge');
+}
 
 /**
  * DELETE /api/projects/[id]/drafts/[draftId]
@@ -0,0 +1,183 @@
+import { NextRequest } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { getLLMProvider } from '@/lib/llm/providers';
+import { compareWithPrevious, evaluateGoldenSet, EvalRunTooLargeError } from '@/lib/retrieval/eval';
+import { zEvalStrategy, type EvalRun, type GoldenSet } from '@/lib/schemas/retrievalEval';
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+
+/**
+ * Schema for starting an evaluation run
+ */
+const RunEvalSchema = z.object({
+  goldenSetId: z.string().min(1, 'Golden set ID is required'),
+  k: z.number().int().positive().max(50).optional().default(5),
+  strategies: z.array(zEvalStrategy).min(1).optional(), // Defaults to project settings plus each fusion strategy
+});
+
+/**
+ * GET /api/projects/[id]/eval/runs
+ * 
+ * Lists past evaluation runs, newest first. Filter with `?goldenSetId=` and
+ * cap with `?limit=` (default 20).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const resolvedParams = await params;
+  const projectId = resolvedParams.id;
+
+  try {
+    // Validate ObjectId format
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Verify project ownership
+    const projectsColl = await getColl('projects');
+    const project = await projectsColl.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const goldenSetId = searchParams.get('goldenSetId');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const runsColl = await getColl<EvalRun>('retrieval_eval_runs');
+    const runs = await runsColl
+      .find({ projectId, userId, ...(goldenSetId ? { goldenSetId } : {}) })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+
+    return successResponse(runs);
+
+  } catch (error) {
+    console.error('Error retrieving evaluation runs:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve evaluation runs',
+      500
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/eval/runs
+ * 
+ * Runs a golden set through hybrid retrieval with each strategy, stores the
+ * run and reports recall@k, MRR and nDCG with the change from the previous
+ * run of the same set at the same k. Runs of more than MAX_EVAL_RETRIEVALS
+ * queries × strategies are rejected with 400.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const resolvedParams = await params;
+  const projectId = resolvedParams.id;
+
+  try {
+    // Validate ObjectId format
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Verify project ownership
+    const projectsColl = await getColl('projects');
+    const project = await projectsColl.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { goldenSetId, k, strategies } = RunEvalSchema.parse(body);
+
+    const setsColl = await getColl<GoldenSet>('retrieval_golden_sets');
+    const goldenSet = await setsColl.findOne({ _id: goldenSetId, projectId, userId });
+
+    if (!goldenSet) {
+      return errorResponse('Golden set not found', 404);
+    }
+
+    const results = await evaluateGoldenSet({
+      projectId,
+      userId,
+      queries: goldenSet.queries,
+      k,
+      strategies,
+      projectSettings: project.retrieval,
+      provider: getLLMProvider(project.llm),
+    });
+
+    // Compare with the last run of this set at the same k
+    const runsColl = await getColl<EvalRun>('retrieval_eval_runs');
+    const previous = await runsColl.findOne(
+      { projectId, userId, goldenSetId, k },
+      { sort: { createdAt: -1 } }
+    );
+    const compared = compareWithPrevious(results, previous?.results);
+
+    const run: EvalRun = {
+      _id: new ObjectId().toString(),
+      projectId,
+      userId,
+      goldenSetId,
+      k,
+      results: compared.results,
+      regressions: compared.regressions,
+      createdAt: new Date(),
+    };
+
+    await runsColl.insertOne(run);
+
+    return successResponse(run, 201);
+
+  } catch (error) {
+    console.error('Error running retrieval evaluation:', error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return errorResponse(
+        `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+        400
+      );
+    }
+
+    if (error instanceof EvalRunTooLargeError) {
+      return errorResponse(error.message, 400);
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to run retrieval evaluation',
+      500
+    );
+  }
+}
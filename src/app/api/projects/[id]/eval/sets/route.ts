@@ -0,0 +1,160 @@
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { zGoldenQuery, type GoldenSet } from '@/lib/schemas/retrievalEval';
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+
+/**
+ * Schema for creating or replacing a golden set
+ */
+const SaveGoldenSetSchema = z.object({
+  name: z.string().min(1, 'Golden set name is required'),
+  queries: z.array(zGoldenQuery).min(1, 'A golden set needs at least one query'),
+});
+
+/**
+ * GET /api/projects/[id]/eval/sets
+ * 
+ * Lists the project's golden query sets
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const resolvedParams = await params;
+  const projectId = resolvedParams.id;
+
+  try {
+    // Validate ObjectId format
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Verify project ownership
+    const projectsColl = await getColl('projects');
+    const project = await projectsColl.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    const setsColl = await getColl<GoldenSet>('retrieval_golden_sets');
+    const sets = await setsColl
+      .find({ projectId, userId })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return successResponse(sets);
+
+  } catch (error) {
+    console.error('Error retrieving golden sets:', error);
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve golden sets',
+      500
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/eval/sets
+ * 
+ * Saves a golden set of queries and the chunk IDs each should retrieve.
+ * Saving a set with an existing name replaces its queries, so run history
+ * stays attached to the same set.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  // Require user authentication
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+  const resolvedParams = await params;
+  const projectId = resolvedParams.id;
+
+  try {
+    // Validate ObjectId format
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Verify project ownership
+    const projectsColl = await getColl('projects');
+    const project = await projectsColl.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { name, queries } = SaveGoldenSetSchema.parse(body);
+
+    // Expected IDs must point at chunks that exist, or recall can never reach 1
+    const chunksColl = await getColl('chunks');
+    const expectedIds = Array.from(new Set(queries.flatMap(query => query.expected_chunk_ids)));
+    const found = await chunksColl.distinct('chunkId', { projectId, chunkId: { $in: expectedIds } });
+    const unknown = expectedIds.filter(id => !found.includes(id));
+
+    if (unknown.length > 0) {
+      return errorResponse(`Unknown chunk IDs: ${unknown.join(', ')}`, 400);
+    }
+
+    const setsColl = await getColl<GoldenSet>('retrieval_golden_sets');
+    const now = new Date();
+    const existing = await setsColl.findOne({ projectId, userId, name });
+
+    if (existing) {
+      await setsColl.updateOne({ _id: existing._id }, { $set: { queries, updatedAt: now } });
+      return successResponse({ ...existing, queries, updatedAt: now });
+    }
+
+    const goldenSet: GoldenSet = {
+      _id: new ObjectId().toString(),
+      projectId,
+      userId,
+      name,
+      queries,
+      createdAt: now,
+    };
+
+    await setsColl.insertOne(goldenSet);
+
+    return successResponse(goldenSet, 201);
+
+  } catch (error) {
+    console.error('Error saving golden set:', error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return errorResponse(
+        `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+        400
+      );
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to save golden set',
+      500
+    );
+  }
+}
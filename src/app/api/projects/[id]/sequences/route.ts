@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { requireUser } from '@/lib/auth/requireUser';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { getColl } from '@/lib/db/mongo';
+import { ObjectId } from 'mongodb';
+
+/**
+ * GET /api/projects/[id]/sequences
+ * 
+ * Retrieves all generated sequences for a specific project
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  // Authenticate user
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+  const { userId } = authResult;
+
+  try {
+    const resolvedParams = await params;
+    const projectId = resolvedParams.id;
+
+    // Validate ObjectId format for projectId
+    if (!ObjectId.isValid(projectId)) {
+      return errorResponse('Invalid project ID format', 400);
+    }
+
+    // Get database collections
+    const projectsCollection = await getColl('projects');
+    const sequencesCollection = await getColl('sequences');
+
+    // Verify project exists and user owns it
+    const project = await projectsCollection.findOne({
+      _id: new ObjectId(projectId), // Convert string to ObjectId for query
+      userId
+    });
+
+    if (!project) {
+      return errorResponse('Project not found or access denied', 404);
+    }
+
+    // Retrieve sequences for this project, newest first
+    const sequences = await sequencesCollection
+      .find({ projectId, userId })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return successResponse(sequences);
+
+  } catch (error) {
+    console.error('Error retrieving sequences:', error);
+    
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to retrieve sequences',
+      500
+    );
+  }
+}
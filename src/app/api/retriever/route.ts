@@ -4,6 +4,22 @@ import { requireUser, ApiResponse } from '@/lib/auth/requireUser';
 import { jsonResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { hybridRetrieve, HybridRetrievalResponse } from '@/lib/retrieval/hybrid';
+import { resolveFusionSettings } from '@/lib/retrieval/fusion';
+import { resolveRerankSettings } from '@/lib/retrieval/rerank';
+import { resolveMmrSettings } from '@/lib/retrieval/mmr';
+import { resolveExpansionSettings } from '@/lib/retrieval/expansion';
+import { getLLMProvider } from '@/lib/llm/providers';
+import {
+  zExpansionSettings,
+  zFusionSettings,
+  zMmrSettings,
+  zRerankSettings,
+  type ExpansionSettings,
+  type FusionSettings,
+  type MmrSettings,
+  type RerankSettings,
+} from '@/lib/schemas/project';
+import { zChunkFilters } from '@/lib/schemas/chunk';
 import { ObjectId } from 'mongodb';
 
 /**
@@ -13,8 +29,168 @@ const RetrievalRequestSchema = z.object({
   projectId: z.string().min(1, 'Project ID is required'),
   query: z.string().min(1, 'Query is required'),
   k: z.number().int().positive().optional().default(5),
+  filters: zChunkFilters.optional(), // Only search chunks matching this metadata
+  // Override the project's settings for this request
+  fusion: zFusionSettings.partial().optional(),
+  reranker: zRerankSettings.partial().optional(),
+  mmr: zMmrSettings.partial().optional(),
+  expansion: zExpansionSettings.partial().optional(),
+  explain: z.boolean().optional(), // Return how every candidate was scored
 });
 
+/**
+ * Request schema for saving a project's retrieval settings
+ */
+const RetrievalSettingsUpdateSchema = z.object({
+  projectId: z.string().min(1, 'Project ID is required'),
+  fusion: zFusionSettings.partial().optional(),
+  reranker: zRerankSettings.partial().optional(),
+  mmr: zMmrSettings.partial().optional(),
+  expansion: zExpansionSettings.partial().optional(),
+}).refine(
+  data => data.fusion || data.reranker || data.mmr || data.expansion,
+  'fusion, reranker, mmr or expansion is required'
+);
+
+type RetrievalSettingsResponse = {
+  fusion: FusionSettings;
+  reranker: RerankSettings;
+  mmr: MmrSettings;
+  expansion: ExpansionSettings;
+};
+
+/**
+ * Load a project owned by the user, or null
+ */
+async function findOwnedProject(projectId: string, userId: string) {
+  if (!ObjectId.isValid(projectId)) {
+    return null;
+  }
+
+  const projectsColl = await getColl('projects');
+  return projectsColl.findOne({ _id: new ObjectId(projectId), userId });
+}
+
+function notFoundResponse(): Response {
+  const response: ApiResponse<never> = {
+    ok: false,
+    error: 'Project not found or access denied',
+  };
+  return jsonResponse(response, { status: 404 });
+}
+
+/**
+ * Shared error handling for the retriever handlers
+ */
+function handleError(error: unknown, fallback: string): Response {
+  console.error('Retrieval API error:', error);
+
+  // Handle Zod validation errors
+  if (error instanceof z.ZodError) {
+    const response: ApiResponse<never> = {
+      ok: false,
+      error: `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+    };
+    return jsonResponse(response, { status: 400 });
+  }
+
+  // Handle other errors
+  const response: ApiResponse<never> = {
+    ok: false,
+    error: error instanceof Error ? error.message : fallback,
+  };
+  return jsonResponse(response, { status: 500 });
+}
+
+/**
+ * GET /api/retriever?projectId=...
+ * 
+ * Returns the project's fusion, reranker, MMR and query expansion settings with
+ * defaults filled in
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId') || '';
+    const project = await findOwnedProject(projectId, userId);
+
+    if (!project) {
+      return notFoundResponse();
+    }
+
+    const response: ApiResponse<RetrievalSettingsResponse> = {
+      ok: true,
+      data: {
+        fusion: resolveFusionSettings(project.retrieval?.fusion),
+        reranker: resolveRerankSettings(project.retrieval?.reranker),
+        mmr: resolveMmrSettings(project.retrieval?.mmr),
+        expansion: resolveExpansionSettings(project.retrieval?.expansion),
+      },
+    };
+    return jsonResponse(response);
+
+  } catch (error) {
+    return handleError(error, 'Failed to load retrieval settings');
+  }
+}
+
+/**
+ * PUT /api/retriever
+ * 
+ * Saves fusion, reranker, MMR and/or query expansion settings on the project.
+ * Fields left out keep their defaults.
+ */
+export async function PUT(request: NextRequest): Promise<Response> {
+  const authResult = await requireUser();
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const { userId } = authResult;
+
+  try {
+    const body = await request.json();
+    const { projectId, fusion, reranker, mmr, expansion } = RetrievalSettingsUpdateSchema.parse(body);
+
+    const project = await findOwnedProject(projectId, userId);
+    if (!project) {
+      return notFoundResponse();
+    }
+
+    const updates: Record<string, unknown> = { updatedAt: new Date().toISOString() };
+    if (fusion) updates['retrieval.fusion'] = fusion;
+    if (reranker) updates['retrieval.reranker'] = reranker;
+    if (mmr) updates['retrieval.mmr'] = mmr;
+    if (expansion) updates['retrieval.expansion'] = expansion;
+
+    const projectsColl = await getColl('projects');
+    await projectsColl.updateOne(
+      { _id: new ObjectId(projectId), userId },
+      { $set: updates }
+    );
+
+    const response: ApiResponse<RetrievalSettingsResponse> = {
+      ok: true,
+      data: {
+        fusion: resolveFusionSettings(fusion ?? project.retrieval?.fusion),
+        reranker: resolveRerankSettings(reranker ?? project.retrieval?.reranker),
+        mmr: resolveMmrSettings(mmr ?? project.retrieval?.mmr),
+        expansion: resolveExpansionSettings(expansion ?? project.retrieval?.expansion),
+      },
+    };
+    return jsonResponse(response);
+
+  } catch (error) {
+    return handleError(error, 'Failed to save retrieval settings');
+  }
+}
+
 // type RetrievalRequest = z.infer<typeof RetrievalRequestSchema>;
 
 /**
@@ -22,7 +198,7 @@ const RetrievalRequestSchema = z.object({
  * 
  * Performs hybrid retrieval (vector + lexical search) on project chunks
  * 
- * @param request - Request containing projectId, query, and optional k
+ * @param request - Request containing projectId, query, optional k, optional metadata filters, optional fusion/reranker/mmr/expansion overrides and an optional explain flag
  * @returns ApiResponse with hybrid retrieval results
  */
 export async function POST(request: NextRequest): Promise<Response> {
@@ -38,21 +214,13 @@ export async function POST(request: NextRequest): Promise<Response> {
     // Parse and validate request body
     const body = await request.json();
     const validatedData = RetrievalRequestSchema.parse(body);
-    const { projectId, query, k } = validatedData;
+    const { projectId, query, k, filters, fusion, reranker, mmr, expansion, explain } = validatedData;
 
     // Verify project ownership
-    const projectsColl = await getColl('projects');
-    const project = await projectsColl.findOne({ 
-      _id: new ObjectId(projectId), 
-      userId 
-    });
+    const project = await findOwnedProject(projectId, userId);
     
     if (!project) {
-      const response: ApiResponse<never> = {
-        ok: false,
-        error: 'Project not found or access denied',
-      };
-      return jsonResponse(response, { status: 404 });
+      return notFoundResponse();
     }
 
     // Perform hybrid retrieval
@@ -60,6 +228,13 @@ export async function POST(request: NextRequest): Promise<Response> {
       projectId,
       query,
       k,
+      filters,
+      fusion: { ...project.retrieval?.fusion, ...fusion },
+      rerank: { ...project.retrieval?.reranker, ...reranker },
+      mmr: { ...project.retrieval?.mmr, ...mmr },
+      expansion: { ...project.retrieval?.expansion, ...expansion },
+      provider: getLLMProvider(project.llm),
+      explain,
     });
 
     // Return successful response
@@ -71,22 +246,6 @@ export async function POST(request: NextRequest): Promise<Response> {
     return jsonResponse(response);
 
   } catch (error) {
-    console.error('Retrieval API error:', error);
-
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      const response: ApiResponse<never> = {
-        ok: false,
-        error: `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
-      };
-      return jsonResponse(response, { status: 400 });
-    }
-
-    // Handle other errors
-    const response: ApiResponse<never> = {
-      ok: false,
-      error: error instanceof Error ? error.message : 'Retrieval failed',
-    };
-    return jsonResponse(response, { status: 500 });
+    return handleError(error, 'Retrieval failed');
   }
 }
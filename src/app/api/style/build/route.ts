@@ -1,12 +1,12 @@
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
-import OpenAI from 'openai';
 
 import { requireUser } from '@/lib/auth/requireUser';
 import { jsonResponse } from '@/lib/api/response';
 import { getColl } from '@/lib/db/mongo';
 import { type StyleProfile } from '@/lib/schemas/styleProfile';
+import { getLLMProvider, LLMProviderError } from '@/lib/llm/providers';
 import { 
   createStyleAnalysisPrompt, 
   validateStyleCard,
@@ -30,11 +30,6 @@ const BuildStyleCardSchema = z.object({
 // type BuildStyleCardRequest = z.infer<typeof BuildStyleCardSchema>;
 // type BuildStyleCardResponse = ApiResponse<{ style_profile_id: string }>;
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 /**
  * POST /api/style/build
  * 
@@ -71,10 +66,10 @@ export async function POST(request: NextRequest): Promise<Response> {
     // Generate style analysis prompt
     const prompt = createStyleAnalysisPrompt(emailsForAnalysis);
 
-    // Call OpenAI to analyze style
-    console.log('Requesting style analysis from OpenAI...');
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    // Ask the LLM to analyze style
+    const provider = getLLMProvider();
+    console.log(`Requesting style analysis from ${provider.name}...`);
+    const responseContent = await provider.chatJSON({
       messages: [
         {
           role: 'system',
@@ -85,23 +80,18 @@ export async function POST(request: NextRequest): Promise<Response> {
           content: prompt
         }
       ],
+      tier: 'smart',
       temperature: 0.1, // Low temperature for consistent analysis
-      max_tokens: 4000,
-      response_format: { type: 'json_object' }
+      maxTokens: 4000,
     });
 
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error('No response from OpenAI');
-    }
-
     // Parse and validate the style card
     let styleCard: StyleCard;
     try {
       const parsedResponse = JSON.parse(responseContent);
       styleCard = validateStyleCard(parsedResponse);
     } catch (error) {
-      console.error('Failed to parse OpenAI response:', error);
+      console.error('Failed to parse LLM response:', error);
       throw new Error('Invalid style analysis response from AI');
     }
 
@@ -139,9 +129,9 @@ export async function POST(request: NextRequest): Promise<Response> {
       }, { status: 400 });
     }
 
-    // Handle OpenAI API errors
-    if (error instanceof OpenAI.APIError) {
-      console.error('OpenAI API Error:', error.status, error.message);
+    // Handle LLM provider API errors
+    if (error instanceof LLMProviderError) {
+      console.error('LLM API Error:', error.provider, error.status, error.message);
       return jsonResponse({
         ok: false,
         error: 'AI analysis service temporarily unavailable'
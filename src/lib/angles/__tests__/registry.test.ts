@@ -0,0 +1,86 @@
+/**
+ * Test suite for the copywriting angle registry
+ *
+ * Verifies angle lookup and that the generation prompts follow the
+ * selected angle's structure and CTA style rather than a hard-coded PAS layout.
+ */
+
+import { ANGLES, DEFAULT_ANGLE, getAngle, getAvailableAngles } from '../index';
+import { generateEmailPrompt, generateSectionPrompt } from '@/lib/llm/prompts/generate';
+
+describe('Angle Registry', () => {
+  it('should register every angle under its own key', () => {
+    Object.entries(ANGLES).forEach(([key, angle]) => {
+      expect(angle.key).toBe(key);
+      expect(angle.structure.length).toBeGreaterThan(0);
+      expect(angle.utmContent).toBeTruthy();
+    });
+  });
+
+  it('should include the expected angles', () => {
+    const keys = getAvailableAngles().map(a => a.key);
+    expect(keys).toEqual(expect.arrayContaining(['PAS', 'AIDA', 'BAB', '4PS', 'SOC', 'FAQ', 'CASE_STUDY']));
+  });
+
+  it('should fall back to the default angle for unknown keys', () => {
+    expect(getAngle('NOPE').key).toBe(DEFAULT_ANGLE);
+    expect(getAngle(undefined).key).toBe(DEFAULT_ANGLE);
+  });
+
+  describe('generateEmailPrompt', () => {
+    const baseOptions = {
+      projectName: 'Test Project',
+      contextPack: '## Feature\n\nIt saves time.',
+    };
+
+    it('should describe the selected angle structure', () => {
+      const prompt = generateEmailPrompt({ ...baseOptions, angle: 'AIDA' });
+
+      expect(prompt).toContain('## AIDA FRAMEWORK STRUCTURE');
+      ANGLES.AIDA.structure.forEach(section => {
+        expect(prompt).toContain(`**${section.name}**`);
+      });
+      expect(prompt).not.toContain('Agitate');
+    });
+
+    it('should use the angle length default when no length is given', () => {
+      const shortPrompt = generateEmailPrompt({ ...baseOptions, angle: 'BAB' });
+      const overridden = generateEmailPrompt({ ...baseOptions, angle: 'BAB', length: 'long' });
+
+      expect(shortPrompt).toContain('Aim for 150-250 words total');
+      expect(overridden).toContain('Aim for 400-600 words total');
+    });
+
+    it('should place links by the angle CTA style', () => {
+      const single = generateEmailPrompt({ ...baseOptions, angle: 'PAS' });
+      const repeated = generateEmailPrompt({ ...baseOptions, angle: '4PS' });
+
+      expect(single).toContain('body sections contain no links');
+      expect(repeated).toContain('repeat it once mid-email');
+      expect(repeated).not.toContain('body sections contain no links');
+    });
+  });
+
+  describe('generateSectionPrompt', () => {
+    const options = {
+      projectName: 'Test Project',
+      contextPack: '## Feature\n\nIt saves time.',
+      currentEmail: { subject: 'Save time', md: 'Body' },
+    };
+
+    it('should only allow a mid-email link when the angle repeats its CTA', () => {
+      const repeated = generateSectionPrompt({ ...options, angle: '4PS', target: 'proof' });
+      const soft = generateSectionPrompt({ ...options, angle: 'FAQ', target: 'questions' });
+
+      expect(repeated).toContain('one short inline link to the primary link');
+      expect(soft).toContain('Leave links to the call-to-action section and keep any mention of the offer low-pressure');
+    });
+
+    it('should carry the CTA style into a rewritten call-to-action', () => {
+      const prompt = generateSectionPrompt({ ...options, angle: '4PS', target: 'cta' });
+
+      expect(prompt).toContain(ANGLES['4PS'].ctaInstructions);
+      expect(prompt).toContain('keep the same URL as the inline link earlier in the email');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { type AngleDefinition } from './types';
+
+export const AIDA: AngleDefinition = {
+  key: 'AIDA',
+  name: 'Attention-Interest-Desire-Action',
+  description: 'Hook attention, build interest and desire, then ask for action',
+  structure: [
+    {
+      key: 'attention',
+      name: 'Attention',
+      instructions: 'Open with a surprising fact, bold statement or question drawn from the context',
+    },
+    {
+      key: 'interest',
+      name: 'Interest',
+      instructions: 'Explain what the offer is and why it matters to this audience right now',
+    },
+    {
+      key: 'desire',
+      name: 'Desire',
+      instructions: 'Make the reader want it: concrete benefits, outcomes and proof from the context',
+    },
+    {
+      key: 'action',
+      name: 'Action',
+      instructions: 'Tell the reader exactly what to do next and what happens when they do',
+    },
+  ],
+  ctaStyle: 'single',
+  ctaInstructions: 'One direct call-to-action in the Action section; no competing links',
+  length: 'medium',
+  utmContent: 'AIDA',
+};
@@ -0,0 +1,28 @@
+import { type AngleDefinition } from './types';
+
+export const BAB: AngleDefinition = {
+  key: 'BAB',
+  name: 'Before-After-Bridge',
+  description: 'Contrast life today with life after, then bridge the gap',
+  structure: [
+    {
+      key: 'before',
+      name: 'Before',
+      instructions: "Describe the reader's current situation and frustrations in their own words",
+    },
+    {
+      key: 'after',
+      name: 'After',
+      instructions: 'Paint a vivid picture of how things look once the problem is solved',
+    },
+    {
+      key: 'bridge',
+      name: 'Bridge',
+      instructions: 'Show how the project/product gets them from Before to After',
+    },
+  ],
+  ctaStyle: 'single',
+  ctaInstructions: 'One call-to-action at the end of the Bridge framed as the first step across',
+  length: 'short',
+  utmContent: 'BAB',
+};
@@ -0,0 +1,33 @@
+import { type AngleDefinition } from './types';
+
+export const CASE_STUDY: AngleDefinition = {
+  key: 'CASE_STUDY',
+  name: 'Case Study',
+  description: 'Walk through one customer result from challenge to outcome',
+  structure: [
+    {
+      key: 'challenge',
+      name: 'Challenge',
+      instructions: 'Introduce the customer and the challenge they faced, using only details from the context',
+    },
+    {
+      key: 'approach',
+      name: 'Approach',
+      instructions: 'Explain what they did and how the project/product was used',
+    },
+    {
+      key: 'results',
+      name: 'Results',
+      instructions: 'Share the concrete results; never invent numbers that are not in the context',
+    },
+    {
+      key: 'takeaway',
+      name: 'Takeaway',
+      instructions: 'Relate the result back to the reader and how they can get the same',
+    },
+  ],
+  ctaStyle: 'soft',
+  ctaInstructions: 'Soft call-to-action after the Takeaway inviting the reader to get similar results',
+  length: 'medium',
+  utmContent: 'CASE_STUDY',
+};
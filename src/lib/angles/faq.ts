@@ -0,0 +1,28 @@
+import { type AngleDefinition } from './types';
+
+export const FAQ: AngleDefinition = {
+  key: 'FAQ',
+  name: 'FAQ / Objection Handling',
+  description: 'Answer the questions and objections that stop people buying',
+  structure: [
+    {
+      key: 'intro',
+      name: 'Intro',
+      instructions: 'Acknowledge that the reader probably has questions before deciding',
+    },
+    {
+      key: 'questions',
+      name: 'Questions',
+      instructions: 'Answer 3-5 real questions or objections, each with a short, honest answer from the context',
+    },
+    {
+      key: 'close',
+      name: 'Close',
+      instructions: 'Summarize why the remaining risk is low and invite the reader to act',
+    },
+  ],
+  ctaStyle: 'soft',
+  ctaInstructions: 'Low-pressure call-to-action at the end, e.g. "see the details" rather than "buy now"',
+  length: 'long',
+  utmContent: 'FAQ',
+};
@@ -0,0 +1,33 @@
+import { type AngleDefinition } from './types';
+
+export const FOUR_PS: AngleDefinition = {
+  key: '4PS',
+  name: 'Promise-Picture-Proof-Push',
+  description: 'Make a promise, help them picture it, prove it, then push',
+  structure: [
+    {
+      key: 'promise',
+      name: 'Promise',
+      instructions: 'Lead with the single biggest benefit the reader will get',
+    },
+    {
+      key: 'picture',
+      name: 'Picture',
+      instructions: 'Help the reader imagine enjoying that benefit in their day-to-day',
+    },
+    {
+      key: 'proof',
+      name: 'Proof',
+      instructions: 'Back the promise with results, numbers or testimonials from the context only',
+    },
+    {
+      key: 'push',
+      name: 'Push',
+      instructions: 'Give a clear reason to act now and ask for the click',
+    },
+  ],
+  ctaStyle: 'repeated',
+  ctaInstructions: 'Primary call-to-action in the Push section, optionally repeated once after the Proof',
+  length: 'medium',
+  utmContent: '4PS',
+};
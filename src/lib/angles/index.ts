@@ -0,0 +1,52 @@
+/**
+ * Copywriting Angle Registry
+ *
+ * Single source of truth for the angles available to email generation.
+ * The prompt builder, UTM tagging and the Generate tab picker all read
+ * from here, so adding an angle only requires a new definition file and
+ * an entry in ANGLES.
+ */
+
+import { type AngleDefinition } from './types';
+import { PAS } from './pas';
+import { AIDA } from './aida';
+import { BAB } from './bab';
+import { FOUR_PS } from './fourPs';
+import { STORY_OFFER_CLOSE } from './storyOfferClose';
+import { FAQ } from './faq';
+import { CASE_STUDY } from './caseStudy';
+
+export type { AngleDefinition, AngleSection, CtaStyle } from './types';
+
+export const DEFAULT_ANGLE = PAS.key;
+
+/**
+ * All registered angles keyed by angle key
+ */
+export const ANGLES: Record<string, AngleDefinition> = {
+  [PAS.key]: PAS,
+  [AIDA.key]: AIDA,
+  [BAB.key]: BAB,
+  [FOUR_PS.key]: FOUR_PS,
+  [STORY_OFFER_CLOSE.key]: STORY_OFFER_CLOSE,
+  [FAQ.key]: FAQ,
+  [CASE_STUDY.key]: CASE_STUDY,
+};
+
+/**
+ * Look up an angle by key, falling back to the default angle
+ */
+export function getAngle(key?: string): AngleDefinition {
+  return (key && ANGLES[key]) || ANGLES[DEFAULT_ANGLE];
+}
+
+/**
+ * Helper to get all available angles
+ */
+export function getAvailableAngles(): Array<{key: string, name: string, description: string}> {
+  return Object.values(ANGLES).map(angle => ({
+    key: angle.key,
+    name: angle.name,
+    description: angle.description
+  }));
+}
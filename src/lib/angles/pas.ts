@@ -1,6 +1,28 @@
-export const PAS = {
-  name: 'PAS',
-  structure: ['Pain', 'Agitate', 'Solve'],
+import { type AngleDefinition } from './types';
+
+export const PAS: AngleDefinition = {
+  key: 'PAS',
+  name: 'Problem-Agitate-Solution',
+  description: 'Name a pain, twist the knife, then present the fix',
+  structure: [
+    {
+      key: 'problem',
+      name: 'Problem',
+      instructions: 'Start with a specific, relatable pain point your audience faces',
+    },
+    {
+      key: 'agitate',
+      name: 'Agitate',
+      instructions: 'Amplify the consequences and emotional impact of this problem',
+    },
+    {
+      key: 'solution',
+      name: 'Solution',
+      instructions: 'Present the project/product as the clear solution with specific benefits',
+    },
+  ],
   ctaStyle: 'single',
-  length: 'medium'
-} as const;
+  ctaInstructions: 'One clear, action-oriented call-to-action after the Solution section',
+  length: 'medium',
+  utmContent: 'PAS',
+};
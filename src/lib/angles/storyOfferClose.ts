@@ -0,0 +1,28 @@
+import { type AngleDefinition } from './types';
+
+export const STORY_OFFER_CLOSE: AngleDefinition = {
+  key: 'SOC',
+  name: 'Story-Offer-Close',
+  description: 'Tell a short story, connect it to the offer, then close',
+  structure: [
+    {
+      key: 'story',
+      name: 'Story',
+      instructions: 'Tell a short, specific story grounded in the context that leads naturally to a lesson',
+    },
+    {
+      key: 'offer',
+      name: 'Offer',
+      instructions: 'Connect the lesson to the offer and spell out what the reader gets',
+    },
+    {
+      key: 'close',
+      name: 'Close',
+      instructions: 'Close with urgency or a reason to act, then the call-to-action',
+    },
+  ],
+  ctaStyle: 'single',
+  ctaInstructions: 'One call-to-action in the Close; the Story itself contains no links',
+  length: 'long',
+  utmContent: 'SOC',
+};
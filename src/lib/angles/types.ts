@@ -0,0 +1,27 @@
+/**
+ * Copywriting Angle Types
+ *
+ * Shared shape for every angle in the registry. An angle describes the
+ * section structure of an email, how its call-to-action is handled and
+ * the length it defaults to when the request doesn't specify one.
+ */
+
+export interface AngleSection {
+  key: string;
+  name: string;
+  instructions: string;
+}
+
+// Where the email links to the offer: once, once without pressure, or also mid-email
+export type CtaStyle = 'single' | 'soft' | 'repeated';
+
+export interface AngleDefinition {
+  key: string;
+  name: string;
+  description: string;
+  structure: AngleSection[];
+  ctaStyle: CtaStyle;
+  ctaInstructions: string;
+  length: 'short' | 'medium' | 'long';
+  utmContent: string; // Value used for utm_content on tracked links
+}
@@ -5,13 +5,22 @@
  * Maintains heading hierarchy context and creates overlapping windows when needed.
  */
 
+import { estimateTokens } from '@/lib/llm/tokens';
+
 export interface MarkdownChunk {
   chunkId: string;
   md_text: string;
   tokens: number;
   section?: string;
+  title?: string; // Set by the source (e.g. a spreadsheet column) rather than the labeller
+  tags?: string[];
   meta: {
     hpath: string[];
+    rows?: number[];
+    records?: Array<Record<string, string>>;
+    start?: number;
+    end?: number;
+    speakers?: string[];
   };
 }
 
@@ -25,14 +34,6 @@ interface HeadingNode {
   parent?: HeadingNode;
 }
 
-/**
- * Simple tokenizer: approximates tokens as ceil(words * 1.33)
- */
-function estimateTokens(text: string): number {
-  const words = text.trim().split(/\s+/).filter(word => word.length > 0).length;
-  return Math.ceil(words * 1.33);
-}
-
 /**
  * Parse markdown content and extract heading hierarchy
  */
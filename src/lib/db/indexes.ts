@@ -55,6 +55,13 @@ const INDEXES: IndexSpec[] = [
     index: { projectId: 1 },
     options: { name: 'drafts_projectId_1', background: true }
   },
+
+  // Draft revisions collection indexes
+  {
+    collection: 'draft_revisions',
+    index: { draftId: 1, revision: 1 },
+    options: { name: 'draft_revisions_draftId_1_revision_1', unique: true, background: true }
+  },
 ];
 
 /**
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffLines, diffDraftContent } from '../diff';
+
+describe('Draft Diffing', () => {
+  describe('diffLines', () => {
+    it('should return no changes for identical text', () => {
+      expect(diffLines('a\nb\nc', 'a\nb\nc')).toEqual([]);
+    });
+
+    it('should report a replaced line as a remove and an add', () => {
+      const lines = diffLines('a\nb\nc', 'a\nB\nc');
+
+      expect(lines).toEqual([
+        { type: 'remove', line: 2, text: 'b' },
+        { type: 'add', line: 2, text: 'B' },
+      ]);
+    });
+
+    it('should handle appended and removed lines', () => {
+      expect(diffLines('a', 'a\nb')).toEqual([{ type: 'add', line: 2, text: 'b' }]);
+      expect(diffLines('a\nb', 'b')).toEqual([{ type: 'remove', line: 1, text: 'a' }]);
+    });
+  });
+
+  describe('diffDraftContent', () => {
+    const base = {
+      subject: 'Hello',
+      preheader: 'Preview',
+      formats: { html: '<p>Hi</p>', md: 'Hi', txt: 'Hi' },
+    };
+
+    it('should only include changed fields', () => {
+      const diff = diffDraftContent(base, { ...base, subject: 'Hello there' });
+
+      expect(diff).toHaveLength(1);
+      expect(diff[0].field).toBe('subject');
+      expect(diff[0].added).toBe(1);
+      expect(diff[0].removed).toBe(1);
+    });
+
+    it('should treat a missing preheader as empty', () => {
+      const diff = diffDraftContent({ ...base, preheader: undefined }, base);
+
+      expect(diff.map(d => d.field)).toEqual(['preheader']);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { ObjectId } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { DraftRevisionConflictError, recordDraftRevision } from '../revisions';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+
+describe('recordDraftRevision', () => {
+  const projectId = '507f1f77bcf86cd799439011';
+  const draftId = new ObjectId().toString();
+  let draft: Record<string, unknown>;
+  let revisions: Array<Record<string, unknown>>;
+
+  const content = (subject: string) => ({
+    subject,
+    preheader: 'Preview',
+    formats: { html: `<p>${subject}</p>`, md: subject, txt: subject },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    draft = { _id: new ObjectId(draftId), projectId, ...content('Original'), createdAt: new Date() };
+    revisions = [];
+
+    // Enforces the unique (draftId, revision) index
+    const revisionsColl = {
+      insertOne: jest.fn(async (doc: Record<string, unknown>) => {
+        if (revisions.some(r => r.draftId === doc.draftId && r.revision === doc.revision)) {
+          throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+        }
+        revisions.push(doc);
+      }),
+      deleteOne: jest.fn(async (filter: { _id: ObjectId }) => {
+        revisions = revisions.filter(r => r._id !== filter._id);
+      }),
+    };
+    const draftsColl = {
+      findOne: jest.fn(async () => ({ ...draft })),
+      updateOne: jest.fn(async (
+        filter: { revision: number | { $in: Array<number | null> } },
+        update: { $set: Record<string, unknown> }
+      ) => {
+        const current = (draft.revision as number | undefined) ?? null;
+        const matches = typeof filter.revision === 'number'
+          ? current === filter.revision
+          : filter.revision.$in.includes(current);
+        if (!matches) return { matchedCount: 0 };
+        draft = { ...draft, ...update.$set };
+        return { matchedCount: 1 };
+      }),
+    };
+
+    mockGetColl.mockImplementation(async (name: string) =>
+      ({ drafts: draftsColl, draft_revisions: revisionsColl } as Record<string, unknown>)[name] as never
+    );
+  });
+
+  it('should record the original and the first edit', async () => {
+    const revision = await recordDraftRevision({
+      projectId, draftId, authorId: 'user-1', content: content('First edit'), baseRevision: 0,
+    });
+
+    expect(revision?.revision).toBe(1);
+    expect(revisions.map(r => [r.revision, r.kind])).toEqual([[0, 'original'], [1, 'edit']]);
+    expect(draft.subject).toBe('First edit');
+    expect(draft.revision).toBe(1);
+  });
+
+  it('should ignore a save that changes nothing', async () => {
+    const revision = await recordDraftRevision({
+      projectId, draftId, authorId: 'user-1', content: content('Original'), baseRevision: 0,
+    });
+
+    expect(revision).toBeNull();
+    expect(revisions).toEqual([]);
+  });
+
+  it('should reject a save made from an older revision', async () => {
+    await recordDraftRevision({ projectId, draftId, authorId: 'user-1', content: content('First edit'), baseRevision: 0 });
+
+    await expect(recordDraftRevision({
+      projectId, draftId, authorId: 'user-2', content: content('Stale edit'), baseRevision: 0,
+    })).rejects.toThrow(DraftRevisionConflictError);
+
+    expect(draft.subject).toBe('First edit');
+    expect(revisions).toHaveLength(2);
+  });
+
+  it('should let only one of two concurrent saves from the same revision through', async () => {
+    const results = await Promise.allSettled([
+      recordDraftRevision({ projectId, draftId, authorId: 'user-1', content: content('Edit A'), baseRevision: 0 }),
+      recordDraftRevision({ projectId, draftId, authorId: 'user-2', content: content('Edit B'), baseRevision: 0 }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(DraftRevisionConflictError);
+    expect(revisions.map(r => r.revision)).toEqual([0, 1]);
+    expect(draft.subject).toBe('Edit A');
+    expect(draft.revision).toBe(1);
+  });
+});
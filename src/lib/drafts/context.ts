@@ -0,0 +1,75 @@
+/**
+ * Draft Context
+ *
+ * Loads the chunks a draft was generated from (its `context_chunk_ids`)
+ * so later steps — regeneration, guards — see the same context.
+ */
+
+import { getColl } from '@/lib/db/mongo';
+import { buildContextPack } from '@/lib/retrieval/contextPack';
+import { type Chunk } from '@/lib/schemas/chunk';
+
+/**
+ * Load a draft's context chunks in their original order
+ * 
+ * IDs may be either chunk `_id`s or `chunkId`s, matching how the generate
+ * routes record them. Chunks deleted since generation are reported as missing.
+ */
+export async function loadDraftChunks(
+  projectId: string,
+  userId: string,
+  chunkIds: string[]
+): Promise<{ chunks: Chunk[]; missingChunkIds: string[] }> {
+  if (chunkIds.length === 0) {
+    return { chunks: [], missingChunkIds: [] };
+  }
+
+  const chunksCollection = await getColl<Chunk>('chunks');
+  const found = await chunksCollection
+    .find({
+      projectId,
+      $and: [
+        { $or: [{ _id: { $in: chunkIds } }, { chunkId: { $in: chunkIds } }] },
+        { $or: [{ userId }, { userId: { $exists: false } }] }, // Legacy chunks without userId
+      ]
+    })
+    .toArray();
+
+  const byId = new Map<string, Chunk>();
+  found.forEach(chunk => {
+    byId.set(chunk.chunkId, chunk);
+    byId.set(chunk._id, chunk);
+  });
+
+  return {
+    chunks: chunkIds
+      .map(id => byId.get(id))
+      .filter((chunk): chunk is Chunk => Boolean(chunk)),
+    missingChunkIds: chunkIds.filter(id => !byId.has(id)),
+  };
+}
+
+/**
+ * Rebuild the context pack from the chunk IDs stored on a draft
+ *
+ * @param budgetTokens - Token budget for the pack; no limit when unset
+ */
+export async function loadDraftContextPack(
+  projectId: string,
+  userId: string,
+  chunkIds: string[],
+  budgetTokens?: number
+): Promise<{ contextPack: string; missingChunkIds: string[] }> {
+  const { chunks, missingChunkIds } = await loadDraftChunks(projectId, userId, chunkIds);
+
+  return {
+    contextPack: buildContextPack(chunks.map(chunk => ({
+      chunkId: chunk.chunkId,
+      md_text: chunk.md_text,
+      hpath: chunk.meta?.hpath || [],
+      title: chunk.title,
+      tags: chunk.tags,
+    })), { budgetTokens }).text,
+    missingChunkIds,
+  };
+}
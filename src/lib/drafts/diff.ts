@@ -0,0 +1,71 @@
+/**
+ * Draft Diffing
+ * 
+ * Line-based diff between two versions of a draft. Uses a longest common
+ * subsequence table, which is fine for email-sized inputs (a few hundred lines).
+ */
+
+import { type DraftContent, type DiffLine, type FieldDiff } from '@/lib/schemas/draftRevision';
+
+/**
+ * Diff two texts line by line, returning only added and removed lines
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'remove', line: i + 1, text: a[i] });
+      i++;
+    } else {
+      lines.push({ type: 'add', line: j + 1, text: b[j] });
+      j++;
+    }
+  }
+  for (; i < n; i++) lines.push({ type: 'remove', line: i + 1, text: a[i] });
+  for (; j < m; j++) lines.push({ type: 'add', line: j + 1, text: b[j] });
+
+  return lines;
+}
+
+/**
+ * Diff every editable field of two draft versions, skipping unchanged fields
+ */
+export function diffDraftContent(before: DraftContent, after: DraftContent): FieldDiff[] {
+  const fields: Array<[FieldDiff['field'], string, string]> = [
+    ['subject', before.subject, after.subject],
+    ['preheader', before.preheader || '', after.preheader || ''],
+    ['html', before.formats.html, after.formats.html],
+    ['md', before.formats.md, after.formats.md],
+    ['txt', before.formats.txt, after.formats.txt],
+  ];
+
+  return fields
+    .filter(([, oldValue, newValue]) => oldValue !== newValue)
+    .map(([field, oldValue, newValue]) => {
+      const lines = diffLines(oldValue, newValue);
+      return {
+        field,
+        added: lines.filter(l => l.type === 'add').length,
+        removed: lines.filter(l => l.type === 'remove').length,
+        lines,
+      };
+    });
+}
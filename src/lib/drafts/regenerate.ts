@@ -0,0 +1,157 @@
+/**
+ * Draft Section Regeneration
+ *
+ * Rewrites one part of an existing draft (an angle section, the CTA, the
+ * subject or the preheader) with the same context chunks and settings the
+ * draft was generated with, and splices it into every format.
+ */
+
+import { generateSectionPrompt, getEmailConfig } from '@/lib/llm/prompts/generate';
+import { validateStyleCard, type StyleCard } from '@/lib/llm/prompts/styleCard';
+import { chooseBestSubject } from '@/lib/email/postProcess';
+import {
+  generateEmailPart,
+  addUtmParams,
+  applyLinkOverrides,
+  zGeneratedSection,
+  zGeneratedSubject,
+  zGeneratedPreheader,
+} from '@/lib/email/generateEmail';
+import { getEditableSections, spliceSection } from '@/lib/email/sections';
+import { loadStyleProfile } from '@/lib/style/profile';
+import { getContextBudget } from '@/lib/retrieval/contextPack';
+import { getDraftContent } from './revisions';
+import { loadDraftContextPack } from './context';
+import { type GenerationSettings } from '@/lib/schemas/draft';
+import { type DraftContent } from '@/lib/schemas/draftRevision';
+import { type ProjectLLMSettings } from '@/lib/schemas/project';
+import { getLLMProvider } from '@/lib/llm/providers';
+
+/**
+ * Targets that aren't angle sections
+ */
+export const HEADER_TARGETS = ['subject', 'preheader'] as const;
+
+/**
+ * Every regeneration target available for a draft's angle
+ */
+export function getRegenerationTargets(angleKey: string): string[] {
+  return [...HEADER_TARGETS, ...getEditableSections(angleKey).map(section => section.key)];
+}
+
+/**
+ * Regenerate one part of a draft
+ *
+ * @returns The full draft content with only the target replaced
+ */
+export async function regenerateDraftPart({
+  project,
+  draft,
+  userId,
+  target,
+  instructions
+}: {
+  project: { name: string; default_link?: string; llm?: ProjectLLMSettings };
+  draft: Record<string, unknown>;
+  userId: string;
+  target: string;
+  instructions?: string;
+}): Promise<DraftContent> {
+  const projectId = draft.projectId as string;
+  const angle = draft.angle as string;
+  const current = getDraftContent(draft);
+
+  // Drafts generated before settings were stored fall back to defaults
+  const settings: GenerationSettings = (draft.generation as GenerationSettings | undefined) || {
+    styleProfileId: (draft.scores as { style_profile_id?: string } | undefined)?.style_profile_id,
+  };
+
+  let styleCard: StyleCard | undefined;
+  if (settings.styleProfileId) {
+    const profile = await loadStyleProfile(settings.styleProfileId, userId);
+    if (profile) {
+      styleCard = validateStyleCard(profile.style_card);
+    } else {
+      console.warn(`[REGENERATE] Style profile ${settings.styleProfileId} not found, regenerating without it`);
+    }
+  }
+
+  const emailConfig = getEmailConfig(settings.tone, settings.style, settings.hypeLevel);
+  const provider = getLLMProvider(project.llm);
+
+  const buildPrompt = (contextPack: string) => generateSectionPrompt({
+    angle,
+    projectName: project.name,
+    audience: settings.audience,
+    length: settings.length,
+    tone: settings.tone,
+    style: settings.style,
+    constraints: settings.constraints,
+    mustInclude: settings.mustInclude,
+    contextPack,
+    defaultLink: project.default_link ? addUtmParams(project.default_link, projectId, angle) : undefined,
+    hypeLevel: settings.hypeLevel,
+    styleCard,
+    target,
+    currentEmail: {
+      subject: current.subject,
+      preheader: current.preheader,
+      md: current.formats.md,
+    },
+    instructions,
+  });
+
+  const { contextPack, missingChunkIds } = await loadDraftContextPack(
+    projectId,
+    userId,
+    (draft.context_chunk_ids as string[] | undefined) || [],
+    getContextBudget({ provider, tier: emailConfig.tier, maxTokens: emailConfig.maxTokens, prompt: buildPrompt('') })
+  );
+
+  if (!contextPack) {
+    throw new Error('None of the context chunks this draft was generated from still exist');
+  }
+
+  if (missingChunkIds.length > 0) {
+    console.warn(`[REGENERATE] ${missingChunkIds.length} context chunks no longer exist: ${missingChunkIds.join(', ')}`);
+  }
+
+  const prompt = buildPrompt(contextPack);
+
+  if (target === 'subject') {
+    const generated = await generateEmailPart(prompt, zGeneratedSubject, emailConfig, provider);
+    const ranked = chooseBestSubject(
+      {
+        subject: generated.subject,
+        preheader: current.preheader || '',
+        ...current.formats,
+        __subject_candidates: generated.__subject_candidates,
+      },
+      contextPack,
+      emailConfig.effectiveHypeLevel,
+      [current.subject] // Penalise candidates that reuse the current hook
+    );
+    return { ...current, subject: ranked.subject };
+  }
+
+  if (target === 'preheader') {
+    const generated = await generateEmailPart(prompt, zGeneratedPreheader, emailConfig, provider);
+    return { ...current, preheader: generated.preheader };
+  }
+
+  const sections = getEditableSections(angle);
+  const section = sections.find(s => s.key === target);
+  if (!section) {
+    throw new Error(`Unknown section "${target}" for angle ${angle}`);
+  }
+
+  const generated = applyLinkOverrides(
+    await generateEmailPart(prompt, zGeneratedSection, emailConfig, provider),
+    settings.linkOverrides
+  );
+
+  return {
+    ...current,
+    formats: spliceSection(current.formats, section, sections, generated),
+  };
+}
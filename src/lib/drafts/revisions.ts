@@ -0,0 +1,200 @@
+import { ObjectId } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { diffDraftContent } from './diff';
+import { zCreateDraftRevision, type DraftContent, type DraftRevision } from '@/lib/schemas/draftRevision';
+
+/**
+ * Extract the editable content from a stored draft document
+ */
+export function getDraftContent(draft: Record<string, unknown>): DraftContent {
+  const formats = draft.formats as DraftContent['formats'];
+  return {
+    subject: draft.subject as string,
+    preheader: (draft.preheader as string | undefined) || undefined,
+    formats: {
+      html: formats.html,
+      md: formats.md,
+      txt: formats.txt,
+    },
+  };
+}
+
+/**
+ * Find a draft within a project
+ * 
+ * Drafts are inserted with an ObjectId _id by the generate routes,
+ * so the string ID is converted before querying.
+ */
+export async function findProjectDraft(projectId: string, draftId: string) {
+  const draftsCollection = await getColl('drafts');
+  return draftsCollection.findOne({
+    _id: new ObjectId(draftId),
+    projectId
+  });
+}
+
+/**
+ * List all revisions for a draft, oldest first
+ */
+export async function listDraftRevisions(projectId: string, draftId: string): Promise<DraftRevision[]> {
+  const revisionsCollection = await getColl<DraftRevision>('draft_revisions');
+  return revisionsCollection
+    .find({ projectId, draftId })
+    .sort({ revision: 1 })
+    .toArray();
+}
+
+/**
+ * Thrown when a draft has been saved again since the content being saved was loaded
+ */
+export class DraftRevisionConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DraftRevisionConflictError';
+  }
+}
+
+const DUPLICATE_KEY = 11000; // MongoDB error code for a unique index violation
+
+function isDuplicateKey(error: unknown): boolean {
+  return (error as { code?: number } | null)?.code === DUPLICATE_KEY;
+}
+
+function conflict(baseRevision: number): DraftRevisionConflictError {
+  return new DraftRevisionConflictError(
+    `This draft has changed since revision ${baseRevision}. Reload it and try again.`
+  );
+}
+
+/**
+ * Throw DraftRevisionConflictError unless the draft is still at `baseRevision`
+ */
+export function assertDraftRevision(draft: Record<string, unknown>, baseRevision: number): void {
+  if (((draft.revision as number | undefined) ?? 0) !== baseRevision) {
+    throw conflict(baseRevision);
+  }
+}
+
+/**
+ * Save new content for a draft and record it as an immutable revision
+ * 
+ * The first save also records revision 0 with the draft's original content,
+ * so the generated version can always be restored. Saves that don't change
+ * anything are ignored and return null.
+ * 
+ * `baseRevision` is the revision the new content was made from. The unique
+ * index on (draftId, revision) lets only one save from a revision through;
+ * any other, or a save from an older revision, throws
+ * DraftRevisionConflictError instead of overwriting it.
+ * 
+ * @returns The new revision, or null if the content was unchanged
+ */
+export async function recordDraftRevision({
+  projectId,
+  draftId,
+  authorId,
+  content,
+  baseRevision,
+  kind = 'edit',
+  restoredFrom,
+  regeneratedSection
+}: {
+  projectId: string;
+  draftId: string;
+  authorId: string;
+  content: DraftContent;
+  baseRevision: number;
+  kind?: 'edit' | 'restore' | 'regenerate' | 'repair';
+  restoredFrom?: number;
+  regeneratedSection?: string;
+}): Promise<DraftRevision | null> {
+  const draft = await findProjectDraft(projectId, draftId);
+  if (!draft) {
+    throw new Error('Draft not found');
+  }
+
+  assertDraftRevision(draft, baseRevision);
+
+  const previousContent = getDraftContent(draft);
+  const diff = diffDraftContent(previousContent, content);
+  if (diff.length === 0) {
+    return null;
+  }
+
+  const revisionsCollection = await getColl('draft_revisions');
+
+  if (baseRevision === 0) {
+    // Capture the generated original before the first edit
+    const original = zCreateDraftRevision.parse({
+      draftId,
+      projectId,
+      revision: 0,
+      authorId,
+      kind: 'original',
+      snapshot: previousContent,
+      diff: [],
+    });
+
+    try {
+      await revisionsCollection.insertOne({
+        _id: new ObjectId(),
+        ...original,
+        createdAt: draft.createdAt instanceof Date ? draft.createdAt : new Date(),
+      });
+    } catch (error) {
+      // Another first save already recorded it
+      if (!isDuplicateKey(error)) throw error;
+    }
+  }
+
+  const now = new Date();
+  const revisionId = new ObjectId();
+  const revision = zCreateDraftRevision.parse({
+    draftId,
+    projectId,
+    revision: baseRevision + 1,
+    authorId,
+    kind,
+    restoredFrom,
+    regeneratedSection,
+    snapshot: content,
+    diff,
+  });
+
+  try {
+    await revisionsCollection.insertOne({
+      _id: revisionId,
+      ...revision,
+      createdAt: now,
+    });
+  } catch (error) {
+    // Another save from the same revision got there first
+    if (isDuplicateKey(error)) throw conflict(baseRevision);
+    throw error;
+  }
+
+  const draftsCollection = await getColl('drafts');
+  const updated = await draftsCollection.updateOne(
+    {
+      _id: new ObjectId(draftId),
+      projectId,
+      revision: baseRevision === 0 ? { $in: [0, null] } : baseRevision,
+    },
+    {
+      $set: {
+        subject: content.subject,
+        preheader: content.preheader,
+        formats: content.formats,
+        revision: revision.revision,
+        updatedAt: now,
+      }
+    }
+  );
+
+  if (updated.matchedCount === 0) {
+    await revisionsCollection.deleteOne({ _id: revisionId });
+    throw conflict(baseRevision);
+  }
+
+  return { _id: revisionId.toString(), ...revision, createdAt: now };
+}
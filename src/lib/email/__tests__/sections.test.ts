@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { getEditableSections, spliceSection, findUnmarkedFormats } from '../sections';
+
+describe('Email Sections', () => {
+  const sections = getEditableSections('PAS');
+  const agitate = sections.find(s => s.key === 'agitate')!;
+  const cta = sections.find(s => s.key === 'cta')!;
+
+  const formats = {
+    html: [
+      '<p>Hi there,</p>',
+      '<!-- section:problem --><p>Old problem</p><!-- /section:problem -->',
+      '<!-- section:agitate --><p>Old agitate</p><!-- /section:agitate -->',
+      '<!-- section:solution --><p>Old solution</p><!-- /section:solution -->',
+      '<!-- section:cta --><p><a href="#">Old CTA</a></p><!-- /section:cta -->',
+      '<p>Cheers</p>',
+    ].join('\n'),
+    md: [
+      'Hi there,',
+      '<!-- section:problem -->\nOld problem\n<!-- /section:problem -->',
+      '<!-- section:agitate -->\nOld agitate\n<!-- /section:agitate -->',
+      '<!-- section:solution -->\nOld solution\n<!-- /section:solution -->',
+      '<!-- section:cta -->\n[Old CTA](#)\n<!-- /section:cta -->',
+      'Cheers',
+    ].join('\n\n'),
+    txt: [
+      'Hi there,',
+      'PROBLEM\nOld problem',
+      'AGITATE\nOld agitate',
+      'SOLUTION\nOld solution',
+      'CALL-TO-ACTION\nOld CTA: #',
+      '--\nCheers',
+    ].join('\n\n'),
+  };
+
+  it('should include the angle structure plus the CTA', () => {
+    expect(sections.map(s => s.key)).toEqual(['problem', 'agitate', 'solution', 'cta']);
+  });
+
+  it('should replace only the target section in every format', () => {
+    const result = spliceSection(formats, agitate, sections, {
+      html: '<p>New agitate</p>',
+      md: 'New agitate',
+      txt: 'New agitate',
+    });
+
+    (['html', 'md', 'txt'] as const).forEach(format => {
+      expect(result[format]).toContain('New agitate');
+      expect(result[format]).not.toContain('Old agitate');
+      expect(result[format]).toContain('Old problem');
+      expect(result[format]).toContain('Old solution');
+    });
+    expect(result.txt).toContain('New agitate\n\nSOLUTION');
+  });
+
+  it('should stop the last txt section at the sign-off delimiter', () => {
+    const result = spliceSection(formats, cta, sections, {
+      html: '<p>New CTA</p>',
+      md: 'New CTA',
+      txt: 'New CTA',
+    });
+
+    expect(result.txt).toContain('CALL-TO-ACTION\nNew CTA\n\n--\nCheers');
+  });
+
+  it('should report formats without markers', () => {
+    const legacy = { ...formats, html: '<p>No markers here</p>' };
+
+    expect(findUnmarkedFormats(legacy, agitate, sections)).toEqual(['html']);
+    expect(() => spliceSection(legacy, agitate, sections, { html: '', md: '', txt: '' }))
+      .toThrow('Section "Agitate" is not marked in the html format of this draft');
+  });
+});
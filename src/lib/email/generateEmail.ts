@@ -0,0 +1,138 @@
+/**
+ * Email Generation Helpers
+ *
+ * Shared LLM calls, UTM tagging and link override handling used by the
+ * single-email, sequence and section regeneration endpoints.
+ */
+
+import { z } from 'zod';
+import { getAngle } from '@/lib/angles';
+import { getEmailConfig } from '@/lib/llm/prompts/generate';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm/providers';
+
+/**
+ * Generated email response schema
+ */
+export const zGeneratedEmail = z.object({
+  subject: z.string(),
+  preheader: z.string(),
+  html: z.string(),
+  md: z.string(),
+  txt: z.string(),
+  __subject_candidates: z.array(z.string()).optional(),
+});
+
+export type GeneratedEmail = z.infer<typeof zGeneratedEmail>;
+
+/**
+ * Add UTM parameters to a URL, tagging utm_content with the angle
+ */
+export function addUtmParams(url: string, projectId: string, angle: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.searchParams.set('utm_source', 'newsletter');
+    urlObj.searchParams.set('utm_campaign', projectId);
+    urlObj.searchParams.set('utm_content', getAngle(angle).utmContent);
+    return urlObj.toString();
+  } catch (error) {
+    console.warn('Failed to add UTM params to URL:', url, error);
+    return url; // Return original URL if parsing fails
+  }
+}
+
+/**
+ * Request a JSON completion for an email prompt and return the raw content
+ */
+async function requestEmailJson(
+  prompt: string,
+  config: ReturnType<typeof getEmailConfig>,
+  provider: LLMProvider
+): Promise<string> {
+  return provider.chatJSON({
+    messages: [
+      {
+        role: 'system',
+        content: prompt
+      }
+    ],
+    tier: config.tier,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+  });
+}
+
+/**
+ * Call the LLM to generate email content
+ */
+export async function generateEmailContent(
+  prompt: string,
+  config = getEmailConfig(),
+  provider = getLLMProvider()
+): Promise<GeneratedEmail> {
+  const content = await requestEmailJson(prompt, config, provider);
+
+  try {
+    const parsed = JSON.parse(content);
+    return zGeneratedEmail.parse(parsed);
+  } catch (error) {
+    throw new Error(`Failed to parse generated email content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Regenerated email parts, one schema per regeneration target
+ */
+export const zGeneratedSection = z.object({
+  html: z.string().min(1),
+  md: z.string().min(1),
+  txt: z.string().min(1),
+});
+
+export const zGeneratedSubject = z.object({
+  subject: z.string().min(1),
+  __subject_candidates: z.array(z.string()).optional(),
+});
+
+export const zGeneratedPreheader = z.object({
+  preheader: z.string().min(1),
+});
+
+/**
+ * Call the LLM to generate part of an email (a section, subject or preheader)
+ */
+export async function generateEmailPart<T extends z.ZodTypeAny>(
+  prompt: string,
+  schema: T,
+  config = getEmailConfig(),
+  provider = getLLMProvider()
+): Promise<z.infer<T>> {
+  const content = await requestEmailJson(prompt, config, provider);
+
+  try {
+    return schema.parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`Failed to parse generated email part: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Replace link placeholders in every email format
+ */
+export function applyLinkOverrides<T extends { html: string; md: string; txt: string }>(
+  email: T,
+  linkOverrides?: Record<string, string>
+): T {
+  if (!linkOverrides || Object.keys(linkOverrides).length === 0) {
+    return email;
+  }
+
+  let { html, md, txt } = email;
+  Object.entries(linkOverrides).forEach(([placeholder, url]) => {
+    const regex = new RegExp(placeholder, 'g');
+    html = html.replace(regex, url);
+    md = md.replace(regex, url);
+    txt = txt.replace(regex, url);
+  });
+
+  return { ...email, html, md, txt };
+}
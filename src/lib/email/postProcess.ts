@@ -1,5 +1,5 @@
 // src/lib/email/postProcess.ts
-import { extractContextHints, scoreSubject } from './subjectGuard';
+import { extractContextHints, scoreSubject, sharesSubjectHook } from './subjectGuard';
 
 type EmailJson = {
   subject: string;
@@ -13,7 +13,8 @@ type EmailJson = {
 export function chooseBestSubject(
   email: EmailJson,
   contextPack: string,
-  hypeLevel: 1|2|3|4|5 = 3
+  hypeLevel: 1|2|3|4|5 = 3,
+  usedSubjects: string[] = [] // Subjects already used (e.g. earlier emails in a sequence)
 ): EmailJson {
   const candidates = Array.from(
     new Set(
@@ -32,7 +33,10 @@ export function chooseBestSubject(
 
   const hints = extractContextHints(contextPack);
   const ranked = candidates
-    .map(s => ({ s, sc: scoreSubject(s, hints, hypeLevel) }))
+    .map(s => ({
+      s,
+      sc: scoreSubject(s, hints, hypeLevel) - (usedSubjects.some(u => sharesSubjectHook(s, u)) ? 3 : 0)
+    }))
     .sort((a, b) => b.sc - a.sc);
 
   const result = { ...email };
@@ -0,0 +1,132 @@
+/**
+ * Email Section Splicing
+ *
+ * Generated emails mark each angle section (plus the call-to-action) so a
+ * single section can be regenerated and swapped in without touching the rest:
+ *
+ * - html and md wrap each section in `<!-- section:key -->` / `<!-- /section:key -->`
+ * - txt starts each section with its name in capitals on its own line and ends
+ *   the body with a `--` line before the sign-off
+ *
+ * Drafts generated before markers existed can't be spliced and are reported as such.
+ */
+
+import { getAngle } from '@/lib/angles';
+import { type AngleSection } from '@/lib/angles/types';
+
+export type EmailFormat = 'html' | 'md' | 'txt';
+
+export type EmailFormats = Record<EmailFormat, string>;
+
+/**
+ * Pseudo-section for the call-to-action, available on every angle
+ */
+export const CTA_SECTION: AngleSection = {
+  key: 'cta',
+  name: 'Call-to-Action',
+  instructions: 'The call-to-action and the link it points to',
+};
+
+/**
+ * Sections of an angle that can be regenerated individually
+ */
+export function getEditableSections(angleKey: string): AngleSection[] {
+  return [...getAngle(angleKey).structure, CTA_SECTION];
+}
+
+export function sectionStartMarker(key: string): string {
+  return `<!-- section:${key} -->`;
+}
+
+export function sectionEndMarker(key: string): string {
+  return `<!-- /section:${key} -->`;
+}
+
+/**
+ * Header line that opens a section in the txt format
+ */
+export function txtSectionHeader(section: AngleSection): string {
+  return section.name.toUpperCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the character range of a section's content (excluding markers/header)
+ *
+ * @returns [start, end) offsets, or null if the section isn't marked in this format
+ */
+export function findSectionRange(
+  text: string,
+  format: EmailFormat,
+  section: AngleSection,
+  allSections: AngleSection[]
+): [number, number] | null {
+  if (format !== 'txt') {
+    const start = text.indexOf(sectionStartMarker(section.key));
+    if (start === -1) return null;
+    const contentStart = start + sectionStartMarker(section.key).length;
+    const end = text.indexOf(sectionEndMarker(section.key), contentStart);
+    if (end === -1) return null;
+    return [contentStart, end];
+  }
+
+  // txt: header line for this section, up to the next section header or the `--` sign-off delimiter
+  const headerPattern = (s: AngleSection) =>
+    `^[ \\t]*${escapeRegExp(txtSectionHeader(s))}:?[ \\t]*$`;
+
+  const header = new RegExp(headerPattern(section), 'mi').exec(text);
+  if (!header) return null;
+
+  const contentStart = header.index + header[0].length;
+  const rest = text.slice(contentStart);
+  const boundaries = [
+    ...allSections.filter(s => s.key !== section.key).map(headerPattern),
+    '^[ \\t]*--[ \\t]*$',
+  ];
+  const next = new RegExp(boundaries.join('|'), 'mi').exec(rest);
+  const end = next ? contentStart + next.index : text.length;
+
+  return [contentStart, end];
+}
+
+/**
+ * Replace one section in every format
+ *
+ * @throws Error naming the format when the section can't be located
+ */
+export function spliceSection(
+  formats: EmailFormats,
+  section: AngleSection,
+  allSections: AngleSection[],
+  replacement: EmailFormats
+): EmailFormats {
+  const result = { ...formats };
+
+  (['html', 'md', 'txt'] as EmailFormat[]).forEach(format => {
+    const range = findSectionRange(formats[format], format, section, allSections);
+    if (!range) {
+      throw new Error(`Section "${section.name}" is not marked in the ${format} format of this draft`);
+    }
+
+    const [start, end] = range;
+    const text = formats[format];
+    result[format] = `${text.slice(0, start)}\n${replacement[format].trim()}\n${format === 'txt' ? '\n' : ''}${text.slice(end)}`;
+  });
+
+  return result;
+}
+
+/**
+ * Formats in which a section can't be located (empty when it can be spliced everywhere)
+ */
+export function findUnmarkedFormats(
+  formats: EmailFormats,
+  section: AngleSection,
+  allSections: AngleSection[]
+): EmailFormat[] {
+  return (['html', 'md', 'txt'] as EmailFormat[])
+    .filter(format => !findSectionRange(formats[format], format, section, allSections));
+}
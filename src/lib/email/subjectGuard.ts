@@ -67,3 +67,29 @@ export function extractContextHints(contextPack: string): string[] {
 
   return Array.from(hints).slice(0, 15);
 }
+
+const HOOK_STOPWORDS = new Set([
+  'the','a','an','and','or','but','to','of','in','on','for','with','your','you','is','are','it','this','that','how','why','what'
+]);
+
+function hookWords(subject: string): string[] {
+  return subject
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 2 && !HOOK_STOPWORDS.has(w));
+}
+
+/** True when two subjects lean on the same hook (same opening words or mostly the same key words) */
+export function sharesSubjectHook(a: string, b: string): boolean {
+  const wa = hookWords(a);
+  const wb = hookWords(b);
+  if (!wa.length || !wb.length) return false;
+
+  // Same opening pair of key words, e.g. "Launch week: ..." twice
+  if (wa.slice(0, 2).join(' ') === wb.slice(0, 2).join(' ')) return true;
+
+  const setB = new Set(wb);
+  const overlap = wa.filter(w => setB.has(w)).length;
+  return overlap / Math.min(wa.length, wb.length) >= 0.6;
+}
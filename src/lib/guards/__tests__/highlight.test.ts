@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { highlightExcerpts, guardHighlights } from '../highlight';
+import { type DraftGuardScores } from '../draftGuards';
+
+describe('Guard Highlighting', () => {
+  describe('highlightExcerpts', () => {
+    it('should wrap matching text in a mark', () => {
+      const html = '<p>Our tool cuts costs by 50%.</p>';
+      const result = highlightExcerpts(html, [
+        { text: 'cuts costs by 50%', kind: 'claim', note: 'Not in context' },
+      ]);
+
+      expect(result).toContain('<mark');
+      expect(result).toContain('title="Not in context">cuts costs by 50%</mark>');
+    });
+
+    it('should never modify markup', () => {
+      const html = '<a href="https://example.com/pricing">See pricing</a>';
+      const result = highlightExcerpts(html, [
+        { text: 'pricing', kind: 'style', note: 'Too salesy' },
+      ]);
+
+      expect(result).toContain('href="https://example.com/pricing"');
+      expect(result).toContain('See <mark');
+    });
+
+    it('should apply several highlights to the same paragraph', () => {
+      const html = '<p>First claim here. Second claim here.</p>';
+      const result = highlightExcerpts(html, [
+        { text: 'First claim', kind: 'claim', note: 'a' },
+        { text: 'Second claim', kind: 'style', note: 'b' },
+      ]);
+
+      expect(result.match(/<mark/g)).toHaveLength(2);
+    });
+
+    it('should escape notes used as titles', () => {
+      const result = highlightExcerpts('<p>Hello world</p>', [
+        { text: 'Hello', kind: 'style', note: 'Use "Hi" <instead>' },
+      ]);
+
+      expect(result).toContain('title="Use &quot;Hi&quot; &lt;instead&gt;"');
+    });
+  });
+
+  describe('guardHighlights', () => {
+    it('should only flag unsupported claims and mismatches with excerpts', () => {
+      const guards: DraftGuardScores = {
+        ran_at: '2024-01-01T00:00:00.000Z',
+        context: {
+          status: 'ok',
+          claims: [
+            { claim: 'Saves 5 hours', status: 'supported', supporting_chunks: ['c1'], evidence: 'c1', confidence: 0.9 },
+            { claim: 'Used by 10,000 teams', excerpt: 'Used by 10,000 teams worldwide.', status: 'unsupported', supporting_chunks: [], evidence: 'No usage figures', confidence: 0.8 },
+          ],
+          summary: { total_claims: 2, supported_claims: 1, unsupported_claims: 1, support_percentage: 50 },
+          recommendations: [],
+        },
+        style: {
+          status: 'ok',
+          style_profile_id: 'profile-1',
+          mismatches: [
+            { area: 'Tone', issue: 'Too formal', fix: 'Loosen up', excerpt: 'Dear valued customer' },
+            { area: 'Structure', issue: 'No P.S.', fix: 'Add one' },
+          ],
+          overall_score: 72,
+          recommendations: [],
+        },
+      };
+
+      const highlights = guardHighlights(guards);
+
+      expect(highlights.map(h => h.text)).toEqual(['Used by 10,000 teams worldwide.', 'Dear valued customer']);
+      expect(highlights.map(h => h.kind)).toEqual(['claim', 'style']);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { applyTextEdit, repairUnsupportedClaims } from '../repair';
+
+// Mock OpenAI API
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+const mockOpenAIResponse = (content: Record<string, unknown>) => {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({
+      choices: [{ message: { content: JSON.stringify(content) } }]
+    }),
+  } as Response);
+};
+
+const validation = (supported: number, unsupported: string[]) => ({
+  claims: [
+    ...Array.from({ length: supported }, (_, i) => ({
+      claim: `Supported ${i}`,
+      status: 'supported',
+      supporting_chunks: ['chunk1'],
+      evidence: 'In chunk1',
+      confidence: 0.9,
+    })),
+    ...unsupported.map(claim => ({
+      claim,
+      status: 'unsupported',
+      supporting_chunks: [],
+      evidence: 'Not in context',
+      confidence: 0.8,
+    })),
+  ],
+  summary: {
+    total_claims: supported + unsupported.length,
+    supported_claims: supported,
+    unsupported_claims: unsupported.length,
+    support_percentage: Math.round((supported / (supported + unsupported.length)) * 100),
+  },
+  recommendations: [],
+});
+
+describe('Claim Repair', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('applyTextEdit', () => {
+    it('should replace the first occurrence', () => {
+      expect(applyTextEdit('A. B. A.', 'A.', 'C.')).toBe('C. B. A.');
+    });
+
+    it('should return null when the text is missing', () => {
+      expect(applyTextEdit('Hello', 'Goodbye', '')).toBeNull();
+    });
+
+    it('should not leave a double space when removing a sentence', () => {
+      expect(applyTextEdit('One. Two. Three.', 'Two.', '')).toBe('One. Three.');
+    });
+  });
+
+  describe('repairUnsupportedClaims', () => {
+    const content = {
+      subject: 'Hello',
+      formats: {
+        html: '<p>We save you time. Used by 10,000 teams.</p>',
+        md: 'We save you time. Used by 10,000 teams.',
+        txt: 'We save you time. Used by 10,000 teams.',
+      },
+    };
+    const contextChunks = [{ chunkId: 'chunk1', md_text: 'The tool saves time on reporting.' }];
+
+    it('should rewrite flagged sentences until the threshold is reached', async () => {
+      mockOpenAIResponse(validation(1, ['Used by 10,000 teams'])); // initial check
+      mockOpenAIResponse({
+        edits: [{
+          claim: 'Used by 10,000 teams',
+          action: 'remove',
+          supporting_chunks: [],
+          html: { original: ' Used by 10,000 teams.', replacement: '' },
+          md: { original: ' Used by 10,000 teams.', replacement: '' },
+          txt: { original: ' Used by 10,000 teams.', replacement: '' },
+        }],
+      });
+      mockOpenAIResponse(validation(1, [])); // re-check
+
+      const result = await repairUnsupportedClaims({ content, contextChunks, threshold: 90 });
+
+      expect(result.reachedThreshold).toBe(true);
+      expect(result.iterations).toHaveLength(1);
+      expect(result.iterations[0].support_before).toBe(50);
+      expect(result.iterations[0].support_after).toBe(100);
+      expect(result.iterations[0].edits[0].applied_formats).toEqual(['html', 'md', 'txt']);
+      expect(result.content.formats.md).toBe('We save you time.');
+      expect(result.content.formats.html).toBe('<p>We save you time.</p>');
+    });
+
+    it('should stop at the iteration cap', async () => {
+      mockOpenAIResponse(validation(1, ['Used by 10,000 teams']));
+      for (let i = 0; i < 2; i++) {
+        mockOpenAIResponse({
+          edits: [{
+            claim: 'Used by 10,000 teams',
+            action: 'rewrite',
+            md: { original: 'We save you time.', replacement: 'We save you time.' },
+          }],
+        });
+        mockOpenAIResponse(validation(1, ['Used by 10,000 teams']));
+      }
+
+      const result = await repairUnsupportedClaims({ content, contextChunks, threshold: 90, maxIterations: 2 });
+
+      expect(result.iterations).toHaveLength(2);
+      expect(result.reachedThreshold).toBe(false);
+    });
+
+    it('should revert a pass that makes support worse and stop', async () => {
+      mockOpenAIResponse(validation(1, ['Used by 10,000 teams']));
+      mockOpenAIResponse({
+        edits: [{
+          claim: 'Used by 10,000 teams',
+          action: 'rewrite',
+          md: { original: 'Used by 10,000 teams.', replacement: 'Used by 50,000 teams in 40 countries.' },
+        }],
+      });
+      mockOpenAIResponse(validation(1, ['Used by 50,000 teams', 'In 40 countries']));
+
+      const result = await repairUnsupportedClaims({ content, contextChunks, maxIterations: 3 });
+
+      expect(result.iterations).toHaveLength(1);
+      expect(result.iterations[0]).toMatchObject({
+        support_before: 50,
+        support_after: 33,
+        unsupported_before: 1,
+        unsupported_after: 2,
+        rejected: true,
+      });
+      expect(result.content).toEqual(content);
+      expect(result.finalValidation.summary.support_percentage).toBe(50);
+      expect(result.reachedThreshold).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop when no proposed edit matches the draft', async () => {
+      mockOpenAIResponse(validation(1, ['Used by 10,000 teams']));
+      mockOpenAIResponse({
+        edits: [{
+          claim: 'Used by 10,000 teams',
+          action: 'remove',
+          md: { original: 'Text that is not in the draft', replacement: '' },
+        }],
+      });
+
+      const result = await repairUnsupportedClaims({ content, contextChunks });
+
+      expect(result.iterations).toHaveLength(1);
+      expect(result.iterations[0].error).toContain('None of the proposed edits matched');
+      expect(result.content).toEqual(content);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip the initial check when a validation is provided', async () => {
+      await repairUnsupportedClaims({
+        content,
+        contextChunks,
+        initialValidation: validation(2, []) as never,
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Context Guard
+ *
+ * Checks the factual claims in a draft against the context chunks it was
+ * written from. Shared by /api/guard/context and the automatic draft guards.
+ */
+
+import { guardContextPrompt } from '@/lib/llm/prompts/guardContext';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm/providers';
+
+export interface FactualClaim {
+  claim: string;
+  excerpt?: string; // Sentence in the draft containing the claim, for inline highlighting
+  status: 'supported' | 'unsupported';
+  supporting_chunks: string[];
+  evidence: string;
+  confidence: number;
+}
+
+export interface ValidationSummary {
+  total_claims: number;
+  supported_claims: number;
+  unsupported_claims: number;
+  support_percentage: number;
+}
+
+export interface ContextValidationResult {
+  claims: FactualClaim[];
+  summary: ValidationSummary;
+  recommendations: string[];
+}
+
+/**
+ * Ask the LLM which claims in the draft are supported by the context chunks
+ */
+export async function validateClaimsAgainstContext(
+  contextChunks: Array<{ chunkId: string; md_text: string }>,
+  draft: { html?: string; md?: string },
+  provider: LLMProvider = getLLMProvider()
+): Promise<ContextValidationResult> {
+  try {
+    // Get the context validation prompt
+    const prompt = guardContextPrompt(contextChunks, draft);
+
+    const validationText = await provider.chatJSON({
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a fact-checking expert. Analyze the provided draft against the context chunks and return detailed validation results in the exact JSON format requested.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      tier: 'smart',
+      temperature: 0.1,
+    });
+
+    // Parse the JSON response
+    const validation = JSON.parse(validationText);
+
+    // Validate the response structure
+    if (!validation.claims || !Array.isArray(validation.claims)) {
+      throw new Error('Invalid response format from LLM: missing claims array');
+    }
+
+    if (!validation.summary || typeof validation.summary !== 'object') {
+      throw new Error('Invalid response format from LLM: missing summary object');
+    }
+
+    return {
+      claims: validation.claims.map((claim: Record<string, unknown>) => ({
+        claim: claim.claim || 'Unknown claim',
+        excerpt: typeof claim.excerpt === 'string' && claim.excerpt.trim() ? claim.excerpt.trim() : undefined,
+        status: claim.status === 'supported' ? 'supported' : 'unsupported',
+        supporting_chunks: Array.isArray(claim.supporting_chunks) ? claim.supporting_chunks : [],
+        evidence: claim.evidence || 'No evidence provided',
+        confidence: typeof claim.confidence === 'number' ? 
+          Math.max(0, Math.min(1, claim.confidence)) : 0.5
+      })),
+      summary: {
+        total_claims: validation.summary.total_claims || 0,
+        supported_claims: validation.summary.supported_claims || 0,
+        unsupported_claims: validation.summary.unsupported_claims || 0,
+        support_percentage: validation.summary.support_percentage || 0
+      },
+      recommendations: Array.isArray(validation.recommendations) ? 
+        validation.recommendations : []
+    };
+
+  } catch (error) {
+    console.error('LLM validation error:', error);
+    throw new Error(`Failed to validate context: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
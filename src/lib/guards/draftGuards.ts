@@ -0,0 +1,92 @@
+/**
+ * Draft Guards
+ *
+ * Runs the context and style guards against a draft and shapes the results
+ * for `Draft.scores.guards`. A guard that fails is recorded as an error
+ * instead of failing generation.
+ */
+
+import { validateClaimsAgainstContext, type ContextValidationResult } from './context';
+import { analyzeStyleMismatches, type StyleAnalysisResult } from './style';
+import { styleRequirementsFromCard } from '@/lib/llm/prompts/guardStyle';
+import { type StyleCard } from '@/lib/llm/prompts/styleCard';
+import { type DraftContent } from '@/lib/schemas/draftRevision';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm/providers';
+
+export type GuardOutcome<T> =
+  | ({ status: 'ok' } & T)
+  | { status: 'error'; error: string }
+  | { status: 'skipped'; reason: string };
+
+export interface DraftGuardScores {
+  ran_at: string;
+  revision?: number; // Draft revision the guards ran against
+  context: GuardOutcome<ContextValidationResult>;
+  style: GuardOutcome<StyleAnalysisResult & { style_profile_id: string }>;
+}
+
+/**
+ * Run both guards against a draft's content
+ * 
+ * @param contextChunks - The chunks the draft was generated from
+ * @param styleProfile - The style profile the draft should match, if any
+ * @param provider - LLM provider to check with, defaults to the env provider
+ */
+export async function runDraftGuards({
+  content,
+  contextChunks,
+  styleProfile,
+  audience,
+  revision,
+  provider = getLLMProvider()
+}: {
+  content: DraftContent;
+  contextChunks: Array<{ chunkId: string; md_text: string }>;
+  styleProfile?: { styleProfileId: string; styleCard: StyleCard } | null;
+  audience?: string;
+  revision?: number;
+  provider?: LLMProvider;
+}): Promise<DraftGuardScores> {
+  const runContext = async (): Promise<DraftGuardScores['context']> => {
+    if (contextChunks.length === 0) {
+      return { status: 'skipped', reason: 'No context chunks available' };
+    }
+    try {
+      const result = await validateClaimsAgainstContext(contextChunks, {
+        html: content.formats.html,
+        md: content.formats.md,
+      }, provider);
+      return { status: 'ok', ...result };
+    } catch (error) {
+      return { status: 'error', error: error instanceof Error ? error.message : 'Context guard failed' };
+    }
+  };
+
+  const runStyle = async (): Promise<DraftGuardScores['style']> => {
+    if (!styleProfile) {
+      return { status: 'skipped', reason: 'No style profile' };
+    }
+    try {
+      const result = await analyzeStyleMismatches(
+        styleRequirementsFromCard(styleProfile.styleCard, audience),
+        {
+          subject: content.subject,
+          ...content.formats,
+        },
+        provider
+      );
+      return { status: 'ok', style_profile_id: styleProfile.styleProfileId, ...result };
+    } catch (error) {
+      return { status: 'error', error: error instanceof Error ? error.message : 'Style guard failed' };
+    }
+  };
+
+  const [context, style] = await Promise.all([runContext(), runStyle()]);
+
+  return {
+    ran_at: new Date().toISOString(),
+    revision,
+    context,
+    style,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Guard Highlighting
+ *
+ * Marks the draft text that guard findings quote, so unsupported claims and
+ * style issues show inline in the HTML preview. Only text outside tags is
+ * searched; excerpts that span markup are left unmarked and still appear
+ * in the findings list.
+ */
+
+import { type DraftGuardScores } from './draftGuards';
+
+export interface GuardHighlight {
+  text: string;
+  kind: 'claim' | 'style';
+  note: string;
+}
+
+const HIGHLIGHT_STYLES: Record<GuardHighlight['kind'], string> = {
+  claim: 'background:#fde2e1;border-bottom:2px solid #c0392b;',
+  style: 'background:#fff4d6;border-bottom:2px dashed #b7791f;',
+};
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Wrap the first occurrence of each highlight's text in a <mark>
+ */
+export function highlightExcerpts(html: string, highlights: GuardHighlight[]): string {
+  return highlights
+    .filter(highlight => highlight.text.trim().length >= 4)
+    .reduce((current, highlight) => {
+      // Split into tags and text so markup is never modified
+      const parts = current.split(/(<[^>]*>)/);
+      const index = parts.findIndex(part => !part.startsWith('<') && part.includes(highlight.text));
+      if (index === -1) return current;
+
+      const mark = `<mark style="${HIGHLIGHT_STYLES[highlight.kind]}" title="${escapeAttribute(highlight.note)}">${highlight.text}</mark>`;
+      parts[index] = parts[index].replace(highlight.text, () => mark);
+      return parts.join('');
+    }, html);
+}
+
+/**
+ * Highlights for the findings worth flagging: unsupported claims and style mismatches
+ */
+export function guardHighlights(guards: DraftGuardScores): GuardHighlight[] {
+  const highlights: GuardHighlight[] = [];
+
+  if (guards.context.status === 'ok') {
+    guards.context.claims
+      .filter(claim => claim.status === 'unsupported')
+      .forEach(claim => highlights.push({
+        text: claim.excerpt || claim.claim,
+        kind: 'claim',
+        note: `Unsupported claim: ${claim.evidence}`,
+      }));
+  }
+
+  if (guards.style.status === 'ok') {
+    guards.style.mismatches
+      .filter(mismatch => mismatch.excerpt)
+      .forEach(mismatch => highlights.push({
+        text: mismatch.excerpt!,
+        kind: 'style',
+        note: `${mismatch.area}: ${mismatch.issue} Fix: ${mismatch.fix}`,
+      }));
+  }
+
+  return highlights;
+}
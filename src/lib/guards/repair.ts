@@ -0,0 +1,234 @@
+/**
+ * Claim Repair Loop
+ *
+ * Rewrites or removes the sentences the context guard flagged as unsupported,
+ * then re-checks the draft with the context guard. Repeats until the support
+ * percentage reaches the threshold or the iteration cap is hit. A pass that
+ * lowers support or adds unsupported claims is reverted and ends the loop.
+ * Only the flagged sentences are touched; everything else stays byte-for-byte
+ * the same.
+ */
+
+import { z } from 'zod';
+import { repairClaimsPrompt } from '@/lib/llm/prompts/repairClaims';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm/providers';
+import { validateClaimsAgainstContext, type ContextValidationResult } from './context';
+import { type ClaimEdit, type ClaimRepairIteration } from '@/lib/schemas/claimRepair';
+import { type DraftContent } from '@/lib/schemas/draftRevision';
+
+export const DEFAULT_REPAIR_THRESHOLD = 90;
+export const DEFAULT_REPAIR_ITERATIONS = 3;
+
+type Format = 'html' | 'md' | 'txt';
+
+const zFormatEdit = z.object({
+  original: z.string(),
+  replacement: z.string(),
+});
+
+const zRepairResponse = z.object({
+  edits: z.array(z.object({
+    claim: z.string().default(''),
+    action: z.enum(['rewrite', 'remove']).catch('rewrite'),
+    supporting_chunks: z.array(z.string()).default([]),
+    html: zFormatEdit.optional(),
+    md: zFormatEdit.optional(),
+    txt: zFormatEdit.optional(),
+  })),
+});
+
+export interface ClaimRepairResult {
+  content: DraftContent;
+  iterations: ClaimRepairIteration[];
+  initialValidation: ContextValidationResult;
+  finalValidation: ContextValidationResult;
+  reachedThreshold: boolean;
+}
+
+/**
+ * Replace the first occurrence of `original`, tidying the space left by a removal
+ *
+ * @returns The new text, or null if `original` isn't in the text
+ */
+export function applyTextEdit(text: string, original: string, replacement: string): string | null {
+  if (!original) return null;
+
+  const index = text.indexOf(original);
+  if (index === -1) return null;
+
+  let before = text.slice(0, index);
+  const after = text.slice(index + original.length);
+
+  // Removing a sentence mid-paragraph would leave a double space
+  if (!replacement && before.endsWith(' ') && (after.startsWith(' ') || after.startsWith('\n') || after === '')) {
+    before = before.slice(0, -1);
+  }
+
+  return `${before}${replacement}${after}`;
+}
+
+/**
+ * Ask the LLM for find/replace edits that fix the unsupported claims
+ */
+async function requestClaimEdits(
+  contextChunks: Array<{ chunkId: string; md_text: string }>,
+  formats: DraftContent['formats'],
+  validation: ContextValidationResult,
+  provider: LLMProvider
+): Promise<z.infer<typeof zRepairResponse>['edits']> {
+  const prompt = repairClaimsPrompt(
+    contextChunks,
+    formats,
+    validation.claims.filter(claim => claim.status === 'unsupported')
+  );
+
+  const repairText = await provider.chatJSON({
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a careful copy editor. Return exact find/replace edits in the JSON format requested.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    tier: 'smart',
+    temperature: 0.2,
+  });
+
+  return zRepairResponse.parse(JSON.parse(repairText)).edits;
+}
+
+/**
+ * Run the repair loop on a draft
+ *
+ * @param initialValidation - A fresh context guard result for this content, to skip the first check
+ */
+export async function repairUnsupportedClaims({
+  content,
+  contextChunks,
+  threshold = DEFAULT_REPAIR_THRESHOLD,
+  maxIterations = DEFAULT_REPAIR_ITERATIONS,
+  initialValidation,
+  provider = getLLMProvider()
+}: {
+  content: DraftContent;
+  contextChunks: Array<{ chunkId: string; md_text: string }>;
+  threshold?: number;
+  maxIterations?: number;
+  initialValidation?: ContextValidationResult;
+  provider?: LLMProvider;
+}): Promise<ClaimRepairResult> {
+  const validate = (formats: DraftContent['formats']) =>
+    validateClaimsAgainstContext(contextChunks, { html: formats.html, md: formats.md }, provider);
+
+  const firstValidation = initialValidation || await validate(content.formats);
+
+  let current = content;
+  let validation = firstValidation;
+  const iterations: ClaimRepairIteration[] = [];
+
+  const unsupportedCount = (v: ContextValidationResult) =>
+    v.claims.filter(claim => claim.status === 'unsupported').length;
+
+  while (
+    validation.summary.support_percentage < threshold &&
+    unsupportedCount(validation) > 0 &&
+    iterations.length < maxIterations
+  ) {
+    const iteration = iterations.length + 1;
+    const supportBefore = validation.summary.support_percentage;
+    const unsupportedBefore = unsupportedCount(validation);
+
+    try {
+      const proposed = await requestClaimEdits(contextChunks, current.formats, validation, provider);
+
+      const formats = { ...current.formats };
+      const edits: ClaimEdit[] = [];
+
+      proposed.forEach(edit => {
+        const applied: Format[] = [];
+
+        (['html', 'md', 'txt'] as Format[]).forEach(format => {
+          const formatEdit = edit[format];
+          if (!formatEdit) return;
+
+          const updated = applyTextEdit(formats[format], formatEdit.original, formatEdit.replacement);
+          if (updated !== null) {
+            formats[format] = updated;
+            applied.push(format);
+          }
+        });
+
+        if (applied.length > 0) {
+          edits.push({
+            claim: edit.claim,
+            action: edit.action,
+            supporting_chunks: edit.supporting_chunks,
+            original: edit.md?.original || edit.html?.original || edit.txt?.original || '',
+            replacement: edit.md?.replacement ?? edit.html?.replacement ?? edit.txt?.replacement ?? '',
+            applied_formats: applied,
+          });
+        }
+      });
+
+      if (edits.length === 0) {
+        // Nothing could be located; another pass would just repeat the same request
+        iterations.push({
+          iteration,
+          support_before: supportBefore,
+          support_after: supportBefore,
+          unsupported_before: unsupportedBefore,
+          unsupported_after: unsupportedBefore,
+          edits,
+          error: 'None of the proposed edits matched the draft text',
+        });
+        break;
+      }
+
+      // Re-check before keeping the edits, and drop them if they made things worse
+      const checked = await validate(formats);
+      const worse = checked.summary.support_percentage < supportBefore ||
+        unsupportedCount(checked) > unsupportedBefore;
+
+      iterations.push({
+        iteration,
+        support_before: supportBefore,
+        support_after: checked.summary.support_percentage,
+        unsupported_before: unsupportedBefore,
+        unsupported_after: unsupportedCount(checked),
+        edits,
+        ...(worse ? { rejected: true } : {}),
+      });
+
+      if (worse) {
+        // Keep the previous formats; another pass would start from the same place
+        break;
+      }
+
+      validation = checked;
+      current = { ...current, formats };
+    } catch (error) {
+      console.error(`Claim repair iteration ${iteration} failed:`, error);
+      iterations.push({
+        iteration,
+        support_before: supportBefore,
+        support_after: validation.summary.support_percentage,
+        unsupported_before: unsupportedBefore,
+        unsupported_after: unsupportedCount(validation),
+        edits: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      break;
+    }
+  }
+
+  return {
+    content: current,
+    iterations,
+    initialValidation: firstValidation,
+    finalValidation: validation,
+    reachedThreshold: validation.summary.support_percentage >= threshold || unsupportedCount(validation) === 0,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Style Guard
+ *
+ * Compares a draft against style requirements and lists the mismatches.
+ * Shared by /api/guard/style and the automatic draft guards.
+ */
+
+import { guardStylePrompt, type StyleRequirements } from '@/lib/llm/prompts/guardStyle';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm/providers';
+
+export interface StyleMismatch {
+  area: string;
+  issue: string;
+  fix: string;
+  excerpt?: string; // Draft text showing the issue, for inline highlighting
+}
+
+export interface StyleAnalysisResult {
+  mismatches: StyleMismatch[];
+  overall_score: number;
+  recommendations: string[];
+}
+
+/**
+ * Ask the LLM where the draft departs from the style requirements
+ */
+export async function analyzeStyleMismatches(
+  styleRequirements: StyleRequirements,
+  draft: { subject: string; html: string; md: string; txt: string },
+  provider: LLMProvider = getLLMProvider()
+): Promise<StyleAnalysisResult> {
+  try {
+    // Get the style analysis prompt
+    const prompt = guardStylePrompt(styleRequirements, draft);
+
+    const analysisText = await provider.chatJSON({
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a style analysis expert. Analyze the provided draft against the style card and return detailed feedback in the exact JSON format requested.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      tier: 'smart',
+      temperature: 0.1,
+    });
+
+    // Parse the JSON response
+    const analysis = JSON.parse(analysisText);
+
+    // Validate the response structure
+    if (!analysis.mismatches || !Array.isArray(analysis.mismatches)) {
+      throw new Error('Invalid response format from LLM');
+    }
+
+    return {
+      mismatches: analysis.mismatches.map((mismatch: Record<string, unknown>) => ({
+        area: mismatch.area || 'Unknown',
+        issue: mismatch.issue || 'No issue specified',
+        fix: mismatch.fix || 'No fix suggested',
+        excerpt: typeof mismatch.excerpt === 'string' && mismatch.excerpt.trim() ? mismatch.excerpt.trim() : undefined
+      })),
+      overall_score: analysis.overall_score || 0,
+      recommendations: analysis.recommendations || []
+    };
+
+  } catch (error) {
+    console.error('LLM analysis error:', error);
+    throw new Error(`Failed to analyze style: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,304 @@
+import { getColl } from '@/lib/db/mongo';
+import { createIngestJob, getIngestJob, isIngestJobStale, runIngestJob } from '../jobs';
+import {
+  createCrawl,
+  extractLinks,
+  isSameSite,
+  parseSitemap,
+  readRobotsMeta,
+  resumeCrawls,
+  runCrawl,
+} from '../crawl';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+jest.mock('../html', () => ({
+  htmlToMarkdown: (html: string) => ({ markdown: html.replace(/<[^>]+>/g, '').trim() }),
+}));
+jest.mock('../jobs', () => ({
+  createIngestJob: jest.fn(),
+  getIngestJob: jest.fn(),
+  isIngestJobStale: jest.fn(),
+  runIngestJob: jest.fn(),
+}));
+
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+const mockCreateJob = createIngestJob as jest.MockedFunction<typeof createIngestJob>;
+const mockRunJob = runIngestJob as jest.MockedFunction<typeof runIngestJob>;
+const mockGetJob = getIngestJob as jest.MockedFunction<typeof getIngestJob>;
+const mockIsJobStale = isIngestJobStale as jest.MockedFunction<typeof isIngestJobStale>;
+const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = mockFetch;
+
+describe('Crawl helpers', () => {
+  it('should extract links as absolute URLs', () => {
+    const html = `
+      <a href="/pricing#plans">Pricing</a>
+      <a class="nav" href='docs/intro'>Docs</a>
+      <a href="https://example.com/pricing">Pricing again</a>
+      <a href="mailto:hi@example.com">Email</a>
+      <a rel="nofollow" href="/login">Log in</a>
+      <a href="/brochure.pdf">Brochure</a>
+    `;
+
+    expect(extractLinks(html, 'https://example.com/guide/')).toEqual([
+      'https://example.com/pricing',
+      'https://example.com/guide/docs/intro',
+    ]);
+  });
+
+  it('should resolve links against a base element', () => {
+    const html = '<base href="https://example.com/v2/"><a href="start">Start</a>';
+
+    expect(extractLinks(html, 'https://example.com/')).toEqual(['https://example.com/v2/start']);
+  });
+
+  it('should read robots meta directives', () => {
+    expect(readRobotsMeta('<meta name="robots" content="noindex, follow">')).toEqual({ noindex: true, nofollow: false });
+    expect(readRobotsMeta('<meta content="none" name="ROBOTS">')).toEqual({ noindex: true, nofollow: true });
+    expect(readRobotsMeta('<meta name="description" content="noindex">')).toEqual({ noindex: false, nofollow: false });
+  });
+
+  it('should parse sitemaps and sitemap indexes', () => {
+    const sitemap = '<urlset><url><loc>https://example.com/a?x=1&amp;y=2</loc></url><url><loc> https://example.com/b </loc></url></urlset>';
+    const index = '<sitemapindex><sitemap><loc>https://example.com/sitemap-1.xml</loc></sitemap></sitemapindex>';
+
+    expect(parseSitemap(sitemap)).toEqual({ pages: ['https://example.com/a?x=1&y=2', 'https://example.com/b'], sitemaps: [] });
+    expect(parseSitemap(index)).toEqual({ pages: [], sitemaps: ['https://example.com/sitemap-1.xml'] });
+  });
+
+  it('should treat www and the bare domain as one site', () => {
+    expect(isSameSite('https://www.example.com/a', 'https://example.com/')).toBe(true);
+    expect(isSameSite('https://blog.example.com/a', 'https://example.com/')).toBe(false);
+  });
+});
+
+describe('runCrawl', () => {
+  const projectId = '507f1f77bcf86cd799439011';
+  const userId = 'user-1';
+  let crawlDoc: Record<string, unknown> | null;
+  let assets: Array<{ _id: string; sourceUrl: string; crawlId: string }>;
+  let site: Record<string, { status?: number; body: string; type?: string }>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    crawlDoc = null;
+    assets = [];
+    site = {};
+
+    const crawls = {
+      insertOne: jest.fn(async (doc: Record<string, unknown>) => { crawlDoc = { ...doc }; }),
+      findOne: jest.fn(async () => crawlDoc),
+      find: jest.fn(() => ({
+        sort: () => ({ limit: () => ({ toArray: async () => (crawlDoc ? [crawlDoc] : []) }) }),
+      })),
+      findOneAndUpdate: jest.fn(async (
+        filter: { $or: Array<{ status: string; updatedAt?: { $lt: Date } }> },
+        update: { $set: Record<string, unknown> }
+      ) => {
+        const doc = crawlDoc;
+        const waiting = doc && filter.$or.some(condition =>
+          condition.status === doc.status && (!condition.updatedAt || (doc.updatedAt as Date) < condition.updatedAt.$lt)
+        );
+        if (!waiting) return null;
+        crawlDoc = { ...doc, ...update.$set };
+        return crawlDoc;
+      }),
+      updateOne: jest.fn(async (_filter: unknown, update: { $set: Record<string, unknown>; $unset?: Record<string, string> }) => {
+        crawlDoc = { ...crawlDoc, ...update.$set };
+        Object.keys(update.$unset ?? {}).forEach(field => delete crawlDoc![field]);
+      }),
+    };
+    const assetsColl = {
+      find: jest.fn(() => ({ toArray: async () => assets })),
+      deleteMany: jest.fn(async (filter: { _id: { $in: string[] } }) => {
+        const before = assets.length;
+        assets = assets.filter(asset => !filter._id.$in.includes(asset._id));
+        return { deletedCount: before - assets.length };
+      }),
+    };
+    const chunksColl = { deleteMany: jest.fn(async () => ({ deletedCount: 0 })) };
+
+    mockGetColl.mockImplementation(async (name: string) =>
+      ({ crawls, assets: assetsColl, chunks: chunksColl } as Record<string, unknown>)[name] as never
+    );
+
+    mockFetch.mockImplementation(async input => {
+      const page = site[input.toString()];
+      return page
+        ? new Response(page.body, { status: page.status ?? 200, headers: { 'content-type': page.type ?? 'text/html' } })
+        : new Response('Not found', { status: 404 });
+    });
+
+    let jobCount = 0;
+    mockCreateJob.mockImplementation(async ({ source }) => ({ _id: `job-${++jobCount}`, source } as never));
+    mockGetJob.mockImplementation(async jobId => ({ _id: jobId, status: 'queued' } as never));
+    mockIsJobStale.mockReturnValue(false);
+    mockRunJob.mockImplementation(async jobId => ({
+      status: 'completed',
+      result: { assetId: `asset-for-${jobId}`, chunkCount: 1, duplicate: false },
+    } as never));
+  });
+
+  it('should follow same-site links within the depth limit and respect robots.txt', async () => {
+    site['https://example.com/robots.txt'] = { body: 'User-agent: *\nDisallow: /admin', type: 'text/plain' };
+    site['https://example.com/'] = {
+      body: '<h1>Home</h1><a href="/about">About</a><a href="/admin">Admin</a><a href="https://other.com/">Other</a>',
+    };
+    site['https://example.com/about'] = { body: '<h1>About</h1><a href="/team">Team</a>' };
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 10 });
+    const finished = await runCrawl(crawl._id);
+
+    expect(finished?.status).toBe('completed');
+    expect(finished?.pages.map(page => [page.url, page.status])).toEqual([
+      ['https://example.com/', 'ingested'],
+      ['https://example.com/about', 'ingested'],
+      ['https://example.com/admin', 'skipped'],
+    ]);
+    expect(mockCreateJob).toHaveBeenCalledWith(expect.objectContaining({
+      crawlId: crawl._id,
+      source: { type: 'url', value: 'https://example.com/about' },
+      extracted: { markdown: 'AboutTeam' },
+    }));
+  });
+
+  it('should crawl the pages listed in a sitemap', async () => {
+    site['https://example.com/sitemap.xml'] = {
+      body: '<urlset><url><loc>https://example.com/a</loc></url><url><loc>https://elsewhere.com/b</loc></url></urlset>',
+      type: 'application/xml',
+    };
+    site['https://example.com/a'] = { body: '<p>Page A</p>' };
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/sitemap.xml', maxDepth: 0, maxPages: 10 });
+    const finished = await runCrawl(crawl._id);
+
+    expect(crawl.mode).toBe('sitemap');
+    expect(finished?.pages).toEqual([
+      expect.objectContaining({ url: 'https://example.com/a', status: 'ingested', assetId: 'asset-for-job-1' }),
+    ]);
+  });
+
+  it('should keep unchanged pages and remove pages no longer reached on a re-run', async () => {
+    site['https://example.com/'] = { body: '<p>Home</p>' };
+    assets = [
+      { _id: 'home-asset', sourceUrl: 'https://example.com/', crawlId: 'crawl' },
+      { _id: 'gone-asset', sourceUrl: 'https://example.com/gone', crawlId: 'crawl' },
+    ];
+    mockRunJob.mockResolvedValue({
+      status: 'completed',
+      result: { assetId: 'home-asset', chunkCount: 1, duplicate: true },
+    } as never);
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 10 });
+    const finished = await runCrawl(crawl._id);
+
+    expect(finished?.pages).toEqual([expect.objectContaining({ status: 'unchanged', assetId: 'home-asset' })]);
+    expect(assets.map(asset => asset._id)).toEqual(['home-asset']);
+  });
+
+  it('should only count pages fetched and stored against the page limit', async () => {
+    site['https://example.com/robots.txt'] = { body: 'User-agent: *\nDisallow: /private', type: 'text/plain' };
+    site['https://example.com/'] = {
+      body: '<meta name="robots" content="noindex"><a href="/private">Private</a><a href="/a">A</a><a href="/b">B</a>',
+    };
+    site['https://example.com/a'] = { body: '<p>Page A</p>' };
+    site['https://example.com/b'] = { body: '<p>Page B</p>' };
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 1 });
+    const finished = await runCrawl(crawl._id);
+
+    expect(finished?.pages.map(page => [page.url, page.status])).toEqual([
+      ['https://example.com/', 'skipped'],
+      ['https://example.com/private', 'skipped'],
+      ['https://example.com/a', 'ingested'],
+    ]);
+    expect(finished?.pageCount).toBe(1);
+  });
+
+  it('should save its progress and carry on in the next step when out of time', async () => {
+    site['https://example.com/'] = { body: '<p>Home</p><a href="/a">A</a>' };
+    site['https://example.com/a'] = { body: '<p>Page A</p>' };
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 10 });
+    const paused = await runCrawl(crawl._id, 0);
+
+    expect(paused?.status).toBe('queued');
+    expect(paused?.frontier).toEqual([{ url: 'https://example.com/', depth: 0 }]);
+    expect(mockCreateJob).not.toHaveBeenCalled();
+
+    const finished = await runCrawl(crawl._id);
+
+    expect(finished?.status).toBe('completed');
+    expect(finished?.pages.map(page => page.url)).toEqual(['https://example.com/', 'https://example.com/a']);
+    expect(finished?.frontier).toBeUndefined();
+  });
+
+  it('should wait for a page whose ingestion job needs more steps', async () => {
+    site['https://example.com/'] = { body: '<p>Home</p><a href="/a">A</a>' };
+    site['https://example.com/a'] = { body: '<p>Page A</p>' };
+    mockRunJob.mockResolvedValueOnce({ _id: 'job-1', status: 'queued' } as never);
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 10 });
+    const paused = await runCrawl(crawl._id);
+
+    expect(paused?.status).toBe('queued');
+    expect(paused?.pages).toEqual([]);
+    expect(paused?.current).toEqual({ url: 'https://example.com/', depth: 0, jobId: 'job-1' });
+
+    const finished = await runCrawl(crawl._id);
+
+    expect(mockRunJob).toHaveBeenCalledTimes(3);
+    expect(finished?.pages.map(page => [page.url, page.jobId])).toEqual([
+      ['https://example.com/', 'job-1'],
+      ['https://example.com/a', 'job-2'],
+    ]);
+  });
+
+  it('should carry on the ingestion job an interrupted step left running', async () => {
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 10 });
+    crawlDoc = {
+      ...crawlDoc,
+      status: 'running',
+      updatedAt: new Date(Date.now() - 60 * 60 * 1000),
+      frontier: [],
+      seen: ['https://example.com/'],
+      current: { url: 'https://example.com/', depth: 0, jobId: 'job-interrupted' },
+    };
+    mockGetJob.mockResolvedValue({ _id: 'job-interrupted', status: 'running' } as never);
+    mockIsJobStale.mockReturnValue(true);
+
+    const finished = await runCrawl(crawl._id);
+
+    expect(mockRunJob).toHaveBeenCalledWith('job-interrupted', expect.any(Number));
+    expect(finished?.status).toBe('completed');
+    expect(finished?.pages).toEqual([
+      expect.objectContaining({ url: 'https://example.com/', status: 'ingested', jobId: 'job-interrupted' }),
+    ]);
+    expect(finished?.current).toBeUndefined();
+  });
+
+  it('should resume a waiting crawl only while the deadline allows', async () => {
+    site['https://example.com/'] = { body: '<p>Home</p>' };
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 10 });
+
+    expect(await resumeCrawls(Date.now() - 1)).toEqual([]);
+    expect(crawlDoc?.status).toBe('queued');
+
+    expect(await resumeCrawls(Date.now() + 60 * 1000)).toEqual([crawl._id]);
+    expect(crawlDoc?.status).toBe('completed');
+  });
+
+  it('should fail the crawl when robots.txt cannot be read', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    site['https://example.com/robots.txt'] = { status: 503, body: 'Unavailable' };
+
+    const crawl = await createCrawl({ projectId, userId, startUrl: 'https://example.com/', maxDepth: 1, maxPages: 10 });
+    const finished = await runCrawl(crawl._id);
+
+    expect(finished?.status).toBe('failed');
+    expect(finished?.error).toContain('robots.txt');
+    expect(mockCreateJob).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
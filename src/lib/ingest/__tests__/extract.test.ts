@@ -0,0 +1,43 @@
+import { assetTypeForFile, extractFile, IngestError } from '../extract';
+import { MAX_SPREADSHEET_ROWS } from '../spreadsheet';
+
+jest.mock('../html', () => ({ htmlToMarkdown: jest.fn() }));
+
+const mapping = { text: ['Answer'], tags: [] };
+
+function csv(rowCount: number): Buffer {
+  const rows = Array.from({ length: rowCount }, (_, index) => `Answer ${index}`);
+  return Buffer.from(['Answer', ...rows].join('\n'));
+}
+
+describe('extractFile spreadsheets', () => {
+  it('should chunk sheets up to the row limit', async () => {
+    const { chunks } = await extractFile(csv(MAX_SPREADSHEET_ROWS), 'csv', { mapping });
+
+    expect(chunks).toHaveLength(MAX_SPREADSHEET_ROWS);
+  });
+
+  it('should refuse sheets over the row limit', async () => {
+    const extraction = extractFile(csv(MAX_SPREADSHEET_ROWS + 1), 'csv', { mapping });
+
+    await expect(extraction).rejects.toThrow(IngestError);
+    await expect(extraction).rejects.toThrow(`at most ${MAX_SPREADSHEET_ROWS} can be ingested`);
+  });
+});
+
+describe('assetTypeForFile', () => {
+  it('should read .txt files as markdown unless marked as a transcript', () => {
+    expect(assetTypeForFile('notes.txt')).toBe('md');
+    expect(assetTypeForFile('Call.TXT', true)).toBe('transcript');
+    expect(assetTypeForFile('notes.md', true)).toBe('md');
+    expect(assetTypeForFile('call.vtt')).toBe('transcript');
+  });
+
+  it('should chunk a .txt transcript by time', async () => {
+    const text = '[00:00:05] Jane: Welcome to the call.\n[00:01:10] Sam: Thanks for having me.';
+    const { chunks } = await extractFile(Buffer.from(text), assetTypeForFile('call.txt', true)!);
+
+    expect(chunks?.length).toBeGreaterThan(0);
+    expect(chunks?.[0].md_text).toContain('Jane');
+  });
+});
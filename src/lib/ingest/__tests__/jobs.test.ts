@@ -0,0 +1,275 @@
+import { ObjectId } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { titleAndTagChunk } from '@/services/chunkLabeler';
+import { embedMany } from '@/lib/vector/embeddings';
+import { createIngestJob, getIngestJob, retryIngestJob, runIngestJob } from '../jobs';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+jest.mock('../html', () => ({ htmlToMarkdown: jest.fn() }));
+jest.mock('@/services/chunkLabeler', () => ({ titleAndTagChunk: jest.fn() }));
+jest.mock('@/lib/llm/providers', () => ({ getLLMProvider: jest.fn() }));
+jest.mock('@/lib/vector/embeddings', () => ({
+  embedMany: jest.fn(),
+  pinProjectEmbeddingModel: jest.fn(),
+  resolveEmbeddingModel: () => ({ provider: 'local', model: 'hash-4' }),
+}));
+
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+const mockLabel = titleAndTagChunk as jest.MockedFunction<typeof titleAndTagChunk>;
+const mockEmbed = embedMany as jest.MockedFunction<typeof embedMany>;
+
+type Doc = Record<string, unknown>;
+
+function getPath(doc: Doc, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value as Doc | undefined)?.[key], doc);
+}
+
+function setPath(doc: Doc, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce<Doc>((target, key) => {
+    target[key] ??= {};
+    return target[key] as Doc;
+  }, doc);
+  if (value === undefined) {
+    delete parent[keys[keys.length - 1]];
+  } else {
+    parent[keys[keys.length - 1]] = value;
+  }
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value; // Dates, ObjectIds and Binary data are never mutated in place
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    if (key === '$or') return (expected as Doc[]).some(condition => matches(doc, condition));
+    const actual = getPath(doc, key);
+    if (expected instanceof Date) return actual instanceof Date && actual.getTime() === expected.getTime();
+    if (expected instanceof ObjectId) return expected.equals(actual as ObjectId);
+    if (expected && typeof expected === 'object' && '$lt' in expected) return (actual as Date) < (expected.$lt as Date);
+    if (expected && typeof expected === 'object' && '$exists' in expected) return (actual !== undefined) === expected.$exists;
+    return actual === expected;
+  });
+}
+
+/**
+ * Just enough of a MongoDB collection for the job runner
+ */
+function fakeCollection(docs: Doc[] = []) {
+  const apply = (doc: Doc, update: { $set?: Doc; $unset?: Doc; $inc?: Record<string, number> }) => {
+    Object.entries(update.$set ?? {}).forEach(([path, value]) => setPath(doc, path, value));
+    Object.keys(update.$unset ?? {}).forEach(path => setPath(doc, path, undefined));
+    Object.entries(update.$inc ?? {}).forEach(([path, by]) => setPath(doc, path, ((getPath(doc, path) as number) ?? 0) + by));
+  };
+
+  return {
+    docs,
+    insertOne: jest.fn(async (doc: Doc) => { docs.push(clone(doc)); }),
+    insertMany: jest.fn(async (many: Doc[]) => { docs.push(...many.map(doc => clone(doc))); }),
+    findOne: jest.fn(async (filter: Doc) => clone(docs.find(doc => matches(doc, filter)) ?? null)),
+    find: jest.fn((filter: Doc) => {
+      let found = docs.filter(doc => matches(doc, filter));
+      const cursor = {
+        sort: (by: Record<string, number>) => {
+          const [key, direction] = Object.entries(by)[0];
+          found = [...found].sort((a, b) => ((getPath(a, key) as number) > (getPath(b, key) as number) ? 1 : -1) * direction);
+          return cursor;
+        },
+        limit: (count: number) => {
+          found = found.slice(0, count);
+          return cursor;
+        },
+        toArray: async () => found.map(doc => clone(doc)),
+      };
+      return cursor;
+    }),
+    countDocuments: jest.fn(async (filter: Doc) => docs.filter(doc => matches(doc, filter)).length),
+    updateOne: jest.fn(async (filter: Doc, update: Doc) => {
+      const doc = docs.find(candidate => matches(candidate, filter));
+      if (doc) apply(doc, update);
+    }),
+    findOneAndUpdate: jest.fn(async (filter: Doc, update: Doc) => {
+      const doc = docs.find(candidate => matches(candidate, filter));
+      if (!doc) return null;
+      apply(doc, update);
+      return clone(doc);
+    }),
+    replaceOne: jest.fn(async (filter: Doc, replacement: Doc) => {
+      const index = docs.findIndex(doc => matches(doc, filter));
+      if (index >= 0) docs.splice(index, 1);
+      docs.push(clone({ _id: filter._id, ...replacement }));
+    }),
+    deleteOne: jest.fn(async (filter: Doc) => {
+      const index = docs.findIndex(doc => matches(doc, filter));
+      if (index >= 0) docs.splice(index, 1);
+    }),
+    deleteMany: jest.fn(async (filter: Doc) => {
+      for (let i = docs.length - 1; i >= 0; i--) {
+        if (matches(docs[i], filter)) docs.splice(i, 1);
+      }
+    }),
+  };
+}
+
+const projectId = '507f1f77bcf86cd799439011';
+const userId = 'user-1';
+const markdown = '# Pricing\n\nPlans start at $10 per seat.\n\n# Support\n\nEmail us any time.';
+
+describe('Ingestion jobs', () => {
+  let collections: Record<string, ReturnType<typeof fakeCollection>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    collections = {
+      projects: fakeCollection([{ _id: new ObjectId(projectId), userId }]),
+      ingest_jobs: fakeCollection(),
+      ingest_uploads: fakeCollection(),
+      assets: fakeCollection(),
+      chunks: fakeCollection(),
+      ingest_embeddings: fakeCollection(),
+    };
+    mockGetColl.mockImplementation(async (name: string) => collections[name] as never);
+    mockLabel.mockImplementation(async text => ({ title: `About ${text.slice(2, 9)}`, tags: ['pricing'], confidence: 0.9 }));
+    mockEmbed.mockImplementation(async texts => texts.map(() => [1, 0, 0, 0]));
+  });
+
+  const queueTextJob = () => createIngestJob({
+    projectId,
+    userId,
+    source: { type: 'text', value: markdown },
+    assetType: 'md',
+    title: 'Pricing page',
+  });
+
+  it('should run every stage and store the asset and labelled chunks', async () => {
+    const job = await queueTextJob();
+    const finished = await runIngestJob(job._id);
+
+    expect(finished?.status).toBe('completed');
+    expect(finished?.stages.map(stage => stage.status)).toEqual(['completed', 'completed', 'completed', 'completed']);
+    expect(finished?.stages[2]).toEqual(expect.objectContaining({ done: 2, total: 2 }));
+    expect(finished?.result).toEqual({ assetId: expect.any(String), chunkCount: 2, duplicate: false });
+
+    expect(collections.assets.docs[0]).toEqual(expect.objectContaining({ title: 'Pricing page', projectId }));
+    expect(collections.chunks.docs).toHaveLength(2);
+    expect(collections.chunks.docs[0]).toEqual(expect.objectContaining({ vector: true, tags: ['pricing'] }));
+    expect(collections.ingest_jobs.docs[0]).not.toHaveProperty('work');
+  });
+
+  it('should skip the remaining stages for content already ingested', async () => {
+    await runIngestJob((await queueTextJob())._id);
+    const finished = await runIngestJob((await queueTextJob())._id);
+
+    expect(finished?.result).toEqual(expect.objectContaining({ chunkCount: 2, duplicate: true }));
+    expect(finished?.stages.map(stage => stage.status)).toEqual(['completed', 'completed', 'skipped', 'skipped']);
+    expect(collections.assets.docs).toHaveLength(1);
+  });
+
+  it('should store chunks without vectors when embedding fails', async () => {
+    mockEmbed.mockRejectedValue(new Error('OPENAI_API_KEY environment variable is required'));
+
+    const finished = await runIngestJob((await queueTextJob())._id);
+
+    expect(finished?.status).toBe('completed');
+    expect(finished?.stages[3].warning).toContain('OPENAI_API_KEY');
+    expect(collections.chunks.docs[0]).toEqual(expect.objectContaining({ vector: false }));
+  });
+
+  it('should retry from the failed stage without redoing earlier ones', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    collections.chunks.insertMany.mockRejectedValueOnce(new Error('connection reset'));
+
+    const job = await queueTextJob();
+    const failed = await runIngestJob(job._id);
+
+    expect(failed?.status).toBe('failed');
+    expect(failed?.stages[3]).toEqual(expect.objectContaining({ status: 'failed', error: 'connection reset' }));
+
+    expect(await retryIngestJob(job._id, 'someone-else')).toBeNull();
+    expect((await retryIngestJob(job._id, userId))?.status).toBe('queued');
+
+    const finished = await runIngestJob(job._id);
+
+    expect(finished?.status).toBe('completed');
+    expect(finished?.stages.map(stage => stage.attempts)).toEqual([1, 1, 1, 2]);
+    expect(mockLabel).toHaveBeenCalledTimes(2);
+    expect(collections.assets.docs).toHaveLength(1);
+    expect(collections.chunks.docs).toHaveLength(2);
+    error.mockRestore();
+  });
+
+  it('should keep mapped spreadsheet titles and only label the other rows', async () => {
+    const csv = 'Customer,Quote,Tags\nAcme,"Cut our churn in half, fast",retention\n,Setup took minutes,onboarding';
+    const job = await createIngestJob({
+      projectId,
+      userId,
+      source: { type: 'file', name: 'testimonials.csv', size: csv.length },
+      assetType: 'csv',
+      file: Buffer.from(csv),
+      mapping: { text: ['Quote'], title: 'Customer', tags: ['Tags'] },
+    });
+
+    const finished = await runIngestJob(job._id);
+
+    expect(finished?.result).toEqual(expect.objectContaining({ chunkCount: 2 }));
+    expect(mockLabel).toHaveBeenCalledTimes(1);
+    expect(collections.chunks.docs[0]).toEqual(expect.objectContaining({
+      md_text: 'Cut our churn in half, fast',
+      title: 'Acme',
+      tags: ['retention'],
+      meta: { hpath: [], rows: [2], records: [{ Customer: 'Acme', Quote: 'Cut our churn in half, fast', Tags: 'retention' }] },
+    }));
+    expect(collections.chunks.docs[1]).toEqual(expect.objectContaining({ title: 'About tup too', tags: ['onboarding', 'pricing'] }));
+  });
+
+  it('should run a long job in steps, carrying on from the last saved batch', async () => {
+    const sections = Array.from({ length: 7 }, (_, index) => `# Section ${index}\n\nDetails about topic ${index}.`);
+    const job = await createIngestJob({
+      projectId,
+      userId,
+      source: { type: 'text', value: sections.join('\n\n') },
+      assetType: 'md',
+    });
+
+    // No time at all: each step runs one stage or one batch, then requeues
+    const steps: Array<string | undefined> = [];
+    let current = await runIngestJob(job._id, 0);
+    while (current?.status === 'queued') {
+      steps.push(current.stages.find(stage => stage.status === 'pending')?.name);
+      current = await runIngestJob(job._id, 0);
+    }
+
+    expect(current?.status).toBe('completed');
+    expect(steps).toEqual(['chunk', 'label', 'label', 'embed']);
+    expect(current?.stages.map(stage => stage.attempts)).toEqual([1, 1, 2, 1]);
+    expect(mockLabel).toHaveBeenCalledTimes(7);
+    expect(collections.chunks.docs).toHaveLength(7);
+    expect(collections.ingest_embeddings.docs).toHaveLength(0);
+  });
+
+  it('should pick up a job interrupted mid-step', async () => {
+    const job = await queueTextJob();
+    const stored = collections.ingest_jobs.docs[0];
+    stored.status = 'running';
+    stored.updatedAt = new Date(Date.now() - 10 * 60 * 1000);
+
+    const finished = await runIngestJob(job._id);
+
+    expect(finished?.status).toBe('completed');
+    expect(collections.chunks.docs).toHaveLength(2);
+  });
+
+  it('should not run a job that is not queued', async () => {
+    const job = await queueTextJob();
+    await runIngestJob(job._id);
+
+    expect(await runIngestJob(job._id)).toBeNull();
+    expect(await retryIngestJob(job._id, userId)).toBeNull();
+    expect((await getIngestJob(job._id, userId))?.status).toBe('completed');
+  });
+});
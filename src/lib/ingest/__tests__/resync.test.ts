@@ -0,0 +1,170 @@
+import { getColl } from '@/lib/db/mongo';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { type MarkdownChunk } from '@/lib/chunking/byHeadings';
+import { titleAndTagChunk } from '@/services/chunkLabeler';
+import { embedMany } from '@/lib/vector/embeddings';
+import { contentHash, extractUrl } from '../extract';
+import { diffChunks, resyncAsset } from '../resync';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+jest.mock('../html', () => ({ htmlToMarkdown: jest.fn() }));
+jest.mock('../extract', () => ({ ...jest.requireActual('../extract'), extractUrl: jest.fn() }));
+jest.mock('@/services/chunkLabeler', () => ({ titleAndTagChunk: jest.fn() }));
+jest.mock('@/lib/llm/providers', () => ({ getLLMProvider: jest.fn() }));
+jest.mock('@/lib/vector/embeddings', () => ({
+  embedMany: jest.fn(),
+  pinProjectEmbeddingModel: jest.fn(),
+  resolveEmbeddingModel: () => ({ provider: 'local', model: 'hash-4' }),
+}));
+
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+const mockExtractUrl = extractUrl as jest.MockedFunction<typeof extractUrl>;
+const mockLabel = titleAndTagChunk as jest.MockedFunction<typeof titleAndTagChunk>;
+const mockEmbed = embedMany as jest.MockedFunction<typeof embedMany>;
+
+const projectId = '507f1f77bcf86cd799439011';
+
+function storedChunk(id: string, md_text: string): Chunk {
+  return {
+    _id: id,
+    projectId,
+    assetId: 'asset-1',
+    chunkId: `chunk_${id}`,
+    md_text,
+    tokens: 10,
+    title: `Title ${id}`,
+    embedding: [0.5, 0.5],
+    vector: true,
+    createdAt: new Date('2026-01-01'),
+  };
+}
+
+function newChunk(md_text: string): MarkdownChunk {
+  return { chunkId: `chunk_new_${md_text.length}`, md_text, tokens: 10, meta: { hpath: [] } };
+}
+
+describe('diffChunks', () => {
+  it('should keep chunks whose text is unchanged, ignoring whitespace', () => {
+    const existing = [storedChunk('a', '# Pricing\n\n$10 per seat'), storedChunk('b', '# Support\n\nEmail us')];
+    const diff = diffChunks(existing, [newChunk('# Pricing\n$10  per seat'), newChunk('# Support\n\nCall us')]);
+
+    expect(diff.unchanged.map(chunk => chunk._id)).toEqual(['a']);
+    expect(diff.added.map(chunk => chunk.md_text)).toEqual(['# Support\n\nCall us']);
+    expect(diff.removed.map(chunk => chunk._id)).toEqual(['b']);
+  });
+
+  it('should match repeated text one chunk at a time', () => {
+    const existing = [storedChunk('a', 'Same'), storedChunk('b', 'Same')];
+    const diff = diffChunks(existing, [newChunk('Same')]);
+
+    expect(diff.unchanged.map(chunk => chunk._id)).toEqual(['a']);
+    expect(diff.removed.map(chunk => chunk._id)).toEqual(['b']);
+  });
+});
+
+describe('resyncAsset', () => {
+  const oldMarkdown = '# Pricing\n\nPlans start at $10 per seat.\n\n# Support\n\nEmail us any time.';
+  const newMarkdown = '# Pricing\n\nPlans start at $10 per seat.\n\n# Support\n\nCall us any time.';
+
+  let collections: Record<string, Record<string, jest.Mock>>;
+  let existingChunks: Chunk[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    existingChunks = [
+      storedChunk('pricing', '# Pricing\n\nPlans start at $10 per seat.'),
+      storedChunk('support', '# Support\n\nEmail us any time.'),
+    ];
+
+    const asset = {
+      _id: 'asset-1',
+      projectId,
+      type: 'html',
+      title: 'Pricing page',
+      sourceUrl: 'https://example.com/pricing',
+      hash: contentHash(oldMarkdown),
+      createdAt: new Date('2026-01-01'),
+    };
+
+    collections = {
+      assets: {
+        findOne: jest.fn(async () => asset),
+        updateOne: jest.fn(),
+      },
+      chunks: {
+        find: jest.fn((filter: { assetId?: string }) => ({
+          toArray: async () => (filter.assetId ? existingChunks : [...existingChunks, storedChunk('other', 'Other')]),
+        })),
+        countDocuments: jest.fn(async () => existingChunks.length),
+        insertMany: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+      projects: {
+        findOne: jest.fn(async () => ({ _id: projectId, userId: 'user-1' })),
+      },
+      drafts: {
+        find: jest.fn(() => ({
+          toArray: async () => [{ _id: 'draft-1', context_chunk_ids: ['chunk_support', 'chunk_pricing'] }],
+        })),
+        updateOne: jest.fn(),
+      },
+    };
+
+    mockGetColl.mockImplementation(async (name: string) => collections[name] as never);
+    mockLabel.mockResolvedValue({ title: 'Contact', tags: ['support'], confidence: 0.8 });
+    mockEmbed.mockImplementation(async texts => texts.map(() => [1, 0]));
+  });
+
+  it('should only record the sync when the page is unchanged', async () => {
+    mockExtractUrl.mockResolvedValue({ markdown: oldMarkdown });
+
+    const sync = await resyncAsset(projectId, 'asset-1');
+
+    expect(sync).toEqual(expect.objectContaining({ status: 'unchanged', unchanged: 2, added: 0, removed: 0 }));
+    expect(collections.chunks.insertMany).not.toHaveBeenCalled();
+    expect(collections.assets.updateOne).toHaveBeenCalledWith(
+      { _id: 'asset-1', projectId },
+      { $set: expect.objectContaining({ syncedAt: expect.any(Date), lastSync: sync }) }
+    );
+  });
+
+  it('should replace changed chunks, keep the rest and flag drafts that used them', async () => {
+    mockExtractUrl.mockResolvedValue({ markdown: newMarkdown });
+
+    const sync = await resyncAsset(projectId, 'asset-1');
+
+    expect(sync).toEqual(expect.objectContaining({ status: 'updated', unchanged: 1, added: 1, removed: 1, flaggedDrafts: 1 }));
+
+    expect(collections.chunks.insertMany).toHaveBeenCalledWith([
+      expect.objectContaining({ md_text: '# Support\n\nCall us any time.', title: 'Contact', vector: true, userId: 'user-1' }),
+    ]);
+    expect(collections.chunks.deleteMany).toHaveBeenCalledWith({ projectId, _id: { $in: ['support'] } });
+    expect(collections.assets.updateOne).toHaveBeenCalledWith(
+      { _id: 'asset-1', projectId },
+      { $set: { parsed_md: newMarkdown, hash: contentHash(newMarkdown) } }
+    );
+
+    // Only the removed chunk is recorded on the draft
+    expect(collections.drafts.updateOne).toHaveBeenCalledWith({ _id: 'draft-1' }, {
+      $addToSet: { 'stale_context.chunk_ids': { $each: ['chunk_support'] } },
+      $set: { 'stale_context.flaggedAt': expect.any(Date) },
+    });
+  });
+
+  it('should record a failed fetch and rethrow it', async () => {
+    mockExtractUrl.mockRejectedValue(new Error('Failed to fetch URL: 503 Service Unavailable'));
+
+    await expect(resyncAsset(projectId, 'asset-1')).rejects.toThrow('503');
+    expect(collections.assets.updateOne).toHaveBeenCalledWith(
+      { _id: 'asset-1', projectId },
+      { $set: { lastSync: expect.objectContaining({ status: 'failed', error: 'Failed to fetch URL: 503 Service Unavailable' }) } }
+    );
+  });
+
+  it('should return null for an unknown asset', async () => {
+    collections.assets.findOne.mockResolvedValue(null);
+
+    expect(await resyncAsset(projectId, 'missing')).toBeNull();
+  });
+});
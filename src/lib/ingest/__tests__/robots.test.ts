@@ -0,0 +1,53 @@
+import { isAllowedByRobots, parseRobotsTxt } from '../robots';
+
+describe('robots.txt', () => {
+  const robotsTxt = [
+    '# Crawlers',
+    'User-agent: *',
+    'Disallow: /private/',
+    'Allow: /private/press/',
+    'Disallow: /*.pdf$',
+    'Crawl-delay: 2',
+    '',
+    'User-agent: BadBot',
+    'User-agent: OtherBot',
+    'Disallow: /',
+    '',
+    'Sitemap: https://example.com/sitemap.xml',
+  ].join('\n');
+
+  it('should apply the wildcard group when no group names the crawler', () => {
+    const robots = parseRobotsTxt(robotsTxt);
+
+    expect(isAllowedByRobots(robots, 'https://example.com/blog/post')).toBe(true);
+    expect(isAllowedByRobots(robots, 'https://example.com/private/plans')).toBe(false);
+    expect(robots.crawlDelayMs).toBe(2000);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('should let the longest matching rule decide', () => {
+    const robots = parseRobotsTxt(robotsTxt);
+
+    expect(isAllowedByRobots(robots, 'https://example.com/private/press/launch')).toBe(true);
+  });
+
+  it('should support * and $ in rule paths', () => {
+    const robots = parseRobotsTxt(robotsTxt);
+
+    expect(isAllowedByRobots(robots, 'https://example.com/files/report.pdf')).toBe(false);
+    expect(isAllowedByRobots(robots, 'https://example.com/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('should use only the groups that name the crawler', () => {
+    const robots = parseRobotsTxt(robotsTxt, 'OtherBot');
+
+    expect(isAllowedByRobots(robots, 'https://example.com/blog/post')).toBe(false);
+    expect(robots.crawlDelayMs).toBeUndefined();
+  });
+
+  it('should allow everything without rules, and always allow robots.txt', () => {
+    expect(isAllowedByRobots(parseRobotsTxt(''), 'https://example.com/anything')).toBe(true);
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: *\nDisallow: /'), 'https://example.com/robots.txt')).toBe(true);
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: *\nDisallow:'), 'https://example.com/page')).toBe(true);
+  });
+});
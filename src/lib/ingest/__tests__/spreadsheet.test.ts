@@ -0,0 +1,235 @@
+import { deflateRawSync } from 'zlib';
+import {
+  MAX_SPREADSHEET_ROWS,
+  parseCsv,
+  parseXlsx,
+  spreadsheetToChunks,
+  SpreadsheetTooLargeError,
+  toTable,
+} from '../spreadsheet';
+import { readZip, ZipTooLargeError } from '../zip';
+
+/**
+ * Build a ZIP archive with deflated entries
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    central.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Number rows from 1, as a CSV's are
+ */
+function numbered(rows: string[][]) {
+  return rows.map((values, index) => ({ row: index + 1, values }));
+}
+
+/**
+ * Build a one-sheet workbook around the sheet's rows
+ */
+function workbookWith(rowsXml: string): Buffer {
+  return zip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Big" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rowsXml}</sheetData></worksheet>`,
+  });
+}
+
+describe('parseCsv', () => {
+  it('should handle quoted delimiters, escaped quotes and line breaks', () => {
+    const csv = '\uFEFFName,Quote\r\n"Smith, Jo","She said ""wow""\nthen left"\r\nLee,Fine\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['Name', 'Quote'],
+      ['Smith, Jo', 'She said "wow"\nthen left'],
+      ['Lee', 'Fine'],
+    ]);
+  });
+
+  it('should detect semicolon and tab delimiters', () => {
+    expect(parseCsv('a;b;c\n1;2,5;3')).toEqual([['a', 'b', 'c'], ['1', '2,5', '3']]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('should read shared, inline, boolean and number cells in workbook order', () => {
+    const workbook = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="FAQ &amp; Pricing" sheetId="2" r:id="rId2"/><sheet name="Other" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Question</t></si><si><r><t>How </t></r><r><t xml:space="preserve">much?</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Other</t></is></c></row></sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml': [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Price</t></is></c></row>',
+        '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="b"><v>1</v></c><c r="C3"><v>9.5</v></c></row>',
+        '</sheetData></worksheet>',
+      ].join(''),
+    });
+
+    const sheets = parseXlsx(workbook);
+
+    expect(sheets.map(sheet => sheet.name)).toEqual(['FAQ & Pricing', 'Other']);
+    expect(sheets[0].rows).toEqual([
+      { row: 1, values: ['Question', '', 'Price'] },
+      { row: 3, values: ['How much?', 'TRUE', '9.5'] },
+    ]);
+  });
+
+  it.each([
+    ['rows', '<row r="1048577"><c r="A1048577"><v>1</v></c></row>', 'at most 1048576 rows'],
+    ['columns', '<row r="1"><c r="XFD1"><v>1</v></c><c r="XFE1"><v>2</v></c></row>', 'at most 16384 columns'],
+  ])('should refuse sheets with more %s than Excel allows', (_, rowXml, message) => {
+    const workbook = workbookWith(rowXml);
+
+    expect(() => parseXlsx(workbook)).toThrow(SpreadsheetTooLargeError);
+    expect(() => parseXlsx(workbook)).toThrow(message);
+  });
+
+  it('should keep far-flung cells without filling in the grid between them', () => {
+    const workbook = workbookWith('<row r="1"><c r="XFD1"><v>1</v></c></row><row r="1048576"><c r="A1048576"><v>2</v></c></row><row r="1048576"/>');
+
+    const [sheet] = parseXlsx(workbook);
+
+    expect(sheet.rows.map(row => row.row)).toEqual([1, 1048576]);
+    expect(sheet.rows[1].values).toEqual(['2']);
+  });
+
+  it('should refuse sheets past the row and cell limits while reading them', () => {
+    const rows = (count: number, cell: (row: number) => string) =>
+      Array.from({ length: count }, (_, index) => `<row r="${index + 1}"><c r="${cell(index + 1)}"><v>1</v></c></row>`).join('');
+
+    expect(() => parseXlsx(workbookWith(rows(MAX_SPREADSHEET_ROWS + 2, row => `A${row}`)))).toThrow(`at most ${MAX_SPREADSHEET_ROWS} can be ingested`);
+    expect(() => parseXlsx(workbookWith(rows(200, row => `XFD${row}`)))).toThrow('cells');
+  });
+});
+
+describe('readZip', () => {
+  it('should stop inflating entries past the size limit', () => {
+    const archive = zip({ 'a.xml': 'a'.repeat(600), 'b.xml': 'b'.repeat(600) });
+
+    expect(readZip(archive, () => true, 1200).get('b.xml')?.toString()).toBe('b'.repeat(600));
+    expect(() => readZip(archive, () => true, 1000)).toThrow(ZipTooLargeError);
+    expect(() => readZip(archive, () => true, 500)).toThrow(ZipTooLargeError);
+  });
+});
+
+describe('toTable', () => {
+  it('should name blank and repeated headers and keep spreadsheet row numbers', () => {
+    const table = toTable('Sheet1', numbered([[], ['Name', '', 'Name'], ['Ann', 'x', 'B'], ['', '', ''], ['Cy']]));
+
+    expect(table.headers).toEqual(['Name', 'Column 2', 'Name (2)']);
+    expect(table.rows).toEqual([
+      { row: 3, values: ['Ann', 'x', 'B'] },
+      { row: 5, values: ['Cy', '', ''] },
+    ]);
+  });
+
+  it('should read sheets up to the row limit and refuse longer ones', () => {
+    const rows = (count: number) => numbered([['Name', 'Note'], ...Array.from({ length: count }, (_, index) => [`Row ${index}`])]);
+
+    const table = toTable('Big', rows(MAX_SPREADSHEET_ROWS));
+
+    expect(table.headers).toEqual(['Name', 'Note']);
+    expect(table.rows).toHaveLength(MAX_SPREADSHEET_ROWS);
+    expect(() => toTable('Bigger', rows(200000))).toThrow(SpreadsheetTooLargeError);
+  });
+
+  it('should refuse sheets too wide to fill every row out to', () => {
+    const rows = numbered([['Name'], ...Array.from({ length: 999 }, () => ['x']), [...Array(5000).fill(''), 'far']]);
+
+    expect(() => toTable('Wide', rows)).toThrow('cells');
+  });
+});
+
+describe('spreadsheetToChunks', () => {
+  const table = toTable('FAQ', numbered([
+    ['Category', 'Question', 'Answer', 'Tags'],
+    ['Billing', 'Can I cancel?', 'Any time.', 'billing; cancel'],
+    ['Setup', 'How long?', 'Minutes.', 'onboarding'],
+    ['Billing', 'Refunds?', 'Within 30 days.', 'billing|refund'],
+    ['', 'Who are you?', 'A small team.', ''],
+  ]));
+
+  it('should make one chunk per row with labelled text columns and the row in meta', () => {
+    const { chunks, markdown } = spreadsheetToChunks(table, { text: ['Question', 'Answer'], title: 'Question', tags: ['Tags'] });
+
+    expect(chunks).toHaveLength(4);
+    expect(chunks[0]).toEqual(expect.objectContaining({
+      md_text: '**Question**: Can I cancel?\n**Answer**: Any time.',
+      title: 'Can I cancel?',
+      tags: ['billing', 'cancel'],
+      meta: {
+        hpath: [],
+        rows: [2],
+        records: [{ Category: 'Billing', Question: 'Can I cancel?', Answer: 'Any time.', Tags: 'billing; cancel' }],
+      },
+    }));
+    expect(chunks[3]).not.toHaveProperty('tags');
+    expect(markdown).toContain('**Answer**: Within 30 days.');
+  });
+
+  it('should group rows sharing a value under a heading', () => {
+    const { chunks } = spreadsheetToChunks(table, { text: ['Answer'], tags: ['Tags'], groupBy: 'Category' });
+
+    expect(chunks.map(chunk => chunk.md_text)).toEqual([
+      '## Billing\n\nAny time.\n\nWithin 30 days.',
+      '## Setup\n\nMinutes.',
+      'A small team.',
+    ]);
+    expect(chunks[0]).toEqual(expect.objectContaining({
+      section: 'Billing',
+      tags: ['billing', 'cancel', 'refund'],
+      meta: expect.objectContaining({ hpath: ['Billing'], rows: [2, 4] }),
+    }));
+    expect(chunks[0]).not.toHaveProperty('title');
+  });
+
+  it('should split groups that are too long for one chunk', () => {
+    const long = toTable('Quotes', numbered([
+      ['Product', 'Quote'],
+      ...Array.from({ length: 12 }, (_, index) => ['Widget', `${'great '.repeat(80)}${index}`]),
+    ]));
+
+    const { chunks } = spreadsheetToChunks(long, { text: ['Quote'], tags: [], groupBy: 'Product' });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.md_text.startsWith('## Widget') && chunk.tokens <= 820)).toBe(true);
+    expect(chunks.flatMap(chunk => chunk.meta.rows)).toEqual(Array.from({ length: 12 }, (_, index) => index + 2));
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  findTopicShifts,
+  formatTimestamp,
+  mergeTurns,
+  parseTimestamp,
+  parseTranscript,
+  segmentTurns,
+  transcriptToChunks,
+  type TranscriptTurn,
+} from '../transcript';
+
+describe('timestamps', () => {
+  it('should parse SRT, VTT and short timestamps', () => {
+    expect(parseTimestamp('01:02:03,500')).toBe(3723.5);
+    expect(parseTimestamp('02:03.250')).toBe(123.25);
+    expect(parseTimestamp('2:03')).toBe(123);
+  });
+
+  it('should only show hours when there are any', () => {
+    expect(formatTimestamp(83.9)).toBe('01:23');
+    expect(formatTimestamp(3723)).toBe('1:02:03');
+  });
+});
+
+describe('parseTranscript', () => {
+  it('should read SRT cues, strip noise and carry speakers across cues', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:04,000',
+      '[MUSIC PLAYING]',
+      'JANE: Welcome to the show.',
+      '',
+      '2',
+      '00:00:04,500 --> 00:00:07,000',
+      "<i>Today we're talking pricing.</i> (laughs)",
+      '',
+      '3',
+      '00:00:07,500 --> 00:00:09,000',
+      '>> SAM: Thanks for having me.',
+      '- Glad to be here.',
+      '',
+    ].join('\r\n');
+
+    expect(parseTranscript(srt).cues).toEqual([
+      { start: 1, end: 4, speaker: 'JANE', text: 'Welcome to the show.' },
+      { start: 4.5, end: 7, speaker: 'JANE', text: "Today we're talking pricing." },
+      { start: 7.5, end: 9, speaker: 'SAM', text: 'Thanks for having me.' },
+      { start: 7.5, end: 9, speaker: undefined, text: 'Glad to be here.' },
+    ]);
+  });
+
+  it('should read WebVTT voices and drop lines repeated by rolling captions', () => {
+    const vtt = [
+      'WEBVTT - Episode 12: Pricing',
+      '',
+      'NOTE recorded live',
+      '',
+      'intro',
+      '00:01.000 --> 00:03.000 align:start',
+      '<v Jane Doe>Hello &amp; welcome</v>',
+      '',
+      '00:03.000 --> 00:05.000',
+      '<v Jane Doe>Hello &amp; welcome</v>',
+      '<v Jane Doe>to<00:03.500><c> the show</c></v>',
+    ].join('\n');
+
+    const { title, cues } = parseTranscript(vtt);
+
+    expect(title).toBe('Episode 12: Pricing');
+    expect(cues.map(cue => [cue.speaker, cue.text])).toEqual([
+      ['Jane Doe', 'Hello & welcome'],
+      ['Jane Doe', 'to the show'],
+    ]);
+  });
+
+  it('should read timestamped text in the common layouts', () => {
+    const text = [
+      'Episode 12 transcript',
+      '[00:00:05] Jane: So how did it start?',
+      'Sam Lee (00:12): We had no customers.',
+      'None at all.',
+      'Jane Doe  1:05',
+      'And then?',
+      '01:30 It took off.',
+    ].join('\n');
+
+    expect(parseTranscript(text).cues).toEqual([
+      { start: 5, end: 12, speaker: 'Jane', text: 'So how did it start?' },
+      { start: 12, end: 65, speaker: 'Sam Lee', text: 'We had no customers. None at all.' },
+      { start: 65, end: 90, speaker: 'Jane Doe', text: 'And then?' },
+      { start: 90, end: 90, speaker: 'Jane Doe', text: 'It took off.' },
+    ]);
+  });
+});
+
+describe('mergeTurns', () => {
+  it('should merge consecutive cues by the same speaker up to a minute', () => {
+    const turns = mergeTurns([
+      { start: 0, end: 5, speaker: 'Jane', text: 'One.' },
+      { start: 5, end: 10, speaker: 'Jane', text: 'Two.' },
+      { start: 10, end: 15, speaker: 'Sam', text: 'Three.' },
+      { start: 15, end: 70, speaker: 'Sam', text: 'Four.' },
+      { start: 75, end: 80, speaker: 'Sam', text: 'Five.' },
+    ]);
+
+    expect(turns).toEqual([
+      { start: 0, end: 10, speaker: 'Jane', text: 'One. Two.' },
+      { start: 10, end: 70, speaker: 'Sam', text: 'Three. Four.' },
+      { start: 75, end: 80, speaker: 'Sam', text: 'Five.' },
+    ]);
+  });
+});
+
+describe('segmentation', () => {
+  const pricing = 'Our pricing plans charge per seat, and annual pricing discounts every seat plan.';
+  const hiring = 'Hiring engineers took months, so the hiring team interviewed remote engineers.';
+  const turn = (index: number, text: string): TranscriptTurn => ({
+    start: index * 30,
+    end: index * 30 + 30,
+    speaker: index % 2 ? 'Sam' : 'Jane',
+    text,
+  });
+
+  it('should end segments where the topic shifts', () => {
+    const turns = [
+      ...Array.from({ length: 4 }, (_, index) => turn(index, pricing)),
+      ...Array.from({ length: 4 }, (_, index) => turn(index + 4, hiring)),
+    ];
+
+    expect(Array.from(findTopicShifts(turns))).toEqual([4]);
+    expect(segmentTurns(turns).map(segment => segment.length)).toEqual([4, 4]);
+  });
+
+  it('should end segments at the time limit without a topic shift', () => {
+    const turns = Array.from({ length: 14 }, (_, index) => turn(index, pricing));
+
+    expect(segmentTurns(turns).map(segment => segment.length)).toEqual([10, 4]);
+  });
+});
+
+describe('transcriptToChunks', () => {
+  it('should keep timestamps and speakers in the chunk text and meta', () => {
+    const { chunks, markdown } = transcriptToChunks([
+      '[00:00:05] Jane: So how did it start?',
+      '[00:00:12] Sam: We had no customers.',
+      '[00:00:20] Sam: Then a podcast mentioned us.',
+    ].join('\n'));
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toEqual(expect.objectContaining({
+      md_text: '[00:05] **Jane:** So how did it start?\n\n[00:12] **Sam:** We had no customers. Then a podcast mentioned us.',
+      section: '00:05–00:20',
+      meta: { hpath: [], start: 5, end: 20, speakers: ['Jane', 'Sam'] },
+    }));
+    expect(markdown).toBe(chunks[0].md_text);
+  });
+
+  it('should find nothing in text without timestamps', () => {
+    expect(transcriptToChunks('Just some notes.\nNo times here.').chunks).toEqual([]);
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * Website Crawls
+ *
+ * Ingests a site one page per asset, starting from a URL and following
+ * same-site links breadth-first, or from the pages listed in a sitemap.xml.
+ * Crawls stay within their depth and page limits, obey robots.txt (including
+ * Crawl-delay and `noindex`/`nofollow` robots meta tags) and pass each page
+ * through an ingestion job, so content the project already has is skipped by
+ * its hash.
+ *
+ * A crawl runs in steps of at most CRAWL_STEP_MS, each a separate request.
+ * The pages still to visit and the page being ingested are saved as it goes,
+ * so a step that runs out of time requeues the crawl and the next `runCrawl`
+ * carries on from there, as does one for a crawl interrupted mid-step.
+ *
+ * A crawl's assets carry its ID. Re-running the crawl keeps unchanged pages,
+ * replaces pages whose content changed and removes pages no longer reached;
+ * deleting it removes all of its assets.
+ */
+
+import { ObjectId, type Filter } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { type Asset } from '@/lib/schemas/asset';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { zCrawl, type Crawl, type CrawlPage, type CrawlTarget } from '@/lib/schemas/crawl';
+import { removeFromLexicalIndex } from '@/lib/retrieval/lexicalIndex';
+import { htmlToMarkdown } from './html';
+import { fetchHtml, INGEST_USER_AGENT, IngestError } from './extract';
+import { createIngestJob, getIngestJob, isIngestJobStale, runIngestJob } from './jobs';
+import { ALLOW_ALL, isAllowedByRobots, parseRobotsTxt, type RobotsRules } from './robots';
+
+const CRAWLS_COLLECTION = 'crawls';
+
+const CRAWL_DELAY_MS = 500; // Between page fetches, unless robots.txt asks for more
+const MAX_CRAWL_DELAY_MS = 10000;
+const MAX_SITEMAPS = 10; // Child sitemaps read from a sitemap index
+const FETCH_TIMEOUT_MS = 30000;
+const CRAWL_STEP_MS = 3 * 60 * 1000; // Pages are started within this long of a step starting
+const MAX_VISITS_PER_PAGE = 3; // Pages visited per page counted, so a site of failing pages still ends
+const RESUMED_CRAWLS_PER_RUN = 1; // Crawls carried on per scheduled run
+export const STALE_CRAWL_MS = 15 * 60 * 1000; // A running crawl silent this long was interrupted
+
+// Outcomes that count against a crawl's page limit
+const COUNTED_STATUSES: CrawlPage['status'][] = ['ingested', 'unchanged', 'duplicate'];
+
+// Links to files that aren't web pages
+const NON_PAGE_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|gz|tar|png|jpe?g|gif|svg|webp|ico|mp3|mp4|mov|avi|css|js|json|xml|rss|txt)$/i;
+
+/**
+ * Resolve a link against the page it's on, dropping the fragment
+ *
+ * @returns The absolute URL, or null for non-HTTP(S) links
+ */
+export function normalizeCrawlUrl(href: string, base?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href, base);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  url.hash = '';
+  return url.toString();
+}
+
+/**
+ * Whether two URLs are on the same site, treating `www.` as the bare domain
+ */
+export function isSameSite(url: string, other: string): boolean {
+  const host = (value: string) => new URL(value).hostname.toLowerCase().replace(/^www\./, '');
+  return host(url) === host(other);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'");
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Links on a page worth crawling: absolute, deduplicated, without `rel="nofollow"`
+ * links or links to non-page files
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const baseHref = html.match(/<base\s[^>]*>/i)?.[0];
+  const base = (baseHref && normalizeCrawlUrl(attribute(baseHref, 'href') ?? '', pageUrl)) || pageUrl;
+  const links = new Set<string>();
+
+  for (const [tag] of html.matchAll(/<a\s[^>]*>/gi)) {
+    const href = attribute(tag, 'href');
+    if (!href || /\bnofollow\b/i.test(attribute(tag, 'rel') ?? '')) continue;
+
+    const url = normalizeCrawlUrl(href, base);
+    if (url && !NON_PAGE_EXTENSIONS.test(new URL(url).pathname)) links.add(url);
+  }
+
+  return Array.from(links);
+}
+
+/**
+ * Directives from `<meta name="robots">` tags
+ */
+export function readRobotsMeta(html: string): { noindex: boolean; nofollow: boolean } {
+  const directives = Array.from(html.matchAll(/<meta\s[^>]*>/gi))
+    .map(([tag]) => tag)
+    .filter(tag => /^(robots|magicmailer)$/i.test(attribute(tag, 'name') ?? ''))
+    .map(tag => (attribute(tag, 'content') ?? '').toLowerCase())
+    .join(',');
+
+  return {
+    noindex: /\b(noindex|none)\b/.test(directives),
+    nofollow: /\b(nofollow|none)\b/.test(directives),
+  };
+}
+
+/**
+ * Page URLs and child sitemaps listed in a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locations = Array.from(xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/gi))
+    .map(match => decodeEntities(match[1].trim()))
+    .filter(Boolean);
+
+  return /<sitemapindex[\s>]/i.test(xml)
+    ? { pages: [], sitemaps: locations }
+    : { pages: locations, sitemaps: [] };
+}
+
+/**
+ * Whether a start URL points at a sitemap rather than a page
+ */
+export function isSitemapUrl(url: string): boolean {
+  return new URL(url).pathname.toLowerCase().endsWith('.xml');
+}
+
+async function fetchText(url: string): Promise<Response> {
+  try {
+    return await fetch(url, {
+      headers: { 'User-Agent': INGEST_USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new IngestError(`Failed to fetch ${url}: ${error instanceof Error ? error.message : 'network error'}`);
+  }
+}
+
+/**
+ * The site's robots.txt rules. A missing file allows everything; a file that
+ * can't be read stops the crawl, as the site may be refusing crawlers.
+ */
+async function loadRobots(startUrl: string): Promise<RobotsRules> {
+  const response = await fetchText(new URL('/robots.txt', startUrl).toString());
+
+  if (response.ok) {
+    return parseRobotsTxt(await response.text());
+  }
+  if (response.status >= 400 && response.status < 500) {
+    return ALLOW_ALL;
+  }
+  throw new IngestError(`robots.txt could not be read (${response.status}), so the site was not crawled`);
+}
+
+/**
+ * Page URLs from a sitemap, reading up to MAX_SITEMAPS children of an index
+ */
+async function loadSitemapPages(sitemapUrl: string): Promise<string[]> {
+  const pending = [sitemapUrl];
+  const pages: string[] = [];
+  let read = 0;
+
+  while (pending.length > 0 && read <= MAX_SITEMAPS) {
+    const url = pending.shift()!;
+    const response = await fetchText(url);
+    read++;
+
+    if (!response.ok) {
+      throw new IngestError(`Failed to fetch sitemap ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const sitemap = parseSitemap(await response.text());
+    pages.push(...sitemap.pages);
+    pending.push(...sitemap.sitemaps);
+  }
+
+  return pages;
+}
+
+/**
+ * Delete assets with their chunks
+ */
+async function deleteAssets(projectId: string, assetIds: string[]): Promise<{ deletedAssets: number; deletedChunks: number }> {
+  if (assetIds.length === 0) {
+    return { deletedAssets: 0, deletedChunks: 0 };
+  }
+
+  const assetsColl = await getColl<Asset>('assets');
+  const chunksColl = await getColl<Chunk>('chunks');
+
+  const chunks = await chunksColl.deleteMany({ projectId, assetId: { $in: assetIds } });
+  assetIds.forEach(assetId => removeFromLexicalIndex(projectId, { assetId }));
+  const assets = await assetsColl.deleteMany({ projectId, _id: { $in: assetIds } });
+
+  return { deletedAssets: assets.deletedCount, deletedChunks: chunks.deletedCount };
+}
+
+/**
+ * Whether a crawl marked running has stopped reporting progress
+ */
+export function isCrawlStale(crawl: Pick<Crawl, 'status' | 'updatedAt'>, now = Date.now()): boolean {
+  return crawl.status === 'running' && now - new Date(crawl.updatedAt).getTime() > STALE_CRAWL_MS;
+}
+
+/**
+ * Crawls waiting for their next step: queued, or interrupted mid-step
+ */
+function waitingCrawls(now = Date.now()): Filter<Crawl> {
+  return {
+    $or: [
+      { status: 'queued' },
+      { status: 'running', updatedAt: { $lt: new Date(now - STALE_CRAWL_MS) } },
+    ],
+  };
+}
+
+/**
+ * Queue a crawl. Call `runCrawl` to process it.
+ */
+export async function createCrawl({
+  projectId,
+  userId,
+  startUrl,
+  maxDepth,
+  maxPages
+}: {
+  projectId: string;
+  userId: string;
+  startUrl: string;
+  maxDepth: number;
+  maxPages: number;
+}): Promise<Crawl> {
+  const now = new Date();
+  const crawl: Crawl = {
+    _id: new ObjectId().toString(),
+    projectId,
+    userId,
+    startUrl,
+    mode: isSitemapUrl(startUrl) ? 'sitemap' : 'links',
+    maxDepth,
+    maxPages,
+    status: 'queued',
+    pages: [],
+    pageCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const crawls = await getColl<Crawl>(CRAWLS_COLLECTION);
+  await crawls.insertOne(crawl);
+
+  return crawl;
+}
+
+/**
+ * Load a crawl the user owns
+ */
+export async function getCrawl(crawlId: string, userId: string): Promise<Crawl | null> {
+  const crawls = await getColl<Crawl>(CRAWLS_COLLECTION);
+  const crawl = await crawls.findOne({ _id: crawlId, userId });
+  return crawl ? zCrawl.parse(crawl) : null;
+}
+
+/**
+ * A project's crawls, newest first
+ */
+export async function listCrawls(projectId: string, userId: string): Promise<Crawl[]> {
+  const crawls = await getColl<Crawl>(CRAWLS_COLLECTION);
+  const found = await crawls.find({ projectId, userId }).sort({ createdAt: -1 }).toArray();
+  return found.map(crawl => zCrawl.parse(crawl));
+}
+
+/**
+ * Requeue a crawl that isn't queued or running
+ *
+ * @returns The requeued crawl, or null when it doesn't exist or is in progress
+ */
+export async function rerunCrawl(crawlId: string, userId: string): Promise<Crawl | null> {
+  const crawls = await getColl<Crawl>(CRAWLS_COLLECTION);
+  const crawl = await crawls.findOne({ _id: crawlId, userId });
+
+  if (!crawl || crawl.status === 'queued' || (crawl.status === 'running' && !isCrawlStale(crawl))) {
+    return null;
+  }
+
+  // Only requeue the crawl in the state we read, in case another re-run got there first.
+  // An interrupted crawl carries on where it stopped; a finished one starts over.
+  const requeued = await crawls.findOneAndUpdate(
+    { _id: crawlId, userId, status: crawl.status, updatedAt: crawl.updatedAt },
+    {
+      $set: { status: 'queued', updatedAt: new Date() },
+      $unset: { error: '', ...(crawl.status === 'running' ? {} : { frontier: '', seen: '', current: '' }) },
+    },
+    { returnDocument: 'after' }
+  );
+
+  return requeued ? zCrawl.parse(requeued) : null;
+}
+
+/**
+ * Delete a crawl and every asset it ingested
+ *
+ * @returns What was deleted, or null when the crawl doesn't exist or is in progress
+ */
+export async function deleteCrawl(
+  crawlId: string,
+  userId: string
+): Promise<{ deletedAssets: number; deletedChunks: number } | null> {
+  const crawls = await getColl<Crawl>(CRAWLS_COLLECTION);
+  const crawl = await crawls.findOne({ _id: crawlId, userId });
+
+  if (!crawl || crawl.status === 'queued' || (crawl.status === 'running' && !isCrawlStale(crawl))) {
+    return null;
+  }
+
+  const assetsColl = await getColl<Asset>('assets');
+  const assets = await assetsColl.find({ projectId: crawl.projectId, crawlId }).toArray();
+  const deleted = await deleteAssets(crawl.projectId, assets.map(asset => asset._id));
+
+  await crawls.deleteOne({ _id: crawlId, userId });
+
+  return deleted;
+}
+
+/**
+ * Run a step of a queued or interrupted crawl, ingesting each page until the
+ * crawl ends or CRAWL_STEP_MS has passed
+ *
+ * @param stepMs - How long to keep starting pages before requeueing the crawl
+ * @returns The crawl after the step, or null when it wasn't waiting for one
+ */
+export async function runCrawl(crawlId: string, stepMs = CRAWL_STEP_MS): Promise<Crawl | null> {
+  const crawls = await getColl<Crawl>(CRAWLS_COLLECTION);
+
+  // Claim the crawl so two runners never process it at once
+  const claimedAt = new Date();
+  const claimed = await crawls.findOneAndUpdate(
+    { _id: crawlId, ...waitingCrawls(claimedAt.getTime()) },
+    { $set: { status: 'running', updatedAt: claimedAt } },
+    { returnDocument: 'after' }
+  );
+
+  if (!claimed) {
+    return null;
+  }
+
+  const crawl = zCrawl.parse(claimed);
+  const resuming = Boolean(crawl.frontier);
+  const pages: CrawlPage[] = resuming ? crawl.pages : [];
+  let pageCount = resuming ? crawl.pageCount : 0;
+  let queue: CrawlTarget[] = crawl.frontier ?? [];
+  const seen = new Set(crawl.seen ?? []);
+
+  if (!resuming) {
+    await crawls.updateOne({ _id: crawlId }, {
+      $set: { pages, pageCount, startedAt: claimedAt },
+      $unset: { completedAt: '', current: '' },
+    });
+  }
+
+  // Save progress after every page, so an interrupted step loses at most the one in hand
+  const saveProgress = (current?: CrawlTarget & { jobId: string }) => crawls.updateOne({ _id: crawlId }, {
+    $set: { pages, pageCount, frontier: queue, seen: Array.from(seen), updatedAt: new Date(), ...(current ? { current } : {}) },
+    ...(current ? {} : { $unset: { current: '' } }),
+  });
+
+  const record = async (page: CrawlPage) => {
+    pages.push(page);
+    if (COUNTED_STATUSES.includes(page.status)) pageCount++;
+    await saveProgress();
+  };
+
+  const limitReached = () => pageCount >= crawl.maxPages || pages.length >= crawl.maxPages * MAX_VISITS_PER_PAGE;
+
+  try {
+    const robots = await loadRobots(crawl.startUrl);
+    const delayMs = Math.min(Math.max(robots.crawlDelayMs ?? 0, CRAWL_DELAY_MS), MAX_CRAWL_DELAY_MS);
+
+    if (!resuming) {
+      const seedUrls = crawl.mode === 'sitemap'
+        ? (await loadSitemapPages(crawl.startUrl)).map(url => normalizeCrawlUrl(url)).filter((url): url is string => Boolean(url))
+        : [crawl.startUrl];
+
+      queue = seedUrls
+        .filter(url => isSameSite(url, crawl.startUrl))
+        .map(url => ({ url, depth: 0 }));
+      queue.forEach(({ url }) => seen.add(url));
+      await saveProgress();
+    }
+
+    // This crawl's assets from earlier runs, to compare pages against
+    const assetsColl = await getColl<Asset>('assets');
+    const previousAssets = await assetsColl.find({ projectId: crawl.projectId, crawlId }).toArray();
+    const previousByUrl = new Map(previousAssets.map(asset => [asset.sourceUrl, asset]));
+
+    const stepEndsAt = claimedAt.getTime() + stepMs;
+
+    // Run a step of a page's ingestion job and record the outcome, or return
+    // false when the job needs another step. A job left behind by an earlier
+    // step carries on, or its outcome is taken if it finished.
+    const ingest = async ({ url, depth, jobId }: CrawlTarget & { jobId: string }): Promise<boolean> => {
+      let job = await getIngestJob(jobId, crawl.userId);
+      if (job && (job.status === 'queued' || isIngestJobStale(job))) {
+        job = await runIngestJob(jobId, Math.max(stepEndsAt - Date.now(), 0)) ?? job;
+      }
+      if (job?.status === 'queued' || job?.status === 'running') {
+        return false;
+      }
+
+      const previous = previousByUrl.get(url);
+
+      if (!job?.result) {
+        await record({
+          url,
+          depth,
+          status: 'failed',
+          jobId,
+          reason: job?.error || 'Ingestion failed',
+          ...(previous ? { assetId: previous._id } : {}),
+        });
+        return true;
+      }
+
+      const { assetId, duplicate } = job.result;
+
+      if (!duplicate && previous) {
+        // The page changed: its new asset replaces the old one
+        await deleteAssets(crawl.projectId, [previous._id]);
+        previousByUrl.delete(url);
+      }
+
+      await record({
+        url,
+        depth,
+        status: duplicate ? (previous?._id === assetId ? 'unchanged' : 'duplicate') : 'ingested',
+        assetId,
+        jobId,
+      });
+      return true;
+    };
+
+    // A page whose job still has steps to go holds the crawl until it's done
+    let waiting = crawl.current ? !(await ingest(crawl.current)) : false;
+    let fetched = 0;
+
+    while (!waiting && queue.length > 0 && !limitReached() && Date.now() < stepEndsAt) {
+      const { url, depth } = queue.shift()!;
+
+      if (!isAllowedByRobots(robots, url)) {
+        await record({ url, depth, status: 'skipped', reason: 'Blocked by robots.txt' });
+        continue;
+      }
+
+      if (fetched > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+      fetched++;
+
+      let page;
+      try {
+        page = await fetchHtml(url);
+      } catch (error) {
+        const previous = previousByUrl.get(url);
+        await record({
+          url,
+          depth,
+          status: 'failed',
+          reason: error instanceof Error ? error.message : 'Failed to fetch page',
+          // Keep the page from the last run rather than lose it to a blip
+          ...(previous ? { assetId: previous._id } : {}),
+        });
+        continue;
+      }
+
+      if (page.url !== url) {
+        if (!isSameSite(page.url, crawl.startUrl)) {
+          await record({ url, depth, status: 'skipped', reason: `Redirected off the site to ${page.url}` });
+          continue;
+        }
+        if (seen.has(page.url)) {
+          await record({ url, depth, status: 'skipped', reason: `Redirected to ${page.url}, already crawled` });
+          continue;
+        }
+        seen.add(page.url);
+      }
+
+      const meta = readRobotsMeta(page.html);
+
+      if (depth < crawl.maxDepth && !meta.nofollow) {
+        for (const link of extractLinks(page.html, page.url)) {
+          if (!seen.has(link) && isSameSite(link, crawl.startUrl)) {
+            seen.add(link);
+            queue.push({ url: link, depth: depth + 1 });
+          }
+        }
+      }
+
+      if (meta.noindex) {
+        await record({ url: page.url, depth, status: 'skipped', reason: 'The page asks not to be indexed' });
+        continue;
+      }
+
+      const extracted = htmlToMarkdown(page.html);
+      if (!extracted.markdown.trim()) {
+        await record({ url: page.url, depth, status: 'skipped', reason: 'No content found on the page' });
+        continue;
+      }
+
+      const job = await createIngestJob({
+        projectId: crawl.projectId,
+        userId: crawl.userId,
+        source: { type: 'url', value: page.url },
+        assetType: 'html',
+        crawlId,
+        extracted,
+      });
+
+      // Note the job before running it, so an interrupted step picks it up again
+      const current = { url: page.url, depth, jobId: job._id };
+      await saveProgress(current);
+      waiting = !(await ingest(current));
+    }
+
+    if (waiting || (queue.length > 0 && !limitReached())) {
+      // Out of time: the next step carries on from the saved progress
+      await crawls.updateOne({ _id: crawlId }, { $set: { status: 'queued', updatedAt: new Date() } });
+      return getCrawl(crawlId, crawl.userId);
+    }
+
+    // Pages the site no longer links to (or that are now out of bounds) go too
+    const kept = new Set(pages.map(page => page.assetId).filter(Boolean));
+    await deleteAssets(crawl.projectId, previousAssets.map(asset => asset._id).filter(id => !kept.has(id)));
+
+    const completedAt = new Date();
+    await crawls.updateOne({ _id: crawlId }, {
+      $set: { status: 'completed', pages, pageCount, completedAt, updatedAt: completedAt },
+      $unset: { frontier: '', seen: '', current: '' },
+    });
+  } catch (error) {
+    console.error(`[CRAWL] Crawl ${crawlId} failed:`, error);
+    await crawls.updateOne({ _id: crawlId }, {
+      $set: {
+        status: 'failed',
+        pages,
+        pageCount,
+        error: error instanceof Error ? error.message : 'Crawl failed',
+        updatedAt: new Date(),
+      },
+      $unset: { frontier: '', seen: '', current: '' },
+    });
+  }
+
+  return getCrawl(crawlId, crawl.userId);
+}
+
+/**
+ * Run the next step of crawls nobody is following, oldest first: those left
+ * queued between steps, and those interrupted mid-step
+ *
+ * @param deadline - Time (ms since the epoch) after which no new page is started
+ * @returns IDs of the crawls that ran a step
+ */
+export async function resumeCrawls(deadline: number, limit = RESUMED_CRAWLS_PER_RUN): Promise<string[]> {
+  const crawls = await getColl<Crawl>(CRAWLS_COLLECTION);
+  const waiting = await crawls.find(waitingCrawls()).sort({ updatedAt: 1 }).limit(limit).toArray();
+
+  const resumed: string[] = [];
+  for (const crawl of waiting) {
+    const stepMs = Math.min(deadline - Date.now(), CRAWL_STEP_MS);
+    if (stepMs <= 0) break;
+
+    if (await runCrawl(crawl._id, stepMs)) {
+      resumed.push(crawl._id);
+    }
+  }
+
+  return resumed;
+}
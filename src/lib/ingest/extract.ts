@@ -0,0 +1,269 @@
+/**
+ * Content Extraction
+ *
+ * Turns an ingestion source (pasted text, a URL or an uploaded file) into
+ * markdown. Spreadsheets (following the user's column mapping) and transcripts
+ * are also split into chunks here. Failures throw `IngestError` with a message
+ * fit to show the user.
+ */
+
+import crypto from 'crypto';
+import { normalizeMd } from './md';
+import { htmlToMarkdown } from './html';
+import { extractTextFromPdf } from './pdf';
+import { extractTextFromDocx } from './docx';
+import { readSpreadsheet, spreadsheetToChunks, SpreadsheetTooLargeError, unknownColumns } from './spreadsheet';
+import { transcriptToChunks } from './transcript';
+import { type Asset } from '@/lib/schemas/asset';
+import { type SpreadsheetMapping } from '@/lib/schemas/ingestJob';
+import { type MarkdownChunk } from '@/lib/chunking/byHeadings';
+
+export type IngestAssetType = Asset['type'];
+
+export const INGEST_USER_AGENT = 'MagicMailer/1.0 (Content Ingestion Bot)';
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
+const URL_FETCH_TIMEOUT_MS = 30000;
+
+export interface ExtractedContent {
+  markdown: string;
+  title?: string; // Title found in the content itself
+  chunks?: MarkdownChunk[]; // Chunks given by the source's structure, used instead of chunking the markdown
+}
+
+/**
+ * Extraction failure caused by the input rather than the server
+ */
+export class IngestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IngestError';
+  }
+}
+
+/**
+ * Hash of extracted markdown, used to spot content the project already has
+ */
+export function contentHash(markdown: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(markdown)
+    .digest('hex');
+}
+
+/**
+ * Asset type for an uploaded file name, or null when the type isn't supported
+ * 
+ * @param asTranscript - Read a .txt file as a timestamped transcript, which its name can't show
+ */
+export function assetTypeForFile(fileName: string, asTranscript = false): IngestAssetType | null {
+  const name = fileName.toLowerCase();
+
+  if (name.endsWith('.pdf')) return 'pdf';
+  if (name.endsWith('.docx') || name.endsWith('.doc')) return 'docx';
+  if (name.endsWith('.txt')) return asTranscript ? 'transcript' : 'md';
+  if (name.endsWith('.md')) return 'md';
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.xlsx')) return 'xlsx';
+  if (name.endsWith('.srt') || name.endsWith('.vtt')) return 'transcript';
+  return null;
+}
+
+/**
+ * Chunk SRT, WebVTT or timestamped transcript text by topic and time
+ */
+function extractTranscript(text: string): ExtractedContent {
+  const { markdown, title, chunks } = transcriptToChunks(text);
+  if (chunks.length === 0) {
+    throw new IngestError('No timestamped lines found. Transcripts need SRT or VTT cues, or a timestamp at the start of each turn.');
+  }
+  return { markdown, title, chunks };
+}
+
+/**
+ * Convert pasted text, treating it as HTML, markdown or a transcript
+ */
+export function extractText(value: string, assetType: 'md' | 'html' | 'transcript'): ExtractedContent {
+  if (assetType === 'html') {
+    return htmlToMarkdown(value);
+  }
+
+  if (assetType === 'transcript') {
+    return extractTranscript(value);
+  }
+
+  // Normalize markdown content
+  return { markdown: normalizeMd(value).markdown };
+}
+
+export interface FetchedPage {
+  html: string;
+  url: string; // After redirects
+}
+
+/**
+ * Fetch a web page's HTML
+ */
+export async function fetchHtml(url: string): Promise<FetchedPage> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': INGEST_USER_AGENT,
+      },
+      // Add timeout to prevent hanging
+      signal: AbortSignal.timeout(URL_FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    console.error('URL fetch error:', error);
+
+    // Provide more specific error messages
+    let errorMessage = 'Failed to fetch URL';
+    if (error instanceof Error) {
+      if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+        errorMessage = 'Request timed out after 30 seconds. Please try a different URL.';
+      } else if (error.message.includes('ENOTFOUND') || error.message.includes('DNS')) {
+        errorMessage = 'URL not found. Please check the URL and try again.';
+      } else if (error.message.includes('ECONNREFUSED')) {
+        errorMessage = 'Connection refused. The server may be down.';
+      } else {
+        errorMessage = `Failed to fetch URL: ${error.message}`;
+      }
+    }
+
+    throw new IngestError(errorMessage);
+  }
+
+  if (!response.ok) {
+    throw new IngestError(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+
+  if (!contentType.includes('text/html')) {
+    throw new IngestError('URL must return HTML content');
+  }
+
+  return { html: await response.text(), url: response.url || url };
+}
+
+/**
+ * Fetch a web page and convert it to markdown
+ */
+export async function extractUrl(url: string): Promise<ExtractedContent> {
+  const { html } = await fetchHtml(url);
+
+  // Convert HTML to markdown
+  return htmlToMarkdown(html);
+}
+
+/**
+ * Chunk a spreadsheet's rows following the column mapping
+ */
+function extractSpreadsheet(buffer: Buffer, assetType: 'csv' | 'xlsx', mapping?: SpreadsheetMapping): ExtractedContent {
+  if (!mapping) {
+    throw new IngestError('Choose which columns to use before ingesting a spreadsheet');
+  }
+
+  let tables;
+  try {
+    tables = readSpreadsheet(buffer, assetType);
+  } catch (error) {
+    console.error('Spreadsheet processing error:', error);
+    throw new IngestError(error instanceof SpreadsheetTooLargeError
+      ? error.message
+      : `The uploaded file is not a valid ${assetType.toUpperCase()} file`);
+  }
+
+  const table = mapping.sheet ? tables.find(sheet => sheet.name === mapping.sheet) : tables[0];
+  if (!table) {
+    throw new IngestError(mapping.sheet ? `Sheet "${mapping.sheet}" not found` : 'The workbook has no sheets');
+  }
+
+  const missing = unknownColumns(table, mapping);
+  if (missing.length > 0) {
+    throw new IngestError(`Column${missing.length > 1 ? 's' : ''} not found: ${missing.join(', ')}`);
+  }
+
+  const { markdown, chunks } = spreadsheetToChunks(table, mapping);
+  if (chunks.length === 0) {
+    throw new IngestError('No rows with text found in the chosen columns');
+  }
+
+  return { markdown, chunks };
+}
+
+/**
+ * Convert an uploaded file to markdown
+ *
+ * @param assetType - From `assetTypeForFile`
+ * @param options.mapping - Column mapping, required for spreadsheets
+ */
+export async function extractFile(
+  buffer: Buffer,
+  assetType: IngestAssetType,
+  options: { mapping?: SpreadsheetMapping } = {}
+): Promise<ExtractedContent> {
+  switch (assetType) {
+    case 'pdf':
+      try {
+        console.log(`[INGEST] Converting PDF buffer of size ${buffer.length} bytes`);
+        return await extractTextFromPdf(buffer);
+      } catch (error) {
+        console.error('PDF processing error:', error);
+
+        // Provide more specific error messages
+        let errorMessage = 'Failed to process PDF file';
+        if (error instanceof Error) {
+          if (error.message.includes('Invalid PDF')) {
+            errorMessage = 'The uploaded file is not a valid PDF document';
+          } else if (error.message.includes('password') || error.message.includes('encrypted')) {
+            errorMessage = 'PDF is password protected or encrypted and cannot be processed';
+          } else if (error.message.includes('corrupted')) {
+            errorMessage = 'PDF file appears to be corrupted';
+          } else if (error.message.includes('Failed to load PDF parser')) {
+            errorMessage = 'Server error: PDF processing library unavailable';
+          } else {
+            errorMessage = `PDF processing failed: ${error.message}`;
+          }
+        }
+
+        throw new IngestError(errorMessage);
+      }
+
+    case 'docx':
+      try {
+        console.log(`[INGEST] Converting DOCX buffer of size ${buffer.length} bytes`);
+        return await extractTextFromDocx(buffer);
+      } catch (error) {
+        console.error('DOCX processing error:', error);
+
+        // Provide more specific error messages
+        let errorMessage = 'Failed to process DOCX file';
+        if (error instanceof Error) {
+          if (error.message.includes('Cannot resolve module') || error.message.includes('mammoth')) {
+            errorMessage = 'Server error: DOCX processing library unavailable';
+          } else if (error.message.includes('ZIP signature')) {
+            errorMessage = 'The uploaded file is not a valid DOCX document';
+          } else {
+            errorMessage = `DOCX processing failed: ${error.message}`;
+          }
+        }
+
+        throw new IngestError(errorMessage);
+      }
+
+    case 'md':
+      return { markdown: normalizeMd(buffer.toString('utf-8')).markdown };
+
+    case 'csv':
+    case 'xlsx':
+      return extractSpreadsheet(buffer, assetType, options.mapping);
+
+    case 'transcript':
+      return extractTranscript(buffer.toString('utf-8'));
+
+    default:
+      throw new IngestError('Unsupported file type. Please use PDF, DOCX, TXT, MD, CSV, XLSX, SRT or VTT files.');
+  }
+}
@@ -0,0 +1,689 @@
+/**
+ * Ingestion Jobs
+ *
+ * Runs ingestion as a persisted job in four stages: extract (source to
+ * markdown), chunk, label (titles and tags via `titleAndTagChunk`) and embed,
+ * which also stores the asset and its chunks. Each stage saves its output on
+ * the job before the next starts, so a failed or interrupted job retries from
+ * the stage that failed rather than from scratch. Labelling and embedding
+ * report progress per batch for the ingestion form to show.
+ *
+ * A job runs in steps of at most INGEST_STEP_MS, so a large file doesn't
+ * outlast one serverless invocation: between stages, and between label and
+ * embedding batches, a step that is out of time requeues the job, and the
+ * next `runIngestJob` carries on from the saved batches. Following the job,
+ * or the scheduled run, starts the next step (see `resumeIngestJobs`).
+ *
+ * Uploaded files are kept in `ingest_uploads` until extraction succeeds.
+ * Spreadsheets (by row) and transcripts (by topic and time) are chunked during
+ * extraction, and spreadsheet rows with a mapped title skip the LLM labeller.
+ */
+
+import { Binary, ObjectId, type Document, type Filter, type WithId } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { chunkMarkdown, type MarkdownChunk } from '@/lib/chunking/byHeadings';
+import { type Asset } from '@/lib/schemas/asset';
+import { type Chunk } from '@/lib/schemas/chunk';
+import {
+  INGEST_STAGES,
+  zIngestJob,
+  type IngestJob,
+  type IngestSource,
+  type IngestStage,
+  type IngestStageName,
+  type SpreadsheetMapping,
+} from '@/lib/schemas/ingestJob';
+import { embedMany, pinProjectEmbeddingModel, resolveEmbeddingModel } from '@/lib/vector/embeddings';
+import { syncLexicalIndex } from '@/lib/retrieval/lexicalIndex';
+import { getLLMProvider } from '@/lib/llm/providers';
+import { titleAndTagChunk } from '@/services/chunkLabeler';
+import { createJSONCaller } from '@/services/providers/llmCaller';
+import { contentHash, extractFile, extractText, extractUrl, type ExtractedContent, type IngestAssetType } from './extract';
+
+const JOBS_COLLECTION = 'ingest_jobs';
+const UPLOADS_COLLECTION = 'ingest_uploads';
+const EMBEDDINGS_COLLECTION = 'ingest_embeddings'; // Embedded batches of an unfinished embed stage
+
+const LABEL_BATCH_SIZE = 5; // Chunks labelled concurrently between progress updates
+const EMBED_BATCH_SIZE = 100;
+const INGEST_STEP_MS = 3 * 60 * 1000; // Batches are started within this long of a step starting
+const RESUMED_JOBS_PER_RUN = 5; // Jobs carried on per scheduled run
+const QUEUED_GRACE_MS = 10 * 1000; // A queued job is left this long to the request that queued it
+export const STALE_JOB_MS = 5 * 60 * 1000; // A running job silent this long was interrupted
+
+interface ChunkLabelResult {
+  title: string;
+  tags?: string[];
+  confidence?: number;
+}
+
+/**
+ * Stage outputs kept on the job for the stages after them
+ */
+interface IngestJobWork {
+  markdown?: string;
+  extractedTitle?: string;
+  hash?: string;
+  assetId?: string;
+  chunks?: MarkdownChunk[];
+  labels?: ChunkLabelResult[]; // By chunk index
+}
+
+type StoredIngestJob = IngestJob & { work?: IngestJobWork };
+
+interface IngestUpload {
+  _id: string; // Job ID
+  data: Binary;
+  createdAt: Date;
+}
+
+interface IngestEmbeddingBatch {
+  _id: string; // Job ID and first chunk index
+  jobId: string;
+  start: number; // Index of the batch's first chunk
+  model: string; // provider/model, so a changed project model starts over
+  vectors: number[][];
+}
+
+type IngestProject = WithId<Document>;
+
+interface StageContext {
+  job: StoredIngestJob;
+  project: IngestProject;
+  progress(done: number, total?: number): Promise<void>;
+  saveWork(work: IngestJobWork): Promise<void>;
+  outOfTime(): boolean; // The step should stop after the batch in hand
+}
+
+/**
+ * What a stage produced: nothing more to record, a warning, the job's final
+ * result (which skips the remaining stages), or a pause when the step ran out
+ * of time before the stage finished
+ */
+type StageOutcome = void | { warning?: string; result?: IngestJob['result']; paused?: boolean };
+
+/**
+ * The job as clients see it, without stage outputs
+ */
+function publicJob(job: StoredIngestJob): IngestJob {
+  return zIngestJob.parse(job); // Drops `work`
+}
+
+function initialStages(): IngestStage[] {
+  return INGEST_STAGES.map(name => ({ name, status: 'pending', done: 0, attempts: 0 }));
+}
+
+/**
+ * Whether a job marked running has stopped reporting progress
+ */
+export function isIngestJobStale(job: Pick<IngestJob, 'status' | 'updatedAt'>, now = Date.now()): boolean {
+  return job.status === 'running' && now - new Date(job.updatedAt).getTime() > STALE_JOB_MS;
+}
+
+/**
+ * Jobs waiting for their next step: queued, or interrupted mid-step
+ */
+function waitingJobs(now = Date.now()): Filter<StoredIngestJob> {
+  return {
+    $or: [
+      { status: 'queued' },
+      { status: 'running', updatedAt: { $lt: new Date(now - STALE_JOB_MS) } },
+    ],
+  };
+}
+
+/**
+ * Whether a job is waiting for someone to run its next step: queued for a
+ * while (a new job's first step runs straight away), or interrupted
+ */
+export function isIngestJobWaiting(job: Pick<IngestJob, 'status' | 'updatedAt'>, now = Date.now()): boolean {
+  return (job.status === 'queued' && now - new Date(job.updatedAt).getTime() > QUEUED_GRACE_MS)
+    || isIngestJobStale(job, now);
+}
+
+/**
+ * Queue an ingestion job. Call `runIngestJob` to process it.
+ *
+ * @param file - Contents of an uploaded file, for `file` sources
+ * @param mapping - Column mapping, for spreadsheet files
+ * @param extracted - Content the caller already extracted (e.g. a crawled
+ *   page), which completes the extract stage up front
+ */
+export async function createIngestJob({
+  projectId,
+  userId,
+  source,
+  assetType,
+  title,
+  crawlId,
+  file,
+  mapping,
+  extracted
+}: {
+  projectId: string;
+  userId: string;
+  source: IngestSource;
+  assetType: IngestAssetType;
+  title?: string;
+  crawlId?: string;
+  file?: Buffer;
+  mapping?: SpreadsheetMapping;
+  extracted?: ExtractedContent;
+}): Promise<IngestJob> {
+  const now = new Date();
+  const stages = initialStages();
+
+  if (extracted) {
+    stages[0] = { ...stages[0], status: 'completed', done: 1, total: 1, attempts: 1, startedAt: now, completedAt: now };
+  }
+
+  const job: StoredIngestJob = {
+    _id: new ObjectId().toString(),
+    projectId,
+    userId,
+    status: 'queued',
+    source,
+    assetType,
+    ...(title ? { title } : {}),
+    ...(crawlId ? { crawlId } : {}),
+    ...(mapping ? { mapping } : {}),
+    stages,
+    ...(extracted
+      ? {
+        work: {
+          markdown: extracted.markdown,
+          ...(extracted.title ? { extractedTitle: extracted.title } : {}),
+          hash: contentHash(extracted.markdown),
+          ...(extracted.chunks ? { chunks: extracted.chunks } : {}),
+        },
+      }
+      : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (file) {
+    const uploads = await getColl<IngestUpload>(UPLOADS_COLLECTION);
+    await uploads.insertOne({ _id: job._id, data: new Binary(file), createdAt: now });
+  }
+
+  const jobs = await getColl<StoredIngestJob>(JOBS_COLLECTION);
+  await jobs.insertOne(job);
+
+  return publicJob(job);
+}
+
+/**
+ * Load a job the user owns
+ */
+export async function getIngestJob(jobId: string, userId: string): Promise<IngestJob | null> {
+  const jobs = await getColl<StoredIngestJob>(JOBS_COLLECTION);
+  const job = await jobs.findOne({ _id: jobId, userId }, { projection: { work: 0 } });
+  return job ? publicJob(job) : null;
+}
+
+/**
+ * A project's most recent jobs, newest first
+ */
+export async function listIngestJobs(projectId: string, userId: string, limit = 20): Promise<IngestJob[]> {
+  const jobs = await getColl<StoredIngestJob>(JOBS_COLLECTION);
+  const found = await jobs
+    .find({ projectId, userId }, { projection: { work: 0 } })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+  return found.map(publicJob);
+}
+
+/**
+ * Requeue a failed or interrupted job from the stage it stopped at
+ *
+ * @returns The requeued job, or null when the job doesn't exist or can't be retried
+ */
+export async function retryIngestJob(jobId: string, userId: string): Promise<IngestJob | null> {
+  const jobs = await getColl<StoredIngestJob>(JOBS_COLLECTION);
+  const job = await jobs.findOne({ _id: jobId, userId }, { projection: { work: 0 } });
+
+  if (!job || !(job.status === 'failed' || isIngestJobStale(job))) {
+    return null;
+  }
+
+  // Failed stages, and the stage an interrupted run was in, start over
+  const restart = job.stages
+    .map((stage, index) => ({ stage, index }))
+    .filter(({ stage }) => stage.status === 'failed' || stage.status === 'running')
+    .map(({ index }) => index);
+
+  // Only requeue the job in the state we read, in case another retry got there first
+  const requeued = await jobs.findOneAndUpdate(
+    { _id: jobId, userId, status: job.status, updatedAt: job.updatedAt },
+    {
+      $set: {
+        status: 'queued',
+        ...Object.fromEntries(restart.map(index => [`stages.${index}.status`, 'pending'])),
+        updatedAt: new Date(),
+      },
+      $unset: {
+        error: '',
+        ...Object.fromEntries(restart.map(index => [`stages.${index}.error`, ''])),
+      },
+    },
+    { returnDocument: 'after', projection: { work: 0 } }
+  );
+
+  return requeued ? publicJob(requeued) : null;
+}
+
+/**
+ * Run a step of a queued or interrupted job through its remaining stages
+ *
+ * A stage that throws marks the job and the stage failed, with the error. A
+ * step always makes progress: it stops for time only after its first stage
+ * or batch.
+ *
+ * @param stepMs - How long to keep starting stages and batches before
+ *   requeueing the job
+ * @returns The job after the step, or null when it wasn't waiting for one
+ */
+export async function runIngestJob(jobId: string, stepMs = INGEST_STEP_MS): Promise<IngestJob | null> {
+  const jobs = await getColl<StoredIngestJob>(JOBS_COLLECTION);
+
+  // Claim the job so two runners never process it at once
+  const claimedAt = Date.now();
+  const claimed = await jobs.findOneAndUpdate(
+    { _id: jobId, ...waitingJobs(claimedAt) },
+    { $set: { status: 'running', updatedAt: new Date(claimedAt) } },
+    { returnDocument: 'after' }
+  );
+
+  if (!claimed) {
+    return null;
+  }
+
+  const job: StoredIngestJob = { ...claimed, work: claimed.work ?? {} };
+
+  const outOfTime = () => Date.now() - claimedAt >= stepMs;
+  let ranStage = false;
+
+  // Out of time: the next step carries on from the stage's saved work
+  const pause = async (stageIndex: number) => {
+    await jobs.updateOne({ _id: jobId }, {
+      $set: { status: 'queued', [`stages.${stageIndex}.status`]: 'pending', updatedAt: new Date() },
+    });
+    return getIngestJob(jobId, job.userId);
+  };
+
+  const fail = async (message: string, stageIndex?: number) => {
+    const now = new Date();
+    await jobs.updateOne({ _id: jobId }, {
+      $set: {
+        status: 'failed',
+        error: message,
+        updatedAt: now,
+        ...(stageIndex !== undefined
+          ? { [`stages.${stageIndex}.status`]: 'failed', [`stages.${stageIndex}.error`]: message }
+          : {}),
+      },
+    });
+  };
+
+  const projects = await getColl('projects');
+  const project = ObjectId.isValid(job.projectId)
+    ? await projects.findOne({ _id: new ObjectId(job.projectId), userId: job.userId }) as IngestProject | null
+    : null;
+
+  if (!project) {
+    await fail('Project not found or access denied');
+    return getIngestJob(jobId, job.userId);
+  }
+
+  for (let index = 0; index < job.stages.length; index++) {
+    const stage = job.stages[index];
+    if (stage.status === 'completed' || stage.status === 'skipped') continue;
+
+    if (ranStage && outOfTime()) {
+      return pause(index);
+    }
+    ranStage = true;
+
+    const startedAt = new Date();
+    await jobs.updateOne({ _id: jobId }, {
+      $set: {
+        [`stages.${index}.status`]: 'running',
+        [`stages.${index}.startedAt`]: startedAt,
+        updatedAt: startedAt,
+      },
+      $inc: { [`stages.${index}.attempts`]: 1 },
+      $unset: { [`stages.${index}.error`]: '' },
+    });
+
+    const context: StageContext = {
+      job,
+      project,
+      async progress(done, total) {
+        await jobs.updateOne({ _id: jobId }, {
+          $set: {
+            [`stages.${index}.done`]: done,
+            ...(total !== undefined ? { [`stages.${index}.total`]: total } : {}),
+            updatedAt: new Date(),
+          },
+        });
+      },
+      async saveWork(work) {
+        job.work = { ...job.work, ...work };
+        await jobs.updateOne({ _id: jobId }, {
+          $set: {
+            ...Object.fromEntries(Object.entries(work)
+              .filter(([, value]) => value !== undefined)
+              .map(([key, value]) => [`work.${key}`, value])),
+            updatedAt: new Date(),
+          },
+        });
+      },
+      outOfTime,
+    };
+
+    let outcome: StageOutcome;
+    try {
+      outcome = await STAGE_HANDLERS[stage.name](context);
+    } catch (error) {
+      console.error(`[INGEST] Job ${jobId} failed at ${stage.name}:`, error);
+      await fail(error instanceof Error ? error.message : `${stage.name} failed`, index);
+      return getIngestJob(jobId, job.userId);
+    }
+
+    if (outcome?.paused) {
+      return pause(index);
+    }
+
+    const completedAt = new Date();
+    await jobs.updateOne({ _id: jobId }, {
+      $set: {
+        [`stages.${index}.status`]: 'completed',
+        [`stages.${index}.completedAt`]: completedAt,
+        ...(outcome?.warning ? { [`stages.${index}.warning`]: outcome.warning } : {}),
+        updatedAt: completedAt,
+      },
+    });
+
+    if (outcome?.result) {
+      await jobs.updateOne({ _id: jobId }, {
+        $set: {
+          status: 'completed',
+          result: outcome.result,
+          ...Object.fromEntries(
+            job.stages.slice(index + 1).map((_, offset) => [`stages.${index + 1 + offset}.status`, 'skipped'])
+          ),
+          updatedAt: new Date(),
+        },
+        // Stage outputs are only needed for retries
+        $unset: { work: '' },
+      });
+      return getIngestJob(jobId, job.userId);
+    }
+  }
+
+  // Every stage was already done, e.g. a retry after the final write
+  await jobs.updateOne({ _id: jobId }, { $set: { status: 'completed', updatedAt: new Date() } });
+  return getIngestJob(jobId, job.userId);
+}
+
+/**
+ * Run the next step of jobs nobody is following, oldest first: those left
+ * queued between steps, and those interrupted mid-step
+ *
+ * Jobs of a crawl are left to the crawl, which runs them in order.
+ *
+ * @param deadline - Time (ms since the epoch) after which no new batch is started
+ * @returns IDs of the jobs that ran a step
+ */
+export async function resumeIngestJobs(deadline: number, limit = RESUMED_JOBS_PER_RUN): Promise<string[]> {
+  const jobs = await getColl<StoredIngestJob>(JOBS_COLLECTION);
+  const waiting = await jobs
+    .find({ ...waitingJobs(), crawlId: { $exists: false } }, { projection: { work: 0 } })
+    .sort({ updatedAt: 1 })
+    .limit(limit)
+    .toArray();
+
+  const resumed: string[] = [];
+  for (const job of waiting) {
+    const stepMs = Math.min(deadline - Date.now(), INGEST_STEP_MS);
+    if (stepMs <= 0) break;
+
+    if (await runIngestJob(job._id, stepMs)) {
+      resumed.push(job._id);
+    }
+  }
+
+  return resumed;
+}
+
+/**
+ * Convert the source to markdown, and to chunks for spreadsheets and transcripts
+ */
+async function extractStage({ job, progress, saveWork }: StageContext): Promise<StageOutcome> {
+  await progress(0, 1);
+
+  let extracted;
+  if (job.source.type === 'text') {
+    extracted = extractText(job.source.value, job.assetType === 'html' || job.assetType === 'transcript' ? job.assetType : 'md');
+  } else if (job.source.type === 'url') {
+    extracted = await extractUrl(job.source.value);
+  } else {
+    const uploads = await getColl<IngestUpload>(UPLOADS_COLLECTION);
+    const upload = await uploads.findOne({ _id: job._id });
+    if (!upload) {
+      throw new Error('Uploaded file is no longer available, please upload it again');
+    }
+    console.log(`[INGEST] Processing file: ${job.source.name} (${(job.source.size / 1024).toFixed(2)}KB)`);
+    extracted = await extractFile(Buffer.from(upload.data.buffer), job.assetType, { mapping: job.mapping });
+  }
+
+  // Generate content hash for deduplication
+  const hash = contentHash(extracted.markdown);
+
+  await saveWork({ markdown: extracted.markdown, extractedTitle: extracted.title, hash, chunks: extracted.chunks });
+  await progress(1, 1);
+
+  if (job.source.type === 'file') {
+    const uploads = await getColl<IngestUpload>(UPLOADS_COLLECTION);
+    await uploads.deleteOne({ _id: job._id });
+  }
+}
+
+/**
+ * Split the markdown by headings, unless the project already has this content
+ * or extraction already chunked it
+ */
+async function chunkStage({ job, progress, saveWork }: StageContext): Promise<StageOutcome> {
+  const { markdown = '', hash } = job.work ?? {};
+
+  // Check if asset with same hash already exists in project
+  const assetsColl = await getColl<Asset>('assets');
+  const existingAsset = await assetsColl.findOne({ projectId: job.projectId, hash });
+
+  if (existingAsset) {
+    const chunksColl = await getColl<Chunk>('chunks');
+    const chunkCount = await chunksColl.countDocuments({ projectId: job.projectId, assetId: existingAsset._id });
+    return { result: { assetId: existingAsset._id, chunkCount, duplicate: true } };
+  }
+
+  const chunks = job.work?.chunks ?? chunkMarkdown(markdown);
+  console.log(`[INGEST] Processing ${chunks.length} chunks for project ${job.projectId}`);
+
+  await saveWork({ chunks, assetId: job.work?.assetId ?? new ObjectId().toString(), labels: [] });
+  await progress(chunks.length, chunks.length);
+}
+
+function assetTitle(job: StoredIngestJob): string {
+  return job.title || job.work?.extractedTitle || 'Untitled Document';
+}
+
+/**
+ * Title and tag each chunk, resuming after the last saved batch
+ *
+ * Chunks that come with a title keep it and its tags; tags that come without
+ * a title are added to the generated ones.
+ */
+async function labelStage({ job, project, progress, saveWork, outOfTime }: StageContext): Promise<StageOutcome> {
+  const chunks = job.work?.chunks ?? [];
+  const labels = [...(job.work?.labels ?? [])];
+
+  // Get existing chunk titles for uniqueness enforcement
+  const chunksColl = await getColl<Chunk>('chunks');
+  const existingChunks = await chunksColl.find({ projectId: job.projectId }).toArray();
+  const existingTitles = new Set([
+    ...existingChunks.map(c => c.title).filter((title): title is string => Boolean(title)),
+    ...labels.map(label => label.title),
+  ]);
+
+  const callModel = createJSONCaller(getLLMProvider(project.llm));
+  await progress(labels.length, chunks.length);
+
+  for (let start = labels.length; start < chunks.length; start += LABEL_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + LABEL_BATCH_SIZE);
+
+    const batchLabels = await Promise.all(batch.map(async (chunk): Promise<ChunkLabelResult> => {
+      if (chunk.title) {
+        existingTitles.add(chunk.title);
+        return { title: chunk.title, tags: chunk.tags };
+      }
+
+      try {
+        const labelResult = await titleAndTagChunk(chunk.md_text, {
+          callModel,
+          existingTitles: Array.from(existingTitles),
+          contextHint: assetTitle(job), // Use asset title as context
+          maxChars: 2000,
+        });
+
+        // Add the new title to the set for subsequent chunks
+        existingTitles.add(labelResult.title);
+        return chunk.tags
+          ? { ...labelResult, tags: Array.from(new Set([...chunk.tags, ...(labelResult.tags ?? [])])) }
+          : labelResult;
+      } catch (error) {
+        console.warn(`Failed to generate title/tags for chunk ${chunk.chunkId}:`, error);
+        // Fallback to using the first heading or section
+        return { title: chunk.meta?.hpath?.[0] || chunk.section || 'Untitled Chunk', tags: chunk.tags };
+      }
+    }));
+
+    labels.push(...batchLabels);
+    await saveWork({ labels });
+    await progress(labels.length, chunks.length);
+
+    if (labels.length < chunks.length && outOfTime()) {
+      return { paused: true };
+    }
+  }
+}
+
+/**
+ * Embed the chunks, then store the asset and chunks
+ *
+ * Each embedded batch is saved in `ingest_embeddings` (vectors would outgrow
+ * the job document), so a step that runs out of time resumes after the last
+ * one. Embedding failures don't fail the job: the chunks are stored without
+ * vectors, as `/api/index` can embed them later.
+ */
+async function embedStage({ job, project, progress, outOfTime }: StageContext): Promise<StageOutcome> {
+  const { chunks: markdownChunks = [], labels = [], markdown, hash } = job.work ?? {};
+  const assetId = job.work?.assetId ?? new ObjectId().toString();
+  const embeddingModel = resolveEmbeddingModel(project.embedding);
+  const model = `${embeddingModel.provider}/${embeddingModel.model}`;
+
+  const batchesColl = await getColl<IngestEmbeddingBatch>(EMBEDDINGS_COLLECTION);
+  const saved = await batchesColl.find({ jobId: job._id, model }).sort({ start: 1 }).toArray();
+
+  let embeddings: number[][] = saved.flatMap(batch => batch.vectors);
+  let warning: string | undefined;
+  await progress(embeddings.length, markdownChunks.length);
+
+  try {
+    console.log(`[INGEST] Generating ${model} embeddings for ${markdownChunks.length - embeddings.length} chunks...`);
+    for (let i = embeddings.length; i < markdownChunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = markdownChunks.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await embedMany(batch.map(chunk => chunk.md_text), embeddingModel);
+      await batchesColl.replaceOne(
+        { _id: `${job._id}:${i}` },
+        { jobId: job._id, start: i, model, vectors },
+        { upsert: true }
+      );
+      embeddings.push(...vectors);
+      await progress(embeddings.length, markdownChunks.length);
+
+      if (embeddings.length < markdownChunks.length && outOfTime()) {
+        return { paused: true };
+      }
+    }
+    console.log(`[INGEST] Successfully generated ${embeddings.length} embeddings`);
+  } catch (error) {
+    console.warn('[INGEST] Failed to generate embeddings, proceeding without them:', error);
+    // Continue without embeddings rather than failing the entire ingestion
+    embeddings = [];
+    warning = `Stored without embeddings: ${error instanceof Error ? error.message : 'embedding failed'}`;
+  }
+
+  const now = new Date();
+  const asset: Asset = {
+    _id: assetId,
+    projectId: job.projectId,
+    type: job.assetType,
+    title: assetTitle(job),
+    ...(job.source.type === 'url' ? { sourceUrl: job.source.value } : {}),
+    ...(job.crawlId ? { crawlId: job.crawlId } : {}),
+    parsed_md: markdown,
+    hash: hash ?? '',
+    createdAt: now,
+  };
+
+  const chunks: Chunk[] = markdownChunks.map((chunk, index) => ({
+    _id: new ObjectId().toString(),
+    projectId: job.projectId,
+    assetId,
+    chunkId: chunk.chunkId,
+    userId: job.userId, // Add userId to chunk for proper access control
+    md_text: chunk.md_text,
+    tokens: chunk.tokens,
+    section: chunk.section,
+    meta: chunk.meta,
+    vector: embeddings.length > 0, // Set to true if we have embeddings
+    embedding: embeddings[index] || undefined, // Store the embedding vector
+    embedding_model: embeddings[index]
+      ? { ...embeddingModel, dimensions: embeddings[index].length }
+      : undefined,
+    title: labels[index]?.title,
+    tags: labels[index]?.tags,
+    confidence: labels[index]?.confidence,
+    createdAt: now,
+  }));
+
+  // MongoDB transactions require replica sets, so the writes are made
+  // repeatable instead: a retry replaces whatever a failed attempt stored
+  const assetsColl = await getColl<Asset>('assets');
+  const chunksColl = await getColl<Chunk>('chunks');
+
+  await assetsColl.replaceOne({ _id: assetId }, asset, { upsert: true });
+  await chunksColl.deleteMany({ projectId: job.projectId, assetId });
+
+  if (chunks.length > 0) {
+    await chunksColl.insertMany(chunks);
+    syncLexicalIndex(job.projectId, chunks);
+  }
+
+  if (embeddings.length > 0) {
+    await pinProjectEmbeddingModel(job.projectId, { ...embeddingModel, dimensions: embeddings[0].length });
+  }
+
+  await batchesColl.deleteMany({ jobId: job._id });
+
+  return { warning, result: { assetId, chunkCount: chunks.length, duplicate: false } };
+}
+
+const STAGE_HANDLERS: Record<IngestStageName, (context: StageContext) => Promise<StageOutcome>> = {
+  extract: extractStage,
+  chunk: chunkStage,
+  label: labelStage,
+  embed: embedStage,
+};
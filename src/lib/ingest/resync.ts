@@ -0,0 +1,319 @@
+/**
+ * Asset Re-sync
+ *
+ * Refetches a URL asset and, when the content hash changed, re-chunks the page
+ * and diffs the new chunks against the stored ones by their text. Chunks whose
+ * text is unchanged are kept as they are, with their IDs, labels and
+ * embeddings. The others are removed, the new chunks are labelled and
+ * embedded, and drafts generated from a removed chunk are flagged with
+ * `stale_context`.
+ *
+ * Assets with a `resyncInterval` are re-synced by `resyncDueAssets`, which
+ * the scheduled re-sync route calls.
+ */
+
+import { ObjectId, type Document, type WithId } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { chunkMarkdown, type MarkdownChunk } from '@/lib/chunking/byHeadings';
+import { type Asset, type AssetSync } from '@/lib/schemas/asset';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { type Draft } from '@/lib/schemas/draft';
+import { embedMany, pinProjectEmbeddingModel, resolveEmbeddingModel } from '@/lib/vector/embeddings';
+import { removeFromLexicalIndex, syncLexicalIndex } from '@/lib/retrieval/lexicalIndex';
+import { getLLMProvider } from '@/lib/llm/providers';
+import { titleAndTagChunk } from '@/services/chunkLabeler';
+import { createJSONCaller } from '@/services/providers/llmCaller';
+import { contentHash, extractUrl, IngestError } from './extract';
+
+const LABEL_BATCH_SIZE = 5;
+const EMBED_BATCH_SIZE = 100;
+const SCHEDULED_RESYNC_LIMIT = 20; // Assets re-synced per scheduled run
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const RESYNC_INTERVAL_MS: Record<NonNullable<Asset['resyncInterval']>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface ChunkDiff {
+  unchanged: Chunk[]; // Stored chunks whose text is still on the page
+  added: MarkdownChunk[]; // New chunks to store
+  removed: Chunk[]; // Stored chunks whose text is gone
+}
+
+/**
+ * Chunk text as compared, ignoring whitespace differences
+ */
+function comparableText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Match new chunks to stored ones with the same text
+ *
+ * A chunk whose text changed at all counts as removed and added.
+ */
+export function diffChunks(existing: Chunk[], next: MarkdownChunk[]): ChunkDiff {
+  const byText = new Map<string, Chunk[]>();
+  existing.forEach(chunk => {
+    const key = comparableText(chunk.md_text);
+    byText.set(key, [...(byText.get(key) ?? []), chunk]);
+  });
+
+  const unchanged: Chunk[] = [];
+  const added: MarkdownChunk[] = [];
+
+  next.forEach(chunk => {
+    // Each stored chunk matches at most one new chunk
+    const match = byText.get(comparableText(chunk.md_text))?.shift();
+    if (match) {
+      unchanged.push(match);
+    } else {
+      added.push(chunk);
+    }
+  });
+
+  const kept = new Set(unchanged.map(chunk => chunk._id));
+  return { unchanged, added, removed: existing.filter(chunk => !kept.has(chunk._id)) };
+}
+
+/**
+ * Title and tag new chunks, falling back to their heading when labelling fails
+ */
+async function labelChunks(
+  chunks: MarkdownChunk[],
+  project: WithId<Document>,
+  existingTitles: Set<string>,
+  contextHint: string
+): Promise<Array<{ title: string; tags?: string[]; confidence?: number }>> {
+  const callModel = createJSONCaller(getLLMProvider(project.llm));
+  const labels = [];
+
+  for (let start = 0; start < chunks.length; start += LABEL_BATCH_SIZE) {
+    labels.push(...await Promise.all(chunks.slice(start, start + LABEL_BATCH_SIZE).map(async chunk => {
+      try {
+        const label = await titleAndTagChunk(chunk.md_text, {
+          callModel,
+          existingTitles: Array.from(existingTitles),
+          contextHint,
+          maxChars: 2000,
+        });
+        existingTitles.add(label.title);
+        return label;
+      } catch (error) {
+        console.warn(`Failed to generate title/tags for chunk ${chunk.chunkId}:`, error);
+        return { title: chunk.meta?.hpath?.[0] || chunk.section || 'Untitled Chunk' };
+      }
+    })));
+  }
+
+  return labels;
+}
+
+/**
+ * Flag drafts whose context includes removed chunks
+ *
+ * @returns How many drafts were flagged
+ */
+async function flagStaleDrafts(projectId: string, removed: Chunk[]): Promise<number> {
+  if (removed.length === 0) return 0;
+
+  // Drafts record either chunkIds or chunk _ids
+  const removedIds = new Set(removed.flatMap(chunk => [chunk.chunkId, chunk._id]));
+  const draftsColl = await getColl<Draft>('drafts');
+  const drafts = await draftsColl
+    .find({ projectId, context_chunk_ids: { $in: Array.from(removedIds) } }, { projection: { context_chunk_ids: 1 } })
+    .toArray();
+
+  const flaggedAt = new Date();
+  await Promise.all(drafts.map(draft => draftsColl.updateOne({ _id: draft._id }, {
+    $addToSet: { 'stale_context.chunk_ids': { $each: draft.context_chunk_ids.filter(id => removedIds.has(id)) } },
+    $set: { 'stale_context.flaggedAt': flaggedAt },
+  })));
+
+  return drafts.length;
+}
+
+/**
+ * Refetch a URL asset and bring its chunks up to date
+ *
+ * The outcome is also saved on the asset as `lastSync`. Fetch failures are
+ * recorded and rethrown as `IngestError`.
+ *
+ * @returns The outcome, or null when the asset doesn't exist
+ */
+export async function resyncAsset(projectId: string, assetId: string): Promise<AssetSync | null> {
+  const assetsColl = await getColl<Asset>('assets');
+  const asset = await assetsColl.findOne({ _id: assetId, projectId });
+
+  if (!asset) {
+    return null;
+  }
+
+  if (!asset.sourceUrl) {
+    throw new IngestError('Only assets ingested from a URL can be re-synced');
+  }
+
+  const now = new Date();
+  const record = async (sync: AssetSync) => {
+    await assetsColl.updateOne({ _id: assetId, projectId }, {
+      $set: {
+        lastSync: sync,
+        ...(sync.status !== 'failed' ? { syncedAt: sync.at } : {}),
+      },
+    });
+    return sync;
+  };
+
+  let markdown: string;
+  try {
+    ({ markdown } = await extractUrl(asset.sourceUrl));
+  } catch (error) {
+    await record({
+      status: 'failed',
+      at: now,
+      unchanged: 0,
+      added: 0,
+      removed: 0,
+      flaggedDrafts: 0,
+      error: error instanceof Error ? error.message : 'Failed to fetch URL',
+    });
+    throw error;
+  }
+
+  const hash = contentHash(markdown);
+  const chunksColl = await getColl<Chunk>('chunks');
+
+  if (hash === asset.hash) {
+    const chunkCount = await chunksColl.countDocuments({ projectId, assetId });
+    return record({ status: 'unchanged', at: now, unchanged: chunkCount, added: 0, removed: 0, flaggedDrafts: 0 });
+  }
+
+  const projectsColl = await getColl('projects');
+  const project = await projectsColl.findOne({ _id: new ObjectId(projectId) });
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  const existing = await chunksColl.find({ projectId, assetId }).toArray();
+  const diff = diffChunks(existing, chunkMarkdown(markdown));
+  console.log(`[RESYNC] Asset ${assetId}: ${diff.unchanged.length} unchanged, ${diff.added.length} added, ${diff.removed.length} removed`);
+
+  // Titles stay unique among the chunks that remain
+  const removedIds = new Set(diff.removed.map(chunk => chunk._id));
+  const projectChunks = await chunksColl.find({ projectId }, { projection: { title: 1 } }).toArray();
+  const existingTitles = new Set(projectChunks
+    .filter(chunk => !removedIds.has(chunk._id))
+    .map(chunk => chunk.title)
+    .filter((title): title is string => Boolean(title)));
+
+  const labels = await labelChunks(diff.added, project, existingTitles, asset.title);
+
+  const embeddingModel = resolveEmbeddingModel(project.embedding);
+  let embeddings: number[][] = [];
+  let warning: string | undefined;
+  try {
+    for (let i = 0; i < diff.added.length; i += EMBED_BATCH_SIZE) {
+      const batch = diff.added.slice(i, i + EMBED_BATCH_SIZE);
+      embeddings.push(...await embedMany(batch.map(chunk => chunk.md_text), embeddingModel));
+    }
+  } catch (error) {
+    console.warn('[RESYNC] Failed to generate embeddings, proceeding without them:', error);
+    embeddings = [];
+    warning = `New chunks stored without embeddings: ${error instanceof Error ? error.message : 'embedding failed'}`;
+  }
+
+  const added: Chunk[] = diff.added.map((chunk, index) => ({
+    _id: new ObjectId().toString(),
+    projectId,
+    assetId,
+    chunkId: chunk.chunkId,
+    userId: project.userId,
+    md_text: chunk.md_text,
+    tokens: chunk.tokens,
+    section: chunk.section,
+    meta: chunk.meta,
+    vector: embeddings.length > 0,
+    embedding: embeddings[index] || undefined,
+    embedding_model: embeddings[index]
+      ? { ...embeddingModel, dimensions: embeddings[index].length }
+      : undefined,
+    title: labels[index]?.title,
+    tags: labels[index]?.tags,
+    confidence: labels[index]?.confidence,
+    createdAt: now,
+  }));
+
+  if (added.length > 0) {
+    await chunksColl.insertMany(added);
+    syncLexicalIndex(projectId, added);
+  }
+
+  if (diff.removed.length > 0) {
+    await chunksColl.deleteMany({ projectId, _id: { $in: Array.from(removedIds) } });
+    removeFromLexicalIndex(projectId, { chunkIds: diff.removed.map(chunk => chunk.chunkId) });
+  }
+
+  if (embeddings.length > 0) {
+    await pinProjectEmbeddingModel(projectId, { ...embeddingModel, dimensions: embeddings[0].length });
+  }
+
+  await assetsColl.updateOne({ _id: assetId, projectId }, { $set: { parsed_md: markdown, hash } });
+
+  const flaggedDrafts = await flagStaleDrafts(projectId, diff.removed);
+
+  return record({
+    status: 'updated',
+    at: now,
+    unchanged: diff.unchanged.length,
+    added: added.length,
+    removed: diff.removed.length,
+    flaggedDrafts,
+    ...(warning ? { warning } : {}),
+  });
+}
+
+/**
+ * Re-sync the assets whose `resyncInterval` has elapsed since their last
+ * attempt, oldest first
+ *
+ * @returns The outcome per asset
+ */
+export async function resyncDueAssets(
+  now = new Date(),
+  limit = SCHEDULED_RESYNC_LIMIT
+): Promise<Array<{ assetId: string; projectId: string; sync: AssetSync | null }>> {
+  const assetsColl = await getColl<Asset>('assets');
+
+  const due = await assetsColl
+    .find({
+      sourceUrl: { $exists: true },
+      $or: Object.entries(RESYNC_INTERVAL_MS).map(([interval, ms]) => {
+        const cutoff = new Date(now.getTime() - ms);
+        return {
+          resyncInterval: interval as Asset['resyncInterval'],
+          $or: [
+            { 'lastSync.at': { $lte: cutoff } },
+            { lastSync: { $exists: false }, createdAt: { $lte: cutoff } },
+          ],
+        };
+      }),
+    }, { projection: { _id: 1, projectId: 1 } })
+    .sort({ 'lastSync.at': 1, createdAt: 1 })
+    .limit(limit)
+    .toArray();
+
+  const results = [];
+  for (const asset of due) {
+    try {
+      results.push({ assetId: asset._id, projectId: asset.projectId, sync: await resyncAsset(asset.projectId, asset._id) });
+    } catch (error) {
+      // Recorded on the asset as a failed sync; move on to the next
+      console.error(`[RESYNC] Scheduled re-sync of asset ${asset._id} failed:`, error);
+      const failed = await assetsColl.findOne({ _id: asset._id }, { projection: { lastSync: 1 } });
+      results.push({ assetId: asset._id, projectId: asset.projectId, sync: failed?.lastSync ?? null });
+    }
+  }
+
+  return results;
+}
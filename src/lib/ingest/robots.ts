@@ -0,0 +1,119 @@
+/**
+ * robots.txt Rules
+ *
+ * Parses the rules a site sets for the ingestion crawler, following RFC 9309:
+ * the groups naming our user agent apply instead of `*`, the longest matching
+ * rule decides and Allow wins a tie. Rule paths may use the `*` and `$`
+ * wildcards.
+ */
+
+export const ROBOTS_USER_AGENT = 'MagicMailer';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+  sitemaps: string[]; // Sitemap URLs listed in the file
+}
+
+/**
+ * Rules for a site without a robots.txt: everything is allowed
+ */
+export const ALLOW_ALL: RobotsRules = { rules: [], sitemaps: [] };
+
+function rulePattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse a robots.txt file, keeping the groups that apply to `userAgent`
+ */
+export function parseRobotsTxt(text: string, userAgent = ROBOTS_USER_AGENT): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (current && (field === 'allow' || field === 'disallow')) {
+      // An empty Disallow allows everything, which is the default anyway
+      if (value) current.rules.push({ allow: field === 'allow', path: value, pattern: rulePattern(value) });
+    } else if (current && field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
+    }
+  }
+
+  const agent = userAgent.toLowerCase();
+  const named = groups.filter(group => group.agents.includes(agent));
+  const applicable = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+  const crawlDelay = applicable.find(group => group.crawlDelay !== undefined)?.crawlDelay;
+
+  return {
+    rules: applicable.flatMap(group => group.rules),
+    ...(crawlDelay !== undefined ? { crawlDelayMs: crawlDelay * 1000 } : {}),
+    sitemaps,
+  };
+}
+
+/**
+ * Whether the rules let the crawler fetch a URL
+ */
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  if (pathname === '/robots.txt') return true;
+
+  const path = `${pathname}${search}`;
+  let decision: RobotsRule | undefined;
+
+  for (const rule of robots.rules) {
+    if (!rule.pattern.test(path)) continue;
+    if (
+      !decision ||
+      rule.path.length > decision.path.length ||
+      (rule.path.length === decision.path.length && rule.allow)
+    ) {
+      decision = rule;
+    }
+  }
+
+  return decision?.allow ?? true;
+}
@@ -0,0 +1,418 @@
+/**
+ * Spreadsheet Parsing
+ *
+ * Reads CSV files and XLSX workbooks into tables, and turns a table into
+ * chunks following a column mapping: one chunk per row, or per group of rows
+ * sharing a value. Every column of a chunk's rows is kept in its `meta`.
+ */
+
+import { estimateTokens } from '@/lib/llm/tokens';
+import { type MarkdownChunk } from '@/lib/chunking/byHeadings';
+import { type SpreadsheetMapping } from '@/lib/schemas/ingestJob';
+import { readZip, ZipTooLargeError } from './zip';
+
+const MAX_GROUP_TOKENS = 800; // Larger groups are split across chunks
+export const MAX_SPREADSHEET_ROWS = 10000; // Rows one spreadsheet ingest may turn into chunks
+const MAX_SPREADSHEET_CELLS = 2000000; // Rows × columns, as every row is filled out to the widest
+const CSV_DELIMITERS = [',', ';', '\t'];
+const MAX_XLSX_ROWS = 1048576; // Excel's own sheet limits
+const MAX_XLSX_COLUMNS = 16384;
+const MAX_XLSX_SIZE = 100 * 1024 * 1024; // Decompressed workbook XML
+
+export interface SheetRow {
+  row: number; // 1-based, as numbered in the spreadsheet
+  values: string[];
+}
+
+export interface SheetTable {
+  name: string;
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export interface SpreadsheetChunks {
+  markdown: string;
+  chunks: MarkdownChunk[];
+}
+
+/**
+ * The spreadsheet is larger than can be read, with a message fit to show the
+ * user
+ */
+export class SpreadsheetTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetTooLargeError';
+  }
+}
+
+/**
+ * Delimiter used in the first line, outside quoted values
+ */
+function detectDelimiter(text: string): string {
+  const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!quoted && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  return CSV_DELIMITERS.reduce((best, delimiter) => counts.get(delimiter)! > counts.get(best)! ? delimiter : best);
+}
+
+/**
+ * Parse CSV (RFC 4180), detecting comma, semicolon or tab delimiters
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Decode XML entities and OOXML `_xHHHH_` escapes
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|quot|apos|amp);/g, (_, entity: string) => {
+      if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+      if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+      return { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }[entity]!;
+    });
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Text of a shared or inline string, skipping phonetic runs
+ */
+function readStringItem(xml: string): string {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(text.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+/**
+ * Zero-based column index of a cell reference such as `AB12`
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function tooManyRows(): SpreadsheetTooLargeError {
+  return new SpreadsheetTooLargeError(
+    `The sheet has more than ${MAX_SPREADSHEET_ROWS} rows; at most ${MAX_SPREADSHEET_ROWS} can be ingested at once. Split it into smaller files.`
+  );
+}
+
+function tooManyCells(): SpreadsheetTooLargeError {
+  return new SpreadsheetTooLargeError(
+    `The sheet has more than ${MAX_SPREADSHEET_CELLS} cells once its rows are filled out to the widest. Remove unused columns or split it into smaller files.`
+  );
+}
+
+/**
+ * Rows of a worksheet that have a value, numbered as in the spreadsheet
+ *
+ * Empty rows are left out rather than padded, and the row and cell limits are
+ * applied as the XML is read, so a sheet with a few far-flung cells can't
+ * make us allocate the whole grid.
+ */
+function readSheetRows(xml: string, sharedStrings: string[]): SheetRow[] {
+  const rows: SheetRow[] = [];
+  let lastRow = 0;
+  let cells = 0;
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(readAttributes(rowMatch[1]).r) || lastRow + 1;
+    if (rowNumber > MAX_XLSX_ROWS) {
+      throw new SpreadsheetTooLargeError(`Sheets can have at most ${MAX_XLSX_ROWS} rows`);
+    }
+    lastRow = rowNumber;
+    const values: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = readAttributes(cellMatch[1]);
+      const body = cellMatch[2] ?? '';
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      const index = attributes.r ? columnIndex(attributes.r) : values.length;
+      if (index >= MAX_XLSX_COLUMNS) {
+        throw new SpreadsheetTooLargeError(`Sheets can have at most ${MAX_XLSX_COLUMNS} columns`);
+      }
+      if (cells + index + 1 > MAX_SPREADSHEET_CELLS) {
+        throw tooManyCells();
+      }
+
+      let value = '';
+      if (attributes.t === 'inlineStr') {
+        value = readStringItem(body);
+      } else if (raw === undefined) {
+        value = '';
+      } else if (attributes.t === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (attributes.t === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        value = decodeXml(raw);
+      }
+
+      while (values.length < index) values.push('');
+      values[index] = value;
+    }
+
+    if (values.every(value => !value.trim())) continue;
+
+    // The header row is read on top of the rows that can be ingested
+    if (rows.length > MAX_SPREADSHEET_ROWS) {
+      throw tooManyRows();
+    }
+    cells += values.length;
+    rows.push({ row: rowNumber, values });
+  }
+
+  return rows;
+}
+
+/**
+ * Read the sheets of an XLSX workbook, in workbook order
+ */
+export function parseXlsx(buffer: Buffer): Array<{ name: string; rows: SheetRow[] }> {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readZip(buffer, name => name.startsWith('xl/'), MAX_XLSX_SIZE);
+  } catch (error) {
+    if (error instanceof ZipTooLargeError) {
+      throw new SpreadsheetTooLargeError(`The workbook is larger than ${MAX_XLSX_SIZE / (1024 * 1024)}MB once decompressed`);
+    }
+    throw error;
+  }
+  const read = (path: string) => entries.get(path)?.toString('utf-8');
+
+  const workbook = read('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not an XLSX workbook');
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of (read('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const { Id, Target } = readAttributes(match[0]);
+    if (Id && Target) {
+      targets.set(Id, Target.startsWith('/') ? Target.slice(1) : `xl/${Target}`);
+    }
+  }
+
+  const sharedStrings = Array.from(
+    (read('xl/sharedStrings.xml') ?? '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g),
+    match => readStringItem(match[1])
+  );
+
+  return Array.from(workbook.matchAll(/<sheet\b[^>]*>/g)).flatMap(match => {
+    const attributes = readAttributes(match[0]);
+    const xml = read(targets.get(attributes['r:id']) ?? '');
+    return xml ? [{ name: attributes.name, rows: readSheetRows(xml, sharedStrings) }] : [];
+  });
+}
+
+/**
+ * Make a table from numbered rows, using the first non-empty row as headers
+ *
+ * Blank headers become `Column N`, repeated ones get a number suffix.
+ *
+ * @throws SpreadsheetTooLargeError past MAX_SPREADSHEET_ROWS data rows, or
+ *   when filling every row out to the widest would pass MAX_SPREADSHEET_CELLS
+ */
+export function toTable(name: string, rows: SheetRow[]): SheetTable {
+  const isBlank = (values: string[]) => values.every(value => !value.trim());
+  const filled = rows.filter(row => !isBlank(row.values));
+
+  if (filled.length === 0) {
+    return { name, headers: [], rows: [] };
+  }
+  if (filled.length - 1 > MAX_SPREADSHEET_ROWS) {
+    throw tooManyRows();
+  }
+
+  // A loop rather than spreading into Math.max, which overflows the stack on long sheets
+  let width = 0;
+  for (const row of filled) {
+    width = Math.max(width, row.values.length);
+  }
+  if (filled.length * width > MAX_SPREADSHEET_CELLS) {
+    throw tooManyCells();
+  }
+
+  const [headerRow, ...dataRows] = filled;
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, index) => {
+    const header = headerRow.values[index]?.trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+
+  return {
+    name,
+    headers,
+    rows: dataRows.map(({ row, values }) => ({
+      row,
+      values: headers.map((_, column) => values[column]?.trim() ?? ''),
+    })),
+  };
+}
+
+/**
+ * Read a CSV file or XLSX workbook into tables, one per sheet
+ */
+export function readSpreadsheet(buffer: Buffer, type: 'csv' | 'xlsx'): SheetTable[] {
+  if (type === 'csv') {
+    const rows = parseCsv(buffer.toString('utf-8')).map((values, index) => ({ row: index + 1, values }));
+    return [toTable('CSV', rows)];
+  }
+  return parseXlsx(buffer).map(sheet => toTable(sheet.name, sheet.rows));
+}
+
+/**
+ * Columns named in the mapping that the table doesn't have
+ */
+export function unknownColumns(table: SheetTable, mapping: SpreadsheetMapping): string[] {
+  const columns = [...mapping.text, ...mapping.tags, mapping.title, mapping.groupBy]
+    .filter((column): column is string => Boolean(column));
+  return Array.from(new Set(columns.filter(column => !table.headers.includes(column))));
+}
+
+function splitTags(value: string): string[] {
+  return value.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Build chunks from a table: one per row, or per run of rows sharing the
+ * `groupBy` value when set
+ *
+ * Chunk text is the mapped text columns (labelled when there are several);
+ * the title and tags columns become the chunk's title and tags.
+ */
+export function spreadsheetToChunks(table: SheetTable, mapping: SpreadsheetMapping): SpreadsheetChunks {
+  const column = (name: string) => table.headers.indexOf(name);
+  const textColumns = mapping.text.map(column);
+  const titleColumn = mapping.title ? column(mapping.title) : -1;
+  const tagColumns = mapping.tags.map(column);
+  const groupColumn = mapping.groupBy ? column(mapping.groupBy) : -1;
+
+  const rowText = (row: SheetRow) => {
+    if (textColumns.length === 1) return row.values[textColumns[0]];
+    return textColumns
+      .filter(index => row.values[index])
+      .map(index => `**${table.headers[index]}**: ${row.values[index]}`)
+      .join('\n');
+  };
+
+  // Rows without any text are left out
+  const rows = table.rows.filter(row => textColumns.some(index => row.values[index]));
+
+  // Groups keep the order in which their first row appears; rows without a
+  // group value stand alone
+  const groups: Array<{ group?: string; parts: SheetRow[][] }> = [];
+  const byValue = new Map<string, SheetRow[][]>();
+  rows.forEach(row => {
+    const group = groupColumn >= 0 ? row.values[groupColumn] : '';
+    if (!group) {
+      groups.push({ parts: [[row]] });
+      return;
+    }
+
+    let parts = byValue.get(group);
+    if (!parts) {
+      parts = [[]];
+      byValue.set(group, parts);
+      groups.push({ group, parts });
+    }
+
+    const current = parts[parts.length - 1];
+    const tokens = estimateTokens([...current, row].map(rowText).join('\n\n'));
+    if (current.length > 0 && tokens > MAX_GROUP_TOKENS) {
+      parts.push([row]);
+    } else {
+      current.push(row);
+    }
+  });
+
+  const chunks: MarkdownChunk[] = [];
+  groups.forEach(({ group, parts }) => {
+    parts.forEach(partRows => {
+      const body = partRows.map(rowText).join('\n\n');
+      const md_text = group ? `## ${group}\n\n${body}` : body;
+      const title = titleColumn >= 0 ? partRows.map(row => row.values[titleColumn]).find(Boolean) : undefined;
+      const tags = Array.from(new Set(partRows.flatMap(row => tagColumns.flatMap(index => splitTags(row.values[index])))));
+
+      chunks.push({
+        chunkId: `chunk_${Date.now()}_${chunks.length}_${Math.random().toString(36).substr(2, 9)}`,
+        md_text,
+        tokens: estimateTokens(md_text),
+        section: group,
+        ...(title ? { title } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        meta: {
+          hpath: group ? [group] : [],
+          rows: partRows.map(row => row.row),
+          records: partRows.map(row => Object.fromEntries(table.headers.map((header, index) => [header, row.values[index]]))),
+        },
+      });
+    });
+  });
+
+  return {
+    markdown: chunks.map(chunk => chunk.md_text).join('\n\n'),
+    chunks,
+  };
+}
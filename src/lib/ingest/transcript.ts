@@ -0,0 +1,361 @@
+/**
+ * Transcript Parsing
+ *
+ * Reads SRT and WebVTT captions and timestamped transcripts ("[00:01:23]
+ * Jane: ...", "Jane (01:23): ..." or a "Jane  1:23" line before the text)
+ * into cues, then merges consecutive cues by the same speaker into turns and
+ * segments the turns into chunks. Segments end at topic shifts, found by a
+ * drop in word overlap between neighbouring turns, or when they reach the
+ * time or token limit. Each chunk keeps its time range and speakers in `meta`
+ * so answers can cite the recording.
+ */
+
+import { estimateTokens } from '@/lib/llm/tokens';
+import { tokenize } from '@/lib/text/analyze';
+import { type MarkdownChunk } from '@/lib/chunking/byHeadings';
+
+const MAX_TURN_SECONDS = 60; // Longer turns are split, so segments can end inside them
+const MIN_SEGMENT_SECONDS = 60; // Topic shifts sooner than this don't end a segment
+const MAX_SEGMENT_SECONDS = 300;
+const MAX_SEGMENT_TOKENS = 800;
+const TOPIC_WINDOW_TURNS = 2; // Turns compared on each side of a possible topic shift
+
+const TIMESTAMP = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`;
+const TIMING_LINE = new RegExp(String.raw`^\s*(${TIMESTAMP})\s*-->\s*(${TIMESTAMP})`);
+const LEADING_TIMESTAMP = new RegExp(String.raw`^[\[(]?(${TIMESTAMP})[\])]?\s*(?:[-–—|:]\s*)?(.*)$`);
+const SPEAKER_NAME = String.raw`(?:Speaker\s*\d+|[A-Z][\w.'’-]*(?:\s+[A-Z][\w.'’-]*){0,3})`;
+// "Jane (01:23): ..." or a "Jane  1:23" line before the text
+const SPEAKER_HEADER = new RegExp(
+  String.raw`^(${SPEAKER_NAME})\s*(?:[\[(](${TIMESTAMP})[\])]\s*:?\s*(.*)|\s(${TIMESTAMP}))$`
+);
+const SPEAKER_PREFIX = new RegExp(String.raw`^(${SPEAKER_NAME})\s*:\s*(.*)$`);
+
+// Sound and caption annotations rather than speech
+const NOISE = [
+  /\[[^\]]*\]/g,
+  /♪[^♪\n]*♪/g,
+  /[♪♫]/g,
+  /\((?:[^)]*\b(?:laugh\w*|applause|music|inaudible|crosstalk|silence|cough\w*|sigh\w*|chuckl\w*|background noise|unintelligible)\b[^)]*)\)/gi,
+];
+
+export interface TranscriptCue {
+  start: number; // Seconds
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+export type TranscriptTurn = TranscriptCue;
+
+export interface TranscriptChunks {
+  markdown: string;
+  title?: string;
+  chunks: MarkdownChunk[];
+}
+
+/**
+ * Seconds from `01:02:03,500`, `02:03.5` or `2:03`
+ */
+export function parseTimestamp(value: string): number {
+  const [clock, fraction = ''] = value.split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return fraction ? seconds + Number(`0.${fraction}`) : seconds;
+}
+
+/**
+ * `1:02:03` from an hour on, `02:03` below
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${String(minutes).padStart(2, '0')}:${secs}`;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function stripNoise(text: string): string {
+  return NOISE.reduce((cleaned, pattern) => cleaned.replace(pattern, ' '), text).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split cue lines into speaker turns
+ *
+ * A `Name:` prefix or WebVTT voice tag names the speaker; `>>` or a leading
+ * dash marks a new speaker without naming them. Other lines continue the
+ * current speaker's turn.
+ */
+function readCueText(
+  lines: string[],
+  speaker: string | undefined
+): { pieces: Array<{ speaker?: string; text: string }>; speaker?: string } {
+  const pieces: Array<{ speaker?: string; text: string }> = [];
+
+  lines.forEach(line => {
+    const voice = line.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/)?.[1]?.trim();
+    let text = decodeEntities(line.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '')).trim();
+
+    let changed = Boolean(voice);
+    if (/^(>>|-\s)/.test(text)) {
+      changed = true;
+      text = text.replace(/^(>>|-)\s*/, '');
+    }
+
+    let named = voice;
+    const prefix = text.match(SPEAKER_PREFIX);
+    if (prefix) {
+      named = prefix[1];
+      text = prefix[2];
+    }
+
+    if (named || changed) {
+      speaker = named;
+    }
+
+    text = stripNoise(text);
+    if (!text) return;
+
+    const last = pieces[pieces.length - 1];
+    if (last && last.speaker === speaker && !named && !changed) {
+      last.text += ` ${text}`;
+    } else {
+      pieces.push({ speaker, text });
+    }
+  });
+
+  return { pieces, speaker };
+}
+
+/**
+ * Cues of SRT or WebVTT captions
+ */
+function parseCaptions(text: string): { title?: string; cues: TranscriptCue[] } {
+  const blocks = text.split(/\n\s*\n/);
+  const title = blocks[0].match(/^WEBVTT[ \t-]*(.*)/)?.[1]?.trim() || undefined;
+  const cues: TranscriptCue[] = [];
+  let speaker: string | undefined;
+  let previousLines = new Set<string>();
+
+  blocks.forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) return; // Header, NOTE, STYLE or REGION blocks
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const payload = lines.slice(timingIndex + 1).map(line => line.trim()).filter(Boolean);
+
+    // Rolling captions repeat the previous cue's lines before adding new ones
+    const fresh = payload.filter(line => !previousLines.has(line));
+    previousLines = new Set(payload);
+
+    const read = readCueText(fresh, speaker);
+    speaker = read.speaker;
+    read.pieces.forEach(piece => cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), ...piece }));
+  });
+
+  return { title, cues };
+}
+
+/**
+ * Cues of a transcript with a timestamp at the start of each turn
+ *
+ * Lines before the first timestamp are ignored.
+ */
+function parseTimestampedText(text: string): TranscriptCue[] {
+  const cues: Array<{ start: number; speaker?: string; lines: string[] }> = [];
+
+  text.split('\n').map(line => line.trim()).forEach(line => {
+    if (!line) return;
+
+    const header = line.match(SPEAKER_HEADER);
+    const leading = line.match(LEADING_TIMESTAMP);
+
+    if (header) {
+      cues.push({ start: parseTimestamp(header[2] ?? header[4]), speaker: header[1], lines: header[3] ? [header[3]] : [] });
+    } else if (leading) {
+      cues.push({ start: parseTimestamp(leading[1]), lines: leading[2] ? [leading[2]] : [] });
+    } else if (cues.length > 0) {
+      cues[cues.length - 1].lines.push(line);
+    }
+  });
+
+  const parsed: TranscriptCue[] = [];
+  let speaker: string | undefined;
+
+  cues.forEach((cue, index) => {
+    const end = cues[index + 1]?.start ?? cue.start;
+    const read = readCueText(cue.lines, cue.speaker ?? speaker);
+    speaker = read.speaker;
+    read.pieces.forEach(piece => parsed.push({ start: cue.start, end, ...piece }));
+  });
+
+  return parsed;
+}
+
+/**
+ * Read SRT, WebVTT or timestamped text into cues, in order
+ */
+export function parseTranscript(text: string): { title?: string; cues: TranscriptCue[] } {
+  const input = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  if (input.split('\n').some(line => TIMING_LINE.test(line))) {
+    return parseCaptions(input);
+  }
+  return { cues: parseTimestampedText(input) };
+}
+
+/**
+ * Merge consecutive cues by the same speaker, up to a minute per turn
+ */
+export function mergeTurns(cues: TranscriptCue[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  cues.forEach(cue => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === cue.speaker && cue.start - last.start < MAX_TURN_SECONDS) {
+      last.text += ` ${cue.text}`;
+      last.end = Math.max(last.end, cue.end);
+    } else {
+      turns.push({ ...cue });
+    }
+  });
+
+  return turns;
+}
+
+function termCounts(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((count, term) => {
+    dot += count * (b.get(term) ?? 0);
+  });
+  const norm = (counts: Map<string, number>) => Math.sqrt(Array.from(counts.values()).reduce((sum, count) => sum + count * count, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+/**
+ * Turn indexes where the topic shifts, TextTiling style
+ *
+ * Each gap between turns is scored by the word overlap of the turns either
+ * side of it. Gaps scoring well below the peaks around them are shifts.
+ */
+export function findTopicShifts(turns: TranscriptTurn[]): Set<number> {
+  if (turns.length < 2 * TOPIC_WINDOW_TURNS) {
+    return new Set();
+  }
+
+  const terms = turns.map(turn => tokenize(turn.text));
+  const scores: number[] = [];
+  for (let gap = 1; gap < turns.length; gap++) {
+    scores[gap] = cosine(
+      termCounts(terms.slice(Math.max(0, gap - TOPIC_WINDOW_TURNS), gap).flat()),
+      termCounts(terms.slice(gap, gap + TOPIC_WINDOW_TURNS).flat())
+    );
+  }
+
+  // How far each gap dips below the highest scores reached climbing either way
+  const depths = new Map<number, number>();
+  for (let gap = 1; gap < turns.length; gap++) {
+    let left = gap;
+    while (left > 1 && scores[left - 1] >= scores[left]) left--;
+    let right = gap;
+    while (right < turns.length - 1 && scores[right + 1] >= scores[right]) right++;
+
+    const depth = scores[left] + scores[right] - 2 * scores[gap];
+    if (depth > 0) depths.set(gap, depth);
+  }
+
+  if (depths.size === 0) {
+    return new Set();
+  }
+
+  const values = Array.from(depths.values());
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const deviation = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+  const cutoff = mean - deviation / 2;
+
+  return new Set(Array.from(depths).filter(([, depth]) => depth >= cutoff).map(([gap]) => gap));
+}
+
+/**
+ * Group turns into segments, ending one at a topic shift once it's a minute
+ * long, or before it passes five minutes or the token limit
+ */
+export function segmentTurns(turns: TranscriptTurn[]): TranscriptTurn[][] {
+  const shifts = findTopicShifts(turns);
+  const segments: TranscriptTurn[][] = [];
+  let current: TranscriptTurn[] = [];
+  let tokens = 0;
+
+  turns.forEach((turn, index) => {
+    const turnTokens = estimateTokens(turn.text);
+
+    if (current.length > 0) {
+      const start = current[0].start;
+      const full = tokens + turnTokens > MAX_SEGMENT_TOKENS || turn.end - start > MAX_SEGMENT_SECONDS;
+      const shifted = shifts.has(index) && turn.start - start >= MIN_SEGMENT_SECONDS;
+
+      if (full || shifted) {
+        segments.push(current);
+        current = [];
+        tokens = 0;
+      }
+    }
+
+    current.push(turn);
+    tokens += turnTokens;
+  });
+
+  if (current.length > 0) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a transcript and build a chunk per segment
+ *
+ * Each turn starts with its timestamp and speaker, e.g.
+ * `[12:05] **Jane:** ...`.
+ */
+export function transcriptToChunks(text: string): TranscriptChunks {
+  const { title, cues } = parseTranscript(text);
+
+  const chunks: MarkdownChunk[] = segmentTurns(mergeTurns(cues)).map((segment, index) => {
+    const md_text = segment
+      .map(turn => `[${formatTimestamp(turn.start)}] ${turn.speaker ? `**${turn.speaker}:** ` : ''}${turn.text}`)
+      .join('\n\n');
+    const start = segment[0].start;
+    const end = Math.max(...segment.map(turn => turn.end));
+    const speakers = Array.from(new Set(segment.map(turn => turn.speaker).filter((speaker): speaker is string => Boolean(speaker))));
+
+    return {
+      chunkId: `chunk_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+      md_text,
+      tokens: estimateTokens(md_text),
+      section: `${formatTimestamp(start)}–${formatTimestamp(end)}`,
+      meta: { hpath: [], start, end, speakers },
+    };
+  });
+
+  return {
+    markdown: chunks.map(chunk => chunk.md_text).join('\n\n'),
+    ...(title ? { title } : {}),
+    chunks,
+  };
+}
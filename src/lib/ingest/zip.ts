@@ -0,0 +1,116 @@
+/**
+ * ZIP Reader
+ *
+ * Reads the entries of a ZIP archive (e.g. an XLSX workbook) from memory.
+ * Supports stored and deflated entries; ZIP64 and encrypted archives are
+ * rejected, as are archives that decompress to more than a size limit.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+const DEFAULT_MAX_SIZE = 100 * 1024 * 1024; // Decompressed bytes, across the included entries
+
+/**
+ * The archive's included entries decompress to more than the allowed size
+ */
+export class ZipTooLargeError extends Error {
+  constructor(maxSize: number) {
+    super(`ZIP contents exceed ${maxSize} bytes`);
+    this.name = 'ZipTooLargeError';
+  }
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const earliest = Math.max(0, buffer.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+/**
+ * Decompress the archive's entries
+ *
+ * @param include - Only decompress entries whose name passes this check
+ * @param maxSize - Most bytes the included entries may decompress to in total
+ * @returns Entry contents by path within the archive
+ */
+export function readZip(
+  buffer: Buffer,
+  include: (name: string) => boolean = () => true,
+  maxSize = DEFAULT_MAX_SIZE
+): Map<string, Buffer> {
+  if (buffer.length < 22) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const end = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, Buffer>();
+  let remaining = maxSize;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupted ZIP central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) continue;
+
+    if (flags & 0x1) {
+      throw new Error('Encrypted ZIP archives are not supported');
+    }
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error('Corrupted ZIP entry');
+    }
+
+    // The local header's name and extra field can differ from the central directory's
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = Buffer.from(data);
+    } else if (method === 8) {
+      // Stop inflating at the limit rather than trusting the declared sizes
+      try {
+        content = inflateRawSync(data, { maxOutputLength: Math.max(remaining, 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new ZipTooLargeError(maxSize);
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+
+    remaining -= content.length;
+    if (remaining < 0) {
+      throw new ZipTooLargeError(maxSize);
+    }
+    entries.set(name, content);
+  }
+
+  return entries;
+}
@@ -0,0 +1,175 @@
+import {
+  createAnthropicProvider,
+  createFixtureProvider,
+  createOpenAIProvider,
+  fixtureKey,
+  getLLMProvider,
+  setLLMProviderOverride,
+} from '../providers';
+
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+const request = {
+  messages: [
+    { role: 'system' as const, content: 'Return JSON.' },
+    { role: 'user' as const, content: 'Label this chunk about reporting.' },
+  ],
+  tier: 'fast' as const,
+};
+
+describe('LLM Providers', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    setLLMProviderOverride(null);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getLLMProvider', () => {
+    it('should default to OpenAI', () => {
+      delete process.env.LLM_PROVIDER;
+      expect(getLLMProvider().name).toBe('openai');
+    });
+
+    it('should use LLM_PROVIDER and env model overrides', () => {
+      process.env.LLM_PROVIDER = 'anthropic';
+      process.env.LLM_FAST_MODEL = 'claude-test-fast';
+
+      const provider = getLLMProvider();
+
+      expect(provider.name).toBe('anthropic');
+      expect(provider.models.fast).toBe('claude-test-fast');
+    });
+
+    it('should prefer project settings over the environment', () => {
+      process.env.LLM_PROVIDER = 'openai';
+      process.env.LLM_MODEL = 'gpt-env';
+
+      const provider = getLLMProvider({ provider: 'openai-compatible', model: 'llama3.1' });
+
+      expect(provider.name).toBe('openai-compatible');
+      expect(provider.models.smart).toBe('llama3.1');
+    });
+
+    it('should reject unknown provider names', () => {
+      process.env.LLM_PROVIDER = 'nope';
+      expect(() => getLLMProvider()).toThrow('Unknown LLM_PROVIDER "nope"');
+    });
+
+    it('should return the override when set', () => {
+      const fixture = createFixtureProvider();
+      setLLMProviderOverride(fixture);
+
+      expect(getLLMProvider({ provider: 'openai' })).toBe(fixture);
+    });
+  });
+
+  describe('fixture provider', () => {
+    it('should replay fixtures by exact key before substring matches', async () => {
+      const provider = createFixtureProvider({
+        fixtures: [
+          { match: 'reporting', response: { title: 'Matched' } },
+          { key: fixtureKey(request), response: { title: 'Exact' } },
+        ],
+      });
+
+      expect(JSON.parse(await provider.chatJSON(request))).toEqual({ title: 'Exact' });
+      expect(JSON.parse(await provider.chatJSON({ ...request, tier: 'smart' }))).toEqual({ title: 'Matched' });
+    });
+
+    it('should throw on a missing fixture', async () => {
+      const provider = createFixtureProvider();
+      await expect(provider.chatJSON(request)).rejects.toThrow(`No LLM fixture for request ${fixtureKey(request)}`);
+    });
+
+    it('should stream the fixture response', async () => {
+      const provider = createFixtureProvider({ fixtures: [{ match: 'reporting', response: 'Hello there world' }] });
+
+      const pieces: string[] = [];
+      for await (const piece of provider.streamChat(request)) {
+        pieces.push(piece);
+      }
+
+      expect(pieces.length).toBeGreaterThan(1);
+      expect(pieces.join('')).toBe('Hello there world');
+    });
+
+    it('should produce deterministic normalised embeddings', async () => {
+      const provider = createFixtureProvider({ embeddingDimensions: 64 });
+      const [a, b] = await provider.embed(['Saves time on reporting', 'Saves time on reporting']);
+
+      expect(a).toHaveLength(64);
+      expect(a).toEqual(b);
+      expect(Math.sqrt(a.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1);
+    });
+  });
+
+  describe('OpenAI provider', () => {
+    it('should send the tier model with JSON mode', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{"ok":true}' } }] }),
+      } as Response);
+
+      const provider = createOpenAIProvider({ apiKey: 'sk-test' });
+      const content = await provider.chatJSON({ ...request, temperature: 0.2 });
+
+      expect(content).toBe('{"ok":true}');
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.openai.com/v1/chat/completions');
+      expect(JSON.parse(init!.body as string)).toMatchObject({
+        model: 'gpt-4o-mini',
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+      });
+    });
+
+    it('should raise an error with the status on failure', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        text: async () => '',
+      } as Response);
+
+      const provider = createOpenAIProvider({ name: 'openai-compatible', label: 'Ollama', baseUrl: 'http://localhost:11434/v1' });
+
+      await expect(provider.chatJSON(request)).rejects.toMatchObject({
+        message: 'Ollama API error: 429 Too Many Requests',
+        provider: 'openai-compatible',
+        status: 429,
+      });
+    });
+  });
+
+  describe('Anthropic provider', () => {
+    it('should prefill the JSON brace and send system messages separately', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ content: [{ type: 'text', text: '"ok":true}' }] }),
+      } as Response);
+
+      const provider = createAnthropicProvider({ apiKey: 'test' });
+      const content = await provider.chatJSON(request);
+
+      expect(content).toBe('{"ok":true}');
+      const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+      expect(body.model).toBe('claude-haiku-4-5');
+      expect(body.system).toContain('Return JSON.');
+      expect(body.messages).toEqual([
+        { role: 'user', content: 'Label this chunk about reporting.' },
+        { role: 'assistant', content: '{' },
+      ]);
+    });
+
+    it('should not support embeddings', async () => {
+      await expect(createAnthropicProvider().embed(['text'])).rejects.toThrow('Anthropic does not provide embeddings');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Query Expansion Prompt
+ * 
+ * Turns a short brief ("launch week") into searches that match how the
+ * source material is actually written: rephrased sub-queries for the angles
+ * the brief implies, and a hypothetical passage (HyDE) whose embedding sits
+ * near the chunks that would answer it.
+ */
+
+export function expandQueryPrompt(
+  query: string,
+  { subQueries, hyde, context }: { subQueries: number; hyde: boolean; context?: string }
+): string {
+  return `You are helping an email writer search their own source material (sales pages, testimonials, FAQs, product docs).
+
+## SEARCH BRIEF:
+
+${query}
+${context ? `\n## ABOUT THE PROJECT:\n\n${context}\n` : ''}
+## INSTRUCTIONS:
+
+${subQueries > 0 ? `- Write ${subQueries} search queries that together cover what an email about this brief needs: the offer, proof points (results, testimonials, numbers), objections and specifics. Each query should be 3-8 words, phrased the way the source material would phrase it, and different from the others.` : '- Return an empty "sub_queries" list.'}
+${hyde ? '- Write a "hypothetical_answer": a short passage (60-120 words) of the kind of source material that would be ideal for this brief. Invent plausible specifics; it is only used for searching.' : '- Set "hypothetical_answer" to an empty string.'}
+
+## REQUIRED JSON RESPONSE FORMAT:
+
+{
+  "sub_queries": ["query one", "query two"],
+  "hypothetical_answer": "passage"
+}
+
+Respond with valid JSON only.`;
+}
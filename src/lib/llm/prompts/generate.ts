@@ -1,10 +1,15 @@
 /**
  * Email Generation Prompt Template
  * 
- * Generates PAS (Problem-Agitate-Solution) format emails using contextual information
- * from the project's knowledge base. Outputs structured email content in multiple formats.
+ * Generates emails for any registered copywriting angle (PAS, AIDA, BAB, ...) using
+ * contextual information from the project's knowledge base. Outputs structured email
+ * content in multiple formats.
  */
 
+import { getAngle, type AngleDefinition, type CtaStyle } from '@/lib/angles';
+import { type StyleCard } from './styleCard';
+import { CTA_SECTION, sectionStartMarker, sectionEndMarker, txtSectionHeader } from '@/lib/email/sections';
+
 export interface ToneModifier {
   name: string;
   description: string;
@@ -114,6 +119,7 @@ export interface GenerateEmailOptions {
   angle: string;
   projectName: string;
   audience?: string;
+  /** Defaults to the angle's own length when omitted */
   length?: 'short' | 'medium' | 'long';
   tone?: keyof typeof TONE_MODIFIERS;
   style?: keyof typeof STYLE_MODIFIERS;
@@ -126,6 +132,21 @@ export interface GenerateEmailOptions {
    * Only affects the re-ranker scoring (not the email body tone).
    */
   hypeLevel?: 1 | 2 | 3 | 4 | 5;
+  /**
+   * Saved voice profile (from /api/style/build) to imitate.
+   * Takes precedence over the generic tone guidance when present.
+   */
+  styleCard?: StyleCard;
+  /** Position of this email within a multi-email sequence */
+  sequence?: SequenceContext;
+}
+
+export interface SequenceContext {
+  position: number; // 1-based
+  total: number;
+  day: number;
+  goal: string;
+  previousSubjects: string[];
 }
 
 /**
@@ -237,28 +258,184 @@ function getHypeLevelInstructions(effectiveHypeLevel: 1 | 2 | 3 | 4 | 5): string
 }
 
 /**
- * Generate the system prompt for PAS email generation with tone and style modifiers
+ * Turn a 0-100 tone slider into a short description of where the writer sits
+ */
+export function describeSlider(value: number, low: string, high: string): string {
+  if (value <= 20) return `strongly ${low}`;
+  if (value <= 40) return `leans ${low}`;
+  if (value < 60) return `balanced between ${low} and ${high}`;
+  if (value < 80) return `leans ${high}`;
+  return `strongly ${high}`;
+}
+
+/**
+ * Generate voice rules from a saved style profile
+ */
+function getStyleProfileInstructions(styleCard?: StyleCard): string {
+  if (!styleCard) return '';
+
+  const rules: string[] = [];
+  const { tone, writing_stats, patterns, habits } = styleCard;
+
+  if (tone) {
+    rules.push(`- **Voice**: ${[
+      describeSlider(tone.formal_casual, 'formal', 'casual'),
+      describeSlider(tone.professional_friendly, 'professional', 'friendly'),
+      describeSlider(tone.direct_nurturing, 'direct', 'nurturing'),
+      describeSlider(tone.urgent_relaxed, 'urgent', 'relaxed'),
+      describeSlider(tone.confident_humble, 'confident', 'humble'),
+    ].join('; ')}`);
+  }
+
+  if (writing_stats) {
+    rules.push(`- **Rhythm**: ~${Math.round(writing_stats.avg_sentence_length)} words per sentence, ~${Math.round(writing_stats.avg_paragraph_length)} sentences per paragraph, ${writing_stats.reading_level} reading level`);
+  }
+
+  if (patterns) {
+    if (patterns.openers?.length) {
+      rules.push(`- **Signature openers** (adapt one, don't copy verbatim): ${patterns.openers.map(o => `"${o}"`).join(', ')}`);
+    }
+    if (patterns.transitions?.length) {
+      rules.push(`- **Favourite transitions**: ${patterns.transitions.map(t => `"${t}"`).join(', ')}`);
+    }
+    if (patterns.cta_patterns?.length) {
+      rules.push(`- **CTA patterns**: ${patterns.cta_patterns.map(c => `"${c}"`).join(', ')}`);
+    }
+    if (patterns.closers?.length) {
+      rules.push(`- **Signature closers / sign-offs**: ${patterns.closers.map(c => `"${c}"`).join(', ')}`);
+    }
+    if (patterns.ps_usage) {
+      const psRule = patterns.ps_usage === 'never'
+        ? 'Do NOT add a P.S.'
+        : patterns.ps_usage === 'rarely'
+          ? 'Avoid a P.S. unless it adds something essential'
+          : `Include a P.S. (used ${patterns.ps_usage})${patterns.ps_patterns?.length ? ` in the style of: ${patterns.ps_patterns.map(p => `"${p}"`).join(', ')}` : ''}`;
+      rules.push(`- **P.S. policy**: ${psRule}`);
+    }
+  }
+
+  if (habits) {
+    if (habits.emoji_usage) {
+      rules.push(`- **Emoji**: ${habits.emoji_usage === 'none' ? 'Never use emojis in the body' : `${habits.emoji_usage} use${habits.emoji_types?.length ? `, favouring ${habits.emoji_types.join(' ')}` : ''}`} (subject lines stay emoji-free)`);
+    }
+    if (habits.punctuation_style) {
+      const p = habits.punctuation_style;
+      rules.push(`- **Punctuation**: exclamations ${p.exclamation_frequency}, questions ${p.question_frequency}, ellipses ${p.ellipsis_usage}, dashes ${p.dash_usage}`);
+    }
+    if (habits.formatting) {
+      const f = habits.formatting;
+      const uses = [
+        f.uses_bold && 'bold',
+        f.uses_italics && 'italics',
+        f.uses_bullet_points && 'bullet points',
+        f.uses_numbered_lists && 'numbered lists',
+      ].filter(Boolean);
+      rules.push(`- **Formatting**: ${uses.length ? `uses ${uses.join(', ')}` : 'plain paragraphs, no bold or lists'}`);
+    }
+  }
+
+  if (rules.length === 0) return '';
+
+  return `\n\n## VOICE PROFILE\nWrite in the voice of the saved style profile below. These rules take precedence over the generic tone guidance.\n${rules.join('\n')}`;
+}
+
+/**
+ * Generate instructions for an email that is one step of a sequence
+ */
+function getSequenceInstructions(sequence?: SequenceContext): string {
+  if (!sequence) return '';
+
+  const previous = sequence.previousSubjects.length > 0
+    ? `\n- Earlier emails used these subjects. Do NOT reuse their hooks, opening words or angle of attack:\n${sequence.previousSubjects.map(s => `  - "${s}"`).join('\n')}`
+    : '';
+
+  return `\n\n## SEQUENCE CONTEXT
+- This is email ${sequence.position} of ${sequence.total}, sent on day ${sequence.day}
+- **Goal of this email**: ${sequence.goal}
+- Stand on its own, but don't repeat stories, examples or proof points the reader has already seen${previous}`;
+}
+
+/**
+ * Describe the angle's section structure as a numbered list
+ */
+function getStructureInstructions(angle: AngleDefinition): string {
+  return angle.structure
+    .map((section, index) => `${index + 1}. **${section.name}**: ${section.instructions}`)
+    .join('\n');
+}
+
+/**
+ * List the angle's section names for formatting guidance (e.g. "Problem, Agitate, and Solution")
+ */
+function getSectionNameList(angle: AngleDefinition): string {
+  const names = angle.structure.map(section => section.name);
+  if (names.length <= 2) return names.join(' and ');
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`;
+}
+
+/**
+ * Link placement for each CTA style: for the whole email, and for a rewritten
+ * call-to-action or body section
+ */
+const CTA_STYLE_RULES: Record<CtaStyle, { email: string; cta: string; section: string }> = {
+  single: {
+    email: 'Link only from the call-to-action section; body sections contain no links',
+    cta: 'Use a single link',
+    section: 'Leave links to the call-to-action section',
+  },
+  soft: {
+    email: 'Link only from the call-to-action section, worded as an invitation with no urgency; body sections contain no links',
+    cta: 'Use a single link, worded as an invitation with no urgency',
+    section: 'Leave links to the call-to-action section and keep any mention of the offer low-pressure',
+  },
+  repeated: {
+    email: 'Put the main link in the call-to-action section and repeat it once mid-email, as a short inline link at the end of one earlier section, using the same URL',
+    cta: 'This is the main link; keep the same URL as the inline link earlier in the email',
+    section: 'It may end with one short inline link to the primary link, as this email repeats its call-to-action mid-email',
+  },
+};
+
+/**
+ * Section marker rules so individual sections can be regenerated later
+ */
+function getSectionMarkerInstructions(angle: AngleDefinition): { markup: string; txt: string } {
+  const sections = [...angle.structure, CTA_SECTION];
+  return {
+    markup: `- Wrap each section in marker comments, in this order: ${sections.map(section => `\`${sectionStartMarker(section.key)}\` … \`${sectionEndMarker(section.key)}\``).join(', ')}. The call-to-action gets its own \`${CTA_SECTION.key}\` markers; greeting and sign-off stay outside all markers`,
+    txt: `- Start each section with its header on its own line, exactly: ${sections.map(section => txtSectionHeader(section)).join(', ')}\n- Put a line containing only \`--\` between the last section and the sign-off`,
+  };
+}
+
+/**
+ * Generate the system prompt for email generation with angle, tone and style modifiers
  */
 export function generateEmailPrompt({
-  angle,
+  angle: angleKey,
   projectName,
   audience,
-  length = 'medium',
+  length,
   tone,
   style,
   constraints,
   mustInclude,
   contextPack,
   defaultLink,
-  hypeLevel
+  hypeLevel,
+  styleCard,
+  sequence
 }: GenerateEmailOptions): string {
+  const angle = getAngle(angleKey);
   const effectiveHypeLevel = calculateEffectiveHypeLevel(tone, style, hypeLevel);
-  const lengthGuidance = adjustLengthGuidance(length, style);
+  const lengthGuidance = adjustLengthGuidance(length || angle.length, style);
   const toneInstructions = getToneInstructions(tone);
   const styleInstructions = getStyleInstructions(style);
   const hypeLevelInstructions = getHypeLevelInstructions(effectiveHypeLevel);
+  const styleProfileInstructions = getStyleProfileInstructions(styleCard);
+  const sequenceInstructions = getSequenceInstructions(sequence);
+  const sectionNames = getSectionNameList(angle);
+  const markerInstructions = getSectionMarkerInstructions(angle);
 
-  return `You are an expert email copywriter specializing in the PAS (Problem-Agitate-Solution) framework. Generate a compelling email using ONLY the facts and information provided in the context below.
+  return `You are an expert email copywriter specializing in the ${angle.key} (${angle.name}) framework. Generate a compelling email using ONLY the facts and information provided in the context below.
 
 ## CONTEXT INFORMATION
 ${contextPack}
@@ -278,7 +455,7 @@ Return them in a JSON array under "__subject_candidates" (strings only). Use the
 
 ## EMAIL REQUIREMENTS
 - **Project**: ${projectName}
-- **Angle**: ${angle} (Problem-Agitate-Solution structure)
+- **Angle**: ${angle.key} (${angle.name} structure)
 - **Target Audience**: ${audience || 'General audience interested in the project'}
 - **Length**: ${lengthGuidance}
 - **Tone**: ${tone ? TONE_MODIFIERS[tone].name : 'Conversational'} - ${tone ? TONE_MODIFIERS[tone].description : 'Friendly and approachable'}
@@ -286,13 +463,11 @@ Return them in a JSON array under "__subject_candidates" (strings only). Use the
 - **Energy Level**: ${effectiveHypeLevel}/5 - ${hypeLevelInstructions}
 ${constraints ? `- **Constraints**: ${constraints}` : ''}
 ${mustInclude ? `- **Must Include**: ${mustInclude}` : ''}
-${defaultLink ? `- **Primary Link**: ${defaultLink}` : ''}
+${defaultLink ? `- **Primary Link**: ${defaultLink}` : ''}${sequenceInstructions}
 
-## PAS FRAMEWORK STRUCTURE
-1. **Problem**: Identify a specific pain point your audience faces
-2. **Agitate**: Amplify the consequences and emotional impact of this problem
-3. **Solution**: Present your project/product as the clear solution
-${styleInstructions}
+## ${angle.key} FRAMEWORK STRUCTURE
+${getStructureInstructions(angle)}
+${styleInstructions}${styleProfileInstructions}
 
 ## OUTPUT REQUIREMENTS
 You must respond with a valid JSON object containing exactly these fields:
@@ -312,10 +487,8 @@ You must respond with a valid JSON object containing exactly these fields:
 - **Use ONLY information from the provided context** - do not invent facts
 - **Subject line**: Compelling, specific, ideally under 45 characters
 - **Preheader**: 40-90 characters that adds value to the subject line
-- **Problem section**: Start with a relatable problem your audience faces
-- **Agitate section**: Describe the consequences and frustrations of this problem
-- **Solution section**: Present your project as the solution with specific benefits
-- **Call-to-action**: Clear, action-oriented language
+${angle.structure.map(section => `- **${section.name} section**: ${section.instructions}`).join('\n')}
+- **Call-to-action**: ${angle.ctaInstructions}. ${CTA_STYLE_RULES[angle.ctaStyle].email}
 - **Tone**: ${toneInstructions}
 - **Email client compatibility**: Use inline CSS, avoid complex layouts
 
@@ -326,18 +499,114 @@ You must respond with a valid JSON object containing exactly these fields:
 - Ensure mobile responsiveness with max-width: 600px
 - Include alt text for any images referenced
 - Use proper email-safe color codes
+${markerInstructions.markup}
 
 ## MARKDOWN FORMATTING
 - Use proper markdown syntax with headers, emphasis, and lists
-- Include clear section breaks between Problem, Agitate, and Solution
+- Include clear section breaks between ${sectionNames}
 - Format links properly with descriptive text
+${markerInstructions.markup}
 
 ## TEXT FORMATTING
 - Use clear line breaks and spacing for readability
-- Include section headers for Problem, Agitate, Solution
+${markerInstructions.txt}
 - Keep formatting simple but organized
 
-Generate the email now using the PAS framework and the provided context information.`;
+Generate the email now using the ${angle.key} framework and the provided context information.`;
+}
+
+export interface GenerateSectionOptions extends Omit<GenerateEmailOptions, 'sequence'> {
+  /** 'subject', 'preheader', or the key of a section returned by getEditableSections */
+  target: string;
+  /** The draft as it stands, so the new part fits around the parts being kept */
+  currentEmail: {
+    subject: string;
+    preheader?: string;
+    md: string;
+  };
+  /** Optional feedback on what was wrong with the current version */
+  instructions?: string;
+}
+
+/**
+ * Generate the prompt for rewriting a single part of an existing email
+ */
+export function generateSectionPrompt({
+  angle: angleKey,
+  projectName,
+  audience,
+  tone,
+  style,
+  constraints,
+  mustInclude,
+  contextPack,
+  defaultLink,
+  hypeLevel,
+  styleCard,
+  target,
+  currentEmail,
+  instructions
+}: GenerateSectionOptions): string {
+  const angle = getAngle(angleKey);
+  const effectiveHypeLevel = calculateEffectiveHypeLevel(tone, style, hypeLevel);
+  const section = [...angle.structure, CTA_SECTION].find(s => s.key === target);
+
+  let task: string;
+  let output: string;
+
+  if (target === 'subject') {
+    task = `Write a new subject line for this email. It must be ≤ 60 chars (≤ 45 preferred), natural language, no emojis, max one ! or ?, and work with the existing preheader "${currentEmail.preheader || ''}". Avoid these word families: unleash, unlock, ultimate, skyrocket, game-changer, revolutionize, secret(s), hack(s), dominate, crush, killer, insane, crazy, next-level, 10x, masterclass, life-changing, "click here". The current subject is "${currentEmail.subject}" — do not reuse its hook.`;
+    output = `{
+  "subject": "The best new subject line",
+  "__subject_candidates": ["8 varied candidates: curiosity, urgency, benefit, social proof, contrarian, how-to, number-led, question"]
+}`;
+  } else if (target === 'preheader') {
+    task = `Write a new preheader (40-90 characters) that complements the subject "${currentEmail.subject}" and adds value rather than repeating it.`;
+    output = `{
+  "preheader": "The new preheader"
+}`;
+  } else if (section) {
+    const ctaRules = CTA_STYLE_RULES[angle.ctaStyle];
+    task = `Rewrite ONLY the **${section.name}** section. ${section.instructions}. ${section.key === CTA_SECTION.key ? `${angle.ctaInstructions}. ${ctaRules.cta}.` : `${ctaRules.section}.`} Keep it roughly the same length as the current version and make it flow from the section before it into the section after it. Do not repeat points made elsewhere in the email.`;
+    output = `{
+  "html": "The section as an HTML fragment with inline CSS matching the rest of the email (no DOCTYPE, no wrapper, no marker comments)",
+  "md": "The section in markdown (no marker comments)",
+  "txt": "The section in plain text (without the section header line)"
+}`;
+  } else {
+    throw new Error(`Unknown section "${target}" for angle ${angle.key}`);
+  }
+
+  return `You are an expert email copywriter editing an existing ${angle.key} (${angle.name}) email. Use ONLY the facts and information provided in the context below.
+
+## CONTEXT INFORMATION
+${contextPack}
+
+## EMAIL REQUIREMENTS
+- **Project**: ${projectName}
+- **Target Audience**: ${audience || 'General audience interested in the project'}
+- **Tone**: ${getToneInstructions(tone)}
+- **Energy Level**: ${effectiveHypeLevel}/5 - ${getHypeLevelInstructions(effectiveHypeLevel)}
+${constraints ? `- **Constraints**: ${constraints}` : ''}
+${mustInclude ? `- **Must Include**: ${mustInclude}` : ''}
+${defaultLink ? `- **Primary Link**: ${defaultLink}` : ''}
+${getStyleInstructions(style)}${getStyleProfileInstructions(styleCard)}
+
+## CURRENT EMAIL
+**Subject**: ${currentEmail.subject}
+**Preheader**: ${currentEmail.preheader || ''}
+
+${currentEmail.md}
+
+## TASK
+${task}
+${instructions ? `\n**Editor feedback on the current version**: ${instructions}\n` : ''}
+## OUTPUT REQUIREMENTS
+Respond with a valid JSON object containing exactly these fields:
+
+\`\`\`json
+${output}
+\`\`\``;
 }
 
 /**
@@ -372,7 +641,7 @@ export function getEmailConfig(
   return {
     maxTokens,
     temperature: Math.max(0.1, Math.min(1.0, temperature)),
-    model: 'gpt-4o-mini',
+    tier: 'fast',
     effectiveHypeLevel // Export this for use in post-processing
   } as const;
 }
@@ -68,6 +68,7 @@ You must respond with valid JSON in exactly this structure:
   "claims": [
     {
       "claim": "Exact text of the factual claim from the draft",
+      "excerpt": "The sentence containing the claim, copied verbatim from the draft",
       "status": "supported" | "unsupported",
       "supporting_chunks": ["chunkId1", "chunkId2"] | [],
       "evidence": "Brief explanation of the supporting evidence or why it's unsupported",
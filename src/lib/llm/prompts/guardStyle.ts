@@ -5,7 +5,13 @@
  * Returns structured JSON with specific areas of concern and actionable recommendations.
  */
 
-interface StyleCard {
+import { describeSlider } from './generate';
+import { type StyleCard } from './styleCard';
+
+/**
+ * Plain-language style requirements the draft is judged against
+ */
+export interface StyleRequirements {
   tone: string;
   voice: string;
   style: string;
@@ -21,7 +27,53 @@ interface Draft {
   txt: string;
 }
 
-export function guardStylePrompt(styleCard: StyleCard, draft: Draft): string {
+/**
+ * Translate a stored style profile card into style requirements
+ */
+export function styleRequirementsFromCard(styleCard: StyleCard, audience?: string): StyleRequirements {
+  const { tone, writing_stats, patterns, habits } = styleCard;
+  const guidelines: string[] = [];
+
+  if (writing_stats) {
+    guidelines.push(`Sentences average ~${Math.round(writing_stats.avg_sentence_length)} words; paragraphs ~${Math.round(writing_stats.avg_paragraph_length)} sentences`);
+  }
+  if (patterns?.ps_usage) {
+    guidelines.push(patterns.ps_usage === 'never' ? 'Never uses a P.S.' : `Uses a P.S. ${patterns.ps_usage}`);
+  }
+  if (habits?.emoji_usage) {
+    guidelines.push(habits.emoji_usage === 'none' ? 'Never uses emojis' : `Emoji usage: ${habits.emoji_usage}`);
+  }
+  if (habits?.punctuation_style) {
+    const p = habits.punctuation_style;
+    guidelines.push(`Exclamations ${p.exclamation_frequency}, questions ${p.question_frequency}, ellipses ${p.ellipsis_usage}, dashes ${p.dash_usage}`);
+  }
+  if (habits?.capitalization) {
+    guidelines.push(`ALL-CAPS words ${habits.capitalization.all_caps_frequency}`);
+  }
+
+  return {
+    tone: [
+      describeSlider(tone.formal_casual, 'formal', 'casual'),
+      describeSlider(tone.professional_friendly, 'professional', 'friendly'),
+      describeSlider(tone.direct_nurturing, 'direct', 'nurturing'),
+      describeSlider(tone.urgent_relaxed, 'urgent', 'relaxed'),
+      describeSlider(tone.confident_humble, 'confident', 'humble'),
+    ].join('; '),
+    voice: patterns?.transitions?.length
+      ? `Transitions like ${patterns.transitions.map(t => `"${t}"`).join(', ')}`
+      : 'As shown in the examples',
+    style: writing_stats ? `${writing_stats.reading_level} reading level` : 'As shown in the examples',
+    audience: audience || 'The brand\'s existing email subscribers',
+    guidelines,
+    examples: [
+      ...(patterns?.openers || []).map(o => `Opener: ${o}`),
+      ...(patterns?.cta_patterns || []).map(c => `CTA: ${c}`),
+      ...(patterns?.closers || []).map(c => `Closer: ${c}`),
+    ],
+  };
+}
+
+export function guardStylePrompt(styleCard: StyleRequirements, draft: Draft): string {
   return `You are a professional style analysis expert. Your task is to compare a draft email against a defined style card and identify any mismatches or areas for improvement.
 
 ## STYLE CARD REQUIREMENTS:
@@ -78,7 +130,8 @@ You must respond with valid JSON in exactly this structure:
     {
       "area": "Specific area of concern (e.g., 'Tone', 'Subject Line', 'Opening Paragraph', 'Call-to-Action')",
       "issue": "Clear description of what doesn't match the style card",
-      "fix": "Specific, actionable recommendation to fix the issue"
+      "fix": "Specific, actionable recommendation to fix the issue",
+      "excerpt": "Verbatim text from the draft (one phrase or sentence, copied exactly) that shows the issue, or an empty string if the issue isn't tied to specific text"
     }
   ],
   "overall_score": 85,
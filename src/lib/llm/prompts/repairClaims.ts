@@ -0,0 +1,80 @@
+/**
+ * Claim Repair Prompt
+ * 
+ * Rewrites (or removes) sentences the context guard flagged as unsupported,
+ * using only the provided context chunks. Returns exact find/replace edits
+ * for each email format so the rest of the draft is left untouched.
+ */
+
+interface ContextChunk {
+  chunkId: string;
+  md_text: string;
+}
+
+interface UnsupportedClaim {
+  claim: string;
+  excerpt?: string;
+  evidence: string;
+}
+
+interface DraftFormats {
+  html: string;
+  md: string;
+  txt: string;
+}
+
+export function repairClaimsPrompt(
+  contextChunks: ContextChunk[],
+  draft: DraftFormats,
+  unsupportedClaims: UnsupportedClaim[]
+): string {
+  return `You are a careful copy editor. A fact-checker flagged claims in an email draft that the source material does not support. Fix ONLY those claims so every statement in the email is backed by the context chunks.
+
+## CONTEXT CHUNKS:
+
+${contextChunks.map((chunk, index) => `
+**Chunk ${index + 1} (ID: ${chunk.chunkId}):**
+${chunk.md_text}
+`).join('\n')}
+
+## FLAGGED CLAIMS:
+
+${unsupportedClaims.map((claim, index) => `${index + 1}. Claim: "${claim.claim}"${claim.excerpt ? `\n   Sentence: "${claim.excerpt}"` : ''}\n   Why it's unsupported: ${claim.evidence}`).join('\n')}
+
+## DRAFT (three formats of the same email):
+
+### HTML
+${draft.html}
+
+### MARKDOWN
+${draft.md}
+
+### PLAIN TEXT
+${draft.txt}
+
+## INSTRUCTIONS:
+
+For each flagged claim:
+1. Find the sentence that makes the claim in EACH format.
+2. If the context chunks support a weaker or more specific version of the claim, rewrite the sentence to say only what the chunks support. Keep the voice, length and formatting of the original sentence.
+3. If nothing in the chunks supports it, remove the sentence (use an empty replacement), unless removing it would break the email's flow — then rewrite it as a non-factual statement.
+4. Never introduce new facts, numbers, names or promises that are not in the chunks.
+5. "original" must be copied EXACTLY from the draft, character for character, including any markup in the HTML format, so it can be found with a plain string search. Keep it as short as possible while still unique (usually one sentence).
+
+## REQUIRED JSON RESPONSE FORMAT:
+
+{
+  "edits": [
+    {
+      "claim": "The flagged claim this edit fixes",
+      "action": "rewrite" | "remove",
+      "supporting_chunks": ["chunkId1"],
+      "html": { "original": "Exact text from the HTML", "replacement": "New text (empty string to remove)" },
+      "md": { "original": "Exact text from the markdown", "replacement": "New text" },
+      "txt": { "original": "Exact text from the plain text", "replacement": "New text" }
+    }
+  ]
+}
+
+Respond with valid JSON only.`;
+}
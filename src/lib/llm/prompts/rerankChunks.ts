@@ -0,0 +1,48 @@
+/**
+ * Chunk Rerank Prompt
+ * 
+ * Listwise rerank: shows the model every candidate chunk at once and asks for
+ * a relevance score per chunk, so it can compare candidates against each
+ * other rather than judging each one in isolation.
+ */
+
+interface CandidateChunk {
+  chunkId: string;
+  md_text: string;
+  title?: string;
+}
+
+// Long chunks are cut so a full candidate list fits the fast model's window
+const MAX_CHUNK_CHARS = 1200;
+
+export function rerankChunksPrompt(query: string, chunks: CandidateChunk[]): string {
+  return `You are ranking source material for an email writer. Score how useful each chunk is for writing about the query below.
+
+## QUERY:
+
+${query}
+
+## CANDIDATE CHUNKS:
+
+${chunks.map(chunk => `
+**ID: ${chunk.chunkId}**${chunk.title ? ` — ${chunk.title}` : ''}
+${chunk.md_text.length > MAX_CHUNK_CHARS ? `${chunk.md_text.slice(0, MAX_CHUNK_CHARS)}…` : chunk.md_text}
+`).join('\n')}
+
+## INSTRUCTIONS:
+
+1. Compare the chunks against each other, not just against the query.
+2. Give each chunk a relevance score from 0 (useless for this query) to 10 (directly about it, with concrete facts to use).
+3. Prefer chunks with specific facts, numbers, examples or quotes over generic text on the same topic.
+4. Score every chunk exactly once, using its ID exactly as shown.
+
+## REQUIRED JSON RESPONSE FORMAT:
+
+{
+  "ranking": [
+    { "chunkId": "id", "relevance": 8 }
+  ]
+}
+
+List chunks from most to least relevant. Respond with valid JSON only.`;
+}
@@ -0,0 +1,141 @@
+/**
+ * Anthropic Provider
+ *
+ * Talks to the Anthropic Messages API. There's no JSON response mode, so JSON
+ * requests get an explicit instruction and a prefilled `{` assistant turn.
+ * Anthropic has no embeddings endpoint; pair it with another embedding provider.
+ */
+
+import {
+  LLMProviderError,
+  resolveModel,
+  type ChatMessage,
+  type ChatRequest,
+  type LLMProvider,
+  type ProviderModels,
+} from './types';
+import { readServerSentEvents } from './sse';
+
+export interface AnthropicProviderConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  models?: Partial<ProviderModels>;
+}
+
+export const ANTHROPIC_DEFAULT_MODELS: ProviderModels = {
+  smart: 'claude-sonnet-4-5',
+  fast: 'claude-haiku-4-5',
+  embedding: '',
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Split system messages out, since the Messages API takes them separately
+ */
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: ChatMessage[] } {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content);
+  const conversation = messages.filter(message => message.role !== 'system');
+
+  // Prompts sent as a lone system message still need a user turn
+  if (conversation.length === 0) {
+    return { system: '', messages: [{ role: 'user', content: system.join('\n\n') }] };
+  }
+
+  return { system: system.join('\n\n'), messages: conversation };
+}
+
+/**
+ * Create a provider for the Anthropic Messages API
+ */
+export function createAnthropicProvider(config: AnthropicProviderConfig = {}): LLMProvider {
+  const baseUrl = (config.baseUrl || 'https://api.anthropic.com/v1').replace(/\/+$/, '');
+  const models: ProviderModels = { ...ANTHROPIC_DEFAULT_MODELS, ...config.models };
+
+  const post = async (body: Record<string, unknown>): Promise<Response> => {
+    const response = await fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': config.apiKey || '',
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMProviderError(
+        `Anthropic API error: ${response.status} ${detail || response.statusText}`,
+        'anthropic',
+        response.status
+      );
+    }
+
+    return response;
+  };
+
+  const messageBody = (request: ChatRequest, json: boolean) => {
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    return {
+      model: resolveModel(models, request),
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      system: json
+        ? `${system}\n\nRespond with a single valid JSON object and nothing else.`.trim()
+        : system || undefined,
+      messages: json ? [...messages, { role: 'assistant', content: '{' }] : messages,
+    };
+  };
+
+  return {
+    name: 'anthropic',
+    models,
+
+    async chatJSON(request) {
+      const response = await post(messageBody(request, true));
+      const data = await response.json();
+
+      const text = (data.content as Array<{ type: string; text?: string }> | undefined)
+        ?.filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+
+      if (!text) {
+        throw new LLMProviderError('No content received from Anthropic API', 'anthropic');
+      }
+
+      // Put back the prefilled opening brace
+      return `{${text}`;
+    },
+
+    async *streamChat(request) {
+      const response = await post({ ...messageBody(request, false), stream: true });
+
+      if (!response.body) {
+        throw new LLMProviderError('No response stream from Anthropic API', 'anthropic');
+      }
+
+      for await (const data of readServerSentEvents(response.body)) {
+        const event = JSON.parse(data);
+
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield event.delta.text;
+        } else if (event.type === 'message_stop') {
+          break;
+        } else if (event.type === 'error') {
+          throw new LLMProviderError(`Anthropic API error: ${event.error?.message || 'stream error'}`, 'anthropic');
+        }
+      }
+    },
+
+    async embed() {
+      throw new LLMProviderError(
+        'Anthropic does not provide embeddings; set LLM_EMBEDDING_PROVIDER to another provider',
+        'anthropic'
+      );
+    },
+  };
+}
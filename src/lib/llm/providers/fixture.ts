@@ -0,0 +1,125 @@
+/**
+ * Fixture Replay Provider
+ *
+ * Deterministic provider for tests and offline runs. Chat responses are
+ * replayed from fixtures keyed by a hash of the request; embeddings come
+ * from `hashEmbedding`, so retrieval behaves sensibly without a network.
+ * Optionally records misses from a real provider into the fixture directory.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLMProviderError, type ChatRequest, type LLMProvider, type ProviderModels } from './types';
+import { hashEmbedding } from '@/lib/vector/hashEmbedding';
+
+/**
+ * A canned response. `key` matches one exact request (see `fixtureKey`),
+ * `match` matches any request whose messages contain the string.
+ */
+export interface LLMFixture {
+  key?: string;
+  match?: string;
+  response: string | Record<string, unknown> | unknown[];
+}
+
+export interface FixtureProviderConfig {
+  fixtures?: LLMFixture[];
+  dir?: string; // Directory of `<key>.json` fixture files
+  recordWith?: LLMProvider; // Call this provider on a miss and save the response to `dir`
+  embeddingDimensions?: number;
+}
+
+export const FIXTURE_MODELS: ProviderModels = {
+  smart: 'fixture-smart',
+  fast: 'fixture-fast',
+  embedding: 'fixture-embedding',
+};
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Stable key for a chat request. Only the messages and tier take part, so
+ * tuning temperature or token limits doesn't invalidate recorded fixtures.
+ */
+export function fixtureKey(request: ChatRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ tier: request.tier || 'smart', messages: request.messages }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function serialize(response: LLMFixture['response']): string {
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+/**
+ * Create a fixture replay provider
+ */
+export function createFixtureProvider(config: FixtureProviderConfig = {}): LLMProvider {
+  const fixtures = config.fixtures || [];
+  const dimensions = config.embeddingDimensions || DEFAULT_EMBEDDING_DIMENSIONS;
+
+  const readFixtureFile = (key: string): string | null => {
+    if (!config.dir) return null;
+
+    const file = path.join(config.dir, `${key}.json`);
+    if (!fs.existsSync(file)) return null;
+
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8')) as { response: LLMFixture['response'] };
+    return serialize(stored.response);
+  };
+
+  const record = async (key: string, request: ChatRequest): Promise<string> => {
+    const response = await config.recordWith!.chatJSON(request);
+
+    fs.mkdirSync(config.dir!, { recursive: true });
+    fs.writeFileSync(
+      path.join(config.dir!, `${key}.json`),
+      JSON.stringify({ request: { tier: request.tier || 'smart', messages: request.messages }, response }, null, 2)
+    );
+
+    return response;
+  };
+
+  const replay = async (request: ChatRequest): Promise<string> => {
+    const key = fixtureKey(request);
+
+    const exact = fixtures.find(fixture => fixture.key === key);
+    if (exact) return serialize(exact.response);
+
+    const fromFile = readFixtureFile(key);
+    if (fromFile !== null) return fromFile;
+
+    const text = request.messages.map(message => message.content).join('\n');
+    const matched = fixtures.find(fixture => fixture.match && text.includes(fixture.match));
+    if (matched) return serialize(matched.response);
+
+    if (config.recordWith && config.dir) {
+      return record(key, request);
+    }
+
+    throw new LLMProviderError(`No LLM fixture for request ${key}`, 'fixture');
+  };
+
+  return {
+    name: 'fixture',
+    models: FIXTURE_MODELS,
+
+    chatJSON: replay,
+
+    async *streamChat(request) {
+      const response = await replay(request);
+
+      // Yield word by word so consumers exercise their streaming path
+      for (const piece of response.match(/\S+\s*|\s+/g) || []) {
+        yield piece;
+      }
+    },
+
+    async embed(texts) {
+      return texts.map(text => hashEmbedding(text, dimensions));
+    },
+  };
+}
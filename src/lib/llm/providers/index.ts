@@ -0,0 +1,110 @@
+/**
+ * LLM Provider Registry
+ *
+ * Single entry point for chat, streaming and embedding calls. The chat provider
+ * is chosen per project (`project.llm`) or from the environment; embedding
+ * models are resolved in `@/lib/vector/embeddings`.
+ *
+ * - LLM_PROVIDER: openai (default), anthropic, openai-compatible or fixture
+ * - LLM_MODEL / LLM_FAST_MODEL: model overrides for the env provider
+ * - LLM_BASE_URL / LLM_API_KEY: endpoint for openai-compatible (defaults to a local Ollama)
+ * - LLM_FIXTURES_DIR / LLM_FIXTURE_RECORD: fixture directory, and a provider to record misses with
+ */
+
+import { createOpenAIProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+import { createFixtureProvider } from './fixture';
+import { type LLMProvider, type LLMProviderName, type ProviderModels } from './types';
+import { type ProjectLLMSettings } from '@/lib/schemas/project';
+
+export type { ChatMessage, ChatRequest, LLMProvider, LLMProviderName, ModelTier, ProviderModels } from './types';
+export { LLMProviderError } from './types';
+export { createOpenAIProvider } from './openai';
+export { createAnthropicProvider } from './anthropic';
+export { createFixtureProvider, fixtureKey, type LLMFixture } from './fixture';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'openai-compatible', 'fixture'];
+
+const DEFAULT_PROVIDER: LLMProviderName = 'openai';
+const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Endpoint the openai-compatible provider calls
+ */
+export function getCompatibleBaseUrl(): string {
+  return process.env.LLM_BASE_URL || DEFAULT_COMPATIBLE_BASE_URL;
+}
+
+/**
+ * Force every lookup to return this provider (tests, scripts). Pass null to clear.
+ */
+export function setLLMProviderOverride(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+function envProviderName(variable: string): LLMProviderName | undefined {
+  const value = process.env[variable];
+  if (!value) return undefined;
+
+  if (!LLM_PROVIDER_NAMES.includes(value as LLMProviderName)) {
+    throw new Error(`Unknown ${variable} "${value}". Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return value as LLMProviderName;
+}
+
+function envModels(): Partial<ProviderModels> {
+  const models: Partial<ProviderModels> = {};
+  if (process.env.LLM_MODEL) models.smart = process.env.LLM_MODEL;
+  if (process.env.LLM_FAST_MODEL) models.fast = process.env.LLM_FAST_MODEL;
+  return models;
+}
+
+/**
+ * Build a provider by name
+ */
+export function createLLMProvider(name: LLMProviderName, models: Partial<ProviderModels> = {}): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, models });
+
+    case 'anthropic':
+      return createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY, models });
+
+    case 'openai-compatible':
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        label: 'OpenAI-compatible',
+        baseUrl: getCompatibleBaseUrl(),
+        apiKey: process.env.LLM_API_KEY,
+        models,
+      });
+
+    case 'fixture': {
+      const recordWith = envProviderName('LLM_FIXTURE_RECORD');
+      return createFixtureProvider({
+        dir: process.env.LLM_FIXTURES_DIR,
+        recordWith: recordWith && recordWith !== 'fixture' ? createLLMProvider(recordWith) : undefined,
+      });
+    }
+  }
+}
+
+/**
+ * Provider for chat calls, honouring the project's settings when given
+ */
+export function getLLMProvider(settings?: ProjectLLMSettings): LLMProvider {
+  if (providerOverride) return providerOverride;
+
+  const envName = envProviderName('LLM_PROVIDER') || DEFAULT_PROVIDER;
+  const name = settings?.provider || envName;
+
+  // Env model names only make sense for the env provider
+  const models: Partial<ProviderModels> = name === envName ? envModels() : {};
+  if (settings?.model) models.smart = settings.model;
+  if (settings?.fast_model) models.fast = settings.fast_model;
+
+  return createLLMProvider(name, models);
+}
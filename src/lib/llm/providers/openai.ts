@@ -0,0 +1,132 @@
+/**
+ * OpenAI Provider
+ *
+ * Talks to the OpenAI chat completions and embeddings endpoints. The same
+ * implementation serves any OpenAI-compatible server (Ollama, vLLM, LM Studio)
+ * by pointing `baseUrl` at it.
+ */
+
+import {
+  LLMProviderError,
+  resolveModel,
+  type ChatRequest,
+  type LLMProvider,
+  type LLMProviderName,
+  type ProviderModels,
+} from './types';
+import { readServerSentEvents } from './sse';
+
+export interface OpenAIProviderConfig {
+  name?: LLMProviderName;
+  label?: string; // Used in error messages
+  baseUrl?: string;
+  apiKey?: string;
+  models?: Partial<ProviderModels>;
+  jsonMode?: boolean; // Send response_format; some compatible servers reject it
+}
+
+export const OPENAI_DEFAULT_MODELS: ProviderModels = {
+  smart: 'gpt-4o',
+  fast: 'gpt-4o-mini',
+  embedding: 'text-embedding-3-small',
+};
+
+/**
+ * Create a provider for OpenAI or an OpenAI-compatible endpoint
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig = {}): LLMProvider {
+  const name = config.name || 'openai';
+  const label = config.label || 'OpenAI';
+  const baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const models: ProviderModels = { ...OPENAI_DEFAULT_MODELS, ...config.models };
+  const jsonMode = config.jsonMode ?? true;
+
+  const headers = () => ({
+    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+    'Content-Type': 'application/json',
+  });
+
+  const completionBody = (request: ChatRequest) => ({
+    model: resolveModel(models, request),
+    messages: request.messages,
+    ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+  });
+
+  const post = async (path: string, body: Record<string, unknown>): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMProviderError(
+        `${label} API error: ${response.status} ${detail || response.statusText}`,
+        name,
+        response.status
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    name,
+    models,
+
+    async chatJSON(request) {
+      const response = await post('/chat/completions', {
+        ...completionBody(request),
+        ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      });
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new LLMProviderError(`No content received from ${label} API`, name);
+      }
+
+      return content;
+    },
+
+    async *streamChat(request) {
+      const response = await post('/chat/completions', {
+        ...completionBody(request),
+        stream: true,
+      });
+
+      if (!response.body) {
+        throw new LLMProviderError(`No response stream from ${label} API`, name);
+      }
+
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+
+    async embed(texts) {
+      if (!texts.length) {
+        return [];
+      }
+
+      const response = await post('/embeddings', {
+        model: models.embedding,
+        input: texts,
+        encoding_format: 'float',
+      });
+
+      const data = await response.json();
+      return (data.data as Array<{ embedding: number[]; index: number }>)
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared interface every LLM backend implements, so callers never talk to a
+ * vendor API directly.
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'fixture';
+
+/**
+ * Model tiers callers ask for instead of hard-coding a vendor model name.
+ * `smart` is used for fact-checking and analysis, `fast` for generation and labeling.
+ */
+export type ModelTier = 'smart' | 'fast';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tier?: ModelTier; // Defaults to 'smart'
+  model?: string; // Overrides the tier's model
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Model names a provider resolves tiers to
+ */
+export interface ProviderModels {
+  smart: string;
+  fast: string;
+  embedding: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly models: ProviderModels;
+
+  /**
+   * Run a chat completion that must answer with a JSON object
+   *
+   * @returns The raw JSON text
+   */
+  chatJSON(request: ChatRequest): Promise<string>;
+
+  /**
+   * Run a chat completion and yield the text as it arrives
+   */
+  streamChat(request: ChatRequest): AsyncIterable<string>;
+
+  /**
+   * Embed a batch of texts, one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Error from a provider's API, carrying the HTTP status when there is one
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: LLMProviderName,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+/**
+ * Pick the model for a request
+ */
+export function resolveModel(models: ProviderModels, request: ChatRequest): string {
+  return request.model || models[request.tier || 'smart'];
+}
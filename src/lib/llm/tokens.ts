@@ -0,0 +1,50 @@
+/**
+ * Token Estimates
+ *
+ * Word-based token estimates and model context windows, for sizing prompts
+ * without a provider-specific tokenizer.
+ */
+
+// Matched by longest prefix, so `gpt-4o-mini` uses the `gpt-4o` window
+const MODEL_CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gpt-4o', 128000],
+  ['gpt-4.1', 1000000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['claude', 200000],
+  ['llama3', 8192],
+  ['llama3.1', 128000],
+  ['mistral', 32000],
+  ['qwen2.5', 32000],
+];
+
+// Unknown models, usually small local ones
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Simple tokenizer: approximates tokens as ceil(words * 1.33)
+ */
+export function estimateTokens(text: string): number {
+  const words = text.trim().split(/\s+/).filter(word => word.length > 0).length;
+  return Math.ceil(words * 1.33);
+}
+
+/**
+ * Context window of a model in tokens. LLM_CONTEXT_WINDOW overrides it for
+ * models not listed here.
+ */
+export function getContextWindow(model: string): number {
+  const override = Number(process.env.LLM_CONTEXT_WINDOW);
+  if (override > 0) {
+    return override;
+  }
+
+  const match = MODEL_CONTEXT_WINDOWS
+    .filter(([prefix]) => model.toLowerCase().startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
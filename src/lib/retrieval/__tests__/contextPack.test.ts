@@ -0,0 +1,61 @@
+import { buildContextPack, getContextBudget } from '../contextPack';
+import { type LLMProvider } from '@/lib/llm/providers';
+import { estimateTokens } from '@/lib/llm/tokens';
+
+const chunk = (chunkId: string, words: number, extra: { title?: string; tags?: string[] } = {}) => ({
+  chunkId,
+  md_text: Array.from({ length: words / 10 }, (_, i) => `Sentence ${i} of ${chunkId} has exactly ten words in it.`).join(' '),
+  hpath: ['Guide'],
+  ...extra,
+});
+
+describe('Context pack', () => {
+  it('should format chunks with titles, paths and tags', () => {
+    const pack = buildContextPack([chunk('a', 10, { title: 'Pricing', tags: ['plans'] })]);
+
+    expect(pack.text).toBe(`## Pricing (Guide)\n**Tags:** plans\n\n${chunk('a', 10).md_text}\n`);
+    expect(pack).toEqual(expect.objectContaining({ included: ['a'], trimmed: [], dropped: [] }));
+    expect(pack.budgetTokens).toBeUndefined();
+  });
+
+  it('should trim the chunk that crosses the budget and drop the rest', () => {
+    const pack = buildContextPack([chunk('a', 100), chunk('b', 200), chunk('c', 100)], { budgetTokens: 250 });
+
+    expect(pack.included).toEqual(['a']);
+    expect(pack.trimmed).toEqual(['b']);
+    expect(pack.dropped).toEqual(['c']);
+    expect(pack.tokens).toBeLessThanOrEqual(250);
+    expect(pack.tokens).toBe(estimateTokens(pack.text));
+    expect(pack.text).toContain('Sentence 0 of b');
+    expect(pack.text).toContain('. …');
+  });
+
+  it('should drop a chunk when too little room is left to trim it', () => {
+    const pack = buildContextPack([chunk('a', 100), chunk('b', 100)], { budgetTokens: 160 });
+
+    expect(pack.included).toEqual(['a']);
+    expect(pack.trimmed).toEqual([]);
+    expect(pack.dropped).toEqual(['b']);
+  });
+
+  it('should still fit later chunks that are small enough', () => {
+    const pack = buildContextPack([chunk('a', 100), chunk('big', 1000), chunk('small', 10)], { budgetTokens: 200 });
+
+    expect(pack.included).toEqual(['a', 'small']);
+  });
+
+  describe('getContextBudget', () => {
+    const provider = { models: { smart: 'gpt-4o', fast: 'llama3', embedding: 'x' } } as LLMProvider;
+
+    it('should leave room for the prompt and the response', () => {
+      const budget = getContextBudget({ provider, tier: 'fast', maxTokens: 2000, prompt: 'word '.repeat(300) });
+
+      expect(budget).toBe(Math.floor((8192 - 2000 - estimateTokens('word '.repeat(300))) * 0.9));
+    });
+
+    it('should use the window of the tier the prompt runs on', () => {
+      expect(getContextBudget({ provider, tier: 'smart', maxTokens: 2000, prompt: '' }))
+        .toBeGreaterThan(100000);
+    });
+  });
+});
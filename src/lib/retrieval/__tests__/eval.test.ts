@@ -0,0 +1,128 @@
+import {
+  compareWithPrevious,
+  evaluateGoldenSet,
+  EvalRunTooLargeError,
+  MAX_EVAL_RETRIEVALS,
+  ndcgAtK,
+  recallAtK,
+  reciprocalRank,
+} from '../eval';
+import { hybridRetrieve } from '../hybrid';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+jest.mock('../hybrid', () => ({ hybridRetrieve: jest.fn() }));
+const mockHybridRetrieve = hybridRetrieve as jest.MockedFunction<typeof hybridRetrieve>;
+
+const retrieved = (...chunkIds: string[]) => ({
+  chunks: chunkIds.map(chunkId => ({ chunkId, md_text: '', score: 1 })),
+  total: chunkIds.length,
+  query: 'q',
+  k: chunkIds.length,
+}) as unknown as Awaited<ReturnType<typeof hybridRetrieve>>;
+
+describe('Retrieval metrics', () => {
+  it('should measure recall within the top k', () => {
+    expect(recallAtK(['a', 'x', 'b'], ['a', 'b'], 2)).toBe(0.5);
+    expect(recallAtK(['a', 'x', 'b'], ['a', 'b'], 3)).toBe(1);
+  });
+
+  it('should score the rank of the first expected chunk', () => {
+    expect(reciprocalRank(['x', 'y', 'a'], ['a', 'b'])).toBeCloseTo(1 / 3);
+    expect(reciprocalRank(['x'], ['a'])).toBe(0);
+  });
+
+  it('should reward expected chunks ranked higher', () => {
+    expect(ndcgAtK(['a', 'b', 'x'], ['a', 'b'], 3)).toBeCloseTo(1);
+    expect(ndcgAtK(['x', 'a', 'b'], ['a', 'b'], 3)).toBeLessThan(1);
+    expect(ndcgAtK(['x', 'y'], ['a'], 2)).toBe(0);
+  });
+});
+
+describe('evaluateGoldenSet', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run every query with each strategy over the project settings', async () => {
+    mockHybridRetrieve.mockResolvedValue(retrieved('a', 'x'));
+
+    const results = await evaluateGoldenSet({
+      projectId: 'p1',
+      userId: 'u1',
+      queries: [{ query: 'pricing', expected_chunk_ids: ['a'] }],
+      k: 2,
+      strategies: [{ name: 'rrf', fusion: { strategy: 'rrf' } }],
+      projectSettings: { fusion: { strategy: 'weighted', rrf_k: 30 } },
+    });
+
+    expect(mockHybridRetrieve).toHaveBeenCalledWith(expect.objectContaining({
+      query: 'pricing',
+      k: 2,
+      fusion: { strategy: 'rrf', rrf_k: 30 },
+    }));
+    expect(results[0].metrics).toEqual({ recall_at_k: 1, mrr: 1, ndcg: 1 });
+  });
+
+  it('should score failed queries as 0 and keep going', async () => {
+    mockHybridRetrieve
+      .mockRejectedValueOnce(new Error('Embedding failed'))
+      .mockResolvedValueOnce(retrieved('b'));
+
+    const [result] = await evaluateGoldenSet({
+      projectId: 'p1',
+      userId: 'u1',
+      queries: [
+        { query: 'one', expected_chunk_ids: ['a'] },
+        { query: 'two', expected_chunk_ids: ['b'] },
+      ],
+      k: 1,
+      strategies: [{ name: 'project' }],
+    });
+
+    expect(result.queries[0]).toMatchObject({ error: 'Embedding failed', recall_at_k: 0, missed_chunk_ids: ['a'] });
+    expect(result.metrics.recall_at_k).toBe(0.5);
+  });
+
+  it('should refuse runs over the retrieval cap before retrieving anything', async () => {
+    const queries = Array.from({ length: MAX_EVAL_RETRIEVALS / 2 + 1 }, (_, i) => ({
+      query: `query ${i}`,
+      expected_chunk_ids: ['a'],
+    }));
+
+    const run = evaluateGoldenSet({
+      projectId: 'p1',
+      userId: 'u1',
+      queries,
+      k: 1,
+      strategies: [{ name: 'project' }, { name: 'rrf', fusion: { strategy: 'rrf' } }],
+    });
+
+    await expect(run).rejects.toThrow(EvalRunTooLargeError);
+    expect(mockHybridRetrieve).not.toHaveBeenCalled();
+  });
+});
+
+describe('compareWithPrevious', () => {
+  const result = (name: string, recall: number) => ({
+    strategy: { name },
+    metrics: { recall_at_k: recall, mrr: 0.5, ndcg: 0.5 },
+    queries: [],
+  });
+
+  it('should flag metrics that dropped past the threshold', () => {
+    const { results, regressions } = compareWithPrevious(
+      [result('rrf', 0.6), result('max', 0.8)],
+      [result('rrf', 0.8), result('max', 0.79)]
+    );
+
+    expect(results[0].delta?.recall_at_k).toBeCloseTo(-0.2);
+    expect(regressions).toEqual(['rrf: recall_at_k -0.200']);
+  });
+
+  it('should leave strategies without history unchanged', () => {
+    const { results, regressions } = compareWithPrevious([result('rrf', 0.6)]);
+
+    expect(results[0].delta).toBeUndefined();
+    expect(regressions).toEqual([]);
+  });
+});
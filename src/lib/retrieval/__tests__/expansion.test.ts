@@ -0,0 +1,69 @@
+import { getColl } from '@/lib/db/mongo';
+import { type LLMProvider } from '@/lib/llm/providers';
+import { expandQuery, findTagSynonyms, generateQueryVariants, resolveExpansionSettings } from '../expansion';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+
+const stubProvider = (chatJSON: LLMProvider['chatJSON']): LLMProvider => ({
+  name: 'fixture',
+  models: { smart: 'smart', fast: 'fast', embedding: 'embedding' },
+  chatJSON,
+  streamChat: jest.fn(),
+  embed: jest.fn(),
+});
+
+describe('Query expansion', () => {
+  const mockChunks = { find: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetColl.mockResolvedValue(mockChunks as never);
+    mockChunks.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        { tags: ['launch', 'early-bird pricing'] },
+        { tags: ['launch week', 'early-bird pricing', 'testimonial'] },
+        { tags: ['onboarding', 'support'] },
+      ]),
+    });
+  });
+
+  it('should be off by default', () => {
+    expect(resolveExpansionSettings()).toEqual({ sub_queries: 0, hyde: false, tag_synonyms: false });
+  });
+
+  it('should drop repeated sub-queries and cap them', async () => {
+    const provider = stubProvider(jest.fn().mockResolvedValue(JSON.stringify({
+      sub_queries: ['Launch week', 'launch discount', 'Launch Discount', 'customer results'],
+      hypothetical_answer: 'Launch week runs Monday to Friday with 30% off.',
+    })));
+
+    const variants = await generateQueryVariants('launch week', resolveExpansionSettings({ sub_queries: 2, hyde: true }), provider);
+
+    expect(variants).toEqual({
+      sub_queries: ['launch discount', 'customer results'],
+      hypothetical_answer: 'Launch week runs Monday to Friday with 30% off.',
+    });
+  });
+
+  it('should take synonyms from tags that co-occur with the query terms', async () => {
+    const synonyms = await findTagSynonyms('p1', 'launch week');
+
+    expect(synonyms).toEqual(['early-bird pricing', 'testimonial']);
+  });
+
+  it('should keep going without sub-queries when the LLM call fails', async () => {
+    const provider = stubProvider(jest.fn().mockRejectedValue(new Error('API error')));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const expansion = await expandQuery({
+      projectId: 'p1',
+      query: 'launch week',
+      settings: { sub_queries: 3, tag_synonyms: true },
+      provider,
+    });
+
+    expect(expansion.sub_queries).toEqual([]);
+    expect(expansion.synonyms).toContain('early-bird pricing');
+  });
+});
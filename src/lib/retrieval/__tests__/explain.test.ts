@@ -0,0 +1,57 @@
+import { buildExplanation } from '../explain';
+import { explainFusion, resolveFusionSettings } from '../fusion';
+import { resolveMmrSettings } from '../mmr';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+
+const result = (chunkId: string, score: number) => ({
+  chunkId,
+  score,
+  md_text: `Text of ${chunkId}`,
+  hpath: [],
+});
+
+const reranked = (chunkId: string, score: number, fused_score: number) => ({
+  ...result(chunkId, score),
+  source: 'both' as const,
+  fused_score,
+  rerank_score: score,
+});
+
+describe('buildExplanation', () => {
+  const original = explainFusion([result('a', 0.9), result('b', 0.4)], [result('a', 2)]);
+  const subQuery = explainFusion([result('c', 0.7)], [result('b', 1)]);
+
+  const explanation = buildExplanation({
+    variants: [
+      { query: 'pricing', breakdowns: original },
+      { query: 'how much does it cost', breakdowns: subQuery },
+    ],
+    reranked: [reranked('b', 0.9, 0.5), reranked('a', 0.8, 0.9), reranked('c', 0.1, 0.3)],
+    selectedIds: ['b', 'a'],
+    fusion: resolveFusionSettings(),
+    reranker: 'lexical',
+    mmr: resolveMmrSettings(),
+  });
+
+  it('should list candidates in reranked order with final ranks', () => {
+    expect(explanation.candidates.map(c => [c.chunkId, c.rerank_position, c.rank])).toEqual([
+      ['b', 1, 1],
+      ['a', 2, 2],
+      ['c', 3, null],
+    ]);
+  });
+
+  it('should take raw scores from the first variant that found the chunk', () => {
+    const b = explanation.candidates[0];
+
+    expect(b.matched_queries).toEqual(['pricing', 'how much does it cost']);
+    expect(b.vector_similarity).toBe(0.4);
+    expect(b.text_score).toBeUndefined();
+    expect(explanation.candidates[2].vector_similarity).toBe(0.7);
+  });
+
+  it('should report the merged fused score and the rerank score', () => {
+    expect(explanation.candidates[1]).toEqual(expect.objectContaining({ fused_score: 0.9, rerank_score: 0.8 }));
+  });
+});
@@ -0,0 +1,58 @@
+import { type ChunkFilters } from '@/lib/schemas/chunk';
+import { chunkFilterConditions, matchesChunkFilters, type FilterableChunk } from '../filters';
+
+const chunk = (overrides: Partial<FilterableChunk> = {}): FilterableChunk => ({
+  assetId: 'sales-page',
+  tags: ['testimonial', 'pricing'],
+  section: 'Customer Stories',
+  meta: { hpath: ['Sales Page', 'Customer Stories'] },
+  createdAt: new Date('2025-03-01'),
+  ...overrides,
+});
+
+describe('Retrieval filters', () => {
+  it('should produce no conditions without filters', () => {
+    expect(chunkFilterConditions()).toEqual([]);
+    expect(chunkFilterConditions({})).toEqual([]);
+    expect(matchesChunkFilters(chunk(), {})).toBe(true);
+  });
+
+  it('should build MongoDB conditions for each filter', () => {
+    expect(chunkFilterConditions({
+      asset_ids: ['sales-page'],
+      tags: ['testimonial'],
+      section: 'Customer (VIP)',
+      hpath_prefix: ['Sales Page'],
+      source: 'custom',
+      created_after: new Date('2025-01-01'),
+    })).toEqual([
+      { assetId: { $in: ['sales-page'] } },
+      { tags: { $in: ['testimonial'] } },
+      { section: { $regex: '^Customer \\(VIP\\)', $options: 'i' } },
+      { 'meta.hpath.0': 'Sales Page' },
+      { $or: [{ assetId: '' }, { assetId: { $exists: false } }] },
+      { createdAt: { $gte: new Date('2025-01-01') } },
+    ]);
+  });
+
+  it.each<[string, ChunkFilters, boolean]>([
+    ['asset match', { asset_ids: ['sales-page', 'faq'] }, true],
+    ['asset miss', { asset_ids: ['faq'] }, false],
+    ['any tag', { tags: ['faq', 'testimonial'] }, true],
+    ['no tag', { tags: ['faq'] }, false],
+    ['section prefix', { section: 'customer' }, true],
+    ['section miss', { section: 'Pricing' }, false],
+    ['hpath prefix', { hpath_prefix: ['Sales Page', 'Customer Stories'] }, true],
+    ['hpath miss', { hpath_prefix: ['Customer Stories'] }, false],
+    ['ingested', { source: 'ingested' }, true],
+    ['custom', { source: 'custom' }, false],
+    ['after', { created_after: new Date('2025-02-01') }, true],
+    ['before', { created_before: new Date('2025-02-01') }, false],
+  ])('should match in memory like MongoDB would: %s', (_name, filters, expected) => {
+    expect(matchesChunkFilters(chunk(), filters)).toBe(expected);
+  });
+
+  it('should treat chunks without an asset as custom', () => {
+    expect(matchesChunkFilters(chunk({ assetId: '' }), { source: 'custom' })).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { explainFusion, fuseResults, mergeRankings, normalizeScores, resolveFusionSettings } from '../fusion';
+
+const result = (chunkId: string, score: number) => ({
+  chunkId,
+  score,
+  md_text: `Text of ${chunkId}`,
+  hpath: [],
+});
+
+describe('Result fusion', () => {
+  const vector = [result('a', 0.9), result('b', 0.8), result('c', 0.5)];
+  const lexical = [result('c', 0.9), result('d', 0.6), result('a', 0.3)];
+
+  it('should default to the weighted 60/40 blend', () => {
+    expect(resolveFusionSettings()).toEqual({ strategy: 'weighted', vector_weight: 0.6, lexical_weight: 0.4, rrf_k: 60 });
+  });
+
+  it('should blend normalized scores with weights', () => {
+    const fused = fuseResults(vector, lexical, 4);
+
+    expect(fused.map(r => r.chunkId)).toEqual(['a', 'b', 'c', 'd']);
+    expect(fused[0]).toEqual(expect.objectContaining({ source: 'both', score: 0.6 }));
+    expect(fused[1].score).toBeCloseTo(0.45);
+    expect(fused[2]).toEqual(expect.objectContaining({ source: 'both', score: 0.4 }));
+  });
+
+  it('should not promote a lone weak result to a perfect score', () => {
+    expect(normalizeScores([result('a', 0.2)])[0].score).toBe(0.2);
+
+    const fused = fuseResults([result('v', 0.2)], [result('x', 0.9), result('y', 0.5)], 3);
+    expect(fused[0].chunkId).toBe('x');
+    expect(fused.find(r => r.chunkId === 'v')!.score).toBeCloseTo(0.12);
+  });
+
+  it('should score by rank with reciprocal rank fusion', () => {
+    const fused = fuseResults(vector, lexical, 4, { strategy: 'rrf', vector_weight: 1, lexical_weight: 1, rrf_k: 60 });
+
+    // c: 3rd and 1st, a: 1st and 3rd tie; both beat single-list b and d
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 63);
+    expect(fused.slice(0, 2).map(r => r.chunkId).sort()).toEqual(['a', 'c']);
+    expect(fused[2].chunkId).toBe('b');
+  });
+
+  it('should keep the best side with max fusion', () => {
+    const fused = fuseResults(vector, lexical, 4, { strategy: 'max', vector_weight: 0.5, lexical_weight: 0.5 });
+
+    expect(fused.find(r => r.chunkId === 'a')!.score).toBeCloseTo(0.5);
+    expect(fused.find(r => r.chunkId === 'c')!.score).toBeCloseTo(0.5);
+  });
+
+  it('should slice to k', () => {
+    expect(fuseResults(vector, lexical, 2)).toHaveLength(2);
+  });
+});
+
+describe('mergeRankings', () => {
+  const ranked = (chunkId: string, source: 'vector' | 'lexical' | 'both') => ({ ...result(chunkId, 1), source });
+
+  it('should score a chunk every query ranked first as 1', () => {
+    const merged = mergeRankings([[ranked('a', 'vector')], [ranked('a', 'lexical')]], 5);
+
+    expect(merged).toEqual([expect.objectContaining({ chunkId: 'a', source: 'both' })]);
+    expect(merged[0].score).toBeCloseTo(1);
+  });
+
+  it('should rank chunks several queries found above a single top hit', () => {
+    const merged = mergeRankings([
+      [ranked('solo', 'vector'), ranked('shared', 'vector')],
+      [ranked('other', 'both'), ranked('shared', 'both')],
+    ], 5);
+
+    expect(merged[0].chunkId).toBe('shared');
+    expect(merged.map(r => r.chunkId)).toHaveLength(3);
+  });
+});
+
+describe('explainFusion', () => {
+  const vector = [result('a', 0.9), result('b', 0.8), result('c', 0.5)];
+  const lexical = [result('c', 0.9), result('d', 0.6), result('a', 0.3)];
+
+  it('should report raw, normalised and fused scores matching fuseResults', () => {
+    const breakdowns = explainFusion(vector, lexical);
+    const fused = fuseResults(vector, lexical, 4);
+
+    expect(breakdowns.get('a')).toEqual({
+      vector_similarity: 0.9,
+      vector_rank: 1,
+      vector_normalized: 1,
+      text_score: 0.3,
+      text_rank: 3,
+      text_normalized: 0,
+      fused_score: expect.closeTo(0.6),
+    });
+    expect(breakdowns.get('d')).not.toHaveProperty('vector_similarity');
+    fused.forEach(chunk => {
+      expect(breakdowns.get(chunk.chunkId)!.fused_score).toBeCloseTo(chunk.score);
+    });
+  });
+
+  it('should report reciprocal ranks with rrf', () => {
+    const breakdowns = explainFusion(vector, lexical, { strategy: 'rrf', vector_weight: 1, lexical_weight: 1, rrf_k: 60 });
+
+    expect(breakdowns.get('c')!.vector_normalized).toBeCloseTo(1 / 63);
+    expect(breakdowns.get('c')!.text_normalized).toBeCloseTo(1 / 61);
+    expect(breakdowns.get('c')!.fused_score).toBeCloseTo(1 / 61 + 1 / 63);
+  });
+});
@@ -0,0 +1,76 @@
+import { getColl } from '@/lib/db/mongo';
+import { createLexicalIndex } from '../lexicalIndex';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+
+const chunk = (chunkId: string, md_text: string, extra: Record<string, unknown> = {}) => ({
+  chunkId,
+  md_text,
+  assetId: 'sales-page',
+  meta: { hpath: ['Sales Page'] },
+  createdAt: new Date('2025-03-01'),
+  ...extra,
+});
+
+describe('BM25 lexical index', () => {
+  const mockChunks = {
+    find: jest.fn(),
+    aggregate: jest.fn(),
+  };
+  const stats = (count: number) => ({ toArray: jest.fn().mockResolvedValue([{ count, updatedAt: new Date(0) }]) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetColl.mockResolvedValue(mockChunks as never);
+    mockChunks.aggregate.mockReturnValue(stats(3));
+    mockChunks.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        chunk('quote', 'Saved us ten hours a week.', { title: 'Customer testimonial', tags: ['testimonial'] }),
+        chunk('plans', 'Annual plans cost less than monthly ones.', { title: 'Pricing' }),
+        chunk('note', 'A testimonial from a private beta.', { assetId: '', userId: 'someone-else' }),
+      ]),
+    });
+  });
+
+  it('should search titles and tags as well as text', async () => {
+    const results = await createLexicalIndex().search({ projectId: 'p1', query: 'testimonials', k: 5 });
+
+    expect(results[0]).toEqual(expect.objectContaining({ chunkId: 'quote', hpath: ['Sales Page'] }));
+  });
+
+  it('should apply the user scope and metadata filters', async () => {
+    const index = createLexicalIndex();
+
+    const forUser = await index.search({ projectId: 'p1', query: 'testimonial', k: 5, userId: 'u1' });
+    const custom = await index.search({ projectId: 'p1', query: 'testimonial', k: 5, filters: { source: 'custom' } });
+
+    expect(forUser.map(result => result.chunkId)).toEqual(['quote']);
+    expect(custom.map(result => result.chunkId)).toEqual(['note']);
+  });
+
+  it('should apply in-process writes without rebuilding', async () => {
+    const index = createLexicalIndex();
+    await index.search({ projectId: 'p1', query: 'pricing', k: 5 });
+
+    index.upsert('p1', [chunk('faq', 'Is there a discount on pricing for nonprofits?')]);
+    index.remove('p1', { chunkIds: ['plans'] });
+    // MongoDB's fingerprint changed because of these writes
+    mockChunks.aggregate.mockReturnValue({ toArray: jest.fn().mockResolvedValue([{ count: 3, updatedAt: new Date(1) }]) });
+
+    const results = await index.search({ projectId: 'p1', query: 'pricing', k: 5 });
+
+    expect(results.map(result => result.chunkId)).toEqual(['faq']);
+    expect(mockChunks.find).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rebuild when chunks change outside this process', async () => {
+    const index = createLexicalIndex();
+    await index.search({ projectId: 'p1', query: 'pricing', k: 5 });
+
+    mockChunks.aggregate.mockReturnValue(stats(4));
+    await index.search({ projectId: 'p1', query: 'pricing', k: 5 });
+
+    expect(mockChunks.find).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,68 @@
+import { selectDiverse, type ChunkVector } from '../mmr';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+
+const candidate = (chunkId: string, score: number) => ({ chunkId, score });
+
+describe('selectDiverse', () => {
+  // Two near-duplicate chunks from one asset, one distinct chunk from another
+  const candidates = [candidate('dup-1', 0.9), candidate('dup-2', 0.88), candidate('other', 0.7)];
+  const vectors = new Map<string, ChunkVector>([
+    ['dup-1', { assetId: 'long', embedding: [1, 0] }],
+    ['dup-2', { assetId: 'long', embedding: [0.99, 0.01] }],
+    ['other', { assetId: 'short', embedding: [0, 1] }],
+  ]);
+
+  it('should keep relevance order with no diversity', () => {
+    const selected = selectDiverse(candidates, vectors, 2, { diversity: 0 });
+
+    expect(selected.map(c => c.chunkId)).toEqual(['dup-1', 'dup-2']);
+  });
+
+  it('should skip near-duplicates of chunks already picked', () => {
+    const selected = selectDiverse(candidates, vectors, 2, { diversity: 0.3 });
+
+    expect(selected.map(c => c.chunkId)).toEqual(['dup-1', 'other']);
+  });
+
+  it('should cap chunks per asset while other assets have candidates', () => {
+    const selected = selectDiverse(candidates, vectors, 2, { diversity: 0, max_per_asset: 1 });
+
+    expect(selected.map(c => c.chunkId)).toEqual(['dup-1', 'other']);
+  });
+
+  it('should fill up to k from capped assets once the others run out', () => {
+    const selected = selectDiverse(candidates, vectors, 3, { diversity: 0, max_per_asset: 1 });
+
+    expect(selected.map(c => c.chunkId)).toEqual(['dup-1', 'other', 'dup-2']);
+  });
+
+  it('should return k chunks for a single-asset project', () => {
+    const single = Array.from({ length: 10 }, (_, index) => candidate(`c${index}`, 1 - index / 10));
+    const singleVectors = new Map<string, ChunkVector>(single.map(c => [c.chunkId, { assetId: 'only' }]));
+
+    expect(selectDiverse(single, singleVectors, 8)).toHaveLength(8);
+  });
+
+  it('should not cap custom chunks, which have no asset', () => {
+    const custom = [candidate('a', 0.9), candidate('b', 0.8), candidate('c', 0.7), candidate('d', 0.6)];
+    const customVectors = new Map<string, ChunkVector>([
+      ...custom.slice(0, 3).map(c => [c.chunkId, { assetId: '' }] as [string, ChunkVector]),
+      ['d', { assetId: 'doc' }],
+    ]);
+
+    const selected = selectDiverse(custom, customVectors, 3, { diversity: 0, max_per_asset: 1 });
+
+    expect(selected.map(c => c.chunkId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should treat chunks without embeddings as distinct', () => {
+    const selected = selectDiverse(
+      [candidate('a', 0.9), candidate('b', 0.8)],
+      new Map([['a', { assetId: 'x' }], ['b', { assetId: 'y' }]]),
+      2
+    );
+
+    expect(selected.map(c => c.chunkId)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,90 @@
+import { type LLMProvider } from '@/lib/llm/providers';
+import { createLexicalReranker, createLLMReranker, rerankResults } from '../rerank';
+
+const candidate = (chunkId: string, score: number, md_text: string, extra: { title?: string; tags?: string[] } = {}) => ({
+  chunkId,
+  score,
+  md_text,
+  hpath: [],
+  source: 'both' as const,
+  ...extra,
+});
+
+const stubProvider = (chatJSON: LLMProvider['chatJSON']): LLMProvider => ({
+  name: 'fixture',
+  models: { smart: 'smart', fast: 'fast', embedding: 'embedding' },
+  chatJSON,
+  streamChat: jest.fn(),
+  embed: jest.fn(),
+});
+
+describe('Reranking', () => {
+  const candidates = [
+    candidate('generic', 0.9, 'Our company has many products for many customers.'),
+    candidate('pricing', 0.5, 'Annual plans cost less than monthly ones.', { title: 'Pricing plans', tags: ['pricing'] }),
+    candidate('partial', 0.4, 'We announced new pricing last week.'),
+  ];
+
+  describe('lexical', () => {
+    it('should move chunks that cover the query above higher fused scores', async () => {
+      const results = await createLexicalReranker().rerank('pricing plans', candidates);
+
+      expect(results.map(r => r.chunkId)).toEqual(['pricing', 'partial', 'generic']);
+      expect(results[0].fused_score).toBe(0.5);
+      expect(results[0].rerank_score).toBeCloseTo(0.9); // Half the terms in the text, plus title and tag hits
+      expect(results[2].rerank_score).toBe(0);
+    });
+
+    it('should keep the fused order when the query has no usable terms', async () => {
+      const results = await createLexicalReranker().rerank('the and', candidates);
+
+      expect(results.map(r => r.chunkId)).toEqual(['generic', 'pricing', 'partial']);
+    });
+  });
+
+  describe('llm', () => {
+    it('should order chunks by the relevance the model gives them', async () => {
+      const provider = stubProvider(jest.fn().mockResolvedValue(JSON.stringify({
+        ranking: [
+          { chunkId: 'partial', relevance: 9 },
+          { chunkId: 'pricing', relevance: 6 },
+        ],
+      })));
+
+      const results = await createLLMReranker(provider).rerank('pricing news', candidates);
+
+      expect(results.map(r => [r.chunkId, r.score])).toEqual([['partial', 0.9], ['pricing', 0.6], ['generic', 0]]);
+      expect(provider.chatJSON).toHaveBeenCalledWith(expect.objectContaining({ tier: 'fast' }));
+    });
+  });
+
+  describe('rerankResults', () => {
+    it('should fall back to the lexical reranker when the LLM fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = stubProvider(jest.fn().mockRejectedValue(new Error('API error')));
+
+      const { chunks, reranker } = await rerankResults({
+        query: 'pricing plans',
+        candidates,
+        k: 2,
+        settings: { strategy: 'llm' },
+        provider,
+      });
+
+      expect(reranker).toBe('lexical');
+      expect(chunks.map(r => r.chunkId)).toEqual(['pricing', 'partial']);
+    });
+
+    it('should only rerank the top candidates', async () => {
+      const { chunks, reranker } = await rerankResults({
+        query: 'pricing plans',
+        candidates,
+        k: 1,
+        settings: { strategy: 'none', top_n: 1 },
+      });
+
+      expect(reranker).toBe('none');
+      expect(chunks).toEqual([expect.objectContaining({ chunkId: 'generic', fused_score: 0.9 })]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { getColl } from '@/lib/db/mongo';
+import { createAtlasStore, createHnswStore, type VectorStore } from '../stores';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+
+const chunk = (chunkId: string, embedding: number[]) => ({
+  chunkId,
+  md_text: `Text of ${chunkId}`,
+  meta: { hpath: [chunkId] },
+  embedding,
+});
+
+describe('Vector stores', () => {
+  const mockChunks = {
+    find: jest.fn(),
+    aggregate: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetColl.mockResolvedValue(mockChunks as never);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('atlas', () => {
+    it('should run $vectorSearch on the embedding field and return cosine scores', async () => {
+      mockChunks.aggregate.mockReturnValue({
+        toArray: jest.fn().mockResolvedValue([{ ...chunk('a', []), score: 0.9 }]),
+      });
+
+      const results = await createAtlasStore().search({ projectId: 'p1', queryVec: [1, 0], k: 3, userId: 'u1' });
+
+      const [pipeline] = mockChunks.aggregate.mock.calls[0] as [Record<string, Record<string, unknown>>[]];
+      expect(pipeline[0].$vectorSearch).toEqual(expect.objectContaining({
+        index: 'vector_search',
+        path: 'embedding',
+        filter: { projectId: 'p1' },
+      }));
+      expect(pipeline[pipeline.length - 1]).toEqual({ $limit: 3 });
+      expect(results).toEqual([expect.objectContaining({ chunkId: 'a', hpath: ['a'] })]);
+      expect(results[0].score).toBeCloseTo(0.8);
+    });
+
+    it('should fall back when $vectorSearch is unavailable', async () => {
+      mockChunks.aggregate.mockImplementation(() => {
+        throw new Error("Unrecognized pipeline stage name: '$vectorSearch'");
+      });
+      const fallback: VectorStore = { name: 'brute-force', search: jest.fn().mockResolvedValue([]) };
+
+      await createAtlasStore({ fallback }).search({ projectId: 'p1', queryVec: [1, 0], k: 3 });
+
+      expect(fallback.search).toHaveBeenCalledWith({ projectId: 'p1', queryVec: [1, 0], k: 3 });
+    });
+  });
+
+  describe('hnsw', () => {
+    const stats = (count: number) => ({ toArray: jest.fn().mockResolvedValue([{ count, updatedAt: new Date(0) }]) });
+
+    it('should build the index once and reuse it while chunks are unchanged', async () => {
+      mockChunks.aggregate.mockReturnValue(stats(3));
+      mockChunks.find.mockReturnValue({
+        toArray: jest.fn().mockResolvedValue([
+          chunk('x', [1, 0, 0]),
+          chunk('y', [0, 1, 0]),
+          chunk('xy', [0.7, 0.7, 0]),
+        ]),
+      });
+      const store = createHnswStore();
+
+      const first = await store.search({ projectId: 'p1', queryVec: [1, 0, 0], k: 2 });
+      await store.search({ projectId: 'p1', queryVec: [0, 1, 0], k: 2 });
+
+      expect(first.map(result => result.chunkId)).toEqual(['x', 'xy']);
+      expect(first[0].score).toBeCloseTo(1);
+      expect(mockChunks.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rebuild the index when chunks change', async () => {
+      mockChunks.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([chunk('x', [1, 0])]) });
+      const store = createHnswStore();
+
+      mockChunks.aggregate.mockReturnValue(stats(1));
+      await store.search({ projectId: 'p1', queryVec: [1, 0], k: 1 });
+      mockChunks.aggregate.mockReturnValue(stats(2));
+      await store.search({ projectId: 'p1', queryVec: [1, 0], k: 1 });
+
+      expect(mockChunks.find).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave out chunks from another model and return nothing for a mismatched query', async () => {
+      mockChunks.aggregate.mockReturnValue(stats(3));
+      mockChunks.find.mockReturnValue({
+        toArray: jest.fn().mockResolvedValue([chunk('a', [1, 0]), chunk('b', [0, 1]), chunk('old', [1, 0, 0])]),
+      });
+      const store = createHnswStore();
+
+      const results = await store.search({ projectId: 'p1', queryVec: [1, 0], k: 5 });
+      expect(results.map(result => result.chunkId)).toEqual(['a', 'b']);
+
+      expect(await store.search({ projectId: 'p1', queryVec: [1, 0, 0], k: 5 })).toEqual([]);
+    });
+
+    it('should apply metadata filters to the shared index', async () => {
+      mockChunks.aggregate.mockReturnValue(stats(3));
+      mockChunks.find.mockReturnValue({
+        toArray: jest.fn().mockResolvedValue([
+          { ...chunk('x', [1, 0]), assetId: 'faq' },
+          { ...chunk('xy', [0.7, 0.7]), assetId: 'sales-page' },
+          { ...chunk('y', [0, 1]), assetId: 'sales-page' },
+        ]),
+      });
+      const store = createHnswStore();
+
+      const results = await store.search({ projectId: 'p1', queryVec: [1, 0], k: 1, filters: { asset_ids: ['sales-page'] } });
+      await store.search({ projectId: 'p1', queryVec: [1, 0], k: 1 });
+
+      expect(results.map(result => result.chunkId)).toEqual(['xy']);
+      expect(mockChunks.find).toHaveBeenCalledTimes(1);
+    });
+  });
+});
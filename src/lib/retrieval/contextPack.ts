@@ -0,0 +1,140 @@
+/**
+ * Context Pack Assembly
+ *
+ * Turns ranked chunks into the markdown context block of a prompt, within a
+ * token budget. Chunks are taken in rank order: each goes in whole if it
+ * fits, is cut to its leading sentences if only part of it fits, and is
+ * dropped otherwise. The report says which chunks ended up where, so drafts
+ * can record exactly what the model saw.
+ */
+
+import { type LLMProvider, type ModelTier } from '@/lib/llm/providers';
+import { estimateTokens, getContextWindow } from '@/lib/llm/tokens';
+
+export interface ContextChunk {
+  chunkId: string;
+  md_text: string;
+  hpath: string[];
+  title?: string;
+  tags?: string[];
+}
+
+export interface ContextPackReport {
+  included: string[]; // Chunk IDs added in full
+  trimmed: string[]; // Chunk IDs cut to fit the budget
+  dropped: string[]; // Chunk IDs left out
+  tokens: number; // Estimated size of the pack
+  budgetTokens?: number; // Unset when the pack was built without a budget
+}
+
+export interface ContextPack extends ContextPackReport {
+  text: string;
+}
+
+// A trimmed chunk shorter than this says too little to be worth its header
+const MIN_TRIMMED_TOKENS = 60;
+
+// Headroom for the gap between estimated and real token counts
+const BUDGET_SAFETY_RATIO = 0.9;
+
+/**
+ * Format one chunk with its header
+ */
+function formatChunk(chunk: ContextChunk, text = chunk.md_text): string {
+  // Use title if available, otherwise fall back to chunkId
+  const title = chunk.title || `Chunk ${chunk.chunkId}`;
+
+  // Create hierarchical path display if hpath exists
+  const pathDisplay = chunk.hpath.length > 0
+    ? ` (${chunk.hpath.join(' > ')})`
+    : '';
+
+  // Add tags if available
+  const tagDisplay = chunk.tags && chunk.tags.length > 0
+    ? `\n**Tags:** ${chunk.tags.join(', ')}`
+    : '';
+
+  return `## ${title}${pathDisplay}${tagDisplay}\n\n${text.trim()}\n`;
+}
+
+/**
+ * Cut text to its leading sentences within a token budget, or leading words
+ * when even the first sentence is too long
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  maxTokens -= 2; // Room for the ellipsis
+  const sentences = text.trim().match(/[^.!?\n]+(?:[.!?]+|\n+|$)/g) || [];
+  let result = '';
+
+  for (const sentence of sentences) {
+    if (estimateTokens(result + sentence) > maxTokens) break;
+    result += sentence;
+  }
+
+  if (result.trim().length === 0) {
+    const words = text.trim().split(/\s+/);
+    result = words.slice(0, Math.floor(maxTokens / 1.33)).join(' ');
+  }
+
+  return `${result.trim()} …`;
+}
+
+/**
+ * Build the context pack for ranked chunks
+ *
+ * @param chunks - Chunks, best first
+ * @param options.budgetTokens - Most tokens the pack may use; no limit when unset
+ */
+export function buildContextPack(chunks: ContextChunk[], { budgetTokens }: { budgetTokens?: number } = {}): ContextPack {
+  const sections: string[] = [];
+  const report: ContextPackReport = { included: [], trimmed: [], dropped: [], tokens: 0, budgetTokens };
+
+  chunks.forEach(chunk => {
+    const section = formatChunk(chunk);
+    const sectionTokens = estimateTokens(section);
+    const remaining = budgetTokens === undefined ? Infinity : budgetTokens - report.tokens;
+
+    if (sectionTokens <= remaining) {
+      sections.push(section);
+      report.included.push(chunk.chunkId);
+      report.tokens += sectionTokens;
+      return;
+    }
+
+    const textBudget = remaining - estimateTokens(formatChunk(chunk, ''));
+    if (textBudget >= MIN_TRIMMED_TOKENS) {
+      const trimmed = formatChunk(chunk, truncateToTokens(chunk.md_text, textBudget));
+      sections.push(trimmed);
+      report.trimmed.push(chunk.chunkId);
+      report.tokens += estimateTokens(trimmed);
+      return;
+    }
+
+    report.dropped.push(chunk.chunkId);
+  });
+
+  return { text: sections.join('\n'), ...report };
+}
+
+/**
+ * Tokens left for context in a prompt
+ *
+ * @param provider - Provider the prompt will run on
+ * @param tier - Model tier the prompt will run on
+ * @param maxTokens - Tokens reserved for the response, e.g. `getEmailConfig().maxTokens`
+ * @param prompt - The prompt without its context, to measure the rest of the input
+ */
+export function getContextBudget({
+  provider,
+  tier,
+  maxTokens,
+  prompt
+}: {
+  provider: LLMProvider;
+  tier: ModelTier;
+  maxTokens: number;
+  prompt: string;
+}): number {
+  const window = getContextWindow(provider.models[tier]);
+  return Math.max(0, Math.floor((window - maxTokens - estimateTokens(prompt)) * BUDGET_SAFETY_RATIO));
+}
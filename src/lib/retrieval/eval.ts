@@ -0,0 +1,191 @@
+/**
+ * Retrieval Evaluation
+ *
+ * Runs a golden set (query → expected chunk IDs) through hybrid retrieval
+ * once per strategy and scores the rankings with recall@k, MRR and nDCG@k.
+ * Comparing a run with the previous one shows whether a change to search,
+ * fusion, reranking or chunking helped or hurt.
+ */
+
+import { type LLMProvider } from '@/lib/llm/providers';
+import { type ProjectRetrievalSettings } from '@/lib/schemas/project';
+import {
+  type EvalMetrics,
+  type EvalQueryResult,
+  type EvalStrategy,
+  type EvalStrategyResult,
+  type GoldenQuery,
+} from '@/lib/schemas/retrievalEval';
+import { hybridRetrieve } from './hybrid';
+
+// A metric falling by more than this between runs counts as a regression
+export const REGRESSION_THRESHOLD = 0.02;
+
+// Retrievals (queries × strategies) one run may make, so it finishes within the function budget
+export const MAX_EVAL_RETRIEVALS = 100;
+
+/**
+ * Thrown when a run would make more retrievals than fit in one request
+ */
+export class EvalRunTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvalRunTooLargeError';
+  }
+}
+
+/**
+ * Strategies run when the caller doesn't name any: the project's saved
+ * settings, then each fusion strategy on its own
+ */
+export const DEFAULT_EVAL_STRATEGIES: EvalStrategy[] = [
+  { name: 'project' },
+  { name: 'weighted', fusion: { strategy: 'weighted' } },
+  { name: 'rrf', fusion: { strategy: 'rrf' } },
+  { name: 'max', fusion: { strategy: 'max' } },
+];
+
+const METRIC_NAMES: Array<keyof EvalMetrics> = ['recall_at_k', 'mrr', 'ndcg'];
+
+/**
+ * Share of expected chunks found in the top k
+ */
+export function recallAtK(retrieved: string[], expected: string[], k: number): number {
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter(id => top.has(id)).length / expected.length;
+}
+
+/**
+ * 1 / rank of the first expected chunk, 0 when none was retrieved
+ */
+export function reciprocalRank(retrieved: string[], expected: string[]): number {
+  const wanted = new Set(expected);
+  const index = retrieved.findIndex(id => wanted.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * nDCG@k with binary relevance: rewards expected chunks ranked near the top
+ */
+export function ndcgAtK(retrieved: string[], expected: string[], k: number): number {
+  const wanted = new Set(expected);
+  const dcg = retrieved
+    .slice(0, k)
+    .reduce((sum, id, index) => sum + (wanted.has(id) ? 1 / Math.log2(index + 2) : 0), 0);
+  const idealHits = Math.min(expected.length, k);
+  let idcg = 0;
+  for (let index = 0; index < idealHits; index++) {
+    idcg += 1 / Math.log2(index + 2);
+  }
+  return idcg === 0 ? 0 : dcg / idcg;
+}
+
+export function scoreQuery(query: GoldenQuery, retrieved: string[], k: number): EvalQueryResult {
+  const found = new Set(retrieved.slice(0, k));
+  return {
+    query: query.query,
+    retrieved_chunk_ids: retrieved,
+    missed_chunk_ids: query.expected_chunk_ids.filter(id => !found.has(id)),
+    recall_at_k: recallAtK(retrieved, query.expected_chunk_ids, k),
+    mrr: reciprocalRank(retrieved.slice(0, k), query.expected_chunk_ids),
+    ndcg: ndcgAtK(retrieved, query.expected_chunk_ids, k),
+  };
+}
+
+function meanMetrics(results: EvalMetrics[]): EvalMetrics {
+  const mean = (metric: keyof EvalMetrics) =>
+    results.length === 0 ? 0 : results.reduce((sum, result) => sum + result[metric], 0) / results.length;
+  return { recall_at_k: mean('recall_at_k'), mrr: mean('mrr'), ndcg: mean('ndcg') };
+}
+
+/**
+ * Run every golden query through hybrid retrieval with each strategy
+ *
+ * Queries run one at a time so a large set doesn't flood the embedding or
+ * LLM provider. A failed query scores 0 and records its error. Runs of more
+ * than MAX_EVAL_RETRIEVALS retrievals throw EvalRunTooLargeError up front.
+ */
+export async function evaluateGoldenSet({
+  projectId,
+  userId,
+  queries,
+  k,
+  strategies = DEFAULT_EVAL_STRATEGIES,
+  projectSettings,
+  provider
+}: {
+  projectId: string;
+  userId: string;
+  queries: GoldenQuery[];
+  k: number;
+  strategies?: EvalStrategy[];
+  projectSettings?: ProjectRetrievalSettings;
+  provider?: LLMProvider;
+}): Promise<EvalStrategyResult[]> {
+  const retrievals = queries.length * strategies.length;
+  if (retrievals > MAX_EVAL_RETRIEVALS) {
+    throw new EvalRunTooLargeError(
+      `This run needs ${retrievals} retrievals (${queries.length} queries × ${strategies.length} strategies); at most ${MAX_EVAL_RETRIEVALS} fit in one run. Pick fewer strategies or split the golden set.`
+    );
+  }
+
+  const results: EvalStrategyResult[] = [];
+
+  for (const strategy of strategies) {
+    const queryResults: EvalQueryResult[] = [];
+
+    for (const query of queries) {
+      try {
+        const { chunks } = await hybridRetrieve({
+          projectId,
+          userId,
+          query: query.query,
+          k,
+          fusion: { ...projectSettings?.fusion, ...strategy.fusion },
+          rerank: { ...projectSettings?.reranker, ...strategy.reranker },
+          mmr: { ...projectSettings?.mmr, ...strategy.mmr },
+          expansion: { ...projectSettings?.expansion, ...strategy.expansion },
+          provider,
+        });
+        queryResults.push(scoreQuery(query, chunks.map(chunk => chunk.chunkId), k));
+      } catch (error) {
+        queryResults.push({
+          ...scoreQuery(query, [], k),
+          error: error instanceof Error ? error.message : 'Retrieval failed',
+        });
+      }
+    }
+
+    results.push({ strategy, metrics: meanMetrics(queryResults), queries: queryResults });
+  }
+
+  return results;
+}
+
+/**
+ * Attach the change from the previous run to each strategy and list the
+ * metrics that dropped past REGRESSION_THRESHOLD
+ */
+export function compareWithPrevious(
+  results: EvalStrategyResult[],
+  previous?: EvalStrategyResult[]
+): { results: EvalStrategyResult[]; regressions: string[] } {
+  const regressions: string[] = [];
+
+  const compared = results.map(result => {
+    const before = previous?.find(prior => prior.strategy.name === result.strategy.name);
+    if (!before) return result;
+
+    const delta: Partial<EvalMetrics> = {};
+    METRIC_NAMES.forEach(metric => {
+      delta[metric] = result.metrics[metric] - before.metrics[metric];
+      if (delta[metric]! < -REGRESSION_THRESHOLD) {
+        regressions.push(`${result.strategy.name}: ${metric} ${delta[metric]!.toFixed(3)}`);
+      }
+    });
+
+    return { ...result, delta };
+  });
+
+  return { results: compared, regressions };
+}
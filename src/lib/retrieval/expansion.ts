@@ -0,0 +1,172 @@
+/**
+ * Query Expansion
+ *
+ * A brief like "launch week" shares few words with the chunks that should
+ * answer it. Expansion runs extra searches for the same brief and the
+ * rankings are merged (see `mergeRankings` in ./fusion):
+ *
+ * - `sub_queries`: LLM-written rephrasings, each searched like the query
+ * - `hyde`: an LLM-written hypothetical answer, searched by embedding only
+ * - `tag_synonyms`: tags that co-occur with the query's terms on the
+ *   project's chunks, added to the lexical search
+ */
+
+import { z } from 'zod';
+import { getColl } from '@/lib/db/mongo';
+import { type LLMProvider } from '@/lib/llm/providers';
+import { expandQueryPrompt } from '@/lib/llm/prompts/expandQuery';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { zExpansionSettings, type ExpansionSettings } from '@/lib/schemas/project';
+import { extractTerms } from './rerank';
+import { chunkScopeFilter } from './stores/bruteForce';
+
+const MAX_TAG_SYNONYMS = 5;
+
+/**
+ * What a query was expanded into
+ */
+export interface QueryExpansion {
+  sub_queries: string[];
+  hypothetical_answer?: string;
+  synonyms: string[];
+}
+
+const zExpandQueryResponse = z.object({
+  sub_queries: z.array(z.string()).default([]),
+  hypothetical_answer: z.string().optional(),
+});
+
+/**
+ * Fill in defaults for unset expansion settings
+ */
+export function resolveExpansionSettings(settings?: Partial<ExpansionSettings>): ExpansionSettings {
+  return zExpansionSettings.parse(settings ?? {});
+}
+
+export function isExpansionEnabled(settings: ExpansionSettings): boolean {
+  return settings.sub_queries > 0 || settings.hyde || settings.tag_synonyms;
+}
+
+/**
+ * Ask the fast model for sub-queries and/or a hypothetical answer
+ */
+export async function generateQueryVariants(
+  query: string,
+  settings: ExpansionSettings,
+  provider: LLMProvider
+): Promise<Omit<QueryExpansion, 'synonyms'>> {
+  const responseText = await provider.chatJSON({
+    messages: [
+      {
+        role: 'system',
+        content: 'You write search queries for a retrieval system. Return them in the JSON format requested.'
+      },
+      {
+        role: 'user',
+        content: expandQueryPrompt(query, { subQueries: settings.sub_queries, hyde: settings.hyde })
+      }
+    ],
+    tier: 'fast',
+    temperature: 0.3,
+  });
+
+  const parsed = zExpandQueryResponse.parse(JSON.parse(responseText));
+  const seen = new Set([query.trim().toLowerCase()]);
+
+  const subQueries = parsed.sub_queries
+    .map(subQuery => subQuery.trim())
+    .filter(subQuery => {
+      const key = subQuery.toLowerCase();
+      if (!subQuery || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, settings.sub_queries);
+
+  const hypotheticalAnswer = settings.hyde ? parsed.hypothetical_answer?.trim() : undefined;
+
+  return {
+    sub_queries: subQueries,
+    ...(hypotheticalAnswer ? { hypothetical_answer: hypotheticalAnswer } : {}),
+  };
+}
+
+/**
+ * Tags that appear alongside tags matching the query's terms, most frequent
+ * first. A chunk tagged "launch" and "early-bird pricing" makes "early-bird
+ * pricing" a synonym for a "launch week" query.
+ */
+export async function findTagSynonyms(projectId: string, query: string, userId?: string): Promise<string[]> {
+  const queryTerms = new Set(extractTerms(query));
+  if (queryTerms.size === 0) return [];
+
+  const chunksCollection = await getColl<Chunk>('chunks');
+  const tagged = await chunksCollection
+    .find(
+      { ...chunkScopeFilter({ projectId, userId }), 'tags.0': { $exists: true } },
+      { projection: { tags: 1 } }
+    )
+    .toArray();
+
+  const counts = new Map<string, number>();
+
+  tagged.forEach(chunk => {
+    const tags = chunk.tags || [];
+    const matches = tags.some(tag => extractTerms(tag).some(term => queryTerms.has(term)));
+    if (!matches) return;
+
+    tags.forEach(tag => {
+      const terms = extractTerms(tag);
+      // Skip tags the query already covers
+      if (terms.length === 0 || terms.every(term => queryTerms.has(term))) return;
+      const key = tag.toLowerCase();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TAG_SYNONYMS)
+    .map(([tag]) => tag);
+}
+
+/**
+ * Expand a query with the enabled techniques
+ *
+ * Expansion is best-effort: a failing LLM call or tag lookup is logged and
+ * that part is left out, so retrieval still runs with the original query.
+ * Sub-queries and HyDE need a provider and are skipped without one.
+ */
+export async function expandQuery({
+  projectId,
+  query,
+  userId,
+  settings,
+  provider
+}: {
+  projectId: string;
+  query: string;
+  userId?: string;
+  settings?: Partial<ExpansionSettings>;
+  provider?: LLMProvider;
+}): Promise<QueryExpansion> {
+  const resolved = resolveExpansionSettings(settings);
+  const wantsVariants = resolved.sub_queries > 0 || resolved.hyde;
+
+  const [variants, synonyms] = await Promise.all([
+    wantsVariants && provider
+      ? generateQueryVariants(query, resolved, provider).catch(error => {
+        console.warn('Query expansion failed:', error);
+        return { sub_queries: [] };
+      })
+      : { sub_queries: [] },
+    resolved.tag_synonyms
+      ? findTagSynonyms(projectId, query, userId).catch(error => {
+        console.warn('Tag synonym lookup failed:', error);
+        return [];
+      })
+      : [],
+  ]);
+
+  return { ...variants, synonyms };
+}
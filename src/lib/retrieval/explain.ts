@@ -0,0 +1,93 @@
+/**
+ * Retrieval Explanations
+ *
+ * Records how every candidate of a `hybridRetrieve` call was scored: the raw
+ * vector similarity and text score, their normalised and weighted values,
+ * the fused score, the reranker's score and where the chunk finally landed.
+ * There is no topic boost: the reranker replaced `prioritizeChunksByTopic`,
+ * so `rerank_score` and `rerank_position` show that adjustment instead.
+ * Used by explain mode in the retriever and generate routes to debug why a
+ * chunk did or didn't make it into the context.
+ */
+
+import { type FusionSettings, type MmrSettings } from '@/lib/schemas/project';
+import { type FusionBreakdown } from './fusion';
+import { type RerankedResult, type RerankerName } from './rerank';
+
+/**
+ * How one candidate chunk was scored
+ */
+export interface ChunkExplanation extends Omit<FusionBreakdown, 'fused_score'> {
+  chunkId: string;
+  title?: string;
+  source: 'vector' | 'lexical' | 'both';
+  matched_queries: string[]; // Query variants whose searches found the chunk
+  fused_score: number; // After merging the variants' rankings
+  rerank_score?: number; // Set when a reranker re-scored the chunk; stands in for the old topic boost
+  rerank_position: number; // 1-based position after reranking
+  rank: number | null; // 1-based position in the results, null when MMR or the asset cap dropped it
+}
+
+/**
+ * Scoring details for a whole retrieval
+ */
+export interface RetrievalExplanation {
+  fusion: FusionSettings;
+  reranker: RerankerName;
+  mmr: MmrSettings;
+  candidates: ChunkExplanation[]; // In reranked order
+}
+
+/**
+ * Fusion breakdowns of one query variant's searches
+ */
+export interface VariantBreakdown {
+  query: string;
+  breakdowns: Map<string, FusionBreakdown>;
+}
+
+/**
+ * Combine the scoring records of each retrieval stage into one explanation
+ *
+ * @param variants - Per-variant fusion breakdowns, the original query first;
+ *   a chunk's raw scores come from the first variant that found it
+ * @param reranked - Candidates after reranking
+ * @param selectedIds - Chunk IDs returned, in order
+ */
+export function buildExplanation({
+  variants,
+  reranked,
+  selectedIds,
+  fusion,
+  reranker,
+  mmr
+}: {
+  variants: VariantBreakdown[];
+  reranked: RerankedResult[];
+  selectedIds: string[];
+  fusion: FusionSettings;
+  reranker: RerankerName;
+  mmr: MmrSettings;
+}): RetrievalExplanation {
+  const ranks = new Map(selectedIds.map((chunkId, index) => [chunkId, index + 1]));
+
+  const candidates = reranked.map((chunk, index): ChunkExplanation => {
+    const matching = variants.filter(variant => variant.breakdowns.has(chunk.chunkId));
+    const breakdown = matching[0]?.breakdowns.get(chunk.chunkId);
+
+    return {
+      chunkId: chunk.chunkId,
+      ...(chunk.title ? { title: chunk.title } : {}),
+      source: chunk.source,
+      matched_queries: matching.map(variant => variant.query),
+      ...breakdown,
+      // The variant's own fused score is superseded by the merged one
+      fused_score: chunk.fused_score,
+      ...(chunk.rerank_score !== undefined ? { rerank_score: chunk.rerank_score } : {}),
+      rerank_position: index + 1,
+      rank: ranks.get(chunk.chunkId) ?? null,
+    };
+  });
+
+  return { fusion, reranker, mmr, candidates };
+}
@@ -0,0 +1,111 @@
+/**
+ * Retrieval Filters
+ *
+ * Turns `ChunkFilters` into MongoDB conditions for the lexical search and the
+ * database-backed vector stores, and into an in-memory check for stores that
+ * search a cached index (HNSW). Both forms must agree, so any new filter is
+ * added to both.
+ *
+ * Custom chunks are the ones users write by hand (`assetId` is empty);
+ * ingested chunks come from an asset.
+ */
+
+import { type Chunk, type ChunkFilters } from '@/lib/schemas/chunk';
+
+/**
+ * Chunk fields the filters read
+ */
+export type FilterableChunk = Pick<Chunk, 'assetId' | 'tags' | 'section' | 'meta' | 'createdAt'>;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function hasChunkFilters(filters?: ChunkFilters): filters is ChunkFilters {
+  return !!filters && Object.values(filters).some(value => value !== undefined);
+}
+
+/**
+ * MongoDB conditions for the filters, to be combined with `$and`
+ */
+export function chunkFilterConditions(filters?: ChunkFilters): Record<string, unknown>[] {
+  if (!hasChunkFilters(filters)) return [];
+
+  const conditions: Record<string, unknown>[] = [];
+
+  if (filters.asset_ids) {
+    conditions.push({ assetId: { $in: filters.asset_ids } });
+  }
+
+  if (filters.tags) {
+    conditions.push({ tags: { $in: filters.tags } });
+  }
+
+  if (filters.section) {
+    conditions.push({ section: { $regex: `^${escapeRegex(filters.section)}`, $options: 'i' } });
+  }
+
+  if (filters.hpath_prefix) {
+    conditions.push(Object.fromEntries(
+      filters.hpath_prefix.map((heading, index) => [`meta.hpath.${index}`, heading])
+    ));
+  }
+
+  if (filters.source === 'custom') {
+    conditions.push({ $or: [{ assetId: '' }, { assetId: { $exists: false } }] });
+  } else if (filters.source === 'ingested') {
+    conditions.push({ assetId: { $exists: true, $ne: '' } });
+  }
+
+  if (filters.created_after || filters.created_before) {
+    conditions.push({
+      createdAt: {
+        ...(filters.created_after ? { $gte: filters.created_after } : {}),
+        ...(filters.created_before ? { $lte: filters.created_before } : {}),
+      },
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * In-memory equivalent of `chunkFilterConditions`
+ */
+export function matchesChunkFilters(chunk: FilterableChunk, filters?: ChunkFilters): boolean {
+  if (!hasChunkFilters(filters)) return true;
+
+  if (filters.asset_ids && !filters.asset_ids.includes(chunk.assetId)) {
+    return false;
+  }
+
+  if (filters.tags && !(chunk.tags || []).some(tag => filters.tags!.includes(tag))) {
+    return false;
+  }
+
+  if (filters.section && !(chunk.section || '').toLowerCase().startsWith(filters.section.toLowerCase())) {
+    return false;
+  }
+
+  if (filters.hpath_prefix) {
+    const hpath = chunk.meta?.hpath || [];
+    if (!filters.hpath_prefix.every((heading, index) => hpath[index] === heading)) {
+      return false;
+    }
+  }
+
+  const isCustom = !chunk.assetId;
+  if ((filters.source === 'custom' && !isCustom) || (filters.source === 'ingested' && isCustom)) {
+    return false;
+  }
+
+  const createdAt = chunk.createdAt ? new Date(chunk.createdAt) : undefined;
+  if (filters.created_after && (!createdAt || createdAt < filters.created_after)) {
+    return false;
+  }
+  if (filters.created_before && (!createdAt || createdAt > filters.created_before)) {
+    return false;
+  }
+
+  return true;
+}
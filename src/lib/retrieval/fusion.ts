@@ -0,0 +1,244 @@
+/**
+ * Result Fusion
+ *
+ * Combines the vector and lexical rankings of a hybrid search into one list.
+ *
+ * - `weighted`: weighted sum of normalised scores (the original 60/40 blend)
+ * - `rrf`: reciprocal rank fusion, weight / (rrf_k + rank); ignores score
+ *   scales entirely, so it suits keyword-heavy knowledge bases where lexical
+ *   scores are spiky
+ * - `max`: best weighted normalised score from either side
+ *
+ * With query expansion each query variant is fused on its own, then the
+ * variants' rankings are merged with `mergeRankings`.
+ */
+
+import { zFusionSettings, type FusionSettings } from '@/lib/schemas/project';
+import { type HybridSearchResult } from './hybrid';
+import { type LexicalSearchResult } from './lexical';
+import { type VectorSearchResult } from './vector';
+
+export type FusionStrategy = FusionSettings['strategy'];
+
+type RankedResult = VectorSearchResult | LexicalSearchResult;
+
+/**
+ * Fill in defaults for unset fusion settings
+ */
+export function resolveFusionSettings(settings?: Partial<FusionSettings>): FusionSettings {
+  return zFusionSettings.parse(settings ?? {});
+}
+
+/**
+ * Map raw scores to 0-1
+ *
+ * Min-max when the scores spread out. A single result (or a tie) has no range
+ * to normalise against, and min-max would promote it to 1 however weak it is,
+ * so those keep their own score clamped to 0-1 (both searches already score
+ * roughly in that range).
+ */
+export function normalizeScores<T extends { score: number }>(results: T[]): T[] {
+  if (results.length === 0) return results;
+
+  const scores = results.map(r => r.score);
+  const minScore = Math.min(...scores);
+  const maxScore = Math.max(...scores);
+
+  if (maxScore === minScore) {
+    return results.map(r => ({ ...r, score: Math.min(Math.max(r.score, 0), 1) }));
+  }
+
+  // Min-max normalization to 0-1 range
+  return results.map(r => ({
+    ...r,
+    score: (r.score - minScore) / (maxScore - minScore)
+  }));
+}
+
+/**
+ * Per-chunk score from one side of the search before weighting: min-max
+ * normalised for `weighted` and `max`, 1 / (rrf_k + rank) for `rrf`
+ */
+function sideNormalized(results: RankedResult[], settings: FusionSettings): Map<string, number> {
+  if (settings.strategy === 'rrf') {
+    return new Map(
+      [...results]
+        .sort((a, b) => b.score - a.score)
+        .map((result, index) => [result.chunkId, 1 / (settings.rrf_k + index + 1)])
+    );
+  }
+
+  return new Map(normalizeScores(results).map(result => [result.chunkId, result.score]));
+}
+
+/**
+ * Per-chunk score from one side of the search
+ */
+function sideScores(results: RankedResult[], kind: 'vector' | 'lexical', settings: FusionSettings): Map<string, number> {
+  const weight = kind === 'vector' ? settings.vector_weight : settings.lexical_weight;
+  const normalized = sideNormalized(results, settings);
+  return new Map(Array.from(normalized, ([chunkId, score]) => [chunkId, score * weight]));
+}
+
+/**
+ * Merge and deduplicate search results from vector and lexical search
+ *
+ * @param vectorResults - Results from vector search
+ * @param lexicalResults - Results from lexical search
+ * @param k - Maximum number of results to return
+ * @param settings - Fusion strategy and weights, defaults to weighted 60/40
+ * @returns Fused results, best first
+ */
+export function fuseResults(
+  vectorResults: VectorSearchResult[],
+  lexicalResults: LexicalSearchResult[],
+  k: number,
+  settings: Partial<FusionSettings> = {}
+): HybridSearchResult[] {
+  const resolved = resolveFusionSettings(settings);
+  const vectorScores = sideScores(vectorResults, 'vector', resolved);
+  const lexicalScores = sideScores(lexicalResults, 'lexical', resolved);
+  const combine = resolved.strategy === 'max'
+    ? (a: number, b: number) => Math.max(a, b)
+    : (a: number, b: number) => a + b;
+
+  const chunkMap = new Map<string, HybridSearchResult>();
+
+  vectorResults.forEach(result => {
+    chunkMap.set(result.chunkId, {
+      chunkId: result.chunkId,
+      score: vectorScores.get(result.chunkId)!,
+      md_text: result.md_text,
+      hpath: result.hpath,
+      source: 'vector',
+      title: result.title,
+      tags: result.tags
+    });
+  });
+
+  lexicalResults.forEach(result => {
+    const score = lexicalScores.get(result.chunkId)!;
+    const existing = chunkMap.get(result.chunkId);
+
+    if (existing) {
+      // Chunk found in both searches - combine scores
+      chunkMap.set(result.chunkId, {
+        ...existing,
+        score: combine(existing.score, score),
+        source: 'both'
+      });
+    } else {
+      chunkMap.set(result.chunkId, {
+        chunkId: result.chunkId,
+        score,
+        md_text: result.md_text,
+        hpath: result.hpath,
+        source: 'lexical',
+        title: result.title,
+        tags: result.tags
+      });
+    }
+  });
+
+  return Array.from(chunkMap.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+/**
+ * Merge the fused rankings of several queries for the same brief
+ *
+ * Reciprocal rank fusion across the rankings, scaled so a chunk ranked first
+ * by every query scores 1. Chunks several queries agree on rise above chunks
+ * only one query found.
+ *
+ * @param rankings - One fused ranking per query, the original query first
+ * @param k - Maximum number of results to return
+ * @param rrfK - Rank offset, usually the project's `fusion.rrf_k`
+ * @returns Merged results, best first
+ */
+export function mergeRankings(rankings: HybridSearchResult[][], k: number, rrfK = 60): HybridSearchResult[] {
+  const maxScore = rankings.length / (rrfK + 1);
+  const chunkMap = new Map<string, HybridSearchResult>();
+
+  rankings.forEach(ranking => {
+    ranking.forEach((result, index) => {
+      const score = 1 / (rrfK + index + 1) / maxScore;
+      const existing = chunkMap.get(result.chunkId);
+
+      if (existing) {
+        chunkMap.set(result.chunkId, {
+          ...existing,
+          score: existing.score + score,
+          source: existing.source === result.source ? existing.source : 'both'
+        });
+      } else {
+        chunkMap.set(result.chunkId, { ...result, score });
+      }
+    });
+  });
+
+  return Array.from(chunkMap.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+/**
+ * How one chunk's fused score was put together
+ */
+export interface FusionBreakdown {
+  vector_similarity?: number; // Raw cosine similarity
+  text_score?: number; // Raw lexical score
+  vector_rank?: number; // 1-based position in the vector results
+  text_rank?: number;
+  vector_normalized?: number; // Before weighting: min-max (weighted, max) or 1 / (rrf_k + rank) (rrf)
+  text_normalized?: number;
+  fused_score: number;
+}
+
+/**
+ * Break down `fuseResults` for every chunk either search found
+ */
+export function explainFusion(
+  vectorResults: VectorSearchResult[],
+  lexicalResults: LexicalSearchResult[],
+  settings: Partial<FusionSettings> = {}
+): Map<string, FusionBreakdown> {
+  const resolved = resolveFusionSettings(settings);
+  const vectorNormalized = sideNormalized(vectorResults, resolved);
+  const lexicalNormalized = sideNormalized(lexicalResults, resolved);
+  const rank = (results: RankedResult[]) => new Map(
+    [...results].sort((a, b) => b.score - a.score).map((result, index) => [result.chunkId, index + 1])
+  );
+  const vectorRanks = rank(vectorResults);
+  const lexicalRanks = rank(lexicalResults);
+
+  const breakdowns = new Map<string, FusionBreakdown>();
+  const entry = (chunkId: string) => breakdowns.get(chunkId) ?? { fused_score: 0 };
+
+  vectorResults.forEach(result => {
+    breakdowns.set(result.chunkId, {
+      ...entry(result.chunkId),
+      vector_similarity: result.score,
+      vector_rank: vectorRanks.get(result.chunkId),
+      vector_normalized: vectorNormalized.get(result.chunkId),
+    });
+  });
+
+  lexicalResults.forEach(result => {
+    breakdowns.set(result.chunkId, {
+      ...entry(result.chunkId),
+      text_score: result.score,
+      text_rank: lexicalRanks.get(result.chunkId),
+      text_normalized: lexicalNormalized.get(result.chunkId),
+    });
+  });
+
+  breakdowns.forEach(breakdown => {
+    const vector = (breakdown.vector_normalized ?? 0) * resolved.vector_weight;
+    const text = (breakdown.text_normalized ?? 0) * resolved.lexical_weight;
+    breakdown.fused_score = resolved.strategy === 'max' ? Math.max(vector, text) : vector + text;
+  });
+
+  return breakdowns;
+}
@@ -1,6 +1,21 @@
-import { vectorSearch, VectorSearchResult } from './vector';
-import { lexicalSearch, LexicalSearchResult } from './lexical';
-import { embedMany } from '@/lib/vector/embeddings';
+import { vectorSearch } from './vector';
+import { lexicalSearch } from './lexical';
+import { explainFusion, fuseResults, mergeRankings, resolveFusionSettings } from './fusion';
+import { rerankResults, resolveRerankSettings, type RerankerName } from './rerank';
+import { loadChunkVectors, resolveMmrSettings, selectDiverse } from './mmr';
+import { buildExplanation, type RetrievalExplanation } from './explain';
+import { buildContextPack, type ContextPackReport } from './contextPack';
+import { expandQuery, isExpansionEnabled, resolveExpansionSettings, type QueryExpansion } from './expansion';
+import {
+  type ExpansionSettings,
+  type FusionSettings,
+  type MmrSettings,
+  type RerankSettings,
+} from '@/lib/schemas/project';
+import { type ChunkFilters } from '@/lib/schemas/chunk';
+import { type EmbeddingModel } from '@/lib/schemas/embeddingModel';
+import { type LLMProvider } from '@/lib/llm/providers';
+import { embedMany, getProjectEmbeddingModel } from '@/lib/vector/embeddings';
 
 /**
  * Combined search result with merged scoring
@@ -13,6 +28,8 @@ export interface HybridSearchResult {
   source: 'vector' | 'lexical' | 'both';
   title?: string;
   tags?: string[];
+  fused_score?: number; // Score from fusion, before reranking
+  rerank_score?: number; // Set when a reranker re-scored the chunk
 }
 
 /**
@@ -21,140 +38,74 @@ export interface HybridSearchResult {
 export interface HybridRetrievalResponse {
   chunks: HybridSearchResult[];
   contextPack: string;
+  context: ContextPackReport; // Which chunks made it into `contextPack`
+  reranker: RerankerName; // Reranker that ordered `chunks`
+  expansion?: QueryExpansion; // Extra searches run for the query, when expansion is on
+  explain?: RetrievalExplanation; // Per-chunk scoring details, when asked for
 }
 
 /**
- * Normalize scores to 0-1 range using min-max normalization
- * 
- * @param results - Array of results with scores
- * @returns Array of results with normalized scores
- */
-function normalizeScores<T extends { score: number }>(results: T[]): T[] {
-  if (results.length === 0) return results;
-  
-  const scores = results.map(r => r.score);
-  const minScore = Math.min(...scores);
-  const maxScore = Math.max(...scores);
-  
-  // If all scores are the same, return as-is
-  if (maxScore === minScore) {
-    return results.map(r => ({ ...r, score: 1 }));
-  }
-  
-  // Min-max normalization to 0-1 range
-  return results.map(r => ({
-    ...r,
-    score: (r.score - minScore) / (maxScore - minScore)
-  }));
-}
-
-/**
- * Merge and deduplicate search results from vector and lexical search
- * 
- * @param vectorResults - Results from vector search
- * @param lexicalResults - Results from lexical search
- * @param k - Maximum number of results to return
- * @returns Merged and deduplicated results
- */
-function mergeResults(
-  vectorResults: VectorSearchResult[],
-  lexicalResults: LexicalSearchResult[],
-  k: number
-): HybridSearchResult[] {
-  // Normalize scores for both result sets
-  const normalizedVector = normalizeScores(vectorResults);
-  const normalizedLexical = normalizeScores(lexicalResults);
-  
-  // Create a map to track chunks and their best scores
-  const chunkMap = new Map<string, HybridSearchResult>();
-  
-  // Process vector results
-  normalizedVector.forEach(result => {
-    chunkMap.set(result.chunkId, {
-      chunkId: result.chunkId,
-      score: result.score * 0.6, // Weight vector search at 60%
-      md_text: result.md_text,
-      hpath: result.hpath,
-      source: 'vector',
-      title: result.title,
-      tags: result.tags
-    });
-  });
-  
-  // Process lexical results and merge with vector results
-  normalizedLexical.forEach(result => {
-    const existing = chunkMap.get(result.chunkId);
-    
-    if (existing) {
-      // Chunk found in both searches - combine scores
-      chunkMap.set(result.chunkId, {
-        ...existing,
-        score: existing.score + (result.score * 0.4), // Weight lexical at 40%
-        source: 'both'
-      });
-    } else {
-      // Chunk only found in lexical search
-      chunkMap.set(result.chunkId, {
-        chunkId: result.chunkId,
-        score: result.score * 0.4, // Weight lexical at 40%
-        md_text: result.md_text,
-        hpath: result.hpath,
-        source: 'lexical',
-        title: result.title,
-        tags: result.tags
-      });
-    }
-  });
-  
-  // Convert map to array, sort by score, and slice to k
-  return Array.from(chunkMap.values())
-    .sort((a, b) => b.score - a.score)
-    .slice(0, k);
-}
-
-/**
- * Build context pack string with chunk headers
- * 
- * @param chunks - Array of chunks to include in context pack
- * @returns Formatted context pack string
+ * Run the vector search and, when given a lexical query, the lexical search
+ *
+ * Either search failing yields no results from it rather than failing the
+ * retrieval.
  */
-function buildContextPack(chunks: HybridSearchResult[]): string {
-  if (chunks.length === 0) {
-    return '';
-  }
-  
-  return chunks
-    .map(chunk => {
-      // Use title if available, otherwise fall back to chunkId
-      const title = chunk.title || `Chunk ${chunk.chunkId}`;
-      
-      // Create hierarchical path display if hpath exists
-      const pathDisplay = chunk.hpath.length > 0 
-        ? ` (${chunk.hpath.join(' > ')})` 
-        : '';
-      
-      // Add tags if available
-      const tagDisplay = chunk.tags && chunk.tags.length > 0 
-        ? `\n**Tags:** ${chunk.tags.join(', ')}` 
-        : '';
-      
-      return `## ${title}${pathDisplay}${tagDisplay}\n\n${chunk.md_text.trim()}\n`;
-    })
-    .join('\n');
+async function searchBoth({
+  projectId,
+  embedding,
+  lexicalQuery,
+  k,
+  userId,
+  embeddingModel,
+  filters
+}: {
+  projectId: string;
+  embedding: number[];
+  lexicalQuery?: string;
+  k: number;
+  userId?: string;
+  embeddingModel: EmbeddingModel;
+  filters?: ChunkFilters;
+}) {
+  return Promise.all([
+    vectorSearch(projectId, embedding, k, userId, embeddingModel, filters).catch(error => {
+      console.warn('Vector search failed:', error);
+      return []; // Fallback to empty results if vector search fails
+    }),
+    lexicalQuery
+      ? lexicalSearch(projectId, lexicalQuery, k, userId, filters).catch(error => {
+        console.warn('Lexical search failed:', error);
+        return []; // Fallback to empty results if lexical search fails
+      })
+      : []
+  ]);
 }
 
 /**
  * Perform hybrid retrieval combining vector and lexical search
  * 
  * This function merges results from both vector similarity search and lexical text search
- * to provide comprehensive retrieval results. Vector search is weighted at 60% and lexical
- * search at 40%. Results are deduplicated by chunkId and merged scores are calculated
- * for chunks found in both searches.
+ * to provide comprehensive retrieval results. The two rankings are combined with the
+ * project's fusion strategy (weighted 60/40 by default, see ./fusion), then the top
+ * candidates are re-scored against the query by the project's reranker (see ./rerank),
+ * and the final k are picked by maximal marginal relevance with a per-asset cap (see
+ * ./mmr). Results are deduplicated by chunkId.
+ * 
+ * With query expansion on (see ./expansion), sub-queries and a hypothetical answer are
+ * searched as well and every variant's fused ranking is merged before reranking.
  * 
  * @param options - Hybrid search options
  * @param options.projectId - Project ID to search within
  * @param options.query - Search query string
  * @param options.k - Maximum number of results to return
+ * @param options.filters - Metadata filters applied to both searches (see ./filters)
+ * @param options.fusion - Fusion strategy and weights, usually the project's `retrieval.fusion`
+ * @param options.rerank - Reranker settings, usually the project's `retrieval.reranker`
+ * @param options.mmr - Diversity and per-asset cap, usually the project's `retrieval.mmr`
+ * @param options.expansion - Query expansion, usually the project's `retrieval.expansion`
+ * @param options.provider - LLM provider for the `llm` reranker and query expansion
+ * @param options.contextBudget - Token budget for the context pack; no limit when unset
+ * @param options.explain - Also return how every candidate was scored (see ./explain)
  * @returns Promise resolving to hybrid retrieval response with chunks and context pack
  * 
  * @example
@@ -173,12 +124,28 @@ export async function hybridRetrieve({
   projectId,
   query,
   k,
-  userId
+  userId,
+  filters,
+  fusion,
+  rerank,
+  mmr,
+  expansion,
+  provider,
+  contextBudget,
+  explain = false
 }: {
   projectId: string;
   query: string;
   k: number;
   userId?: string;
+  filters?: ChunkFilters;
+  fusion?: Partial<FusionSettings>;
+  rerank?: Partial<RerankSettings>;
+  mmr?: Partial<MmrSettings>;
+  expansion?: Partial<ExpansionSettings>;
+  provider?: LLMProvider;
+  contextBudget?: number;
+  explain?: boolean;
 }): Promise<HybridRetrievalResponse> {
   if (!projectId) {
     throw new Error('Project ID is required');
@@ -193,33 +160,102 @@ export async function hybridRetrieve({
   }
   
   try {
-    // Generate query embedding for vector search
-    const [queryEmbedding] = await embedMany([query.trim()]);
-    
-    // Perform both searches in parallel
-    // Use k * 1.5 to get more candidates for better merging
-    const searchK = Math.max(k, Math.ceil(k * 1.5));
-    
-    const [vectorResults, lexicalResults] = await Promise.all([
-      vectorSearch(projectId, queryEmbedding, searchK, userId).catch(error => {
-        console.warn('Vector search failed:', error);
-        return []; // Fallback to empty results if vector search fails
-      }),
-      lexicalSearch(projectId, query.trim(), searchK, userId).catch(error => {
-        console.warn('Lexical search failed:', error);
-        return []; // Fallback to empty results if lexical search fails
-      })
-    ]);
+    const trimmedQuery = query.trim();
+    const expansionSettings = resolveExpansionSettings(expansion);
+    const expanded = isExpansionEnabled(expansionSettings)
+      ? await expandQuery({ projectId, query: trimmedQuery, userId, settings: expansionSettings, provider })
+      : undefined;
+    const subQueries = expanded?.sub_queries ?? [];
+    const hypotheticalAnswer = expanded?.hypothetical_answer;
+
+    // Embed the query and its variants with the same model as the project's chunks
+    const embeddingModel = await getProjectEmbeddingModel(projectId);
+    const embeddings = await embedMany(
+      [trimmedQuery, ...subQueries, ...(hypotheticalAnswer ? [hypotheticalAnswer] : [])],
+      embeddingModel
+    );
     
-    // Merge results with normalized scoring
-    const mergedChunks = mergeResults(vectorResults, lexicalResults, k);
+    // The reranker and MMR see more candidates than we return
+    const rerankSettings = resolveRerankSettings(rerank);
+    const candidateK = Math.max(k, rerankSettings.top_n);
+
+    // Perform both searches in parallel for every variant
+    // Use candidateK * 1.5 to get more candidates for better merging
+    const searchK = Math.ceil(candidateK * 1.5);
+    const synonyms = expanded?.synonyms ?? [];
+
+    const searches = [
+      { query: trimmedQuery, embedding: embeddings[0], lexicalQuery: [trimmedQuery, ...synonyms].join(' ') },
+      ...subQueries.map((subQuery, index) => ({ query: subQuery, embedding: embeddings[index + 1], lexicalQuery: subQuery })),
+      // A made-up passage only helps by embedding; its invented words would skew lexical search
+      ...(hypotheticalAnswer
+        ? [{ query: hypotheticalAnswer, embedding: embeddings[subQueries.length + 1], lexicalQuery: undefined }]
+        : []),
+    ];
+
+    // Merge results with the configured fusion strategy
+    const variants = await Promise.all(searches.map(async search => {
+      const [vectorResults, lexicalResults] = await searchBoth({
+        projectId,
+        embedding: search.embedding,
+        lexicalQuery: search.lexicalQuery,
+        k: searchK,
+        userId,
+        embeddingModel,
+        filters
+      });
+      return {
+        query: search.query,
+        ranking: fuseResults(vectorResults, lexicalResults, candidateK, fusion),
+        ...(explain ? { breakdowns: explainFusion(vectorResults, lexicalResults, fusion) } : {})
+      };
+    }));
+    const rankings = variants.map(variant => variant.ranking);
+
+    const mergedChunks = rankings.length === 1
+      ? rankings[0]
+      : mergeRankings(rankings, candidateK, resolveFusionSettings(fusion).rrf_k);
+
+    // Re-score the candidates against the query. The LLM reranker judges them against
+    // the brief itself; term overlap needs the variants' words too, or it would bury
+    // every chunk that only a sub-query or synonym found.
+    const rerankQuery = rerankSettings.strategy === 'llm'
+      ? trimmedQuery
+      : [trimmedQuery, ...subQueries, ...synonyms].join(' ');
+
+    const { chunks: reranked, reranker } = await rerankResults({
+      query: rerankQuery,
+      candidates: mergedChunks,
+      k: candidateK,
+      settings: rerank,
+      provider
+    });
+
+    // Pick the final k, skipping near-duplicates of chunks already picked
+    const vectors = await loadChunkVectors(projectId, reranked.map(chunk => chunk.chunkId), embeddingModel);
+    const chunks = selectDiverse(reranked, vectors, k, mmr);
     
     // Build context pack
-    const contextPack = buildContextPack(mergedChunks);
+    const { text: contextPack, ...context } = buildContextPack(chunks, { budgetTokens: contextBudget });
     
     return {
-      chunks: mergedChunks,
-      contextPack
+      chunks,
+      contextPack,
+      context,
+      reranker,
+      ...(expanded ? { expansion: expanded } : {}),
+      ...(explain
+        ? {
+          explain: buildExplanation({
+            variants: variants.map(variant => ({ query: variant.query, breakdowns: variant.breakdowns ?? new Map() })),
+            reranked,
+            selectedIds: chunks.map(chunk => chunk.chunkId),
+            fusion: resolveFusionSettings(fusion),
+            reranker,
+            mmr: resolveMmrSettings(mmr)
+          })
+        }
+        : {})
     };
     
   } catch (error) {
@@ -1,5 +1,7 @@
 import { getColl } from '@/lib/db/mongo';
-import { Chunk } from '@/lib/schemas/chunk';
+import { Chunk, type ChunkFilters } from '@/lib/schemas/chunk';
+import { chunkFilterConditions } from './filters';
+import { getLexicalBackendName, getLexicalIndex } from './lexicalIndex';
 
 /**
  * Lexical search result interface (matches VectorSearchResult)
@@ -69,15 +71,18 @@ function extractSearchTerms(query: string): string[] {
 }
 
 /**
- * Perform lexical text search within a project using MongoDB text index
+ * Perform lexical text search within a project
  * 
  * This function provides a fallback search mechanism when vector search
- * is not available or appropriate. It uses MongoDB's full-text search
- * capabilities with additional heuristic scoring.
+ * is not available or appropriate. LEXICAL_BACKEND picks how: `mongo`
+ * (default) uses MongoDB's full-text search over the chunk text with
+ * additional heuristic scoring; `bm25` uses the in-process BM25 index over
+ * text, title, tags and heading path (see ./lexicalIndex).
  * 
  * @param projectId - Project ID to search within
  * @param query - Text query to search for
  * @param k - Number of top results to return
+ * @param filters - Metadata the chunks must match (see ./filters)
  * @returns Promise resolving to array of search results with relevance scores
  * 
  * @example
@@ -92,7 +97,8 @@ export async function lexicalSearch(
   projectId: string,
   query: string,
   k: number,
-  userId?: string
+  userId?: string,
+  filters?: ChunkFilters
 ): Promise<LexicalSearchResult[]> {
   if (!projectId) {
     throw new Error('Project ID is required');
@@ -107,6 +113,10 @@ export async function lexicalSearch(
   }
 
   try {
+    if (getLexicalBackendName() === 'bm25') {
+      return await getLexicalIndex().search({ projectId, query: query.trim(), k, userId, filters });
+    }
+
     // Get chunks collection
     const chunks = await getColl<Chunk>('chunks');
 
@@ -123,19 +133,20 @@ export async function lexicalSearch(
       projectId,
       $text: { $search: query.trim() }
     };
+    const conditions = chunkFilterConditions(filters);
     
     // Add userId filter if provided (defense in depth)
     if (userId) {
-      searchFilter.$and = [
-        { $text: { $search: query.trim() } },
-        {
-          $or: [
-            { userId }, // New chunks with userId field
-            { userId: { $exists: false } } // Legacy chunks without userId field
-          ]
-        }
-      ];
-      delete searchFilter.$text; // Remove duplicate $text from root level
+      conditions.unshift({
+        $or: [
+          { userId }, // New chunks with userId field
+          { userId: { $exists: false } } // Legacy chunks without userId field
+        ]
+      });
+    }
+
+    if (conditions.length > 0) {
+      searchFilter.$and = conditions;
     }
 
     // Perform MongoDB text search with projection to include text score
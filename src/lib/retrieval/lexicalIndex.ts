@@ -0,0 +1,235 @@
+/**
+ * BM25 Lexical Index
+ *
+ * In-process BM25 index per project, used by `lexicalSearch` when
+ * LEXICAL_BACKEND=bm25 (MongoDB `$text` over `md_text` is the default).
+ * Unlike `$text` it stems, drops stop words and searches the AI-generated
+ * title, the tags and the heading path as well as the text, each with its
+ * own weight.
+ *
+ * An index is built from MongoDB on first search. Routes that write chunks
+ * call `syncLexicalIndex` / `removeFromLexicalIndex` so loaded indexes stay
+ * current without a rebuild; changes made elsewhere (another process, a
+ * script) are caught by comparing the chunks' count and latest timestamps
+ * before each search, as the HNSW vector store does.
+ */
+
+import { getColl } from '@/lib/db/mongo';
+import { type Chunk, type ChunkFilters } from '@/lib/schemas/chunk';
+import { Bm25Index } from '@/lib/text/bm25';
+import { matchesChunkFilters } from './filters';
+import { type LexicalSearchResult } from './lexical';
+
+export type LexicalBackendName = 'mongo' | 'bm25';
+
+export const LEXICAL_BACKEND_NAMES: LexicalBackendName[] = ['mongo', 'bm25'];
+
+/**
+ * How much a term occurrence counts in each chunk field
+ */
+export const LEXICAL_FIELD_WEIGHTS = {
+  text: 1,
+  title: 3,
+  tags: 2,
+  hpath: 1.5,
+};
+
+type LexicalField = keyof typeof LEXICAL_FIELD_WEIGHTS;
+
+const MAX_CACHED_INDEXES = 20;
+
+/**
+ * Chunk fields the index keeps for results and filters
+ */
+export type LexicalChunk = Pick<
+  Chunk,
+  'chunkId' | 'md_text' | 'meta' | 'title' | 'tags' | 'assetId' | 'section' | 'createdAt' | 'userId'
+>;
+
+interface ProjectIndex {
+  signature: string | null; // null after an in-process write; the next search adopts the current one
+  bm25: Bm25Index<LexicalField>;
+  chunks: Map<string, LexicalChunk>;
+}
+
+export interface LexicalIndexQuery {
+  projectId: string;
+  query: string;
+  k: number;
+  userId?: string;
+  filters?: ChunkFilters;
+}
+
+/**
+ * Backend selected by LEXICAL_BACKEND
+ */
+export function getLexicalBackendName(): LexicalBackendName {
+  const name = (process.env.LEXICAL_BACKEND || 'mongo') as LexicalBackendName;
+  if (!LEXICAL_BACKEND_NAMES.includes(name)) {
+    throw new Error(`Unknown LEXICAL_BACKEND "${name}". Expected one of: ${LEXICAL_BACKEND_NAMES.join(', ')}`);
+  }
+  return name;
+}
+
+function indexChunk(bm25: Bm25Index<LexicalField>, chunk: LexicalChunk): void {
+  bm25.add(chunk.chunkId, {
+    text: chunk.md_text,
+    title: chunk.title,
+    tags: (chunk.tags || []).join(' '),
+    hpath: (chunk.meta?.hpath || []).join(' '),
+  });
+}
+
+const LEXICAL_PROJECTION = {
+  chunkId: 1, md_text: 1, meta: 1, title: 1, tags: 1, assetId: 1, section: 1, createdAt: 1, userId: 1,
+};
+
+export function createLexicalIndex() {
+  const indexes = new Map<string, Promise<ProjectIndex>>();
+
+  async function loadIndex(projectId: string, signature: string): Promise<ProjectIndex> {
+    const chunksCollection = await getColl<Chunk>('chunks');
+    const projectChunks = await chunksCollection
+      .find({ projectId }, { projection: LEXICAL_PROJECTION })
+      .toArray();
+
+    const bm25 = new Bm25Index({ fields: LEXICAL_FIELD_WEIGHTS });
+    const chunks: ProjectIndex['chunks'] = new Map();
+
+    projectChunks.forEach(chunk => {
+      indexChunk(bm25, chunk);
+      chunks.set(chunk.chunkId, chunk);
+    });
+
+    return { signature, bm25, chunks };
+  }
+
+  /**
+   * Cheap fingerprint of the project's chunks
+   */
+  async function getSignature(projectId: string): Promise<string> {
+    const chunksCollection = await getColl<Chunk>('chunks');
+    const [stats] = await chunksCollection.aggregate<{ count: number; updatedAt?: Date; createdAt?: Date }>([
+      { $match: { projectId } },
+      { $group: { _id: null, count: { $sum: 1 }, updatedAt: { $max: '$updatedAt' }, createdAt: { $max: '$createdAt' } } },
+    ]).toArray();
+
+    if (!stats) return 'empty';
+    return [stats.count, stats.updatedAt?.valueOf() ?? '', stats.createdAt?.valueOf() ?? ''].join(':');
+  }
+
+  async function getIndex(projectId: string): Promise<ProjectIndex> {
+    const signature = await getSignature(projectId);
+
+    const cached = indexes.get(projectId);
+    if (cached) {
+      const index = await cached.catch(() => null);
+      if (index && (index.signature === signature || index.signature === null)) {
+        index.signature = signature;
+        return index;
+      }
+    }
+
+    const loading = loadIndex(projectId, signature);
+    indexes.delete(projectId);
+    indexes.set(projectId, loading);
+    loading.catch(() => indexes.delete(projectId));
+
+    // Evict the least recently built index
+    if (indexes.size > MAX_CACHED_INDEXES) {
+      indexes.delete(indexes.keys().next().value!);
+    }
+
+    return loading;
+  }
+
+  /**
+   * Apply a change to the project's index if it's loaded; an unloaded index
+   * reads the change from MongoDB when it's built
+   */
+  function update(projectId: string, change: (index: ProjectIndex) => void): void {
+    indexes.get(projectId)
+      ?.then(index => {
+        change(index);
+        index.signature = null;
+      })
+      .catch(() => {});
+  }
+
+  return {
+    async search({ projectId, query, k, userId, filters }: LexicalIndexQuery): Promise<LexicalSearchResult[]> {
+      const index = await getIndex(projectId);
+      const results: LexicalSearchResult[] = [];
+
+      for (const match of index.bm25.search(query)) {
+        const chunk = index.chunks.get(match.id)!;
+        // Legacy chunks without userId stay visible, as in the other searches
+        if (userId && chunk.userId && chunk.userId !== userId) continue;
+        if (!matchesChunkFilters(chunk, filters)) continue;
+
+        results.push({
+          chunkId: chunk.chunkId,
+          score: match.score,
+          md_text: chunk.md_text,
+          hpath: chunk.meta?.hpath || [],
+          title: chunk.title,
+          tags: chunk.tags,
+        });
+        if (results.length === k) break;
+      }
+
+      return results;
+    },
+
+    upsert(projectId: string, chunks: LexicalChunk[]): void {
+      update(projectId, index => {
+        chunks.forEach(chunk => {
+          indexChunk(index.bm25, chunk);
+          index.chunks.set(chunk.chunkId, chunk);
+        });
+      });
+    },
+
+    remove(projectId: string, { chunkIds, assetId }: { chunkIds?: string[]; assetId?: string }): void {
+      update(projectId, index => {
+        index.chunks.forEach(chunk => {
+          if (chunkIds?.includes(chunk.chunkId) || (assetId && chunk.assetId === assetId)) {
+            index.bm25.remove(chunk.chunkId);
+            index.chunks.delete(chunk.chunkId);
+          }
+        });
+      });
+    },
+
+    clear(): void {
+      indexes.clear();
+    },
+  };
+}
+
+export type LexicalIndex = ReturnType<typeof createLexicalIndex>;
+
+// One instance per process so indexes survive between requests
+let lexicalIndex: LexicalIndex | null = null;
+
+export function getLexicalIndex(): LexicalIndex {
+  lexicalIndex ??= createLexicalIndex();
+  return lexicalIndex;
+}
+
+/**
+ * Add or replace chunks in the project's loaded BM25 index after a write
+ */
+export function syncLexicalIndex(projectId: string, chunks: LexicalChunk[]): void {
+  if (getLexicalBackendName() !== 'bm25') return;
+  getLexicalIndex().upsert(projectId, chunks);
+}
+
+/**
+ * Drop deleted chunks (by chunkId, or every chunk of an asset) from the
+ * project's loaded BM25 index
+ */
+export function removeFromLexicalIndex(projectId: string, match: { chunkIds?: string[]; assetId?: string }): void {
+  if (getLexicalBackendName() !== 'bm25') return;
+  getLexicalIndex().remove(projectId, match);
+}
@@ -0,0 +1,112 @@
+/**
+ * Diversity-aware Selection
+ *
+ * Picks the final chunks with maximal marginal relevance: each pick maximises
+ * (1 - diversity) * relevance - diversity * (similarity to the closest chunk
+ * already picked), using the chunks' stored embeddings. Long assets often
+ * yield several near-identical chunks; MMR and the per-asset cap keep them
+ * from crowding other facts out of the context pack.
+ */
+
+import { getColl } from '@/lib/db/mongo';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { type EmbeddingModel } from '@/lib/schemas/embeddingModel';
+import { zMmrSettings, type MmrSettings } from '@/lib/schemas/project';
+import { LEGACY_EMBEDDING_MODEL, sameEmbeddingModel } from '@/lib/vector/embeddings';
+import { cosineSimilarity } from './stores';
+
+export interface ChunkVector {
+  assetId: string;
+  embedding?: number[];
+}
+
+/**
+ * Fill in defaults for unset MMR settings
+ */
+export function resolveMmrSettings(settings?: Partial<MmrSettings>): MmrSettings {
+  return zMmrSettings.parse(settings ?? {});
+}
+
+/**
+ * Load the asset and stored embedding of each chunk
+ *
+ * @param model - Project embedding model; vectors from other models are left out
+ */
+export async function loadChunkVectors(
+  projectId: string,
+  chunkIds: string[],
+  model?: EmbeddingModel
+): Promise<Map<string, ChunkVector>> {
+  if (chunkIds.length === 0) return new Map();
+
+  const chunksCollection = await getColl<Chunk>('chunks');
+  const chunks = await chunksCollection
+    .find({ projectId, chunkId: { $in: chunkIds } }, { projection: { chunkId: 1, assetId: 1, embedding: 1, embedding_model: 1 } })
+    .toArray();
+
+  // Chunks without a recorded model were embedded with the legacy one
+  const sameModel = (chunk: Chunk) => !model || sameEmbeddingModel(chunk.embedding_model ?? LEGACY_EMBEDDING_MODEL, model);
+
+  return new Map(chunks.map(chunk => [
+    chunk.chunkId,
+    { assetId: chunk.assetId, embedding: chunk.embedding?.length && sameModel(chunk) ? chunk.embedding : undefined },
+  ]));
+}
+
+/**
+ * Select k chunks by maximal marginal relevance
+ *
+ * Candidates must be ordered best first; their `score` is the relevance.
+ * Chunks without a usable embedding count as dissimilar to everything.
+ * Chunks from an asset that already has `max_per_asset` picks wait until no
+ * other candidates are left, then fill the remaining slots, so a project with
+ * one or two assets still gets k chunks. Custom chunks (no asset) are never
+ * capped.
+ */
+export function selectDiverse<T extends { chunkId: string; score: number }>(
+  candidates: T[],
+  vectors: Map<string, ChunkVector>,
+  k: number,
+  settings?: Partial<MmrSettings>
+): T[] {
+  const { diversity, max_per_asset } = resolveMmrSettings(settings);
+  const remaining = [...candidates];
+  const selected: T[] = [];
+  const perAsset = new Map<string, number>();
+
+  const similarity = (a: T, b: T) => {
+    const vecA = vectors.get(a.chunkId)?.embedding;
+    const vecB = vectors.get(b.chunkId)?.embedding;
+    return vecA && vecB && vecA.length === vecB.length ? cosineSimilarity(vecA, vecB) : 0;
+  };
+  const assetFull = (candidate: T) => {
+    const assetId = vectors.get(candidate.chunkId)?.assetId;
+    return Boolean(assetId) && (perAsset.get(assetId!) || 0) >= max_per_asset;
+  };
+
+  while (selected.length < k && remaining.length > 0) {
+    const uncapped = remaining.filter(candidate => !assetFull(candidate));
+    const pool = uncapped.length > 0 ? uncapped : remaining;
+
+    let best = pool[0];
+    let bestScore = -Infinity;
+    pool.forEach(candidate => {
+      const redundancy = selected.length > 0 ? Math.max(...selected.map(picked => similarity(candidate, picked))) : 0;
+      const mmrScore = (1 - diversity) * candidate.score - diversity * redundancy;
+      if (mmrScore > bestScore) {
+        best = candidate;
+        bestScore = mmrScore;
+      }
+    });
+
+    selected.push(best);
+    remaining.splice(remaining.indexOf(best), 1);
+
+    const assetId = vectors.get(best.chunkId)?.assetId;
+    if (assetId) {
+      perAsset.set(assetId, (perAsset.get(assetId) || 0) + 1);
+    }
+  }
+
+  return selected;
+}
@@ -0,0 +1,198 @@
+/**
+ * Reranking
+ *
+ * Re-scores the top fused candidates against the query before the context
+ * pack is built. Fused scores only say how well a chunk matched one of the
+ * two searches; a reranker looks at the query and the chunk together.
+ *
+ * - `llm`: listwise rerank with the project's fast model
+ * - `lexical`: local query-term overlap, with extra weight for title and tag
+ *   hits; no network calls
+ * - `none`: keep the fused order
+ */
+
+import { z } from 'zod';
+import { type LLMProvider } from '@/lib/llm/providers';
+import { rerankChunksPrompt } from '@/lib/llm/prompts/rerankChunks';
+import { zRerankSettings, type RerankSettings } from '@/lib/schemas/project';
+import { type HybridSearchResult } from './hybrid';
+
+export type RerankerName = RerankSettings['strategy'];
+
+/**
+ * A search result after reranking; `score` is the reranker's, `fused_score`
+ * the score it had coming out of fusion
+ */
+export type RerankedResult = HybridSearchResult & { fused_score: number };
+
+export interface Reranker {
+  name: RerankerName;
+  /**
+   * Re-score candidates against the query
+   *
+   * @returns The same candidates, best first
+   */
+  rerank(query: string, candidates: HybridSearchResult[]): Promise<RerankedResult[]>;
+}
+
+const zRerankResponse = z.object({
+  ranking: z.array(z.object({
+    chunkId: z.string(),
+    relevance: z.number().min(0).max(10),
+  })),
+});
+
+// Common words that say nothing about a chunk's topic
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'you', 'your',
+  'our', 'how', 'what', 'why', 'when', 'who', 'can', 'will', 'about', 'into', 'its', 'has',
+  'have', 'not', 'but', 'all', 'any', 'more', 'most', 'than', 'then', 'they', 'their',
+]);
+
+/**
+ * Fill in defaults for unset reranker settings
+ */
+export function resolveRerankSettings(settings?: Partial<RerankSettings>): RerankSettings {
+  return zRerankSettings.parse(settings ?? {});
+}
+
+/**
+ * Lowercased, deduplicated content words of a text
+ */
+export function extractTerms(text: string): string[] {
+  return Array.from(new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(term => term.length > 2 && !STOP_WORDS.has(term))
+  ));
+}
+
+function sortReranked(results: RerankedResult[]): RerankedResult[] {
+  // Fused score breaks ties so equal rerank scores keep the retrieval order
+  return results.sort((a, b) => b.score - a.score || b.fused_score - a.fused_score);
+}
+
+export function createNoopReranker(): Reranker {
+  return {
+    name: 'none',
+
+    async rerank(_query, candidates) {
+      return candidates.map(candidate => ({ ...candidate, fused_score: candidate.score }));
+    },
+  };
+}
+
+/**
+ * Query-term overlap: the share of query terms in the chunk text, plus
+ * bonuses for terms in the title (0.3) and tags (0.2), capped at 1
+ */
+export function createLexicalReranker(): Reranker {
+  return {
+    name: 'lexical',
+
+    async rerank(query, candidates) {
+      const queryTerms = extractTerms(query);
+      if (queryTerms.length === 0) {
+        return createNoopReranker().rerank(query, candidates);
+      }
+
+      return sortReranked(candidates.map(candidate => {
+        const textTerms = new Set(extractTerms(candidate.md_text));
+        const titleTerms = new Set(extractTerms(candidate.title || ''));
+        const tagTerms = new Set(extractTerms((candidate.tags || []).join(' ')));
+        const share = (terms: Set<string>) => queryTerms.filter(term => terms.has(term)).length / queryTerms.length;
+
+        const rerankScore = Math.min(1, share(textTerms) + share(titleTerms) * 0.3 + share(tagTerms) * 0.2);
+
+        return { ...candidate, score: rerankScore, fused_score: candidate.score, rerank_score: rerankScore };
+      }));
+    },
+  };
+}
+
+/**
+ * Listwise LLM rerank. Chunks the model leaves out of its ranking score 0.
+ */
+export function createLLMReranker(provider: LLMProvider): Reranker {
+  return {
+    name: 'llm',
+
+    async rerank(query, candidates) {
+      if (candidates.length === 0) return [];
+
+      const responseText = await provider.chatJSON({
+        messages: [
+          {
+            role: 'system',
+            content: 'You rank source material by relevance. Return scores in the JSON format requested.'
+          },
+          {
+            role: 'user',
+            content: rerankChunksPrompt(query, candidates)
+          }
+        ],
+        tier: 'fast',
+        temperature: 0,
+      });
+
+      const { ranking } = zRerankResponse.parse(JSON.parse(responseText));
+      const relevance = new Map(ranking.map(entry => [entry.chunkId, entry.relevance / 10]));
+
+      return sortReranked(candidates.map(candidate => {
+        const rerankScore = relevance.get(candidate.chunkId) ?? 0;
+        return { ...candidate, score: rerankScore, fused_score: candidate.score, rerank_score: rerankScore };
+      }));
+    },
+  };
+}
+
+/**
+ * Reranker for a strategy. `llm` needs a provider; without one it falls back
+ * to the lexical reranker.
+ */
+export function createReranker(name: RerankerName, provider?: LLMProvider): Reranker {
+  switch (name) {
+    case 'llm':
+      return provider ? createLLMReranker(provider) : createLexicalReranker();
+    case 'lexical':
+      return createLexicalReranker();
+    case 'none':
+      return createNoopReranker();
+  }
+}
+
+/**
+ * Rerank the top `top_n` candidates and keep the best `k`
+ *
+ * A failing LLM reranker falls back to the lexical one, so retrieval never
+ * fails because of the rerank step.
+ *
+ * @returns Reranked results and the reranker that produced them
+ */
+export async function rerankResults({
+  query,
+  candidates,
+  k,
+  settings,
+  provider
+}: {
+  query: string;
+  candidates: HybridSearchResult[];
+  k: number;
+  settings?: Partial<RerankSettings>;
+  provider?: LLMProvider;
+}): Promise<{ chunks: RerankedResult[]; reranker: RerankerName }> {
+  const { strategy, top_n } = resolveRerankSettings(settings);
+  const reranker = createReranker(strategy, provider);
+  const top = candidates.slice(0, Math.max(top_n, k));
+
+  try {
+    const chunks = await reranker.rerank(query, top);
+    return { chunks: chunks.slice(0, k), reranker: reranker.name };
+  } catch (error) {
+    console.warn(`${reranker.name} reranker failed, falling back to lexical:`, error);
+    const chunks = await createLexicalReranker().rerank(query, top);
+    return { chunks: chunks.slice(0, k), reranker: 'lexical' };
+  }
+}
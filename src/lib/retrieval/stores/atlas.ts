@@ -0,0 +1,87 @@
+/**
+ * Atlas Vector Store
+ *
+ * Runs the search inside MongoDB Atlas with `$vectorSearch` against the index
+ * described in docs/atlas-index.md, so chunks never leave the database. Falls
+ * back to the brute-force scan when the cluster doesn't support the stage
+ * (e.g. a local MongoDB) or the query fails.
+ */
+
+import { getColl } from '@/lib/db/mongo';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { hasChunkFilters } from '../filters';
+import { chunkScopeFilter, createBruteForceStore, toSearchResult } from './bruteForce';
+import { type VectorStore } from './types';
+
+export const DEFAULT_ATLAS_INDEX = 'vector_search';
+
+const CANDIDATES_PER_RESULT = 20;
+const MAX_CANDIDATES = 10000;
+// Extra results to survive the user and model post-filter
+const OVERSAMPLE = 4;
+// Metadata filters can discard far more
+const FILTERED_OVERSAMPLE = 20;
+
+export function createAtlasStore({
+  indexName = process.env.ATLAS_VECTOR_INDEX || DEFAULT_ATLAS_INDEX,
+  fallback = createBruteForceStore(),
+}: {
+  indexName?: string;
+  fallback?: VectorStore;
+} = {}): VectorStore {
+  return {
+    name: 'atlas',
+
+    async search(query) {
+      const { projectId, queryVec, k } = query;
+
+      try {
+        const chunks = await getColl<Chunk>('chunks');
+        const oversample = hasChunkFilters(query.filters) ? FILTERED_OVERSAMPLE : OVERSAMPLE;
+        const limit = Math.min(k * oversample, MAX_CANDIDATES);
+
+        const matches = await chunks.aggregate<Chunk & { score: number }>([
+          {
+            $vectorSearch: {
+              index: indexName,
+              path: 'embedding',
+              queryVector: queryVec,
+              numCandidates: Math.min(Math.max(limit * CANDIDATES_PER_RESULT, 100), MAX_CANDIDATES),
+              limit,
+              filter: { projectId },
+            },
+          },
+          {
+            $project: {
+              chunkId: 1,
+              md_text: 1,
+              meta: 1,
+              title: 1,
+              tags: 1,
+              userId: 1,
+              embedding_model: 1,
+              assetId: 1,
+              section: 1,
+              createdAt: 1,
+              score: { $meta: 'vectorSearchScore' },
+            },
+          },
+          // userId and legacy-model matches need $exists, which pre-filters don't cover everywhere;
+          // metadata filters run here too so the index only needs projectId
+          { $match: chunkScopeFilter(query) },
+          { $limit: k },
+        ]).toArray();
+
+        // Atlas reports cosine as (1 + cos) / 2; convert back so scores match the other stores
+        return matches.map(chunk => toSearchResult(chunk, chunk.score * 2 - 1));
+      } catch (error) {
+        console.warn(
+          `Atlas vector search failed for project ${projectId}, falling back to ${fallback.name}:`,
+          error instanceof Error ? error.message : error
+        );
+        return fallback.search(query);
+      }
+    },
+  };
+}
+
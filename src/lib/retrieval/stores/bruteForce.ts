@@ -0,0 +1,153 @@
+/**
+ * Brute-force Vector Store
+ *
+ * Loads every embedded chunk in the project and scores it in JS. Exact, and
+ * works against any MongoDB, but memory and time grow with the project, so
+ * it's the fallback rather than the default for large knowledge bases.
+ */
+
+import { type Filter } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { embeddingModelFilter } from '@/lib/vector/embeddings';
+import { chunkFilterConditions } from '../filters';
+import { type VectorSearchQuery, type VectorSearchResult, type VectorStore } from './types';
+
+/**
+ * Calculate cosine similarity between two vectors
+ * 
+ * @param vecA - First vector
+ * @param vecB - Second vector
+ * @returns Cosine similarity score (0-1, where 1 is most similar)
+ */
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+  if (vecA.length !== vecB.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < vecA.length; i++) {
+    dotProduct += vecA[i] * vecB[i];
+    normA += vecA[i] * vecA[i];
+    normB += vecB[i] * vecB[i];
+  }
+
+  // Handle zero vectors
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Filter for the project's chunks this user, model and metadata filters may match
+ */
+export function chunkScopeFilter({ projectId, userId, model, filters }: Omit<VectorSearchQuery, 'queryVec' | 'k'>): Filter<Chunk> {
+  const filter: Record<string, unknown> = { projectId };
+  const conditions: Record<string, unknown>[] = [];
+
+  // Add userId filter if provided (defense in depth)
+  if (userId) {
+    conditions.push({
+      $or: [
+        { userId }, // New chunks with userId field
+        { userId: { $exists: false } } // Legacy chunks without userId field
+      ]
+    });
+  }
+
+  // Vectors from another model live in a different space, even at the same length
+  if (model) {
+    conditions.push(embeddingModelFilter(model));
+  }
+
+  conditions.push(...chunkFilterConditions(filters));
+
+  if (conditions.length > 0) {
+    filter.$and = conditions;
+  }
+
+  return filter as Filter<Chunk>;
+}
+
+/**
+ * Filter for the chunks a query may compare against
+ */
+export function embeddedChunkFilter(query: Omit<VectorSearchQuery, 'queryVec' | 'k'>): Filter<Chunk> {
+  return {
+    ...chunkScopeFilter(query),
+    embedding: { $exists: true, $type: "array" },
+    'embedding.0': { $exists: true } // Ensure embedding array is not empty
+  } as Filter<Chunk>;
+}
+
+export function warnMismatchedDimensions(projectId: string, mismatched: number, dimensions: number): void {
+  if (mismatched > 0) {
+    console.warn(
+      `Vector search skipped ${mismatched} chunks in project ${projectId} whose embeddings don't match the ${dimensions}-dimension query. Re-index the project via /api/index.`
+    );
+  }
+}
+
+export function toSearchResult(chunk: Pick<Chunk, 'chunkId' | 'md_text' | 'meta' | 'title' | 'tags'>, score: number): VectorSearchResult {
+  return {
+    chunkId: chunk.chunkId,
+    score,
+    md_text: chunk.md_text,
+    hpath: chunk.meta?.hpath || [],
+    title: chunk.title,
+    tags: chunk.tags,
+  };
+}
+
+export function createBruteForceStore(): VectorStore {
+  return {
+    name: 'brute-force',
+
+    async search(query) {
+      const { projectId, queryVec, k } = query;
+      const chunks = await getColl<Chunk>('chunks');
+
+      // Find all chunks in the project that have embeddings
+      const projectChunks = await chunks
+        .find(embeddedChunkFilter(query))
+        .toArray();
+
+      if (projectChunks.length === 0) {
+        return [];
+      }
+
+      let mismatched = 0;
+
+      // Calculate similarity scores for all chunks
+      const scoredChunks = projectChunks
+        .map(chunk => {
+          try {
+            // Ensure embedding exists and has the correct length
+            if (!chunk.embedding || chunk.embedding.length !== queryVec.length) {
+              mismatched++;
+              return null;
+            }
+
+            return toSearchResult(chunk, cosineSimilarity(queryVec, chunk.embedding));
+          } catch (error) {
+            // Skip chunks with invalid embeddings
+            console.warn(`Skipping chunk ${chunk.chunkId} due to embedding error:`, error);
+            return null;
+          }
+        })
+        .filter((result): result is VectorSearchResult => result !== null);
+
+      warnMismatchedDimensions(projectId, mismatched, queryVec.length);
+
+      // Sort by similarity score (highest first) and return top-k
+      return scoredChunks
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+    },
+  };
+}
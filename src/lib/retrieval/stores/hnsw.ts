@@ -0,0 +1,157 @@
+/**
+ * HNSW Vector Store
+ *
+ * Keeps an in-memory HNSW graph per project and embedding model, for local
+ * and dev setups without Atlas. The graph is built from MongoDB on first use
+ * and rebuilt when the project's chunks change (count or latest update), so
+ * ingestion needs no extra bookkeeping. Indexes live in this process only.
+ * Metadata filters are applied to the graph's results, widening the search
+ * until enough chunks match.
+ */
+
+import { getColl } from '@/lib/db/mongo';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { HnswIndex, type HnswOptions } from '@/lib/vector/hnsw';
+import { hasChunkFilters, matchesChunkFilters, type FilterableChunk } from '../filters';
+import { embeddedChunkFilter, toSearchResult, warnMismatchedDimensions } from './bruteForce';
+import { type VectorSearchQuery, type VectorStore } from './types';
+
+const MAX_CACHED_INDEXES = 20;
+
+interface ProjectIndex {
+  signature: string;
+  dimensions: number | null;
+  mismatched: number; // Chunks left out because their length differs from the majority
+  graph: HnswIndex;
+  chunks: Map<string, Pick<Chunk, 'chunkId' | 'md_text' | 'meta' | 'title' | 'tags'> & FilterableChunk>;
+}
+
+/**
+ * Most chunks share one length; anything else came from a stale model
+ */
+function dominantDimensions(vectors: number[][]): number | null {
+  const counts = new Map<number, number>();
+  vectors.forEach(vector => counts.set(vector.length, (counts.get(vector.length) || 0) + 1));
+  let best: number | null = null;
+  counts.forEach((count, length) => {
+    if (best === null || count > counts.get(best)!) {
+      best = length;
+    }
+  });
+  return best;
+}
+
+export function createHnswStore(options: HnswOptions = {}): VectorStore & { clear(): void } {
+  const indexes = new Map<string, Promise<ProjectIndex>>();
+
+  async function loadIndex(query: VectorSearchQuery, signature: string): Promise<ProjectIndex> {
+    const chunksCollection = await getColl<Chunk>('chunks');
+    const projectChunks = await chunksCollection
+      .find(embeddedChunkFilter(query), {
+        projection: { chunkId: 1, md_text: 1, meta: 1, title: 1, tags: 1, embedding: 1, assetId: 1, section: 1, createdAt: 1 },
+      })
+      .toArray();
+
+    const dimensions = dominantDimensions(projectChunks.map(chunk => chunk.embedding!));
+    const graph = new HnswIndex(options);
+    const chunks: ProjectIndex['chunks'] = new Map();
+    let mismatched = 0;
+
+    projectChunks.forEach(chunk => {
+      if (chunk.embedding!.length !== dimensions) {
+        mismatched++;
+        return;
+      }
+      graph.add(chunk.chunkId, chunk.embedding!);
+      chunks.set(chunk.chunkId, {
+        chunkId: chunk.chunkId,
+        md_text: chunk.md_text,
+        meta: chunk.meta,
+        title: chunk.title,
+        tags: chunk.tags,
+        assetId: chunk.assetId,
+        section: chunk.section,
+        createdAt: chunk.createdAt,
+      });
+    });
+
+    return { signature, dimensions, mismatched, graph, chunks };
+  }
+
+  /**
+   * Cheap fingerprint of the chunks an index was built from
+   */
+  async function getSignature(query: VectorSearchQuery): Promise<string> {
+    const chunksCollection = await getColl<Chunk>('chunks');
+    const [stats] = await chunksCollection.aggregate<{ count: number; updatedAt?: Date; createdAt?: Date }>([
+      { $match: embeddedChunkFilter(query) },
+      { $group: { _id: null, count: { $sum: 1 }, updatedAt: { $max: '$updatedAt' }, createdAt: { $max: '$createdAt' } } },
+    ]).toArray();
+
+    if (!stats) return 'empty';
+    return [stats.count, stats.updatedAt?.valueOf() ?? '', stats.createdAt?.valueOf() ?? ''].join(':');
+  }
+
+  async function getIndex(query: VectorSearchQuery): Promise<ProjectIndex> {
+    const key = [query.projectId, query.userId ?? '', query.model?.provider ?? '', query.model?.model ?? ''].join('|');
+    const signature = await getSignature(query);
+
+    const cached = indexes.get(key);
+    if (cached) {
+      const index = await cached.catch(() => null);
+      if (index?.signature === signature) {
+        return index;
+      }
+    }
+
+    const loading = loadIndex(query, signature);
+    indexes.delete(key);
+    indexes.set(key, loading);
+    loading.catch(() => indexes.delete(key));
+
+    // Evict the least recently built index
+    if (indexes.size > MAX_CACHED_INDEXES) {
+      indexes.delete(indexes.keys().next().value!);
+    }
+
+    return loading;
+  }
+
+  return {
+    name: 'hnsw',
+
+    async search(query) {
+      const { projectId, queryVec, k } = query;
+      // One graph per project and model; filters are applied to its results
+      const index = await getIndex({ ...query, filters: undefined });
+
+      if (index.dimensions !== queryVec.length) {
+        warnMismatchedDimensions(projectId, index.chunks.size + index.mismatched, queryVec.length);
+        return [];
+      }
+
+      warnMismatchedDimensions(projectId, index.mismatched, queryVec.length);
+
+      if (!hasChunkFilters(query.filters)) {
+        return index.graph.search(queryVec, k)
+          .map(({ id, score }) => toSearchResult(index.chunks.get(id)!, score));
+      }
+
+      // Search wider until k chunks pass the filters or the whole graph was searched
+      let limit = k * 4;
+      for (;;) {
+        const matches = index.graph.search(queryVec, Math.min(limit, index.chunks.size))
+          .filter(({ id }) => matchesChunkFilters(index.chunks.get(id)!, query.filters));
+
+        if (matches.length >= k || limit >= index.chunks.size) {
+          return matches.slice(0, k).map(({ id, score }) => toSearchResult(index.chunks.get(id)!, score));
+        }
+        limit *= 4;
+      }
+    },
+
+    clear() {
+      indexes.clear();
+    },
+  };
+}
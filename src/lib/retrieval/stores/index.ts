@@ -0,0 +1,56 @@
+/**
+ * Vector Stores
+ *
+ * Picks the vector search backend from VECTOR_STORE: `atlas` ($vectorSearch,
+ * falls back to brute force), `hnsw` (in-memory graph for local/dev) or
+ * `brute-force` (default, loads and scores every chunk).
+ */
+
+import { createAtlasStore } from './atlas';
+import { createBruteForceStore } from './bruteForce';
+import { createHnswStore } from './hnsw';
+import { type VectorStore, type VectorStoreName } from './types';
+
+export * from './types';
+export { createAtlasStore } from './atlas';
+export { createBruteForceStore, cosineSimilarity } from './bruteForce';
+export { createHnswStore } from './hnsw';
+
+export const VECTOR_STORE_NAMES: VectorStoreName[] = ['brute-force', 'hnsw', 'atlas'];
+
+let store: VectorStore | null = null;
+
+export function createVectorStore(name: VectorStoreName): VectorStore {
+  switch (name) {
+    case 'atlas':
+      return createAtlasStore();
+    case 'hnsw':
+      return createHnswStore();
+    case 'brute-force':
+      return createBruteForceStore();
+  }
+}
+
+/**
+ * Store selected by VECTOR_STORE. One instance per process so the HNSW
+ * store's indexes survive between requests.
+ */
+export function getVectorStore(): VectorStore {
+  if (store) return store;
+
+  const name = (process.env.VECTOR_STORE || 'brute-force') as VectorStoreName;
+  if (!VECTOR_STORE_NAMES.includes(name)) {
+    throw new Error(`Unknown VECTOR_STORE "${name}". Expected one of: ${VECTOR_STORE_NAMES.join(', ')}`);
+  }
+
+  store = createVectorStore(name);
+  return store;
+}
+
+/**
+ * Replace the store used by vectorSearch (tests, scripts). Pass null to go
+ * back to VECTOR_STORE.
+ */
+export function setVectorStoreOverride(override: VectorStore | null): void {
+  store = override;
+}
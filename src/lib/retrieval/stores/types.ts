@@ -0,0 +1,33 @@
+import { type ChunkFilters } from '@/lib/schemas/chunk';
+import { type EmbeddingModel } from '@/lib/schemas/embeddingModel';
+
+/**
+ * Vector search result interface
+ */
+export interface VectorSearchResult {
+  chunkId: string;
+  score: number; // Cosine similarity
+  md_text: string;
+  hpath: string[];
+  title?: string;
+  tags?: string[];
+}
+
+export interface VectorSearchQuery {
+  projectId: string;
+  queryVec: number[];
+  k: number;
+  userId?: string;
+  model?: EmbeddingModel; // Only chunks embedded with this model are compared
+  filters?: ChunkFilters; // Metadata the chunks must match (see ../filters)
+}
+
+export type VectorStoreName = 'brute-force' | 'hnsw' | 'atlas';
+
+/**
+ * A backend that finds the chunks nearest to a query vector
+ */
+export interface VectorStore {
+  name: VectorStoreName;
+  search(query: VectorSearchQuery): Promise<VectorSearchResult[]>;
+}
@@ -1,57 +1,22 @@
 import { getColl } from '@/lib/db/mongo';
-import { Chunk } from '@/lib/schemas/chunk';
+import { Chunk, type ChunkFilters } from '@/lib/schemas/chunk';
+import { type EmbeddingModel } from '@/lib/schemas/embeddingModel';
+import { getVectorStore, type VectorSearchResult } from './stores';
 
-/**
- * Vector search result interface
- */
-export interface VectorSearchResult {
-  chunkId: string;
-  score: number;
-  md_text: string;
-  hpath: string[];
-  title?: string;
-  tags?: string[];
-}
-
-/**
- * Calculate cosine similarity between two vectors
- * 
- * @param vecA - First vector
- * @param vecB - Second vector
- * @returns Cosine similarity score (0-1, where 1 is most similar)
- */
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-  if (vecA.length !== vecB.length) {
-    throw new Error('Vectors must have the same length');
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    normA += vecA[i] * vecA[i];
-    normB += vecB[i] * vecB[i];
-  }
-
-  // Handle zero vectors
-  if (normA === 0 || normB === 0) {
-    return 0;
-  }
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
+export type { VectorSearchResult } from './stores';
 
 /**
  * Perform vector similarity search within a project
  * 
  * Retrieves the top-k most similar chunks to the query vector within the specified project.
- * Uses cosine similarity for scoring and returns results sorted by similarity score (highest first).
+ * Runs on the store selected by VECTOR_STORE (see ./stores) and returns results sorted by
+ * cosine similarity (highest first).
  * 
  * @param projectId - Project ID to search within
  * @param queryVec - Query vector for similarity comparison
  * @param k - Number of top results to return
+ * @param model - Model the query vector came from; only chunks embedded with it are compared
+ * @param filters - Metadata the chunks must match (see ./filters)
  * @returns Promise resolving to array of search results with similarity scores
  * 
  * @example
@@ -66,7 +31,9 @@ export async function vectorSearch(
   projectId: string,
   queryVec: number[],
   k: number,
-  userId?: string
+  userId?: string,
+  model?: EmbeddingModel,
+  filters?: ChunkFilters
 ): Promise<VectorSearchResult[]> {
   if (!projectId) {
     throw new Error('Project ID is required');
@@ -81,67 +48,7 @@ export async function vectorSearch(
   }
 
   try {
-    // Get chunks collection
-    const chunks = await getColl<Chunk>('chunks');
-
-    // Build query filter - include userId if provided for additional security
-    const filter: Record<string, unknown> = {
-      projectId,
-      embedding: { $exists: true, $type: "array" },
-      'embedding.0': { $exists: true } // Ensure embedding array is not empty
-    };
-    
-    // Add userId filter if provided (defense in depth)
-    if (userId) {
-      filter.$or = [
-        { userId }, // New chunks with userId field
-        { userId: { $exists: false } } // Legacy chunks without userId field
-      ];
-    }
-
-    // Find all chunks in the project that have embeddings
-    const projectChunks = await chunks
-      .find(filter)
-      .toArray();
-
-    if (projectChunks.length === 0) {
-      return [];
-    }
-
-    // Calculate similarity scores for all chunks
-    const scoredChunks = projectChunks
-      .map(chunk => {
-        try {
-          // Ensure embedding exists and has the correct length
-          if (!chunk.embedding || chunk.embedding.length !== queryVec.length) {
-            return null;
-          }
-
-          const score = cosineSimilarity(queryVec, chunk.embedding);
-          
-          return {
-            chunkId: chunk.chunkId,
-            score,
-            md_text: chunk.md_text,
-            hpath: chunk.meta?.hpath || [],
-            title: chunk.title,
-            tags: chunk.tags,
-          };
-        } catch (error) {
-          // Skip chunks with invalid embeddings
-          console.warn(`Skipping chunk ${chunk.chunkId} due to embedding error:`, error);
-          return null;
-        }
-      })
-      .filter((result): result is NonNullable<typeof result> => result !== null);
-
-    // Sort by similarity score (highest first) and return top-k
-    const topResults = scoredChunks
-      .sort((a, b) => b.score - a.score)
-      .slice(0, k);
-
-    return topResults;
-
+    return await getVectorStore().search({ projectId, queryVec, k, userId, model, filters });
   } catch (error) {
     throw new Error(
       `Vector search failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1,5 +1,23 @@
 import { z } from 'zod';
 
+/**
+ * Outcome of the last re-sync of a URL asset
+ */
+export const zAssetSync = z.object({
+  status: z.enum(['unchanged', 'updated', 'failed']), // unchanged: same content hash
+  at: z.date(),
+  unchanged: z.number().int().min(0), // Chunks kept as they were
+  added: z.number().int().min(0), // New or changed chunks
+  removed: z.number().int().min(0), // Chunks no longer on the page, or changed
+  flaggedDrafts: z.number().int().min(0), // Drafts that used a removed chunk
+  error: z.string().optional(),
+  warning: z.string().optional(),
+});
+
+export type AssetSync = z.infer<typeof zAssetSync>;
+
+export const RESYNC_INTERVALS = ['daily', 'weekly'] as const;
+
 /**
  * Asset Schema
  * Represents a document/file asset within a project
@@ -7,12 +25,16 @@ import { z } from 'zod';
 export const zAsset = z.object({
   _id: z.string(),
   projectId: z.string(),
-  type: z.enum(['pdf', 'html', 'docx', 'md']),
+  type: z.enum(['pdf', 'html', 'docx', 'md', 'csv', 'xlsx', 'transcript']),
   title: z.string().min(1, 'Title is required'),
   sourceUrl: z.string().url().optional(),
+  crawlId: z.string().optional(), // Crawl that ingested this page
   filePath: z.string().optional(),
   parsed_md: z.string().optional(),
   hash: z.string(),
+  resyncInterval: z.enum(RESYNC_INTERVALS).optional(), // Scheduled re-sync of sourceUrl; off when unset
+  syncedAt: z.date().optional(), // Last re-sync that reached the page
+  lastSync: zAssetSync.optional(),
   createdAt: z.date(),
 });
 
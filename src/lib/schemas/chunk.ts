@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { zEmbeddingModel } from './embeddingModel';
 
 /**
  * Chunk schema for document processing and vector storage
@@ -17,9 +18,20 @@ export const zChunk = z.object({
   section: z.string().optional(),
   meta: z.object({
     hpath: z.array(z.string()).default([]),
+    // Spreadsheet chunks: the rows (1-based) they came from, with every column
+    rows: z.array(z.number().int().positive()).optional(),
+    records: z.array(z.record(z.string())).optional(),
+    // Transcript chunks: where they are in the recording (seconds) and who speaks
+    start: z.number().nonnegative().optional(),
+    end: z.number().nonnegative().optional(),
+    speakers: z.array(z.string()).optional(),
   }).optional(),
   vector: z.boolean().optional(),
   embedding: z.array(z.number()).optional(),
+  embedding_model: zEmbeddingModel.optional(), // Missing on chunks embedded before models were recorded
+  // Staged vector while the project migrates to another model (see /api/index)
+  embedding_next: z.array(z.number()).optional(),
+  embedding_next_model: zEmbeddingModel.optional(),
   // AI-generated title and tags
   title: z.string().optional(),
   tags: z.array(z.string()).optional(),
@@ -48,3 +60,18 @@ export const zUpdateChunk = zChunk.partial().required({
 });
 
 export type UpdateChunk = z.infer<typeof zUpdateChunk>;
+
+/**
+ * Metadata filters for retrieval; every filter given must match
+ */
+export const zChunkFilters = z.object({
+  asset_ids: z.array(z.string().min(1)).min(1).optional(), // Only chunks from these assets
+  tags: z.array(z.string().min(1)).min(1).optional(), // Chunks with any of these tags
+  section: z.string().min(1).optional(), // Section starts with this, case-insensitive
+  hpath_prefix: z.array(z.string().min(1)).min(1).optional(), // Heading path starts with these headings
+  source: z.enum(['custom', 'ingested']).optional(), // User-written chunks vs chunks from assets
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+});
+
+export type ChunkFilters = z.infer<typeof zChunkFilters>;
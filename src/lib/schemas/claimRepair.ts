@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+/**
+ * One find/replace edit made while repairing a claim
+ */
+export const zClaimEdit = z.object({
+  claim: z.string(),
+  action: z.enum(['rewrite', 'remove']),
+  supporting_chunks: z.array(z.string()).default([]),
+  original: z.string(), // Markdown version of the replaced sentence
+  replacement: z.string(),
+  applied_formats: z.array(z.enum(['html', 'md', 'txt'])), // Formats the original text was found in
+});
+
+export type ClaimEdit = z.infer<typeof zClaimEdit>;
+
+/**
+ * One rewrite + re-check pass of the repair loop
+ */
+export const zClaimRepairIteration = z.object({
+  iteration: z.number().int().positive(),
+  support_before: z.number(),
+  support_after: z.number(),
+  unsupported_before: z.number().int().nonnegative(),
+  unsupported_after: z.number().int().nonnegative(),
+  edits: z.array(zClaimEdit),
+  error: z.string().optional(), // Set when the pass failed and the loop stopped early
+  rejected: z.boolean().optional(), // Set when the edits made support worse and were reverted
+});
+
+export type ClaimRepairIteration = z.infer<typeof zClaimRepairIteration>;
+
+/**
+ * Claim Repair Run Schema
+ * 
+ * Record of one "fix unsupported claims" run on a draft: the target support
+ * percentage, every iteration, and whether the target was reached.
+ */
+export const zClaimRepairRun = z.object({
+  ran_at: z.string(),
+  authorId: z.string(),
+  threshold: z.number().min(0).max(100),
+  max_iterations: z.number().int().positive(),
+  initial_support: z.number(),
+  final_support: z.number(),
+  reached_threshold: z.boolean(),
+  iterations: z.array(zClaimRepairIteration),
+  revision: z.number().int().nonnegative().optional(), // Revision created by the run, if anything changed
+});
+
+export type ClaimRepairRun = z.infer<typeof zClaimRepairRun>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+export const MAX_CRAWL_DEPTH = 5;
+export const MAX_CRAWL_PAGES = 200;
+
+/**
+ * Outcome for one page of a crawl
+ */
+export const zCrawlPage = z.object({
+  url: z.string(),
+  depth: z.number().int().min(0), // Links followed from the start URL or sitemap
+  status: z.enum([
+    'ingested', // Stored as a new asset
+    'unchanged', // Same content as this crawl's asset for the URL
+    'duplicate', // Same content as another asset in the project
+    'skipped', // Not ingested, see reason (robots.txt, noindex, no content)
+    'failed',
+  ]),
+  assetId: z.string().optional(),
+  jobId: z.string().optional(), // Ingestion job that processed the page
+  reason: z.string().optional(),
+});
+
+export type CrawlPage = z.infer<typeof zCrawlPage>;
+
+/**
+ * A page waiting to be crawled
+ */
+export const zCrawlTarget = z.object({
+  url: z.string(),
+  depth: z.number().int().min(0),
+});
+
+export type CrawlTarget = z.infer<typeof zCrawlTarget>;
+
+/**
+ * Website Crawl Schema
+ * Groups the assets ingested from one site so they can be re-run or deleted together
+ */
+export const zCrawl = z.object({
+  _id: z.string(),
+  projectId: z.string(),
+  userId: z.string(),
+  startUrl: z.string().url(),
+  mode: z.enum(['links', 'sitemap']), // sitemap: the start URL is a sitemap.xml
+  maxDepth: z.number().int().min(0).max(MAX_CRAWL_DEPTH),
+  maxPages: z.number().int().min(1).max(MAX_CRAWL_PAGES),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  pages: z.array(zCrawlPage), // Latest run
+  pageCount: z.number().int().min(0).default(0), // Pages of the latest run fetched and stored, counted against maxPages
+  // Progress of an unfinished run, saved so its next step carries on from there
+  frontier: z.array(zCrawlTarget).optional(), // Pages still to visit
+  seen: z.array(z.string()).optional(), // URLs already queued or visited
+  current: zCrawlTarget.extend({ jobId: z.string() }).optional(), // Page whose ingestion job was started
+  error: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  startedAt: z.date().optional(),
+  completedAt: z.date().optional(),
+});
+
+export type Crawl = z.infer<typeof zCrawl>;
@@ -1,4 +1,23 @@
 import { z } from 'zod';
+import { zClaimRepairRun } from './claimRepair';
+
+/**
+ * Settings a draft was generated with, kept so parts of it can be
+ * regenerated later with the same inputs
+ */
+export const zGenerationSettings = z.object({
+  audience: z.string().optional(),
+  length: z.enum(['short', 'medium', 'long']).optional(),
+  tone: z.string().optional(),
+  style: z.string().optional(),
+  constraints: z.string().optional(),
+  mustInclude: z.string().optional(),
+  linkOverrides: z.record(z.string()).optional(),
+  hypeLevel: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]).optional(),
+  styleProfileId: z.string().optional(), // Resolved profile; absent when generated without one
+});
+
+export type GenerationSettings = z.infer<typeof zGenerationSettings>;
 
 /**
  * Draft Schema
@@ -19,7 +38,19 @@ export const zDraft = z.object({
   }),
   context_chunk_ids: z.array(z.string()).default([]),
   scores: z.any().optional(), // Flexible object for scoring metrics
+  generation: zGenerationSettings.optional(),
+  // Set when the draft was generated as part of a sequence
+  sequenceId: z.string().optional(),
+  sequenceStep: z.number().int().nonnegative().optional(),
+  revision: z.number().int().nonnegative().optional(), // Latest revision number once edited
+  claim_repairs: z.array(zClaimRepairRun).optional(), // History of "fix unsupported claims" runs
+  // Context chunks that a source re-sync has since removed or replaced
+  stale_context: z.object({
+    chunk_ids: z.array(z.string()),
+    flaggedAt: z.date(),
+  }).optional(),
   createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().optional(),
 });
 
 export type Draft = z.infer<typeof zDraft>;
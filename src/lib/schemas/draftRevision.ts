@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+/**
+ * Editable draft content captured in each revision
+ */
+export const zDraftContent = z.object({
+  subject: z.string().min(1, 'Subject is required'),
+  preheader: z.string().optional(),
+  formats: z.object({
+    html: z.string().min(1, 'HTML format is required'),
+    md: z.string().min(1, 'Markdown format is required'),
+    txt: z.string().min(1, 'Text format is required'),
+  }),
+});
+
+export type DraftContent = z.infer<typeof zDraftContent>;
+
+/**
+ * A single line in a field diff
+ */
+export const zDiffLine = z.object({
+  type: z.enum(['add', 'remove']),
+  line: z.number().int().nonnegative(), // Line number in the old (remove) or new (add) text
+  text: z.string(),
+});
+
+export type DiffLine = z.infer<typeof zDiffLine>;
+
+/**
+ * Changes to one editable field between two revisions
+ */
+export const zFieldDiff = z.object({
+  field: z.enum(['subject', 'preheader', 'html', 'md', 'txt']),
+  added: z.number().int().nonnegative(),
+  removed: z.number().int().nonnegative(),
+  lines: z.array(zDiffLine),
+});
+
+export type FieldDiff = z.infer<typeof zFieldDiff>;
+
+/**
+ * Draft Revision Schema
+ * 
+ * Immutable record of a draft's content after a save. Revision 0 is the
+ * generated original; each later revision stores who saved it, when, the
+ * full snapshot and the diff against the previous revision. Regenerated
+ * sections record which part of the email was replaced.
+ */
+export const zDraftRevision = z.object({
+  _id: z.string().min(1, 'Revision ID is required'),
+  draftId: z.string().min(1, 'Draft ID is required'),
+  projectId: z.string().min(1, 'Project ID is required'),
+  revision: z.number().int().nonnegative(),
+  authorId: z.string().min(1, 'Author ID is required'),
+  kind: z.enum(['original', 'edit', 'restore', 'regenerate', 'repair']),
+  restoredFrom: z.number().int().nonnegative().optional(),
+  regeneratedSection: z.string().optional(), // Section key, 'subject' or 'preheader'
+  snapshot: zDraftContent,
+  diff: z.array(zFieldDiff).default([]),
+  createdAt: z.date().default(() => new Date()),
+});
+
+export type DraftRevision = z.infer<typeof zDraftRevision>;
+
+/**
+ * Schema for creating a new revision (without auto-generated fields)
+ */
+export const zCreateDraftRevision = zDraftRevision.omit({
+  _id: true,
+  createdAt: true,
+});
+
+export type CreateDraftRevision = z.infer<typeof zCreateDraftRevision>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/**
+ * Embedding Model Schema
+ * 
+ * Identifies the provider and model that produced a vector. Stored on each
+ * chunk next to its embedding and on the project as the model new chunks and
+ * queries are embedded with. Vectors from different models are never compared.
+ */
+export const zEmbeddingModel = z.object({
+  provider: z.enum(['openai', 'openai-compatible', 'local', 'fixture']),
+  model: z.string().min(1, 'Model is required'),
+  dimensions: z.number().int().positive().optional(), // Always set on chunks
+});
+
+export type EmbeddingModel = z.infer<typeof zEmbeddingModel>;
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { zAsset } from './asset';
+
+/**
+ * Stages of an ingestion job, in the order they run
+ */
+export const INGEST_STAGES = ['extract', 'chunk', 'label', 'embed'] as const;
+
+export const zIngestStageName = z.enum(INGEST_STAGES);
+
+export type IngestStageName = z.infer<typeof zIngestStageName>;
+
+/**
+ * Status and progress of one stage
+ */
+export const zIngestStage = z.object({
+  name: zIngestStageName,
+  status: z.enum(['pending', 'running', 'completed', 'failed', 'skipped']), // skipped: the content was a duplicate
+  done: z.number().int().min(0), // Items processed, e.g. chunks labelled
+  total: z.number().int().min(0).optional(), // Items to process, once known
+  attempts: z.number().int().min(0), // Times the stage has started
+  error: z.string().optional(), // Why the last attempt failed
+  warning: z.string().optional(), // Completed, but not fully (e.g. stored without embeddings)
+  startedAt: z.date().optional(),
+  completedAt: z.date().optional(),
+});
+
+export type IngestStage = z.infer<typeof zIngestStage>;
+
+/**
+ * What the job ingests. Uploaded file contents are stored separately until
+ * extraction succeeds.
+ */
+export const zIngestSource = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    value: z.string().min(1, 'Text content is required'),
+  }),
+  z.object({
+    type: z.literal('url'),
+    value: z.string().url('Valid URL is required'),
+  }),
+  z.object({
+    type: z.literal('file'),
+    name: z.string().min(1),
+    size: z.number().int().min(0),
+  }),
+]);
+
+export type IngestSource = z.infer<typeof zIngestSource>;
+
+/**
+ * How spreadsheet columns become chunks. Each row is a chunk unless
+ * `groupBy` is set, in which case rows sharing that column's value are one.
+ */
+export const zSpreadsheetMapping = z.object({
+  sheet: z.string().optional(), // XLSX sheet name; the first sheet when unset
+  text: z.array(z.string().min(1)).min(1, 'Choose at least one text column'),
+  title: z.string().optional(), // Chunk title column; titles are generated when unset
+  tags: z.array(z.string().min(1)).default([]), // Values split on commas, semicolons or pipes
+  groupBy: z.string().optional(),
+});
+
+export type SpreadsheetMapping = z.infer<typeof zSpreadsheetMapping>;
+
+/**
+ * Ingestion Job Schema
+ * An asynchronous ingestion of one source into a project, with per-stage progress
+ */
+export const zIngestJob = z.object({
+  _id: z.string(),
+  projectId: z.string(),
+  userId: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  source: zIngestSource,
+  assetType: zAsset.shape.type,
+  title: z.string().optional(), // Asset title given by the user
+  crawlId: z.string().optional(), // Set for pages ingested by a crawl
+  mapping: zSpreadsheetMapping.optional(), // Required for csv and xlsx
+  stages: z.array(zIngestStage),
+  result: z.object({
+    assetId: z.string(),
+    chunkCount: z.number().int().min(0),
+    duplicate: z.boolean(), // The content matched an existing asset, nothing was added
+  }).optional(),
+  error: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type IngestJob = z.infer<typeof zIngestJob>;
+export type IngestJobStatus = IngestJob['status'];
@@ -1,4 +1,71 @@
 import { z } from 'zod';
+import { zEmbeddingModel } from './embeddingModel';
+
+/**
+ * LLM provider settings for a project; unset fields fall back to the environment
+ */
+export const zProjectLLMSettings = z.object({
+  provider: z.enum(['openai', 'anthropic', 'openai-compatible', 'fixture']).optional(),
+  model: z.string().min(1).optional(), // Model for fact-checking and analysis
+  fast_model: z.string().min(1).optional(), // Model for generation and labeling
+});
+
+export type ProjectLLMSettings = z.infer<typeof zProjectLLMSettings>;
+
+/**
+ * How hybrid retrieval combines vector and lexical rankings
+ */
+export const zFusionSettings = z.object({
+  strategy: z.enum(['weighted', 'rrf', 'max']).default('weighted'),
+  vector_weight: z.number().min(0).max(1).default(0.6),
+  lexical_weight: z.number().min(0).max(1).default(0.4),
+  rrf_k: z.number().int().positive().default(60), // Rank offset for reciprocal rank fusion
+});
+
+export type FusionSettings = z.infer<typeof zFusionSettings>;
+
+/**
+ * How the top fused candidates are re-scored against the query
+ */
+export const zRerankSettings = z.object({
+  strategy: z.enum(['llm', 'lexical', 'none']).default('lexical'),
+  top_n: z.number().int().positive().max(50).default(20), // Candidates passed to the reranker
+});
+
+export type RerankSettings = z.infer<typeof zRerankSettings>;
+
+/**
+ * Maximal-marginal-relevance selection of the final chunks
+ */
+export const zMmrSettings = z.object({
+  diversity: z.number().min(0).max(1).default(0.3), // 0 = pure relevance, 1 = pure novelty
+  max_per_asset: z.number().int().positive().default(3), // Chunks taken from one asset before others; exceeded only to fill k
+});
+
+export type MmrSettings = z.infer<typeof zMmrSettings>;
+
+/**
+ * Extra searches run alongside the query itself; all off by default
+ */
+export const zExpansionSettings = z.object({
+  sub_queries: z.number().int().min(0).max(5).default(0), // LLM-written rephrasings searched separately
+  hyde: z.boolean().default(false), // Also search with the embedding of an LLM-written hypothetical answer
+  tag_synonyms: z.boolean().default(false), // Add tags that co-occur with the query's terms to the lexical search
+});
+
+export type ExpansionSettings = z.infer<typeof zExpansionSettings>;
+
+/**
+ * Retrieval tuning for a project; unset fields use the defaults above
+ */
+export const zProjectRetrievalSettings = z.object({
+  fusion: zFusionSettings.partial().optional(),
+  reranker: zRerankSettings.partial().optional(),
+  mmr: zMmrSettings.partial().optional(),
+  expansion: zExpansionSettings.partial().optional(),
+});
+
+export type ProjectRetrievalSettings = z.infer<typeof zProjectRetrievalSettings>;
 
 /**
  * Zod schema for Project validation
@@ -11,6 +78,9 @@ export const zProject = z.object({
   userId: z.string().min(1, 'User ID is required'),
   default_link: z.string().url('Must be a valid URL').optional(),
   style_profile_id: z.string().optional(),
+  llm: zProjectLLMSettings.optional(),
+  retrieval: zProjectRetrievalSettings.optional(),
+  embedding: zEmbeddingModel.optional(), // Model chunks and queries are embedded with; pinned on first index
   createdAt: z.string(), // ISO string format
   updatedAt: z.string(), // ISO string format
 });
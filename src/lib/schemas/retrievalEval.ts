@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { zExpansionSettings, zFusionSettings, zMmrSettings, zRerankSettings } from './project';
+
+/**
+ * One golden query: a search and the chunks a good retriever returns for it
+ */
+export const zGoldenQuery = z.object({
+  query: z.string().min(1, 'Query is required'),
+  expected_chunk_ids: z.array(z.string().min(1)).min(1, 'At least one expected chunk ID is required'),
+  notes: z.string().optional(),
+});
+
+export type GoldenQuery = z.infer<typeof zGoldenQuery>;
+
+/**
+ * Golden Set Schema
+ *
+ * A project's hand-labelled queries for measuring retrieval quality.
+ */
+export const zGoldenSet = z.object({
+  _id: z.string().min(1, 'Golden set ID is required'),
+  projectId: z.string().min(1, 'Project ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  name: z.string().min(1, 'Golden set name is required'),
+  queries: z.array(zGoldenQuery).min(1, 'A golden set needs at least one query'),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().optional(),
+});
+
+export type GoldenSet = z.infer<typeof zGoldenSet>;
+
+export const zCreateGoldenSet = zGoldenSet.omit({
+  _id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CreateGoldenSet = z.infer<typeof zCreateGoldenSet>;
+
+/**
+ * A named retrieval configuration to evaluate; unset parts use the project's settings
+ */
+export const zEvalStrategy = z.object({
+  name: z.string().min(1, 'Strategy name is required'),
+  fusion: zFusionSettings.partial().optional(),
+  reranker: zRerankSettings.partial().optional(),
+  mmr: zMmrSettings.partial().optional(),
+  expansion: zExpansionSettings.partial().optional(),
+});
+
+export type EvalStrategy = z.infer<typeof zEvalStrategy>;
+
+export const zEvalMetrics = z.object({
+  recall_at_k: z.number().min(0).max(1),
+  mrr: z.number().min(0).max(1),
+  ndcg: z.number().min(0).max(1), // nDCG@k with binary relevance
+});
+
+export type EvalMetrics = z.infer<typeof zEvalMetrics>;
+
+export const zEvalQueryResult = zEvalMetrics.extend({
+  query: z.string(),
+  retrieved_chunk_ids: z.array(z.string()),
+  missed_chunk_ids: z.array(z.string()),
+  error: z.string().optional(), // Retrieval failed; the query scores 0
+});
+
+export type EvalQueryResult = z.infer<typeof zEvalQueryResult>;
+
+export const zEvalStrategyResult = z.object({
+  strategy: zEvalStrategy,
+  metrics: zEvalMetrics, // Mean over the set's queries
+  delta: zEvalMetrics.partial().optional(), // Change from the previous run of this strategy
+  queries: z.array(zEvalQueryResult),
+});
+
+export type EvalStrategyResult = z.infer<typeof zEvalStrategyResult>;
+
+/**
+ * Eval Run Schema
+ *
+ * One run of a golden set through hybrid retrieval, kept as history so
+ * regressions show up between runs.
+ */
+export const zEvalRun = z.object({
+  _id: z.string().min(1, 'Run ID is required'),
+  projectId: z.string().min(1, 'Project ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  goldenSetId: z.string().min(1, 'Golden set ID is required'),
+  k: z.number().int().positive(),
+  results: z.array(zEvalStrategyResult),
+  regressions: z.array(z.string()).default([]), // "<strategy>: <metric> -0.12" for drops past the threshold
+  createdAt: z.date().default(() => new Date()),
+});
+
+export type EvalRun = z.infer<typeof zEvalRun>;
+
+export const zCreateEvalRun = zEvalRun.omit({
+  _id: true,
+  createdAt: true,
+});
+
+export type CreateEvalRun = z.infer<typeof zCreateEvalRun>;
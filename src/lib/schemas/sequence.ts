@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+/**
+ * Sequence Step Schema
+ *
+ * One email in a sequence: when it is sent (days after the sequence starts),
+ * which angle it uses and what it is meant to achieve.
+ */
+export const zSequenceStep = z.object({
+  day: z.number().int().nonnegative('Day must be zero or positive'),
+  angle: z.string().min(1, 'Angle is required'),
+  goal: z.string().min(1, 'Goal is required'),
+});
+
+export type SequenceStep = z.infer<typeof zSequenceStep>;
+
+/**
+ * Sequence Schema
+ *
+ * An ordered set of drafts generated together (launch, onboarding, ...).
+ * Each step links to the draft created for it.
+ */
+export const zSequence = z.object({
+  _id: z.string().min(1, 'Sequence ID is required'),
+  projectId: z.string().min(1, 'Project ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  name: z.string().min(1, 'Sequence name is required'),
+  template: z.string().optional(), // Template key when generated from a built-in template
+  steps: z.array(zSequenceStep.extend({
+    draftId: z.string().min(1, 'Draft ID is required'),
+    subject: z.string(),
+    context_chunk_ids: z.array(z.string()).default([]),
+  })).min(1, 'A sequence needs at least one step'),
+  search_query: z.string().optional(),
+  createdAt: z.date().default(() => new Date()),
+});
+
+export type Sequence = z.infer<typeof zSequence>;
+
+/**
+ * Schema for creating a new sequence (without auto-generated fields)
+ */
+export const zCreateSequence = zSequence.omit({
+  _id: true,
+  createdAt: true,
+});
+
+export type CreateSequence = z.infer<typeof zCreateSequence>;
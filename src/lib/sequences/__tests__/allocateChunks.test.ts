@@ -0,0 +1,37 @@
+import { allocateChunksToSteps } from '../allocateChunks';
+
+describe('allocateChunksToSteps', () => {
+  const chunks = [
+    { chunkId: 'c1', score: 0.9 },
+    { chunkId: 'c2', score: 0.8 },
+    { chunkId: 'c3', score: 0.7 },
+    { chunkId: 'c4', score: 0.6 },
+    { chunkId: 'c5', score: 0.5 },
+    { chunkId: 'c6', score: 0.4 },
+  ];
+
+  it('should give each step different chunks while enough are available', () => {
+    const allocations = allocateChunksToSteps(chunks, 3, 2);
+
+    expect(allocations.map(step => step.map(c => c.chunkId))).toEqual([
+      ['c1', 'c2'],
+      ['c3', 'c4'],
+      ['c5', 'c6'],
+    ]);
+  });
+
+  it('should only reuse chunks once all have been used, least-used first', () => {
+    const allocations = allocateChunksToSteps(chunks.slice(0, 3), 3, 2);
+    const usage = new Map<string, number>();
+    allocations.flat().forEach(c => usage.set(c.chunkId, (usage.get(c.chunkId) || 0) + 1));
+
+    expect(allocations[0].map(c => c.chunkId)).toEqual(['c1', 'c2']);
+    expect(allocations[1].map(c => c.chunkId)).toContain('c3');
+    // 6 slots over 3 chunks: every chunk used exactly twice
+    expect(Array.from(usage.values())).toEqual([2, 2, 2]);
+  });
+
+  it('should return an empty allocation for zero steps', () => {
+    expect(allocateChunksToSteps(chunks, 0, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Chunk Allocation for Sequences
+ *
+ * Context is retrieved once for the whole sequence, then split across steps
+ * so that each email leans on different facts. Unused chunks are handed out
+ * first (highest score first); a step only reuses chunks once every retrieved
+ * chunk has been used, and then prefers the least-used ones.
+ */
+
+export function allocateChunksToSteps<T extends { chunkId: string; score: number }>(
+  chunks: T[],
+  stepCount: number,
+  perStep: number
+): T[][] {
+  if (stepCount <= 0) {
+    return [];
+  }
+
+  const ranked = [...chunks].sort((a, b) => b.score - a.score);
+  const usage = new Map<string, number>(ranked.map(chunk => [chunk.chunkId, 0]));
+  const allocations: T[][] = [];
+
+  for (let step = 0; step < stepCount; step++) {
+    const take = Math.min(perStep, ranked.length);
+
+    // Least-used first, then by score (stable sort keeps score order for ties)
+    const picked = [...ranked]
+      .sort((a, b) => (usage.get(a.chunkId) || 0) - (usage.get(b.chunkId) || 0))
+      .slice(0, take);
+
+    picked.forEach(chunk => usage.set(chunk.chunkId, (usage.get(chunk.chunkId) || 0) + 1));
+
+    // Keep relevance order within the step's context pack
+    allocations.push(picked.sort((a, b) => b.score - a.score));
+  }
+
+  return allocations;
+}
@@ -0,0 +1,69 @@
+/**
+ * Sequence Templates
+ *
+ * Built-in multi-email sequences. Each step sets the send day, the
+ * copywriting angle (see src/lib/angles) and the goal of that email.
+ */
+
+import { type SequenceStep } from '@/lib/schemas/sequence';
+
+export interface SequenceTemplate {
+  key: string;
+  name: string;
+  description: string;
+  steps: SequenceStep[];
+}
+
+/**
+ * Available sequence templates
+ */
+export const SEQUENCE_TEMPLATES: Record<string, SequenceTemplate> = {
+  launch: {
+    key: 'launch',
+    name: 'Launch Week',
+    description: 'Five emails from announcement to last call',
+    steps: [
+      { day: 0, angle: 'AIDA', goal: 'Announce the launch and what is now available' },
+      { day: 2, angle: 'SOC', goal: 'Tell the story behind it and why it exists' },
+      { day: 4, angle: 'CASE_STUDY', goal: 'Prove it works with a real result' },
+      { day: 6, angle: 'FAQ', goal: 'Answer the objections that stop people buying' },
+      { day: 7, angle: 'PAS', goal: 'Last call: make the cost of waiting clear' },
+    ],
+  },
+  onboarding: {
+    key: 'onboarding',
+    name: 'Onboarding',
+    description: 'Welcome new subscribers and get them to a first win',
+    steps: [
+      { day: 0, angle: 'BAB', goal: 'Welcome them and show where they are headed' },
+      { day: 1, angle: '4PS', goal: 'Drive the single most important first action' },
+      { day: 3, angle: 'SOC', goal: 'Share a story that builds trust' },
+      { day: 5, angle: 'FAQ', goal: 'Clear up the most common early questions' },
+      { day: 7, angle: 'CASE_STUDY', goal: 'Show what is possible once they are set up' },
+      { day: 10, angle: 'AIDA', goal: 'Invite them to the next step or offer' },
+    ],
+  },
+  short_promo: {
+    key: 'short_promo',
+    name: 'Short Promo',
+    description: 'Four-email promotion for a limited offer',
+    steps: [
+      { day: 0, angle: 'PAS', goal: 'Introduce the problem and the offer' },
+      { day: 2, angle: '4PS', goal: 'Sharpen the promise and back it with proof' },
+      { day: 4, angle: 'FAQ', goal: 'Handle objections' },
+      { day: 7, angle: 'AIDA', goal: 'Final reminder before the offer closes' },
+    ],
+  },
+};
+
+/**
+ * Helper to get all available sequence templates
+ */
+export function getAvailableSequenceTemplates(): Array<{key: string, name: string, description: string, steps: SequenceStep[]}> {
+  return Object.values(SEQUENCE_TEMPLATES).map(template => ({
+    key: template.key,
+    name: template.name,
+    description: template.description,
+    steps: template.steps
+  }));
+}
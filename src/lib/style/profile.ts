@@ -0,0 +1,77 @@
+import { getColl } from '@/lib/db/mongo';
+import { type StyleProfile } from '@/lib/schemas/styleProfile';
+import { validateStyleCard, type StyleCard } from '@/lib/llm/prompts/styleCard';
+
+/**
+ * Style profile resolved for a generation request
+ */
+export interface ResolvedStyleProfile {
+  styleProfileId: string;
+  styleCard: StyleCard;
+  source: 'project' | 'override';
+}
+
+/**
+ * Load a style profile owned by the given user
+ *
+ * @param styleProfileId - Style profile ID (nanoid string, as created by /api/style/build)
+ * @param userId - Owner of the profile
+ * @returns The style profile, or null if it doesn't exist or belongs to someone else
+ */
+export async function loadStyleProfile(
+  styleProfileId: string,
+  userId: string
+): Promise<StyleProfile | null> {
+  const styleProfilesCollection = await getColl<StyleProfile>('style_profiles');
+  return styleProfilesCollection.findOne({
+    _id: styleProfileId,
+    ownerId: userId // Users can only apply their own profiles
+  });
+}
+
+/**
+ * Resolve which style profile (if any) applies to a generation request
+ *
+ * Precedence: `useStyleProfile: false` disables profiles entirely, an explicit
+ * `styleProfileId` overrides the project's profile, otherwise the project's
+ * `style_profile_id` is used.
+ *
+ * An explicit override that can't be found throws, since the caller asked for it.
+ * A missing project profile only logs a warning so generation can continue.
+ */
+export async function resolveStyleProfile({
+  userId,
+  projectStyleProfileId,
+  styleProfileId,
+  useStyleProfile = true
+}: {
+  userId: string;
+  projectStyleProfileId?: string;
+  styleProfileId?: string;
+  useStyleProfile?: boolean;
+}): Promise<ResolvedStyleProfile | null> {
+  if (!useStyleProfile) {
+    return null;
+  }
+
+  const requestedId = styleProfileId || projectStyleProfileId;
+  if (!requestedId) {
+    return null;
+  }
+
+  const profile = await loadStyleProfile(requestedId, userId);
+
+  if (!profile) {
+    if (styleProfileId) {
+      throw new Error(`Style profile not found: ${styleProfileId}`);
+    }
+    console.warn(`[STYLE] Project style profile ${requestedId} not found, generating without it`);
+    return null;
+  }
+
+  return {
+    styleProfileId: profile._id,
+    styleCard: validateStyleCard(profile.style_card),
+    source: styleProfileId ? 'override' : 'project'
+  };
+}
@@ -0,0 +1,53 @@
+import { stem, tokenize } from '../analyze';
+import { Bm25Index } from '../bm25';
+
+describe('Text analysis', () => {
+  it('should reduce word forms to one stem', () => {
+    expect(stem('pricing')).toBe(stem('prices'));
+    expect(stem('testimonials')).toBe('testimonial');
+    expect(stem('stories')).toBe('story');
+    expect(stem('running')).toBe('run');
+    expect(stem('class')).toBe('class');
+  });
+
+  it('should drop stop words and punctuation', () => {
+    expect(tokenize('The launch-week pricing, for our customers!')).toEqual(['launch', 'week', 'pric', 'custom']);
+  });
+});
+
+describe('Bm25Index', () => {
+  const createIndex = () => {
+    const index = new Bm25Index({ fields: { text: 1, title: 3 } });
+    index.add('body', { text: 'Our annual plan includes pricing for teams of every size and shape.' });
+    index.add('titled', { text: 'Plans for teams of every size.', title: 'Pricing' });
+    index.add('other', { text: 'Onboarding takes a single afternoon.' });
+    return index;
+  };
+
+  it('should rank a title match above the same term in the body', () => {
+    const matches = createIndex().search('pricing');
+
+    expect(matches.map(match => match.id)).toEqual(['titled', 'body']);
+    expect(matches[0].score).toBeGreaterThan(0);
+    expect(matches[0].score).toBeLessThanOrEqual(1);
+  });
+
+  it('should match other word forms through stemming', () => {
+    expect(createIndex().search('prices').map(match => match.id)).toContain('body');
+  });
+
+  it('should forget removed documents and replace re-added ones', () => {
+    const index = createIndex();
+
+    index.remove('titled');
+    index.add('other', { text: 'Pricing questions answered.' });
+
+    expect(index.size).toBe(2);
+    expect(index.search('pricing').map(match => match.id).sort()).toEqual(['body', 'other']);
+    expect(index.search('onboarding')).toEqual([]);
+  });
+
+  it('should return nothing for stop-word-only queries', () => {
+    expect(createIndex().search('the and of')).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Text Analysis
+ *
+ * Tokenizer for the in-process lexical index: lowercases, splits on anything
+ * that isn't a letter or digit, drops stop words and reduces each word with a
+ * light English suffix stemmer. Queries and documents go through the same
+ * steps, so consistency matters more than linguistic accuracy.
+ */
+
+export const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but',
+  'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'most', 'my', 'no', 'not',
+  'of', 'on', 'or', 'our', 'out', 'over', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'to', 'up', 'us', 'very', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Longest suffixes first; each maps to its replacement
+const SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ization', 'ize'],
+  ['ations', 'ate'],
+  ['ation', 'ate'],
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['ers', ''],
+  ['er', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', ''],
+];
+
+// Don't stem words down to fewer letters than this
+const MIN_STEM_LENGTH = 3;
+
+function stripFinalE(word: string): string {
+  return word.length > MIN_STEM_LENGTH && word.endsWith('e') ? word.slice(0, -1) : word;
+}
+
+/**
+ * Strip one common English suffix
+ *
+ * "pricing", "prices" and "price" → "pric"; "testimonials" → "testimonial";
+ * "stories" → "story"; "running" → "run". Words ending in "ss" keep their s
+ * ("class").
+ */
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /\d/.test(word)) return word;
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+    if (suffix === 's' && word.endsWith('ss')) return word;
+
+    const base = word.slice(0, -suffix.length);
+    // Too short to be a real suffix here; try a shorter one
+    if (base.length + replacement.length < MIN_STEM_LENGTH) continue;
+
+    if (suffix === 'ing' || suffix === 'ed') {
+      // "running" → "run", but "falling" stays "fall"
+      if (/([^aeiouslz])\1$/.test(base)) return base.slice(0, -1);
+      return stripFinalE(base);
+    }
+
+    // "boxes" → "box", but "prices" → "pric" like "pricing"
+    if (suffix === 'es' && !/(ch|sh|x|ss|z)$/.test(base)) return stripFinalE(base + 'e');
+
+    return stripFinalE(base + replacement);
+  }
+
+  return stripFinalE(word);
+}
+
+/**
+ * Terms of a text, in order, with repeats
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
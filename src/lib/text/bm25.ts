@@ -0,0 +1,161 @@
+/**
+ * BM25 Index
+ *
+ * In-memory BM25F index over documents with several weighted fields (e.g. a
+ * chunk's text, title, tags and heading path). Each field is length-normalised
+ * on its own, the weighted term frequencies are summed, and the sum goes
+ * through BM25's saturation once, so a term in a short title counts for more
+ * than the same term in a long body without a title match swamping
+ * everything else. Documents can be added and removed at any time.
+ */
+
+import { tokenize } from './analyze';
+
+export interface Bm25Options<F extends string> {
+  fields: Record<F, number>; // Weight of a term occurrence in each field
+  k1?: number; // Term frequency saturation
+  b?: number; // Length normalisation, 0 (none) to 1 (full)
+  analyzer?: (text: string) => string[];
+}
+
+export interface Bm25Match {
+  id: string;
+  score: number; // Share of the best score the query could get, 0-1
+}
+
+interface IndexedDocument<F extends string> {
+  termFrequencies: Map<string, Partial<Record<F, number>>>;
+  lengths: Record<F, number>;
+}
+
+export class Bm25Index<F extends string> {
+  private readonly weights: Record<F, number>;
+  private readonly fieldNames: F[];
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly analyze: (text: string) => string[];
+  private readonly documents = new Map<string, IndexedDocument<F>>();
+  private readonly postings = new Map<string, Set<string>>();
+  private readonly totalLengths: Record<F, number>;
+
+  constructor(options: Bm25Options<F>) {
+    this.weights = options.fields;
+    this.fieldNames = Object.keys(options.fields) as F[];
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.analyze = options.analyzer ?? tokenize;
+    this.totalLengths = Object.fromEntries(this.fieldNames.map(field => [field, 0])) as Record<F, number>;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Add a document, replacing any document with the same id
+   */
+  add(id: string, fields: Partial<Record<F, string>>): void {
+    this.remove(id);
+
+    const termFrequencies: IndexedDocument<F>['termFrequencies'] = new Map();
+    const lengths = {} as Record<F, number>;
+
+    this.fieldNames.forEach(field => {
+      const terms = this.analyze(fields[field] || '');
+      lengths[field] = terms.length;
+      this.totalLengths[field] += terms.length;
+
+      terms.forEach(term => {
+        const counts: Partial<Record<F, number>> = termFrequencies.get(term) ?? {};
+        counts[field] = (counts[field] ?? 0) + 1;
+        termFrequencies.set(term, counts);
+      });
+    });
+
+    termFrequencies.forEach((_counts, term) => {
+      const ids = this.postings.get(term) ?? new Set<string>();
+      ids.add(id);
+      this.postings.set(term, ids);
+    });
+
+    this.documents.set(id, { termFrequencies, lengths });
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    this.fieldNames.forEach(field => {
+      this.totalLengths[field] -= document.lengths[field];
+    });
+
+    document.termFrequencies.forEach((_counts, term) => {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.documents.delete(id);
+  }
+
+  /**
+   * Score every document containing a query term
+   *
+   * Scores are divided by the sum of the query terms' IDF, the most a
+   * document could score, so they fall in 0-1 and stay comparable across
+   * queries.
+   *
+   * @param limit - Maximum number of matches to return, all when unset
+   * @returns Matches, best first
+   */
+  search(query: string, limit?: number): Bm25Match[] {
+    const queryTerms = Array.from(new Set(this.analyze(query)));
+    const documentCount = this.documents.size;
+    if (queryTerms.length === 0 || documentCount === 0) return [];
+
+    const averageLengths = Object.fromEntries(
+      this.fieldNames.map(field => [field, this.totalLengths[field] / documentCount || 1])
+    ) as Record<F, number>;
+
+    const scores = new Map<string, number>();
+    let maxScore = 0;
+
+    queryTerms.forEach(term => {
+      const ids = this.postings.get(term);
+      if (!ids) return;
+
+      const idf = Math.log(1 + (documentCount - ids.size + 0.5) / (ids.size + 0.5));
+      maxScore += idf;
+
+      ids.forEach(id => {
+        const document = this.documents.get(id)!;
+        const counts = document.termFrequencies.get(term)!;
+
+        let weightedFrequency = 0;
+        this.fieldNames.forEach(field => {
+          const frequency = counts[field];
+          if (!frequency) return;
+          const normalisation = 1 - this.b + this.b * (document.lengths[field] / averageLengths[field]);
+          weightedFrequency += (this.weights[field] * frequency) / normalisation;
+        });
+
+        const termScore = idf * (weightedFrequency / (this.k1 + weightedFrequency));
+        scores.set(id, (scores.get(id) ?? 0) + termScore);
+      });
+    });
+
+    if (maxScore === 0) return [];
+
+    const matches = Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score: score / maxScore }))
+      .sort((a, b) => b.score - a.score);
+
+    return limit === undefined ? matches : matches.slice(0, limit);
+  }
+}
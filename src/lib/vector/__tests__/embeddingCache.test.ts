@@ -0,0 +1,144 @@
+import { getColl } from '@/lib/db/mongo';
+import {
+  cachedEmbedMany,
+  clearEmbeddingMemoryCache,
+  embeddingCacheKey,
+  getEmbeddingCacheStats,
+  isEmbeddingCacheEnabled,
+} from '../embeddingCache';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+
+const model = { provider: 'openai' as const, model: 'text-embedding-3-small' };
+
+describe('Embedding cache', () => {
+  const mockCache = {
+    find: jest.fn(),
+    bulkWrite: jest.fn(),
+    updateMany: jest.fn(),
+    aggregate: jest.fn(),
+  };
+  const mockCounters = {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const embed = jest.fn(async (texts: string[]) => texts.map(text => [text.length, 1]));
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearEmbeddingMemoryCache();
+    process.env = { ...originalEnv };
+    mockGetColl.mockImplementation(async (name: string) =>
+      (name === 'embedding_cache' ? mockCache : mockCounters) as never
+    );
+    mockCache.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([]) });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should key by model and normalised text', () => {
+    expect(embeddingCacheKey('Weekly  reporting\n', model)).toBe(embeddingCacheKey('Weekly reporting', model));
+    expect(embeddingCacheKey('Weekly reporting', model)).not.toBe(embeddingCacheKey('weekly reporting', model));
+    expect(embeddingCacheKey('Weekly reporting', model))
+      .not.toBe(embeddingCacheKey('Weekly reporting', { ...model, model: 'text-embedding-3-large' }));
+  });
+
+  it('should keep openai-compatible entries and counters apart per server', async () => {
+    const compatible = { provider: 'openai-compatible' as const, model: 'nomic-embed-text' };
+
+    process.env.LLM_BASE_URL = 'http://gpu-1:11434/v1';
+    const first = embeddingCacheKey('Weekly reporting', compatible);
+    await cachedEmbedMany(['Weekly reporting'], compatible, embed);
+    const [{ _id: counterId }, update] = mockCounters.updateOne.mock.calls[0];
+
+    process.env.LLM_BASE_URL = 'http://gpu-2:11434/v1';
+    expect(embeddingCacheKey('Weekly reporting', compatible)).not.toBe(first);
+    expect(counterId).toMatch(/^openai-compatible\/nomic-embed-text@[0-9a-f]{16}$/);
+    expect(update.$set.endpoint).toBe(counterId.split('@')[1]);
+    expect(embeddingCacheKey('Weekly reporting', model)).toMatch(/^openai\/text-embedding-3-small:/);
+  });
+
+  it('should only cache providers that embed over the network', () => {
+    expect(isEmbeddingCacheEnabled(model)).toBe(true);
+    expect(isEmbeddingCacheEnabled({ provider: 'local', model: 'hash-384' })).toBe(false);
+
+    process.env.EMBEDDING_CACHE = 'off';
+    expect(isEmbeddingCacheEnabled(model)).toBe(false);
+  });
+
+  it('should embed only texts missing from the cache, once each', async () => {
+    mockCache.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([{ _id: embeddingCacheKey('cached', model), embedding: [9, 9] }]),
+    });
+
+    const embeddings = await cachedEmbedMany(['cached', 'new text', 'new text'], model, embed);
+
+    expect(embeddings).toEqual([[9, 9], [8, 1], [8, 1]]);
+    expect(embed).toHaveBeenCalledWith(['new text']);
+
+    const [ops] = mockCache.bulkWrite.mock.calls[0];
+    expect(ops).toHaveLength(1);
+    expect(ops[0].updateOne.upsert).toBe(true);
+    expect(mockCounters.updateOne).toHaveBeenCalledWith(
+      { _id: 'openai/text-embedding-3-small' },
+      expect.objectContaining({ $inc: { hits: 1, misses: 1 } }),
+      { upsert: true }
+    );
+  });
+
+  it('should serve repeated texts from memory', async () => {
+    await cachedEmbedMany(['query'], model, embed);
+    mockCache.find.mockClear();
+
+    expect(await cachedEmbedMany(['query'], model, embed)).toEqual([[5, 1]]);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(mockCache.find).not.toHaveBeenCalled();
+  });
+
+  it('should embed everything when the cache cannot be read', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockCache.find.mockImplementation(() => { throw new Error('connection refused'); });
+
+    expect(await cachedEmbedMany(['a', 'bb'], model, embed)).toEqual([[1, 1], [2, 1]]);
+    expect(mockCache.bulkWrite).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should report hit rates per model', async () => {
+    mockCounters.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([{ ...model, _id: 'openai/text-embedding-3-small', hits: 3, misses: 1 }]),
+    });
+    mockCache.aggregate.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([{ _id: model, entries: 4 }]),
+    });
+
+    expect(await getEmbeddingCacheStats()).toEqual([
+      { ...model, hits: 3, misses: 1, hit_rate: 0.75, entries: 4 },
+    ]);
+  });
+
+  it('should report each openai-compatible server separately', async () => {
+    const compatible = { provider: 'openai-compatible' as const, model: 'nomic-embed-text' };
+    mockCounters.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        { ...compatible, endpoint: 'aaaa', _id: 'openai-compatible/nomic-embed-text@aaaa', hits: 1, misses: 1 },
+        { ...compatible, endpoint: 'bbbb', _id: 'openai-compatible/nomic-embed-text@bbbb', hits: 0, misses: 1 },
+      ]),
+    });
+    mockCache.aggregate.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        { _id: { ...compatible, endpoint: 'aaaa' }, entries: 5 },
+        { _id: { ...compatible, endpoint: 'bbbb' }, entries: 2 },
+      ]),
+    });
+
+    expect(await getEmbeddingCacheStats()).toEqual([
+      { ...compatible, endpoint: 'aaaa', hits: 1, misses: 1, hit_rate: 0.5, entries: 5 },
+      { ...compatible, endpoint: 'bbbb', hits: 0, misses: 1, hit_rate: 0, entries: 2 },
+    ]);
+  });
+});
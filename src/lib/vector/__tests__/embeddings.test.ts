@@ -0,0 +1,104 @@
+import {
+  embedMany,
+  embeddingModelFilter,
+  getDefaultEmbeddingModel,
+  LEGACY_EMBEDDING_MODEL,
+  sameEmbeddingModel,
+} from '../embeddings';
+import { hashEmbedding } from '../hashEmbedding';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('Embeddings', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_EMBEDDING_PROVIDER;
+    delete process.env.LLM_EMBEDDING_MODEL;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('hashEmbedding', () => {
+    it('should return unit-length vectors of the requested size', () => {
+      const vector = hashEmbedding('Saves time on weekly reporting', 64);
+
+      expect(vector).toHaveLength(64);
+      expect(Math.sqrt(cosine(vector, vector))).toBeCloseTo(1);
+    });
+
+    it('should score texts sharing words above unrelated ones', () => {
+      const base = hashEmbedding('weekly reporting dashboard for teams');
+
+      expect(cosine(base, hashEmbedding('reporting dashboard for small teams')))
+        .toBeGreaterThan(cosine(base, hashEmbedding('chocolate cake recipe')));
+    });
+  });
+
+  describe('getDefaultEmbeddingModel', () => {
+    it('should default to OpenAI text-embedding-3-small', () => {
+      expect(getDefaultEmbeddingModel()).toEqual({ provider: 'openai', model: 'text-embedding-3-small' });
+    });
+
+    it('should fall back to OpenAI when the chat provider cannot embed', () => {
+      process.env.LLM_PROVIDER = 'anthropic';
+      expect(getDefaultEmbeddingModel().provider).toBe('openai');
+    });
+
+    it('should use the embedding provider and model from the environment', () => {
+      process.env.LLM_EMBEDDING_PROVIDER = 'local';
+      process.env.LLM_EMBEDDING_MODEL = 'hash-128';
+
+      expect(getDefaultEmbeddingModel()).toEqual({ provider: 'local', model: 'hash-128' });
+    });
+
+    it('should reject unknown embedding providers', () => {
+      process.env.LLM_EMBEDDING_PROVIDER = 'anthropic';
+      expect(() => getDefaultEmbeddingModel()).toThrow('Unknown LLM_EMBEDDING_PROVIDER');
+    });
+  });
+
+  describe('embeddingModelFilter', () => {
+    it('should include chunks without a recorded model for the legacy model', () => {
+      expect(embeddingModelFilter(LEGACY_EMBEDDING_MODEL)).toEqual({
+        $or: [
+          { 'embedding_model.provider': 'openai', 'embedding_model.model': 'text-embedding-3-small' },
+          { embedding_model: { $exists: false } },
+        ],
+      });
+    });
+
+    it('should match the model exactly otherwise', () => {
+      expect(embeddingModelFilter({ provider: 'local', model: 'hash-384' }, 'embedding_next_model')).toEqual({
+        'embedding_next_model.provider': 'local',
+        'embedding_next_model.model': 'hash-384',
+      });
+    });
+  });
+
+  describe('embedMany', () => {
+    it('should embed locally with the dimensions in the model name', async () => {
+      const embeddings = await embedMany(['one', 'two'], { provider: 'local', model: 'hash-32' });
+
+      expect(embeddings).toHaveLength(2);
+      expect(embeddings[0]).toHaveLength(32);
+    });
+
+    it('should compare models by provider and name only', () => {
+      expect(sameEmbeddingModel(
+        { provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 },
+        { provider: 'openai', model: 'text-embedding-3-small' }
+      )).toBe(true);
+      expect(sameEmbeddingModel(
+        { provider: 'openai', model: 'text-embedding-3-small' },
+        { provider: 'openai', model: 'text-embedding-3-large' }
+      )).toBe(false);
+    });
+  });
+});
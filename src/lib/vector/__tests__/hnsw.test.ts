@@ -0,0 +1,66 @@
+import { HnswIndex } from '../hnsw';
+
+// Deterministic pseudo-random vectors so recall doesn't flake
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296 - 0.5;
+  };
+}
+
+const cosine = (a: number[], b: number[]) => {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+  return dot / (norm(a) * norm(b));
+};
+
+describe('HnswIndex', () => {
+  it('should return nothing from an empty index', () => {
+    expect(new HnswIndex().search([1, 0, 0], 3)).toEqual([]);
+  });
+
+  it('should rank by cosine similarity', () => {
+    const index = new HnswIndex();
+    index.add('x', [1, 0, 0]);
+    index.add('y', [0, 1, 0]);
+    index.add('xy', [0.7, 0.7, 0]);
+
+    const results = index.search([1, 0, 0], 2);
+
+    expect(results.map(result => result.id)).toEqual(['x', 'xy']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('should reject vectors of another length', () => {
+    const index = new HnswIndex();
+    index.add('a', [1, 0, 0]);
+
+    expect(() => index.add('b', [1, 0])).toThrow('has 2 dimensions, index has 3');
+    expect(() => index.search([1, 0], 1)).toThrow('Query has 2 dimensions');
+  });
+
+  it('should find nearly all of the exact nearest neighbours', () => {
+    const random = createRandom(42);
+    const vectors = Array.from({ length: 1000 }, () => Array.from({ length: 32 }, random));
+    const index = new HnswIndex({ m: 12, efConstruction: 100 });
+    vectors.forEach((vector, i) => index.add(String(i), vector));
+
+    let found = 0;
+    const queries = 20;
+    const k = 10;
+    for (let q = 0; q < queries; q++) {
+      const query = Array.from({ length: 32 }, random);
+      const exact = vectors
+        .map((vector, i) => ({ id: String(i), score: cosine(query, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k)
+        .map(result => result.id);
+      const approximate = new Set(index.search(query, k).map(result => result.id));
+      found += exact.filter(id => approximate.has(id)).length;
+    }
+
+    expect(index.size).toBe(1000);
+    expect(found / (queries * k)).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,104 @@
+import { getColl } from '@/lib/db/mongo';
+import { indexProjectChunks } from '../reindex';
+
+jest.mock('@/lib/db/mongo', () => ({ getColl: jest.fn() }));
+const mockGetColl = getColl as jest.MockedFunction<typeof getColl>;
+
+const projectId = '507f1f77bcf86cd799439011';
+const local = { provider: 'local' as const, model: 'hash-16' };
+const legacy = { provider: 'openai' as const, model: 'text-embedding-3-small' };
+
+describe('indexProjectChunks', () => {
+  const mockChunks = {
+    find: jest.fn(),
+    bulkWrite: jest.fn(),
+    countDocuments: jest.fn(),
+    distinct: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const mockProjects = {
+    updateOne: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetColl.mockImplementation(async (name: string) =>
+      (name === 'projects' ? mockProjects : mockChunks) as never
+    );
+    mockChunks.bulkWrite.mockImplementation(async (ops: unknown[]) => ({ modifiedCount: ops.length }));
+  });
+
+  it('should embed pending chunks in place with the current model', async () => {
+    mockChunks.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        { _id: 'a', md_text: 'First chunk' },
+        { _id: 'b', md_text: 'Second chunk' },
+      ]),
+    });
+
+    const result = await indexProjectChunks({ projectId, current: local });
+
+    expect(result).toEqual({ model: { ...local, dimensions: 16 }, indexed: 2, migrated: false });
+    const [ops] = mockChunks.bulkWrite.mock.calls[0];
+    expect(ops[0].updateOne.update.$set.embedding_model).toEqual({ ...local, dimensions: 16 });
+    expect(ops[0].updateOne.update.$set.embedding).toHaveLength(16);
+    expect(mockChunks.updateMany).not.toHaveBeenCalled();
+    expect(mockProjects.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ embedding: { $exists: false } }),
+      { $set: { embedding: { ...local, dimensions: 16 } } }
+    );
+  });
+
+  it('should stage every chunk before swapping in a new model', async () => {
+    mockChunks.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        { _id: 'a', md_text: 'First chunk' },
+        { _id: 'b', md_text: 'Second chunk' },
+      ]),
+    });
+    mockChunks.countDocuments.mockResolvedValue(0);
+    mockChunks.distinct.mockResolvedValue([16]);
+
+    const result = await indexProjectChunks({ projectId, current: legacy, target: local });
+
+    expect(result).toEqual({
+      model: { ...local, dimensions: 16 },
+      indexed: 2,
+      migrated: true,
+      previousModel: legacy,
+    });
+
+    // Staged into embedding_next, never the live field
+    const [ops] = mockChunks.bulkWrite.mock.calls[0];
+    expect(ops[0].updateOne.update.$set).toHaveProperty('embedding_next');
+    expect(ops[0].updateOne.update.$set).not.toHaveProperty('embedding');
+
+    expect(mockChunks.updateMany).toHaveBeenCalledTimes(1);
+    expect(mockProjects.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      { $set: expect.objectContaining({ embedding: { ...local, dimensions: 16 } }) }
+    );
+  });
+
+  it('should not switch models while chunks are still unstaged', async () => {
+    mockChunks.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([]) });
+    mockChunks.countDocuments.mockResolvedValue(3);
+
+    await expect(indexProjectChunks({ projectId, current: legacy, target: local }))
+      .rejects.toThrow('3 chunks were added during the migration');
+
+    expect(mockChunks.updateMany).not.toHaveBeenCalled();
+    expect(mockProjects.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to swap in vectors of mixed dimensions', async () => {
+    mockChunks.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([]) });
+    mockChunks.countDocuments.mockResolvedValue(0);
+    mockChunks.distinct.mockResolvedValue([16, 32]);
+
+    await expect(indexProjectChunks({ projectId, current: legacy, target: local }))
+      .rejects.toThrow('different dimensions');
+
+    expect(mockChunks.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Embedding Cache
+ *
+ * Persists embeddings keyed by model and a hash of the normalised text, so
+ * re-ingesting an asset, re-indexing a project or repeating a query doesn't
+ * pay for the same embedding twice. OpenAI-compatible models are also keyed
+ * by a hash of the server's base URL, since two servers can serve different
+ * models under one name. Recently used entries are also kept in
+ * memory, which is what makes repeated queries fast. Local hash and fixture
+ * embeddings are computed from the text on the spot and never cached.
+ *
+ * The cache is best-effort: if MongoDB can't be read or written, texts are
+ * embedded as if the cache were empty. Set EMBEDDING_CACHE=off to bypass it.
+ */
+
+import { createHash } from 'crypto';
+import { getColl } from '@/lib/db/mongo';
+import { getCompatibleBaseUrl } from '@/lib/llm/providers';
+import { type EmbeddingModel } from '@/lib/schemas/embeddingModel';
+
+const CACHE_COLLECTION = 'embedding_cache';
+const STATS_COLLECTION = 'embedding_cache_stats';
+const MEMORY_CACHE_SIZE = 1000; // Entries kept in process, most recently used
+
+// Providers whose embeddings cost a network call
+const CACHED_PROVIDERS: EmbeddingModel['provider'][] = ['openai', 'openai-compatible'];
+
+interface EmbeddingCacheEntry {
+  _id: string; // See embeddingCacheKey
+  provider: EmbeddingModel['provider'];
+  model: string;
+  endpoint?: string; // See embeddingEndpoint
+  dimensions: number;
+  embedding: number[];
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+interface EmbeddingCacheCounters {
+  _id: string; // See embeddingCacheScope
+  provider: EmbeddingModel['provider'];
+  model: string;
+  endpoint?: string;
+  hits: number;
+  misses: number;
+  updatedAt: Date;
+}
+
+/**
+ * Hit rate of the cache for one model since the counters were created
+ */
+export interface EmbeddingCacheStats {
+  provider: EmbeddingModel['provider'];
+  model: string;
+  endpoint?: string; // Hash of the openai-compatible base URL
+  hits: number; // Texts served from the cache
+  misses: number; // Texts sent to the provider
+  hit_rate: number; // hits / (hits + misses), 0 when unused
+  entries: number; // Embeddings stored for the model
+}
+
+const memoryCache = new Map<string, number[]>();
+
+/**
+ * Text as it is hashed: Unicode-normalised with whitespace collapsed, so
+ * formatting-only differences share an entry
+ */
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Short hash of the base URL an openai-compatible model is served from,
+ * undefined for other providers
+ */
+function embeddingEndpoint(model: EmbeddingModel): string | undefined {
+  if (model.provider !== 'openai-compatible') return undefined;
+  return createHash('sha256').update(getCompatibleBaseUrl()).digest('hex').slice(0, 16);
+}
+
+/**
+ * The model a cache entry or counter belongs to: provider/model, plus
+ * @endpoint for openai-compatible models
+ */
+function embeddingCacheScope(model: EmbeddingModel): string {
+  const endpoint = embeddingEndpoint(model);
+  return `${model.provider}/${model.model}${endpoint ? `@${endpoint}` : ''}`;
+}
+
+/**
+ * Cache key for a text embedded with a model
+ */
+export function embeddingCacheKey(text: string, model: EmbeddingModel): string {
+  const hash = createHash('sha256').update(normalizeEmbeddingText(text)).digest('hex');
+  return `${embeddingCacheScope(model)}:${hash}`;
+}
+
+/**
+ * Whether embeddings from this model go through the cache
+ */
+export function isEmbeddingCacheEnabled(model: EmbeddingModel): boolean {
+  return process.env.EMBEDDING_CACHE !== 'off' && CACHED_PROVIDERS.includes(model.provider);
+}
+
+function rememberInMemory(key: string, embedding: number[]): void {
+  // Re-inserting moves the key to the back, so the front is least recently used
+  memoryCache.delete(key);
+  memoryCache.set(key, embedding);
+
+  while (memoryCache.size > MEMORY_CACHE_SIZE) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+/**
+ * Drop the in-memory entries; the persisted cache is untouched
+ */
+export function clearEmbeddingMemoryCache(): void {
+  memoryCache.clear();
+}
+
+/**
+ * Embed texts, serving the ones seen before from the cache
+ *
+ * Identical texts in one call are embedded once. Hits and misses are counted
+ * per distinct text.
+ *
+ * @param embed - Embeds the texts missing from the cache, in order
+ * @returns One embedding per text, in order
+ */
+export async function cachedEmbedMany(
+  texts: string[],
+  model: EmbeddingModel,
+  embed: (texts: string[]) => Promise<number[][]>
+): Promise<number[][]> {
+  const keys = texts.map(text => embeddingCacheKey(text, model));
+  const found = new Map<string, number[]>();
+
+  keys.forEach(key => {
+    const embedding = memoryCache.get(key);
+    if (embedding) found.set(key, embedding);
+  });
+
+  let persisted = true;
+  const unseen = Array.from(new Set(keys.filter(key => !found.has(key))));
+
+  if (unseen.length > 0) {
+    try {
+      const cacheCollection = await getColl<EmbeddingCacheEntry>(CACHE_COLLECTION);
+      const entries = await cacheCollection.find({ _id: { $in: unseen } }).toArray();
+      entries.forEach(entry => found.set(entry._id, entry.embedding));
+    } catch (error) {
+      persisted = false;
+      console.warn('Embedding cache lookup failed, embedding without it:', error);
+    }
+  }
+
+  // Embed each missing text once
+  const missing = new Map<string, string>();
+  keys.forEach((key, index) => {
+    if (!found.has(key) && !missing.has(key)) missing.set(key, texts[index]);
+  });
+
+  const missingKeys = Array.from(missing.keys());
+  const embedded = missingKeys.length > 0 ? await embed(Array.from(missing.values())) : [];
+  missingKeys.forEach((key, index) => found.set(key, embedded[index]));
+
+  const hitKeys = Array.from(new Set(keys)).filter(key => !missing.has(key));
+  Array.from(new Set(keys)).forEach(key => rememberInMemory(key, found.get(key)!));
+
+  if (persisted) {
+    await recordCacheUse(model, hitKeys, missingKeys.map((key, index) => ({ key, embedding: embedded[index] })));
+  }
+
+  return keys.map(key => found.get(key)!);
+}
+
+/**
+ * Store new entries, touch the ones that were hit and bump the counters
+ */
+async function recordCacheUse(
+  model: EmbeddingModel,
+  hitKeys: string[],
+  stored: Array<{ key: string; embedding: number[] }>
+): Promise<void> {
+  const now = new Date();
+  const endpoint = embeddingEndpoint(model);
+
+  try {
+    const cacheCollection = await getColl<EmbeddingCacheEntry>(CACHE_COLLECTION);
+    const countersCollection = await getColl<EmbeddingCacheCounters>(STATS_COLLECTION);
+
+    await Promise.all([
+      stored.length > 0
+        ? cacheCollection.bulkWrite(stored.map(({ key, embedding }) => ({
+          updateOne: {
+            filter: { _id: key },
+            update: {
+              $setOnInsert: {
+                provider: model.provider,
+                model: model.model,
+                ...(endpoint && { endpoint }),
+                dimensions: embedding.length,
+                embedding,
+                createdAt: now,
+              },
+              $set: { lastUsedAt: now },
+            },
+            upsert: true,
+          },
+        })), { ordered: false })
+        : null,
+      hitKeys.length > 0
+        ? cacheCollection.updateMany({ _id: { $in: hitKeys } }, { $set: { lastUsedAt: now } })
+        : null,
+      countersCollection.updateOne(
+        { _id: embeddingCacheScope(model) },
+        {
+          $inc: { hits: hitKeys.length, misses: stored.length },
+          $set: { provider: model.provider, model: model.model, ...(endpoint && { endpoint }), updatedAt: now },
+        },
+        { upsert: true }
+      ),
+    ]);
+  } catch (error) {
+    console.warn('Failed to update the embedding cache:', error);
+  }
+}
+
+/**
+ * Hit rates and entry counts per model, busiest first
+ */
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats[]> {
+  const countersCollection = await getColl<EmbeddingCacheCounters>(STATS_COLLECTION);
+  const cacheCollection = await getColl<EmbeddingCacheEntry>(CACHE_COLLECTION);
+
+  const [counters, entryCounts] = await Promise.all([
+    countersCollection.find({}).toArray(),
+    cacheCollection.aggregate<{ _id: { provider: string; model: string; endpoint?: string }; entries: number }>([
+      { $group: { _id: { provider: '$provider', model: '$model', endpoint: '$endpoint' }, entries: { $sum: 1 } } },
+    ]).toArray(),
+  ]);
+
+  return counters
+    .map(counter => {
+      const total = counter.hits + counter.misses;
+      const entries = entryCounts.find(count =>
+        count._id.provider === counter.provider &&
+        count._id.model === counter.model &&
+        count._id.endpoint === counter.endpoint
+      );
+
+      return {
+        provider: counter.provider,
+        model: counter.model,
+        ...(counter.endpoint && { endpoint: counter.endpoint }),
+        hits: counter.hits,
+        misses: counter.misses,
+        hit_rate: total > 0 ? counter.hits / total : 0,
+        entries: entries?.entries ?? 0,
+      };
+    })
+    .sort((a, b) => (b.hits + b.misses) - (a.hits + a.misses));
+}
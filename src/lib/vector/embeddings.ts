@@ -1,44 +1,142 @@
-import OpenAI from 'openai';
+import { ObjectId } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { createLLMProvider } from '@/lib/llm/providers';
+import { type EmbeddingModel } from '@/lib/schemas/embeddingModel';
+import { hashEmbedding, DEFAULT_HASH_DIMENSIONS } from './hashEmbedding';
+import { cachedEmbedMany, isEmbeddingCacheEnabled } from './embeddingCache';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export type EmbeddingProviderName = EmbeddingModel['provider'];
+
+const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['openai', 'openai-compatible', 'local', 'fixture'];
 
 /**
- * Generate embeddings for multiple texts using OpenAI's text-embedding-3-small model
- * Batches requests in chunks of 100 for optimal performance
- * 
- * @param texts - Array of text strings to embed
- * @returns Promise resolving to array of embedding vectors (number[][])
+ * Default model per provider when LLM_EMBEDDING_MODEL isn't set
  */
-export async function embedMany(texts: string[]): Promise<number[][]> {
-  if (!texts.length) {
-    return [];
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  'openai': 'text-embedding-3-small',
+  'openai-compatible': 'nomic-embed-text',
+  'local': `hash-${DEFAULT_HASH_DIMENSIONS}`,
+  'fixture': 'fixture-embedding',
+};
+
+/**
+ * Model of chunks embedded before the model was recorded per chunk
+ */
+export const LEGACY_EMBEDDING_MODEL: EmbeddingModel = {
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+  dimensions: 1536,
+};
+
+/**
+ * Embedding model from the environment
+ *
+ * LLM_EMBEDDING_PROVIDER picks the provider, falling back to LLM_PROVIDER when
+ * that provider can embed, then OpenAI. LLM_EMBEDDING_MODEL picks the model.
+ */
+export function getDefaultEmbeddingModel(): EmbeddingModel {
+  const configured = process.env.LLM_EMBEDDING_PROVIDER || process.env.LLM_PROVIDER;
+
+  if (process.env.LLM_EMBEDDING_PROVIDER && !EMBEDDING_PROVIDERS.includes(process.env.LLM_EMBEDDING_PROVIDER as EmbeddingProviderName)) {
+    throw new Error(`Unknown LLM_EMBEDDING_PROVIDER "${process.env.LLM_EMBEDDING_PROVIDER}". Expected one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+
+  const provider = EMBEDDING_PROVIDERS.includes(configured as EmbeddingProviderName)
+    ? configured as EmbeddingProviderName
+    : 'openai';
+
+  return {
+    provider,
+    model: process.env.LLM_EMBEDDING_MODEL || DEFAULT_MODELS[provider],
+  };
+}
+
+/**
+ * The model a project's chunks and queries are embedded with
+ *
+ * @param projectModel - The project's `embedding` field
+ */
+export function resolveEmbeddingModel(projectModel?: EmbeddingModel | null): EmbeddingModel {
+  return projectModel || getDefaultEmbeddingModel();
+}
+
+/**
+ * Load a project's embedding model
+ */
+export async function getProjectEmbeddingModel(projectId: string): Promise<EmbeddingModel> {
+  if (!ObjectId.isValid(projectId)) {
+    return getDefaultEmbeddingModel();
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
+  const projects = await getColl('projects');
+  const project = await projects.findOne(
+    { _id: new ObjectId(projectId) },
+    { projection: { embedding: 1 } }
+  );
+
+  return resolveEmbeddingModel(project?.embedding);
+}
+
+/**
+ * Whether two models produce comparable vectors
+ */
+export function sameEmbeddingModel(a: EmbeddingModel, b: EmbeddingModel): boolean {
+  return a.provider === b.provider && a.model === b.model;
+}
+
+/**
+ * MongoDB filter for chunks embedded with a model. Chunks without a recorded
+ * model count as the legacy model.
+ *
+ * @param field - Field holding the model, `embedding_model` or the staged `embedding_next_model`
+ */
+export function embeddingModelFilter(model: EmbeddingModel, field = 'embedding_model'): Record<string, unknown> {
+  const exact = { [`${field}.provider`]: model.provider, [`${field}.model`]: model.model };
+
+  if (field === 'embedding_model' && sameEmbeddingModel(model, LEGACY_EMBEDDING_MODEL)) {
+    return { $or: [exact, { [field]: { $exists: false } }] };
   }
 
+  return exact;
+}
+
+/**
+ * Embed a batch with one provider call
+ */
+async function embedBatch(texts: string[], model: EmbeddingModel): Promise<number[][]> {
+  switch (model.provider) {
+    case 'local': {
+      const match = model.model.match(/^hash-(\d+)$/);
+      const dimensions = match ? parseInt(match[1], 10) : DEFAULT_HASH_DIMENSIONS;
+      return texts.map(text => hashEmbedding(text, dimensions));
+    }
+
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+      return createLLMProvider('openai', { embedding: model.model }).embed(texts);
+
+    default:
+      return createLLMProvider(model.provider, { embedding: model.model }).embed(texts);
+  }
+}
+
+/**
+ * Embed texts with the provider in batches of 100
+ */
+async function embedWithProvider(texts: string[], model: EmbeddingModel): Promise<number[][]> {
   const BATCH_SIZE = 100;
   const allEmbeddings: number[][] = [];
 
   // Process texts in batches of 100
   for (let i = 0; i < texts.length; i += BATCH_SIZE) {
     const batch = texts.slice(i, i + BATCH_SIZE);
-    
+
     try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: batch,
-        encoding_format: 'float',
-      });
-
-      // Extract embeddings from response and add to results
-      const batchEmbeddings = response.data.map(item => item.embedding);
+      const batchEmbeddings = await embedBatch(batch, model);
       allEmbeddings.push(...batchEmbeddings);
-      
+
     } catch (error) {
       throw new Error(
         `Failed to generate embeddings for batch ${Math.floor(i / BATCH_SIZE) + 1}: ${
@@ -50,3 +148,46 @@ export async function embedMany(texts: string[]): Promise<number[][]> {
 
   return allEmbeddings;
 }
+
+/**
+ * Generate embeddings for multiple texts with the given embedding model
+ * Texts embedded before with the same model come from the embedding cache
+ * (see ./embeddingCache); the rest are batched in chunks of 100
+ *
+ * @param texts - Array of text strings to embed
+ * @param model - Embedding model, defaults to the env model
+ * @returns Promise resolving to array of embedding vectors (number[][])
+ */
+export async function embedMany(texts: string[], model: EmbeddingModel = getDefaultEmbeddingModel()): Promise<number[][]> {
+  if (!texts.length) {
+    return [];
+  }
+
+  const allEmbeddings = isEmbeddingCacheEnabled(model)
+    ? await cachedEmbedMany(texts, model, missing => embedWithProvider(missing, model))
+    : await embedWithProvider(texts, model);
+
+  // A model that changes dimensions mid-run would leave the project unsearchable
+  const dimensions = allEmbeddings[0]?.length;
+  if (allEmbeddings.some(embedding => embedding.length !== dimensions)) {
+    throw new Error(`Embedding model ${model.provider}/${model.model} returned vectors of different dimensions`);
+  }
+
+  return allEmbeddings;
+}
+
+/**
+ * Record the model on a project that doesn't have one yet, so changing the
+ * env default later doesn't silently orphan its vectors
+ */
+export async function pinProjectEmbeddingModel(projectId: string, model: EmbeddingModel): Promise<void> {
+  if (!ObjectId.isValid(projectId)) {
+    return;
+  }
+
+  const projects = await getColl('projects');
+  await projects.updateOne(
+    { _id: new ObjectId(projectId), embedding: { $exists: false } },
+    { $set: { embedding: model } }
+  );
+}
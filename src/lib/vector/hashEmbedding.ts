@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+
+export const DEFAULT_HASH_DIMENSIONS = 384;
+
+/**
+ * Embed text locally by hashing each word into a signed bucket
+ *
+ * A bag-of-words vector with no model download or network call. Texts that
+ * share words score higher than unrelated ones, which is enough for offline
+ * development and tests, not for production-quality semantic search.
+ *
+ * @param text - Text to embed
+ * @param dimensions - Vector length
+ * @returns Unit-length vector (all zeros for text without words)
+ */
+export function hashEmbedding(text: string, dimensions = DEFAULT_HASH_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+  words.forEach(word => {
+    const digest = crypto.createHash('md5').update(word).digest();
+    const bucket = digest.readUInt32BE(0) % dimensions;
+    const sign = digest[4] % 2 === 0 ? 1 : -1;
+    vector[bucket] += sign;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
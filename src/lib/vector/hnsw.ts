@@ -0,0 +1,187 @@
+/**
+ * HNSW Index
+ *
+ * In-memory Hierarchical Navigable Small World graph for approximate nearest
+ * neighbour search by cosine similarity. Vectors are normalised on insert, so
+ * similarity is a dot product. Built for local/dev knowledge bases of up to a
+ * few hundred thousand chunks; nothing is persisted.
+ */
+
+export interface HnswOptions {
+  m?: number; // Max neighbours per node on upper layers (2m on layer 0)
+  efConstruction?: number; // Candidate list size while inserting
+  efSearch?: number; // Candidate list size while searching
+}
+
+interface HnswNode {
+  id: string;
+  vector: number[];
+  neighbours: string[][]; // One list per layer the node lives on
+}
+
+interface Candidate {
+  id: string;
+  score: number;
+}
+
+function normalise(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector.slice() : vector.map(value => value / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export class HnswIndex {
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelFactor: number;
+  private readonly nodes = new Map<string, HnswNode>();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private dimensions: number | null = null;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelFactor = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Add a vector. Ids must be unique; re-adding an id is ignored.
+   */
+  add(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) return;
+
+    if (this.dimensions === null) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new Error(`Vector for ${id} has ${vector.length} dimensions, index has ${this.dimensions}`);
+    }
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+    const node: HnswNode = {
+      id,
+      vector: normalise(vector),
+      neighbours: Array.from({ length: level + 1 }, () => []),
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.searchLayer(node.vector, [current], 1, layer)[0].id;
+    }
+
+    // Connect on every layer the node lives on
+    let entries = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entries, this.efConstruction, layer);
+      const maxNeighbours = layer === 0 ? this.m * 2 : this.m;
+
+      node.neighbours[layer] = candidates.slice(0, this.m).map(candidate => candidate.id);
+
+      node.neighbours[layer].forEach(neighbourId => {
+        const neighbour = this.nodes.get(neighbourId)!;
+        neighbour.neighbours[layer].push(id);
+
+        // Keep only the closest links when a neighbour is over capacity
+        if (neighbour.neighbours[layer].length > maxNeighbours) {
+          neighbour.neighbours[layer] = neighbour.neighbours[layer]
+            .map(linkId => ({ id: linkId, score: dot(neighbour.vector, this.nodes.get(linkId)!.vector) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, maxNeighbours)
+            .map(link => link.id);
+        }
+      });
+
+      entries = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Find the k most similar vectors
+   *
+   * @returns Ids with cosine similarity, most similar first
+   */
+  search(query: number[], k: number): Candidate[] {
+    if (this.entryPoint === null || k <= 0) {
+      return [];
+    }
+
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query has ${query.length} dimensions, index has ${this.dimensions}`);
+    }
+
+    const normalised = normalise(query);
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.searchLayer(normalised, [current], 1, layer)[0].id;
+    }
+
+    return this.searchLayer(normalised, [current], Math.max(this.efSearch, k), 0).slice(0, k);
+  }
+
+  /**
+   * Best-first search on one layer
+   *
+   * @returns Up to `ef` candidates, most similar first
+   */
+  private searchLayer(query: number[], entryIds: string[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<string>(entryIds);
+    const candidates: Candidate[] = entryIds.map(id => ({ id, score: dot(query, this.nodes.get(id)!.vector) }));
+    const results: Candidate[] = [...candidates].sort((a, b) => b.score - a.score);
+
+    while (candidates.length > 0) {
+      // Take the most similar unexpanded candidate
+      candidates.sort((a, b) => b.score - a.score);
+      const closest = candidates.shift()!;
+      const worst = results[results.length - 1];
+
+      if (results.length >= ef && closest.score < worst.score) {
+        break;
+      }
+
+      const neighbours = this.nodes.get(closest.id)!.neighbours[layer] || [];
+      neighbours.forEach(neighbourId => {
+        if (visited.has(neighbourId)) return;
+        visited.add(neighbourId);
+
+        const score = dot(query, this.nodes.get(neighbourId)!.vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          candidates.push({ id: neighbourId, score });
+          results.push({ id: neighbourId, score });
+          results.sort((a, b) => b.score - a.score);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      });
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Project Re-indexing
+ *
+ * Embeds a project's chunks with its embedding model, or migrates the project
+ * to a new model. A migration stages the new vectors in `embedding_next` and
+ * only swaps them in once every chunk has one, so searches keep using the old
+ * model until the switch and never see a mix of dimensions. A failed run
+ * leaves the staged vectors in place and the next run picks up where it
+ * stopped.
+ */
+
+import { ObjectId } from 'mongodb';
+import { getColl } from '@/lib/db/mongo';
+import { type Chunk } from '@/lib/schemas/chunk';
+import { type EmbeddingModel } from '@/lib/schemas/embeddingModel';
+import { embedMany, embeddingModelFilter, pinProjectEmbeddingModel, sameEmbeddingModel } from './embeddings';
+
+const STAGE_BATCH_SIZE = 100;
+
+export interface IndexResult {
+  model: EmbeddingModel;
+  indexed: number; // Chunks embedded by this run
+  migrated: boolean; // The project switched to a new model
+  previousModel?: EmbeddingModel;
+}
+
+/**
+ * Embed chunks that have no vector, or one from another model, in place
+ */
+async function indexWithCurrentModel(projectId: string, model: EmbeddingModel): Promise<IndexResult> {
+  const chunksCollection = await getColl<Chunk>('chunks');
+
+  const pending = await chunksCollection.find({
+    projectId,
+    $or: [
+      { vector: { $ne: true } },
+      { $nor: [embeddingModelFilter(model)] },
+    ],
+  }).toArray();
+
+  if (pending.length === 0) {
+    return { model, indexed: 0, migrated: false };
+  }
+
+  const embeddings = await embedMany(pending.map(chunk => chunk.md_text), model);
+
+  if (embeddings.length !== pending.length) {
+    throw new Error('Mismatch between number of chunks and embeddings generated');
+  }
+
+  const recorded: EmbeddingModel = { ...model, dimensions: embeddings[0].length };
+
+  const bulkResult = await chunksCollection.bulkWrite(pending.map((chunk, index) => ({
+    updateOne: {
+      filter: { _id: chunk._id, projectId },
+      update: {
+        $set: {
+          embedding: embeddings[index],
+          embedding_model: recorded,
+          vector: true,
+          updatedAt: new Date(),
+        },
+        $unset: { embedding_next: '', embedding_next_model: '' },
+      },
+    },
+  })));
+
+  if (bulkResult.modifiedCount !== pending.length) {
+    console.warn(`Expected to update ${pending.length} chunks, but only updated ${bulkResult.modifiedCount}`);
+  }
+
+  await pinProjectEmbeddingModel(projectId, recorded);
+
+  return { model: recorded, indexed: bulkResult.modifiedCount, migrated: false };
+}
+
+/**
+ * Stage new vectors for every chunk, then swap them in and switch the project
+ */
+async function migrateToModel(projectId: string, current: EmbeddingModel, target: EmbeddingModel): Promise<IndexResult> {
+  const chunksCollection = await getColl<Chunk>('chunks');
+  const unstagedFilter = { projectId, $nor: [embeddingModelFilter(target, 'embedding_next_model')] };
+
+  const pending = await chunksCollection.find(unstagedFilter).toArray();
+  let indexed = 0;
+
+  for (let i = 0; i < pending.length; i += STAGE_BATCH_SIZE) {
+    const batch = pending.slice(i, i + STAGE_BATCH_SIZE);
+    const embeddings = await embedMany(batch.map(chunk => chunk.md_text), target);
+
+    await chunksCollection.bulkWrite(batch.map((chunk, index) => ({
+      updateOne: {
+        filter: { _id: chunk._id, projectId },
+        update: {
+          $set: {
+            embedding_next: embeddings[index],
+            embedding_next_model: { ...target, dimensions: embeddings[index].length },
+          },
+        },
+      },
+    })));
+
+    indexed += batch.length;
+  }
+
+  // Chunks ingested while staging still carry only the old model
+  const remaining = await chunksCollection.countDocuments(unstagedFilter);
+  if (remaining > 0) {
+    throw new Error(`${remaining} chunks were added during the migration; run the re-index again to finish it`);
+  }
+
+  const dimensions = await chunksCollection.distinct('embedding_next_model.dimensions', { projectId });
+  if (dimensions.length > 1) {
+    throw new Error(`Embedding model ${target.provider}/${target.model} returned vectors of different dimensions (${dimensions.join(', ')})`);
+  }
+
+  await chunksCollection.updateMany(
+    { projectId, ...embeddingModelFilter(target, 'embedding_next_model') },
+    [
+      {
+        $set: {
+          embedding: '$embedding_next',
+          embedding_model: '$embedding_next_model',
+          vector: true,
+          updatedAt: '$$NOW',
+        },
+      },
+      { $unset: ['embedding_next', 'embedding_next_model'] },
+    ]
+  );
+
+  const recorded: EmbeddingModel = { ...target, dimensions: dimensions[0] as number | undefined };
+
+  const projectsCollection = await getColl('projects');
+  await projectsCollection.updateOne(
+    { _id: new ObjectId(projectId) },
+    { $set: { embedding: recorded, updatedAt: new Date().toISOString() } }
+  );
+
+  return { model: recorded, indexed, migrated: true, previousModel: current };
+}
+
+/**
+ * Index a project's chunks with `target`, migrating the project if `target`
+ * isn't its current model
+ *
+ * @param current - The project's current embedding model
+ * @param target - The model to index with, defaults to `current`
+ */
+export async function indexProjectChunks({
+  projectId,
+  current,
+  target = current
+}: {
+  projectId: string;
+  current: EmbeddingModel;
+  target?: EmbeddingModel;
+}): Promise<IndexResult> {
+  if (sameEmbeddingModel(current, target)) {
+    return indexWithCurrentModel(projectId, current);
+  }
+
+  return migrateToModel(projectId, current, target);
+}
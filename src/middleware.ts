@@ -3,7 +3,9 @@ import { NextResponse } from 'next/server';
 
 const isProtectedRoute = createRouteMatcher([
   '/projects(.*)',
-  '/api/((?!health$).*)', // Protect all /api/* routes except /api/health
+  // Protect all /api/* routes except /api/health and the scheduled re-sync and
+  // resume, which Vercel Cron calls without a session (they check CRON_SECRET)
+  '/api/((?!health$|ingest/resync$|ingest/resume$).*)',
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
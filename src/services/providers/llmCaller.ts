@@ -0,0 +1,31 @@
+import { getLLMProvider, type LLMProvider } from '@/lib/llm/providers';
+
+/**
+ * Build a JSON-only model caller for services that take a `callModel` function
+ * @param provider - LLM provider to call, defaults to the env provider
+ * @returns Function sending a prompt to the fast model and resolving to the raw JSON response
+ */
+export function createJSONCaller(provider: LLMProvider = getLLMProvider()): (prompt: string) => Promise<string> {
+  return async (prompt: string) => {
+    try {
+      return await provider.chatJSON({
+        messages: [
+          {
+            role: 'system',
+            content: 'Return ONLY valid JSON, no commentary.'
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        tier: 'fast',
+        temperature: 0.2,
+        maxTokens: 1000,
+      });
+    } catch (error) {
+      console.error('LLM API error:', error);
+      throw new Error(`LLM API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+}